@@ -183,6 +183,19 @@ export class BacktrackingManager {
 		};
 	}
 
+	/**
+	 * Restore the state a recorded thought left behind, after the backtracks suggested before it
+	 */
+	restore(thought: ThoughtData, backtracks: BacktrackPoint[] = []): void {
+		for (const point of backtracks) {
+			this.thoughtConfidenceMap.set(point.thoughtNumber, point.confidence);
+			this.backtrackHistory.push(point);
+		}
+		if (thought.confidence !== undefined) {
+			this.thoughtConfidenceMap.set(thought.thought_number, thought.confidence);
+		}
+	}
+
 	/**
 	 * Get backtrack history
 	 */
@@ -0,0 +1,262 @@
+/**
+ * Capability inference for tools without explicit capability metadata
+ * Scores categories from the stemmed words of a tool's name and description, the
+ * property names of its input schema and its MCP annotations, so a tool can belong
+ * to several categories with a confidence each. Input and output types are read
+ * from schema properties, formats and description cues.
+ */
+
+import { analyze, stem, tokenize } from './text-analysis.js';
+import { Tool, ToolCapability, ToolCategoryConfidence } from './types.js';
+
+interface CategoryRule {
+	category: string;
+	words: string[];  // Words of the name and description
+	properties: string[];  // Words of input property names
+}
+
+export const CATEGORY_RULES: CategoryRule[] = [
+	{
+		category: 'search',
+		words: ['search', 'find', 'query', 'lookup', 'seek', 'locate', 'grep', 'discover'],
+		properties: ['query', 'search', 'keyword', 'keywords', 'term', 'pattern'],
+	},
+	{
+		category: 'data',
+		words: ['data', 'database', 'storage', 'sql', 'table', 'record', 'row', 'collection', 'dataset'],
+		properties: ['sql', 'table', 'database', 'collection', 'record', 'row'],
+	},
+	{
+		category: 'analysis',
+		words: ['analysis', 'analyze', 'evaluate', 'inspect', 'examine', 'review', 'metric', 'statistic', 'classify'],
+		properties: ['metric', 'metrics'],
+	},
+	{
+		category: 'generation',
+		words: ['create', 'generate', 'build', 'compose', 'draft', 'render', 'produce', 'synthesize'],
+		properties: ['prompt', 'template'],
+	},
+	{
+		category: 'transformation',
+		words: ['transform', 'convert', 'format', 'translate', 'parse', 'encode', 'decode', 'compress', 'resize'],
+		properties: ['encoding', 'conversion'],
+	},
+	{
+		category: 'communication',
+		words: ['communicate', 'send', 'notify', 'notification', 'email', 'message', 'chat', 'sms', 'reply'],
+		properties: ['recipient', 'recipients', 'subject', 'channel', 'cc'],
+	},
+	{
+		category: 'filesystem',
+		words: ['file', 'directory', 'folder', 'filesystem'],
+		properties: ['path', 'file', 'filename', 'filepath', 'directory', 'dir', 'folder'],
+	},
+	{
+		category: 'web',
+		words: ['web', 'url', 'page', 'website', 'http', 'browser', 'scrape', 'crawl', 'html', 'download'],
+		properties: ['url', 'uri', 'href', 'link', 'website', 'domain'],
+	},
+	{
+		category: 'execution',
+		words: ['run', 'execute', 'command', 'shell', 'script', 'terminal', 'invoke'],
+		properties: ['command', 'cmd', 'script', 'code', 'argv'],
+	},
+];
+
+// Evidence points per matched word; names are the strongest signal
+const NAME_WEIGHT = 3;
+const DESCRIPTION_WEIGHT = 1;
+const PROPERTY_WEIGHT = 2;
+// Points at which a category reaches a confidence of 1 - 1/e
+const CONFIDENCE_SCALE = 4;
+// Categories below this confidence are dropped
+export const MIN_CATEGORY_CONFIDENCE = 0.2;
+
+export const TAG_RULES: Array<{ tag: string; words: string[] }> = [
+	{ tag: 'read', words: ['read', 'get', 'fetch', 'retrieve', 'load', 'view', 'show', 'download'] },
+	{ tag: 'write', words: ['write', 'create', 'update', 'save', 'insert', 'edit', 'modify', 'upload', 'append', 'put', 'send'] },
+	{ tag: 'delete', words: ['delete', 'remove', 'erase', 'drop', 'destroy', 'purge'] },
+	{ tag: 'list', words: ['list', 'browse', 'enumerate'] },
+	{ tag: 'transform', words: ['transform', 'convert', 'translate', 'parse'] },
+	{ tag: 'query', words: ['query', 'search', 'sql'] },
+];
+
+export const INPUT_TYPE_RULES: Array<{ type: string; properties: string[]; formats?: string[] }> = [
+	{ type: 'url', properties: ['url', 'uri', 'href', 'link'], formats: ['uri', 'url', 'uri-reference'] },
+	{ type: 'file_path', properties: ['path', 'file', 'filename', 'filepath'] },
+	{ type: 'directory', properties: ['directory', 'dir', 'folder'] },
+	{ type: 'query', properties: ['query', 'search', 'keyword', 'keywords', 'term', 'pattern'] },
+	{ type: 'sql', properties: ['sql'] },
+	{ type: 'code', properties: ['code', 'script', 'source'] },
+	{ type: 'command', properties: ['command', 'cmd'] },
+	{ type: 'email', properties: ['email', 'recipient', 'recipients'], formats: ['email'] },
+	{ type: 'text', properties: ['text', 'content', 'message', 'body', 'prompt'] },
+	{ type: 'image', properties: ['image', 'photo', 'screenshot'] },
+	{ type: 'date', properties: ['date', 'timestamp', 'since', 'until'], formats: ['date', 'date-time'] },
+];
+
+export const OUTPUT_TYPE_RULES: Array<{ type: string; words: string[] }> = [
+	{ type: 'json', words: ['json'] },
+	{ type: 'markdown', words: ['markdown'] },
+	{ type: 'html', words: ['html'] },
+	{ type: 'image', words: ['image', 'screenshot', 'png', 'jpeg', 'photo', 'picture'] },
+	{ type: 'table', words: ['row', 'table', 'csv', 'spreadsheet'] },
+	{ type: 'list', words: ['list', 'results'] },
+	{ type: 'file', words: ['download', 'export'] },
+];
+
+export const COMPLEXITY_TERMS = ['api', 'advanced', 'complex', 'sophisticated', 'ml', 'ai'];
+
+// Tools with this many input properties are considered complex
+const COMPLEX_PROPERTY_COUNT = 8;
+
+const stems = (words: string[]) => new Set(words.map(stem));
+
+const COMPILED_CATEGORIES = CATEGORY_RULES.map(rule => ({
+	category: rule.category,
+	words: stems(rule.words),
+	properties: stems(rule.properties),
+}));
+const COMPILED_TAGS = TAG_RULES.map(rule => ({ tag: rule.tag, words: stems(rule.words) }));
+const COMPILED_INPUT_TYPES = INPUT_TYPE_RULES.map(rule => ({ ...rule, properties: stems(rule.properties) }));
+const COMPILED_OUTPUT_TYPES = OUTPUT_TYPE_RULES.map(rule => ({ type: rule.type, words: stems(rule.words) }));
+const COMPILED_COMPLEXITY_TERMS = stems(COMPLEXITY_TERMS);
+// Tools taking one of these properties reach out over the network
+const NETWORK_PROPERTIES = stems(['url', 'uri', 'href', 'link', 'domain', 'host']);
+
+interface SchemaProperty {
+	name: string;
+	terms: Set<string>;
+	type?: string;
+	format?: string;
+}
+
+/**
+ * Infer capabilities from a tool's name, description, input schema and annotations
+ */
+export function inferCapabilities(tool: Tool): ToolCapability {
+	const nameTerms = new Set(analyze(tool.name));
+	const descriptionTerms = new Set(analyze(tool.description));
+	const textTerms = new Set([...nameTerms, ...descriptionTerms]);
+	const properties = readProperties(tool.inputSchema);
+	const propertyTerms = new Set(properties.flatMap(property => Array.from(property.terms)));
+
+	const categories = scoreCategories(nameTerms, descriptionTerms, propertyTerms);
+
+	return {
+		category: categories[0]?.category ?? 'general',
+		categories: categories.length > 0 ? categories : undefined,
+		tags: inferTags(tool, textTerms, propertyTerms),
+		inputTypes: optional(inferInputTypes(properties)),
+		outputTypes: optional(inferOutputTypes(descriptionTerms)),
+		complexity: inferComplexity(tool, textTerms, properties),
+	};
+}
+
+/**
+ * Categories with enough evidence, most confident first
+ */
+function scoreCategories(
+	nameTerms: Set<string>,
+	descriptionTerms: Set<string>,
+	propertyTerms: Set<string>,
+): ToolCategoryConfidence[] {
+	return COMPILED_CATEGORIES
+		.map(rule => {
+			const points = countIn(rule.words, nameTerms) * NAME_WEIGHT
+				+ countIn(rule.words, descriptionTerms) * DESCRIPTION_WEIGHT
+				+ countIn(rule.properties, propertyTerms) * PROPERTY_WEIGHT;
+			const confidence = 1 - Math.exp(-points / CONFIDENCE_SCALE);
+			return { category: rule.category, confidence: Math.round(confidence * 100) / 100 };
+		})
+		.filter(entry => entry.confidence >= MIN_CATEGORY_CONFIDENCE)
+		.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Tags from words and properties; explicit annotations override what the words suggest
+ */
+function inferTags(tool: Tool, textTerms: Set<string>, propertyTerms: Set<string>): string[] {
+	const tags = new Set(COMPILED_TAGS
+		.filter(rule => countIn(rule.words, textTerms) > 0)
+		.map(rule => rule.tag));
+
+	if (countIn(NETWORK_PROPERTIES, propertyTerms) > 0) tags.add('network');
+
+	const annotations = tool.annotations;
+	if (annotations?.readOnlyHint === true) {
+		tags.add('read');
+		tags.add('read-only');
+		tags.delete('write');
+		tags.delete('delete');
+	} else if (annotations?.destructiveHint === true) {
+		tags.add('write');
+		tags.add('delete');
+		tags.add('destructive');
+	}
+	if (annotations?.idempotentHint === true) tags.add('idempotent');
+	if (annotations?.openWorldHint === true) tags.add('network');
+	if (annotations?.openWorldHint === false) tags.delete('network');
+
+	return Array.from(tags);
+}
+
+function inferInputTypes(properties: SchemaProperty[]): string[] {
+	const types = new Set<string>();
+	for (const property of properties) {
+		for (const rule of COMPILED_INPUT_TYPES) {
+			if (countIn(rule.properties, property.terms) > 0
+				|| (property.format && rule.formats?.includes(property.format))) {
+				types.add(rule.type);
+			}
+		}
+		if (property.type === 'object' || property.type === 'array') types.add('json');
+	}
+	return Array.from(types);
+}
+
+function inferOutputTypes(descriptionTerms: Set<string>): string[] {
+	return COMPILED_OUTPUT_TYPES
+		.filter(rule => countIn(rule.words, descriptionTerms) > 0)
+		.map(rule => rule.type);
+}
+
+function inferComplexity(
+	tool: Tool,
+	textTerms: Set<string>,
+	properties: SchemaProperty[],
+): 'low' | 'medium' | 'high' {
+	if (countIn(COMPILED_COMPLEXITY_TERMS, textTerms) > 0 || properties.length >= COMPLEX_PROPERTY_COUNT) {
+		return 'high';
+	}
+	if (tool.description.length < 100 && properties.length <= 2) return 'low';
+	return 'medium';
+}
+
+/**
+ * Top-level properties of a JSON schema with the stemmed words of their names
+ */
+function readProperties(schema: Record<string, unknown>): SchemaProperty[] {
+	const properties = schema.properties;
+	if (!properties || typeof properties !== 'object') return [];
+
+	return Object.entries(properties as Record<string, unknown>).map(([name, definition]) => {
+		const spec = definition && typeof definition === 'object' ? definition as Record<string, unknown> : {};
+		return {
+			name,
+			terms: new Set(tokenize(name).map(stem)),
+			type: typeof spec.type === 'string' ? spec.type : undefined,
+			format: typeof spec.format === 'string' ? spec.format : undefined,
+		};
+	});
+}
+
+function countIn(words: Set<string>, terms: Set<string>): number {
+	let count = 0;
+	for (const word of words) {
+		if (terms.has(word)) count++;
+	}
+	return count;
+}
+
+const optional = (values: string[]) => values.length > 0 ? values : undefined;
@@ -0,0 +1,155 @@
+/**
+ * Declarative capability overrides
+ * A JSON file maps tool names or glob patterns to curated capability metadata and
+ * aliases, merged over explicit and inferred capabilities. Overrides can be
+ * reloaded at runtime: every tool keeps the capabilities it had before the first
+ * override, so a reload starts from those again.
+ */
+
+import { readFileSync } from 'node:fs';
+import * as v from 'valibot';
+import { Tool, ToolCapability } from './types.js';
+import { logger } from './logging.js';
+
+const StringListSchema = v.array(v.pipe(v.string(), v.minLength(1)));
+
+const CapabilityOverrideSchema = v.strictObject({
+	category: v.optional(v.pipe(v.string(), v.minLength(1))),
+	tags: v.optional(StringListSchema),
+	complexity: v.optional(v.picklist(['low', 'medium', 'high'])),
+	costLevel: v.optional(v.picklist(['free', 'low', 'medium', 'high'])),
+	inputTypes: v.optional(StringListSchema),
+	outputTypes: v.optional(StringListSchema),
+	aliases: v.optional(StringListSchema),
+});
+
+const CapabilityOverridesFileSchema = v.object({
+	tools: v.record(v.pipe(v.string(), v.minLength(1)), CapabilityOverrideSchema),
+});
+
+export type CapabilityOverride = v.InferOutput<typeof CapabilityOverrideSchema>;
+
+/**
+ * Override for every tool whose name matches the pattern; * matches any run of
+ * characters and ? a single one
+ */
+export interface CapabilityOverrideRule {
+	pattern: string;
+	override: CapabilityOverride;
+}
+
+/**
+ * Load and validate a capability overrides file
+ */
+export function loadCapabilityOverrides(filePath: string): CapabilityOverrideRule[] {
+	const raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+	const result = v.safeParse(CapabilityOverridesFileSchema, raw);
+	if (!result.success) {
+		throw new Error(
+			`Capability overrides validation failed for ${filePath}: ${result.issues.map(issue => {
+				const path = issue.path?.map(item => String(item.key)).join('.');
+				return path ? `${path}: ${issue.message}` : issue.message;
+			}).join('; ')}`,
+		);
+	}
+	return Object.entries(result.output.tools).map(([pattern, override]) => ({ pattern, override }));
+}
+
+const isGlob = (pattern: string) => /[*?]/.test(pattern);
+
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('')
+		.map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+		.join('');
+	return new RegExp(`^${source}$`);
+}
+
+// Characters of a pattern other than wildcards; more literal characters is more specific
+const specificity = (pattern: string) => pattern.replace(/[*?]/g, '').length;
+
+/**
+ * Capabilities and aliases a tool had before any override
+ */
+interface ToolBase {
+	capabilities?: ToolCapability;
+	aliases?: string[];
+}
+
+export class CapabilityOverrides {
+	private rules: Array<CapabilityOverrideRule & { matcher: RegExp; exact: boolean }> = [];
+	private bases: WeakMap<Tool, ToolBase> = new WeakMap();
+
+	constructor(rules: CapabilityOverrideRule[] = []) {
+		this.setRules(rules);
+	}
+
+	/**
+	 * Replace the rules; globs apply from least to most specific and exact names last
+	 */
+	setRules(rules: CapabilityOverrideRule[]): void {
+		this.rules = rules
+			.map(rule => ({ ...rule, matcher: globToRegExp(rule.pattern), exact: !isGlob(rule.pattern) }))
+			.sort((a, b) => Number(a.exact) - Number(b.exact) || specificity(a.pattern) - specificity(b.pattern));
+	}
+
+	get size(): number {
+		return this.rules.length;
+	}
+
+	/**
+	 * Merged override for a tool name, or undefined when no rule matches
+	 */
+	resolve(toolName: string): CapabilityOverride | undefined {
+		const matching = this.rules.filter(rule => rule.matcher.test(toolName));
+		if (matching.length === 0) return undefined;
+		return Object.assign({}, ...matching.map(rule => rule.override));
+	}
+
+	/**
+	 * Merge the overrides into every tool; returns how many tools were overridden
+	 */
+	apply(tools: Map<string, Tool>): number {
+		let overridden = 0;
+		for (const tool of tools.values()) {
+			let base = this.bases.get(tool);
+			if (!base) {
+				// Tools never overridden are left untouched while there are no rules
+				if (this.rules.length === 0) continue;
+				base = { capabilities: tool.capabilities, aliases: tool.aliases };
+				this.bases.set(tool, base);
+			}
+
+			const override = this.resolve(tool.name);
+			tool.capabilities = override ? mergeCapabilities(base.capabilities, override) : base.capabilities;
+			tool.aliases = override?.aliases ?? base.aliases;
+			if (override) overridden++;
+		}
+
+		if (this.rules.length > 0) {
+			logger.info('Capability overrides applied', {
+				rules: this.rules.length,
+				overriddenTools: overridden,
+				totalTools: tools.size,
+			});
+		}
+		return overridden;
+	}
+}
+
+/**
+ * Override fields replace the base ones; a new category also replaces inferred categories
+ */
+function mergeCapabilities(base: ToolCapability | undefined, override: CapabilityOverride): ToolCapability {
+	const current = base ?? { category: 'general', tags: [] };
+	return {
+		...current,
+		category: override.category ?? current.category,
+		categories: override.category !== undefined ? undefined : current.categories,
+		tags: override.tags ?? current.tags,
+		complexity: override.complexity ?? current.complexity,
+		costLevel: override.costLevel ?? current.costLevel,
+		inputTypes: override.inputTypes ?? current.inputTypes,
+		outputTypes: override.outputTypes ?? current.outputTypes,
+	};
+}
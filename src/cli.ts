@@ -0,0 +1,123 @@
+/**
+ * Command line session export and import
+ * `export [session_id] [--format json|ndjson] [--output file]` writes a session export to
+ * stdout or a file, by default of the most recently active session; `import <file|-> [--session-id id] [--on-conflict fail|replace|rename]`
+ * imports one and prints the imported session's summary. Both use the configured database.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { logger } from './logging.js';
+import { ToolAwareSequentialThinkingServer } from './server.js';
+
+const SESSION_COMMANDS = ['export', 'import'] as const;
+
+export type SessionCommand = typeof SESSION_COMMANDS[number];
+
+const USAGE = `Usage:
+  mcp-sequentialthinking-tools export [session_id] [--format json|ndjson] [--output file]
+  mcp-sequentialthinking-tools import <file|-> [--session-id id] [--on-conflict fail|replace|rename]`;
+
+export function isSessionCommand(command: string | undefined): command is SessionCommand {
+	return SESSION_COMMANDS.includes(command as SessionCommand);
+}
+
+const pickOption = <T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined => {
+	if (value === undefined) return undefined;
+	if (!allowed.includes(value as T)) {
+		throw new Error(`Invalid --${name} "${value}"; expected one of ${allowed.join(', ')}`);
+	}
+	return value as T;
+};
+
+type ToolResult = { structuredContent: Record<string, unknown>; isError?: boolean };
+
+function unwrap(result: ToolResult): Record<string, unknown> {
+	if (result.isError) {
+		throw new Error(String(result.structuredContent.error));
+	}
+	return result.structuredContent;
+}
+
+/**
+ * The most recently active session with thoughts; the process' own default session is new and empty
+ */
+async function latestSessionId(server: ToolAwareSequentialThinkingServer): Promise<string> {
+	const { sessions } = unwrap(await server.listSessions()) as {
+		sessions: Array<{ session_id: string; thought_count: number }>;
+	};
+	const latest = sessions.find(session => session.thought_count > 0);
+	if (!latest) {
+		throw new Error('No sessions to export');
+	}
+	return latest.session_id;
+}
+
+async function exportCommand(server: ToolAwareSequentialThinkingServer, args: string[]): Promise<void> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			format: { type: 'string' },
+			output: { type: 'string', short: 'o' },
+		},
+	});
+	const format = pickOption('format', values.format, ['json', 'ndjson'] as const);
+	const payload = unwrap(await server.exportSession({
+		session_id: positionals[0] ?? await latestSessionId(server),
+		format,
+	}));
+
+	const text = typeof payload.data === 'string' ? payload.data : `${JSON.stringify(payload.data, null, 2)}\n`;
+	if (values.output) {
+		writeFileSync(values.output, text);
+		process.stderr.write(`Exported ${String(payload.thought_count)} thoughts of session "${String(payload.session_id)}" to ${values.output}\n`);
+	} else {
+		process.stdout.write(text);
+	}
+}
+
+async function importCommand(server: ToolAwareSequentialThinkingServer, args: string[]): Promise<void> {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			'session-id': { type: 'string' },
+			'on-conflict': { type: 'string' },
+		},
+	});
+	const source = positionals[0];
+	if (!source) {
+		throw new Error('import needs a file to read, or - for stdin');
+	}
+
+	const payload = unwrap(await server.importSession({
+		data: readFileSync(source === '-' ? 0 : source, 'utf-8'),
+		session_id: values['session-id'],
+		on_conflict: pickOption('on-conflict', values['on-conflict'], ['fail', 'replace', 'rename'] as const),
+	}));
+	process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+}
+
+/**
+ * Run a session subcommand and return the process exit code
+ */
+export async function runSessionCommand(
+	server: ToolAwareSequentialThinkingServer,
+	command: SessionCommand,
+	args: string[],
+): Promise<number> {
+	try {
+		await server.initialize();
+		if (command === 'export') {
+			await exportCommand(server, args);
+		} else {
+			await importCommand(server, args);
+		}
+		return 0;
+	} catch (error) {
+		logger.error('Session command failed', error, { command });
+		process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+		return 1;
+	}
+}
@@ -16,11 +16,19 @@ export interface BacktrackingScoringConfig {
 export interface ToolChainScoringConfig {
 	prefixMatchWeight: number;
 	keywordMatchWeight: number;
+	subsequenceMatchWeight: number;  // Per tool shared in order, gaps allowed
+	editSimilarityWeight: number;  // Scales the [0, 1] weighted edit similarity
+	suffixMatchWeight: number;  // Per recency-weighted tool of the matched suffix
 	highSuccessBonus: number;
 	recentUseBonus: number;
 	recentUseDaysThreshold: number;
 	highSuccessRateThreshold: number;
 	confidenceWeight: number;
+	modelOrder: number;  // Longest tool context used by the next-tool model
+	failureWeight: number;  // Weight of a failed chain use relative to a successful one
+	recommendedWeight: number;  // Weight of a chain use learned from recommendations relative to an executed one
+	smoothing: number;  // Additive smoothing of the unigram next-tool distribution
+	minProbability: number;  // Next-tool candidates below this probability are not suggested
 }
 
 export interface ScoringConfigShape {
@@ -47,11 +55,19 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfigShape = {
 	toolChains: {
 		prefixMatchWeight: 10,
 		keywordMatchWeight: 5,
+		subsequenceMatchWeight: 4,
+		editSimilarityWeight: 10,
+		suffixMatchWeight: 8,
 		highSuccessBonus: 5,
 		recentUseBonus: 3,
 		recentUseDaysThreshold: 7,
 		highSuccessRateThreshold: 0.8,
 		confidenceWeight: 0.3,
+		modelOrder: 3,
+		failureWeight: 0.25,
+		recommendedWeight: 0.5,
+		smoothing: 0.5,
+		minProbability: 0.05,
 	},
 	logging: {
 		level: LogLevel.INFO,
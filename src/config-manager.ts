@@ -1,15 +1,31 @@
 import { DEFAULT_SCORING_CONFIG, ScoringConfigShape } from './config-constants.js';
 import { loadScoringConfig } from './config.js';
 import { logger, LogLevel } from './logging.js';
+import { ToolBudgetLimits } from './tool-budget.js';
+import { CapabilityOverrideRule, loadCapabilityOverrides } from './capability-overrides.js';
+import { STORAGE_BACKENDS, StorageBackend } from './thought-store.js';
 
 export interface RuntimeConfig {
 	maxHistorySize: number;
 	enablePersistence: boolean;
+	storageBackend: StorageBackend;  // Where thoughts are stored when persistence is enabled
 	dbPath: string;
+	jsonlPath: string;  // Log file of the jsonl storage backend
+	dbBackupBeforeMigrate: boolean;  // Copy the database before applying schema migrations
+	dbMigrationDryRun: boolean;  // Only report pending schema migrations; persistence stays off
 	enableBacktracking: boolean;
 	minConfidence: number;
 	enableDAG: boolean;
 	enableToolChains: boolean;
+	sessionIdleTimeoutMs: number;
+	maxSessions: number;
+	toolDiscoveryConfigPath?: string;
+	toolDiscoveryTimeoutMs: number;
+	toolDiscoveryExclude: string[];
+	strictToolValidation: boolean;
+	strictToolSafety: boolean;  // Reject destructive or side-effecting tools without a safeguard
+	toolBudget: ToolBudgetLimits;  // Default spend limits of every session
+	toolCapabilitiesPath?: string;  // JSON file of capability overrides by tool name or glob
 	logLevel: LogLevel;
 }
 
@@ -21,6 +37,23 @@ const parseIntegerWithFallback = (value: string | undefined, fallback: number):
 	return Math.max(1, parsed);
 };
 
+// Unset or invalid limits mean no limit
+const parseOptionalLimit = (value: string | undefined): number | undefined => {
+	const parsed = value !== undefined && value.trim() !== '' ? Number(value) : NaN;
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const parseStorageBackend = (value: string | undefined): StorageBackend => {
+	if (!value) {
+		return 'sqlite';
+	}
+	if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+		logger.warn('Unknown STORAGE_BACKEND, using sqlite', { value, expected: STORAGE_BACKENDS });
+		return 'sqlite';
+	}
+	return value as StorageBackend;
+};
+
 export class ConfigurationManager {
 	private scoringConfig: ScoringConfigShape;
 	private runtimeConfig: RuntimeConfig;
@@ -36,9 +69,11 @@ export class ConfigurationManager {
 		logger.info('Configuration refreshed from environment', {
 			maxHistorySize: this.runtimeConfig.maxHistorySize,
 			enablePersistence: this.runtimeConfig.enablePersistence,
+			storageBackend: this.runtimeConfig.storageBackend,
 			enableBacktracking: this.runtimeConfig.enableBacktracking,
 			enableDAG: this.runtimeConfig.enableDAG,
 			enableToolChains: this.runtimeConfig.enableToolChains,
+			maxSessions: this.runtimeConfig.maxSessions,
 			logLevel: this.runtimeConfig.logLevel,
 		});
 	}
@@ -55,11 +90,27 @@ export class ConfigurationManager {
 		return { ...this.runtimeConfig };
 	}
 
+	/**
+	 * Read the capability overrides file; no configured file means no overrides
+	 */
+	loadCapabilityOverrides(filePath = this.runtimeConfig.toolCapabilitiesPath): CapabilityOverrideRule[] {
+		if (!filePath) {
+			return [];
+		}
+		const rules = loadCapabilityOverrides(filePath);
+		logger.info('Capability overrides loaded', { filePath, rules: rules.length });
+		return rules;
+	}
+
 	private loadRuntimeConfig(env: NodeJS.ProcessEnv): RuntimeConfig {
 		const scoring = this.scoringConfig ?? DEFAULT_SCORING_CONFIG;
 		const maxHistorySize = parseIntegerWithFallback(env.MAX_HISTORY_SIZE, 1000);
 		const enablePersistence = env.ENABLE_PERSISTENCE !== 'false';
+		const storageBackend = parseStorageBackend(env.STORAGE_BACKEND);
 		const dbPath = env.DB_PATH || './mcp-thinking.db';
+		const jsonlPath = env.JSONL_PATH || './mcp-thinking.jsonl';
+		const dbBackupBeforeMigrate = env.DB_BACKUP_BEFORE_MIGRATE !== 'false';
+		const dbMigrationDryRun = env.DB_MIGRATION_DRY_RUN === 'true';
 		const enableBacktrackingEnv = env.ENABLE_BACKTRACKING;
 		const enableBacktracking = enableBacktrackingEnv !== undefined
 			? enableBacktrackingEnv === 'true'
@@ -67,16 +118,44 @@ export class ConfigurationManager {
 
 		const enableDAG = env.ENABLE_DAG === 'true';
 		const enableToolChains = env.ENABLE_TOOL_CHAINS !== 'false';
+		const sessionIdleTimeoutMs = parseIntegerWithFallback(env.SESSION_IDLE_TIMEOUT_MS, 30 * 60 * 1000);
+		const maxSessions = parseIntegerWithFallback(env.MAX_SESSIONS, 100);
+		const toolDiscoveryConfigPath = env.MCP_CONFIG_PATH || undefined;
+		const toolDiscoveryTimeoutMs = parseIntegerWithFallback(env.TOOL_DISCOVERY_TIMEOUT_MS, 10000);
+		const toolDiscoveryExclude = (env.TOOL_DISCOVERY_EXCLUDE ?? 'mcp-sequentialthinking-tools')
+			.split(',')
+			.map(name => name.trim())
+			.filter(Boolean);
+		const strictToolValidation = env.STRICT_TOOL_VALIDATION === 'true';
+		const strictToolSafety = env.STRICT_TOOL_SAFETY === 'true';
+		const toolBudget: ToolBudgetLimits = {
+			maxHighCostCalls: parseOptionalLimit(env.TOOL_BUDGET_MAX_HIGH_COST_CALLS),
+			maxCostUnits: parseOptionalLimit(env.TOOL_BUDGET_MAX_COST_UNITS),
+		};
+		const toolCapabilitiesPath = env.TOOL_CAPABILITIES_PATH || undefined;
 		const logLevel = (env.LOG_LEVEL as LogLevel) || scoring.logging.level;
 
 		return {
 			maxHistorySize,
 			enablePersistence,
+			storageBackend,
 			dbPath,
+			jsonlPath,
+			dbBackupBeforeMigrate,
+			dbMigrationDryRun,
 			enableBacktracking,
 			minConfidence: scoring.backtracking.minConfidence,
 			enableDAG,
 			enableToolChains,
+			sessionIdleTimeoutMs,
+			maxSessions,
+			toolDiscoveryConfigPath,
+			toolDiscoveryTimeoutMs,
+			toolDiscoveryExclude,
+			strictToolValidation,
+			strictToolSafety,
+			toolBudget,
+			toolCapabilitiesPath,
 			logLevel,
 		};
 	}
@@ -38,11 +38,19 @@ const backtrackingSchema = v.object({
 const toolChainSchema = v.object({
 	prefixMatchWeight: v.pipe(v.number(), v.minValue(0)),
 	keywordMatchWeight: v.pipe(v.number(), v.minValue(0)),
+	subsequenceMatchWeight: v.pipe(v.number(), v.minValue(0)),
+	editSimilarityWeight: v.pipe(v.number(), v.minValue(0)),
+	suffixMatchWeight: v.pipe(v.number(), v.minValue(0)),
 	highSuccessBonus: v.pipe(v.number(), v.minValue(0)),
 	recentUseBonus: v.pipe(v.number(), v.minValue(0)),
 	recentUseDaysThreshold: v.pipe(v.number(), v.minValue(1)),
 	highSuccessRateThreshold: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
 	confidenceWeight: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
+	modelOrder: v.pipe(v.number(), v.minValue(1)),
+	failureWeight: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
+	recommendedWeight: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
+	smoothing: v.pipe(v.number(), v.minValue(0)),
+	minProbability: v.pipe(v.number(), v.minValue(0), v.maxValue(1)),
 });
 
 const scoringSchema = v.object({
@@ -70,11 +78,20 @@ const sanitizeToolChain = (config: ToolChainScoringConfig): ToolChainScoringConf
 	...config,
 	prefixMatchWeight: Math.max(0, config.prefixMatchWeight),
 	keywordMatchWeight: Math.max(0, config.keywordMatchWeight),
+	subsequenceMatchWeight: Math.max(0, config.subsequenceMatchWeight),
+	editSimilarityWeight: Math.max(0, config.editSimilarityWeight),
+	suffixMatchWeight: Math.max(0, config.suffixMatchWeight),
 	highSuccessBonus: Math.max(0, config.highSuccessBonus),
 	recentUseBonus: Math.max(0, config.recentUseBonus),
 	recentUseDaysThreshold: Math.max(1, Math.floor(config.recentUseDaysThreshold)),
 	highSuccessRateThreshold: clampValue(config.highSuccessRateThreshold, 0, 1),
 	confidenceWeight: clampValue(config.confidenceWeight, 0, 1),
+	modelOrder: Math.max(1, Math.floor(config.modelOrder)),
+	failureWeight: clampValue(config.failureWeight, 0, 1),
+	recommendedWeight: clampValue(config.recommendedWeight, 0, 1),
+	// Zero smoothing would give unseen tools and contexts no probability mass at all
+	smoothing: Math.max(0.01, config.smoothing),
+	minProbability: clampValue(config.minProbability, 0, 1),
 });
 
 const validateScoringConfig = (config: ScoringConfigShape): ScoringConfigShape => {
@@ -161,6 +178,18 @@ export const loadScoringConfig = (env: NodeJS.ProcessEnv = process.env): Scoring
 				env.TOOL_CHAIN_KEYWORD_MATCH_WEIGHT,
 				DEFAULT_SCORING_CONFIG.toolChains.keywordMatchWeight,
 			),
+			subsequenceMatchWeight: parseNumber(
+				env.TOOL_CHAIN_SUBSEQUENCE_MATCH_WEIGHT,
+				DEFAULT_SCORING_CONFIG.toolChains.subsequenceMatchWeight,
+			),
+			editSimilarityWeight: parseNumber(
+				env.TOOL_CHAIN_EDIT_SIMILARITY_WEIGHT,
+				DEFAULT_SCORING_CONFIG.toolChains.editSimilarityWeight,
+			),
+			suffixMatchWeight: parseNumber(
+				env.TOOL_CHAIN_SUFFIX_MATCH_WEIGHT,
+				DEFAULT_SCORING_CONFIG.toolChains.suffixMatchWeight,
+			),
 			highSuccessBonus: parseNumber(
 				env.TOOL_CHAIN_HIGH_SUCCESS_BONUS,
 				DEFAULT_SCORING_CONFIG.toolChains.highSuccessBonus,
@@ -181,6 +210,26 @@ export const loadScoringConfig = (env: NodeJS.ProcessEnv = process.env): Scoring
 				env.TOOL_CHAIN_CONFIDENCE_WEIGHT,
 				DEFAULT_SCORING_CONFIG.toolChains.confidenceWeight,
 			),
+			modelOrder: parseInteger(
+				env.TOOL_CHAIN_MODEL_ORDER,
+				DEFAULT_SCORING_CONFIG.toolChains.modelOrder,
+			),
+			failureWeight: parseNumber(
+				env.TOOL_CHAIN_FAILURE_WEIGHT,
+				DEFAULT_SCORING_CONFIG.toolChains.failureWeight,
+			),
+			recommendedWeight: parseNumber(
+				env.TOOL_CHAIN_RECOMMENDED_WEIGHT,
+				DEFAULT_SCORING_CONFIG.toolChains.recommendedWeight,
+			),
+			smoothing: parseNumber(
+				env.TOOL_CHAIN_SMOOTHING,
+				DEFAULT_SCORING_CONFIG.toolChains.smoothing,
+			),
+			minProbability: parseNumber(
+				env.TOOL_CHAIN_MIN_PROBABILITY,
+				DEFAULT_SCORING_CONFIG.toolChains.minProbability,
+			),
 		},
 		logging: {
 			level: (env.LOG_LEVEL as LogLevel) || DEFAULT_SCORING_CONFIG.logging.level,
@@ -0,0 +1,185 @@
+/**
+ * Critical path analysis for the thought DAG
+ * Finds the longest weighted dependency chain and the slack of every thought
+ */
+
+import { DAGNode, ThoughtDAG } from './dag.js';
+import { COST_UNITS } from './tool-capabilities.js';
+import { Tool, ToolCapability } from './types.js';
+
+export type CriticalPathWeighting = 'unit' | 'complexity' | 'cost' | 'duration';
+
+export interface NodeSchedule {
+	thought_number: number;
+	weight: number;
+	estimated: boolean;  // Weight is a fallback rather than taken from metadata or observations
+	earliest_start: number;
+	earliest_finish: number;
+	latest_start: number;
+	latest_finish: number;
+	slack: number;  // How much the thought can slip without delaying completion
+	critical: boolean;
+}
+
+export interface CriticalPathAnalysis {
+	weighting: CriticalPathWeighting;
+	critical_path: number[];
+	length: number;  // Total weight of the critical path
+	nodes: NodeSchedule[];
+}
+
+const COMPLEXITY_WEIGHTS: Record<NonNullable<ToolCapability['complexity']>, number> = {
+	low: 1,
+	medium: 2,
+	high: 3,
+};
+
+// Floating point tolerance when comparing schedule times
+const EPSILON = 1e-9;
+
+/**
+ * Weight of a thought: 1 for the reasoning itself plus the weight of each recommended tool,
+ * or the observed execution time in ms for the duration weighting
+ */
+function weighNode(
+	node: DAGNode,
+	weighting: CriticalPathWeighting,
+	tools: Map<string, Tool>,
+	fallbackDuration: number,
+): { weight: number; estimated: boolean } {
+	if (weighting === 'unit') return { weight: 1, estimated: false };
+
+	if (weighting === 'duration') {
+		if (node.startedAt !== undefined && node.completedAt !== undefined) {
+			return { weight: Math.max(0, node.completedAt - node.startedAt), estimated: false };
+		}
+		return { weight: fallbackDuration, estimated: true };
+	}
+
+	let weight = 1;
+	let estimated = false;
+	for (const recommendation of node.thought.current_step?.recommended_tools ?? []) {
+		const capabilities = tools.get(recommendation.tool_name)?.capabilities;
+		const level = weighting === 'complexity' ? capabilities?.complexity : capabilities?.costLevel;
+		if (level === undefined) {
+			// Unknown tools count as medium
+			estimated = true;
+			weight += 2;
+		} else {
+			weight += weighting === 'complexity'
+				? COMPLEXITY_WEIGHTS[level as keyof typeof COMPLEXITY_WEIGHTS]
+				: COST_UNITS[level as keyof typeof COST_UNITS];
+		}
+	}
+	return { weight, estimated };
+}
+
+/**
+ * Mean observed duration, used for thoughts that have not been timed yet
+ */
+function meanObservedDuration(nodes: DAGNode[]): number {
+	const durations = nodes
+		.filter(node => node.startedAt !== undefined && node.completedAt !== undefined)
+		.map(node => node.completedAt! - node.startedAt!);
+	if (durations.length === 0) return 1;
+	return durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+}
+
+/**
+ * Nodes ordered so every thought comes after its dependencies (the DAG rejects cycles on insertion)
+ */
+function dependencyOrder(dag: ThoughtDAG): DAGNode[] {
+	const ordered: DAGNode[] = [];
+	const visited = new Set<number>();
+
+	const visit = (node: DAGNode) => {
+		if (visited.has(node.thoughtNumber)) return;
+		visited.add(node.thoughtNumber);
+		for (const dep of node.dependencies) {
+			const parent = dag.getNode(dep);
+			if (parent) visit(parent);
+		}
+		ordered.push(node);
+	};
+
+	dag.getNodes().forEach(visit);
+	return ordered;
+}
+
+/**
+ * Compute earliest/latest schedule, slack and the critical path (CPM forward and backward pass).
+ * Dependencies on thoughts that are not in the DAG are ignored.
+ */
+export function analyzeCriticalPath(
+	dag: ThoughtDAG,
+	weighting: CriticalPathWeighting = 'unit',
+	tools: Map<string, Tool> = new Map(),
+): CriticalPathAnalysis {
+	const order = dependencyOrder(dag);
+	if (order.length === 0) {
+		return { weighting, critical_path: [], length: 0, nodes: [] };
+	}
+
+	const fallbackDuration = weighting === 'duration' ? meanObservedDuration(order) : 1;
+	const weights = new Map(order.map(node => [
+		node.thoughtNumber,
+		weighNode(node, weighting, tools, fallbackDuration),
+	]));
+	const weightOf = (thoughtNumber: number) => weights.get(thoughtNumber)!.weight;
+	const inDag = (thoughtNumber: number) => weights.has(thoughtNumber);
+
+	// Forward pass: earliest finish is the latest parent finish plus own weight
+	const earliestFinish = new Map<number, number>();
+	for (const node of order) {
+		const start = node.dependencies
+			.filter(inDag)
+			.reduce((max, dep) => Math.max(max, earliestFinish.get(dep)!), 0);
+		earliestFinish.set(node.thoughtNumber, start + weightOf(node.thoughtNumber));
+	}
+	const length = Math.max(...earliestFinish.values());
+
+	// Backward pass: latest finish is the earliest latest-start among children
+	const latestFinish = new Map<number, number>();
+	for (const node of [...order].reverse()) {
+		const finish = node.children
+			.filter(inDag)
+			.reduce((min, child) => Math.min(min, latestFinish.get(child)! - weightOf(child)), length);
+		latestFinish.set(node.thoughtNumber, finish);
+	}
+
+	const nodes: NodeSchedule[] = order.map(node => {
+		const weight = weightOf(node.thoughtNumber);
+		const ef = earliestFinish.get(node.thoughtNumber)!;
+		const lf = latestFinish.get(node.thoughtNumber)!;
+		const slack = lf - ef;
+		return {
+			thought_number: node.thoughtNumber,
+			weight,
+			estimated: weights.get(node.thoughtNumber)!.estimated,
+			earliest_start: ef - weight,
+			earliest_finish: ef,
+			latest_start: lf - weight,
+			latest_finish: lf,
+			slack,
+			critical: Math.abs(slack) < EPSILON,
+		};
+	}).sort((a, b) => a.thought_number - b.thought_number);
+
+	// Walk back from the critical end node through critical parents that finish exactly when it starts
+	const criticalPath: number[] = [];
+	const schedules = new Map(nodes.map(schedule => [schedule.thought_number, schedule]));
+	let current = nodes
+		.filter(schedule => schedule.critical && Math.abs(schedule.earliest_finish - length) < EPSILON)
+		.sort((a, b) => a.thought_number - b.thought_number)[0];
+	while (current) {
+		criticalPath.unshift(current.thought_number);
+		const start = current.earliest_start;
+		current = dag.getNode(current.thought_number)!.dependencies
+			.map(dep => schedules.get(dep))
+			.filter((schedule): schedule is NodeSchedule =>
+				schedule !== undefined && schedule.critical && Math.abs(schedule.earliest_finish - start) < EPSILON)
+			.sort((a, b) => a.thought_number - b.thought_number)[0];
+	}
+
+	return { weighting, critical_path: criticalPath, length, nodes };
+}
@@ -15,6 +15,8 @@ export interface DAGNode {
 	status: 'pending' | 'ready' | 'executing' | 'completed' | 'failed';
 	result?: unknown;
 	error?: string;
+	startedAt?: number;  // Epoch ms when marked executing
+	completedAt?: number;  // Epoch ms when marked completed
 }
 
 export interface DAGExecutionResult {
@@ -24,12 +26,30 @@ export interface DAGExecutionResult {
 }
 
 export class DagCycleError extends Error {
-	constructor(thoughtNumber: number) {
-		super(`Cycle detected in DAG at thought ${thoughtNumber}`);
+	constructor(thoughtNumber: number, public readonly cycle: number[] = []) {
+		super(
+			cycle.length > 0
+				? `Cycle detected in DAG at thought ${thoughtNumber}: ${cycle.join(' -> ')}`
+				: `Cycle detected in DAG at thought ${thoughtNumber}`,
+		);
 		this.name = 'DagCycleError';
 	}
 }
 
+export class DagNodeNotFoundError extends Error {
+	constructor(thoughtNumber: number) {
+		super(`Thought ${thoughtNumber} is not in the DAG`);
+		this.name = 'DagNodeNotFoundError';
+	}
+}
+
+export class InvalidStepStateError extends Error {
+	constructor(thoughtNumber: number, current: DAGNode['status'], requested: DAGNode['status']) {
+		super(`Thought ${thoughtNumber} is already ${current} and cannot be marked ${requested}`);
+		this.name = 'InvalidStepStateError';
+	}
+}
+
 export class ThoughtDAG {
 	private nodes: Map<number, DAGNode> = new Map();
 	private executionOrder: number[] = [];
@@ -43,21 +63,76 @@ export class ThoughtDAG {
 	}
 
 	/**
-	 * Add a thought to the DAG
+	 * Dependencies of a thought: explicit depends_on, otherwise inferred from its metadata
 	 */
-	addThought(thought: ThoughtData): void {
-		const dependencies: number[] = [];
+	resolveDependencies(thought: ThoughtData): number[] {
+		if (thought.depends_on) {
+			return Array.from(new Set(thought.depends_on));
+		}
 
-		// Determine dependencies based on thought metadata
 		if (thought.revises_thought) {
 			// Depends on the thought being revised
-			dependencies.push(thought.revises_thought);
-		} else if (thought.branch_from_thought) {
+			return [thought.revises_thought];
+		}
+		if (thought.branch_from_thought) {
 			// Depends on the branching point
-			dependencies.push(thought.branch_from_thought);
-		} else if (thought.thought_number > 1) {
+			return [thought.branch_from_thought];
+		}
+		if (thought.thought_number > 1) {
 			// By default, depends on previous thought
-			dependencies.push(thought.thought_number - 1);
+			return [thought.thought_number - 1];
+		}
+		return [];
+	}
+
+	/**
+	 * Throw DagCycleError if adding the thought would create a dependency cycle
+	 */
+	assertAcyclic(thought: ThoughtData): void {
+		const target = thought.thought_number;
+		const visited = new Set<number>();
+
+		// Path from a dependency back to the thought being added, if any
+		const pathToTarget = (current: number): number[] | null => {
+			if (current === target) return [current];
+			if (visited.has(current)) return null;
+			visited.add(current);
+
+			for (const dep of this.nodes.get(current)?.dependencies ?? []) {
+				const path = pathToTarget(dep);
+				if (path) return [current, ...path];
+			}
+			return null;
+		};
+
+		for (const dep of this.resolveDependencies(thought)) {
+			const path = pathToTarget(dep);
+			if (path) {
+				const cycle = [target, ...path];
+				logger.warn('Cycle detected while adding thought to DAG', { thoughtNumber: target, cycle });
+				throw new DagCycleError(target, cycle);
+			}
+		}
+	}
+
+	/**
+	 * Add a thought to the DAG
+	 * @throws DagCycleError when its dependencies would create a cycle
+	 */
+	addThought(thought: ThoughtData): void {
+		this.assertAcyclic(thought);
+
+		const dependencies = this.resolveDependencies(thought);
+
+		// Re-adding a thought replaces its edges
+		const previous = this.nodes.get(thought.thought_number);
+		if (previous) {
+			for (const depNum of previous.dependencies) {
+				const parentNode = this.nodes.get(depNum);
+				if (parentNode) {
+					parentNode.children = parentNode.children.filter(child => child !== thought.thought_number);
+				}
+			}
 		}
 
 		const parentLevels = dependencies.map(dep => this.nodes.get(dep)?.level ?? 0);
@@ -70,9 +145,23 @@ export class ThoughtDAG {
 			dependencies,
 			children: [],
 			level,
-			status: dependencies.length === 0 ? 'ready' : 'pending',
+			status: dependencies.every(dep => this.nodes.get(dep)?.status === 'completed') ? 'ready' : 'pending',
 		};
 
+		// Depending on a failed thought fails immediately, as propagateFailure would have done
+		const failedDependency = dependencies.find(dep => this.nodes.get(dep)?.status === 'failed');
+		if (failedDependency !== undefined) {
+			node.status = 'failed';
+			node.error = `Dependency thought ${failedDependency} failed`;
+		}
+
+		// Thoughts added earlier may already depend on this one
+		for (const other of this.nodes.values()) {
+			if (other.thoughtNumber !== thought.thought_number && other.dependencies.includes(thought.thought_number)) {
+				node.children.push(other.thoughtNumber);
+			}
+		}
+
 		this.nodes.set(thought.thought_number, node);
 		this.levelCache.set(thought.thought_number, level);
 		this.invalidateCache();
@@ -80,7 +169,7 @@ export class ThoughtDAG {
 		// Update parent nodes to reference this as a child
 		for (const depNum of dependencies) {
 			const parentNode = this.nodes.get(depNum);
-			if (parentNode) {
+			if (parentNode && !parentNode.children.includes(thought.thought_number)) {
 				parentNode.children.push(thought.thought_number);
 			}
 		}
@@ -93,6 +182,82 @@ export class ThoughtDAG {
 		});
 	}
 
+	getNode(thoughtNumber: number): DAGNode | undefined {
+		return this.nodes.get(thoughtNumber);
+	}
+
+	/**
+	 * All nodes in ascending thought order
+	 */
+	getNodes(): DAGNode[] {
+		return Array.from(this.nodes.values())
+			.sort((a, b) => a.thoughtNumber - b.thoughtNumber);
+	}
+
+	/**
+	 * Whether the thought recommends any tool calls that must be executed by the client
+	 */
+	hasToolCalls(thoughtNumber: number): boolean {
+		const node = this.nodes.get(thoughtNumber);
+		return (node?.thought.current_step?.recommended_tools.length ?? 0) > 0;
+	}
+
+	/**
+	 * Complete pure reasoning thoughts (no tool calls) once all their dependencies are completed.
+	 * Returns the thoughts that were completed.
+	 */
+	settleReasoningThoughts(): number[] {
+		const settled: number[] = [];
+		let changed = true;
+
+		while (changed) {
+			changed = false;
+			for (const node of this.getNodes()) {
+				if (node.status !== 'pending' && node.status !== 'ready') continue;
+				if (this.hasToolCalls(node.thoughtNumber)) continue;
+
+				const dependenciesCompleted = node.dependencies.every(
+					depNum => this.nodes.get(depNum)?.status === 'completed',
+				);
+				if (dependenciesCompleted) {
+					this.markCompleted(node.thoughtNumber);
+					settled.push(node.thoughtNumber);
+					changed = true;
+				}
+			}
+		}
+
+		return settled;
+	}
+
+	/**
+	 * Thoughts with no dependency path to or from the given thought (can run in parallel with it)
+	 */
+	getIndependentThoughts(thoughtNumber: number): number[] {
+		const related = new Set<number>([thoughtNumber]);
+
+		const walk = (start: number, edges: (node: DAGNode) => number[]) => {
+			const stack = [start];
+			while (stack.length > 0) {
+				const node = this.nodes.get(stack.pop()!);
+				if (!node) continue;
+				for (const next of edges(node)) {
+					if (!related.has(next)) {
+						related.add(next);
+						stack.push(next);
+					}
+				}
+			}
+		};
+
+		walk(thoughtNumber, node => node.dependencies);
+		walk(thoughtNumber, node => node.children);
+
+		return Array.from(this.nodes.keys())
+			.filter(num => !related.has(num))
+			.sort((a, b) => a - b);
+	}
+
 	/**
 	 * Get thoughts that are ready to execute (all dependencies completed)
 	 */
@@ -122,10 +287,11 @@ export class ThoughtDAG {
 	/**
 	 * Mark a thought as executing
 	 */
-	markExecuting(thoughtNumber: number): void {
+	markExecuting(thoughtNumber: number, startedAt: number = Date.now()): void {
 		const node = this.nodes.get(thoughtNumber);
 		if (node) {
 			node.status = 'executing';
+			node.startedAt = startedAt;
 			logger.debug('Thought marked as executing', { thoughtNumber });
 			this.invalidateCache();
 		}
@@ -139,6 +305,7 @@ export class ThoughtDAG {
 		if (node) {
 			node.status = 'completed';
 			node.result = result;
+			node.completedAt = Date.now();
 			logger.debug('Thought marked as completed', { thoughtNumber });
 			this.invalidateCache();
 
@@ -138,6 +138,14 @@ export function createErrorContext(
 	};
 }
 
+const VALIDATION_ERROR_NAMES = new Set([
+	'SessionNotFoundError',
+	'SessionExistsError',
+	'DagNodeNotFoundError',
+	'InvalidStepStateError',
+	'ThoughtNotFoundError',
+]);
+
 export function categorizeError(error: unknown): ErrorCategory {
 	if (error instanceof CircuitBreakerOpenError) {
 		return 'CircuitBreakerOpen';
@@ -145,6 +153,9 @@ export function categorizeError(error: unknown): ErrorCategory {
 	if (error instanceof DagCycleError || (error instanceof Error && error.name === 'DagCycleError')) {
 		return 'DAGError';
 	}
+	if (error instanceof Error && VALIDATION_ERROR_NAMES.has(error.name)) {
+		return 'ValidationError';
+	}
 
 	if (error instanceof Error) {
 		const message = error.message.toLowerCase();
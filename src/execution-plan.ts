@@ -0,0 +1,149 @@
+/**
+ * Execution planning over the thought DAG
+ * Turns pending thoughts and their recommended tools into waves of tool calls
+ * that can be issued concurrently
+ */
+
+import { DAGNode, ThoughtDAG } from './dag.js';
+
+export interface PlannedToolCall {
+	tool_name: string;
+	priority: number;
+	confidence: number;
+	suggested_inputs?: Record<string, unknown>;
+	alternatives?: string[];
+}
+
+export interface PlannedStep {
+	thought_number: number;
+	status: DAGNode['status'];
+	step_description: string;
+	expected_outcome: string;
+	depends_on: number[];  // Unfinished tool steps this step waits for
+	tool_calls: PlannedToolCall[];
+}
+
+export interface ExecutionWave {
+	wave: number;
+	steps: PlannedStep[];
+}
+
+export interface ExecutionPlan {
+	waves: ExecutionWave[];  // Wave 1 can be issued now; each later wave waits for the previous ones
+	blocked: Array<{ thought_number: number; missing_dependencies: number[] }>;
+	failed: Array<{ thought_number: number; error?: string }>;
+	completed: number[];
+	step_count: number;
+	max_parallelism: number;
+}
+
+/**
+ * Build the execution schedule for every unfinished thought with tool calls.
+ * Pure reasoning thoughts are not scheduled but their dependencies are honored.
+ */
+export function buildExecutionPlan(dag: ThoughtDAG): ExecutionPlan {
+	dag.settleReasoningThoughts();
+
+	const nodes = dag.getNodes();
+	const levels = new Map<number, number>();
+	const toolSteps = new Map<number, Set<number>>();
+	const missing = new Map<number, Set<number>>();
+
+	// Wave index of a thought and the unfinished tool steps it transitively waits for
+	const resolve = (node: DAGNode): number => {
+		const cached = levels.get(node.thoughtNumber);
+		if (cached !== undefined) return cached;
+
+		let level = 0;
+		const waitsFor = new Set<number>();
+		const absent = new Set<number>();
+
+		for (const depNum of node.dependencies) {
+			const dep = dag.getNode(depNum);
+			if (!dep) {
+				absent.add(depNum);
+				continue;
+			}
+			if (dep.status === 'completed') continue;
+
+			const depLevel = resolve(dep);
+			missing.get(depNum)?.forEach(num => absent.add(num));
+			if (dag.hasToolCalls(depNum)) {
+				level = Math.max(level, depLevel + 1);
+				waitsFor.add(depNum);
+			} else {
+				level = Math.max(level, depLevel);
+				toolSteps.get(depNum)?.forEach(num => waitsFor.add(num));
+			}
+		}
+
+		levels.set(node.thoughtNumber, level);
+		toolSteps.set(node.thoughtNumber, waitsFor);
+		missing.set(node.thoughtNumber, absent);
+		return level;
+	};
+
+	const waves = new Map<number, PlannedStep[]>();
+	const blocked: ExecutionPlan['blocked'] = [];
+	const failed: ExecutionPlan['failed'] = [];
+	const completed: number[] = [];
+
+	for (const node of nodes) {
+		if (node.status === 'completed') {
+			completed.push(node.thoughtNumber);
+			continue;
+		}
+		if (node.status === 'failed') {
+			failed.push({ thought_number: node.thoughtNumber, error: node.error });
+			continue;
+		}
+
+		const level = resolve(node);
+		if (!dag.hasToolCalls(node.thoughtNumber)) continue;
+
+		const absent = missing.get(node.thoughtNumber)!;
+		if (absent.size > 0) {
+			blocked.push({
+				thought_number: node.thoughtNumber,
+				missing_dependencies: Array.from(absent).sort((a, b) => a - b),
+			});
+			continue;
+		}
+
+		const step = node.thought.current_step!;
+		const plannedStep: PlannedStep = {
+			thought_number: node.thoughtNumber,
+			status: node.status,
+			step_description: step.step_description,
+			expected_outcome: step.expected_outcome,
+			depends_on: Array.from(toolSteps.get(node.thoughtNumber)!).sort((a, b) => a - b),
+			tool_calls: [...step.recommended_tools]
+				.sort((a, b) => a.priority - b.priority)
+				.map(tool => ({
+					tool_name: tool.tool_name,
+					priority: tool.priority,
+					confidence: tool.confidence,
+					suggested_inputs: tool.suggested_inputs,
+					alternatives: tool.alternatives,
+				})),
+		};
+
+		if (!waves.has(level)) {
+			waves.set(level, []);
+		}
+		waves.get(level)!.push(plannedStep);
+	}
+
+	const orderedWaves = Array.from(waves.keys())
+		.sort((a, b) => a - b)
+		.map((level, index) => ({ wave: index + 1, steps: waves.get(level)! }));
+
+	return {
+		waves: orderedWaves,
+		blocked,
+		failed,
+		completed,
+		step_count: orderedWaves.reduce((sum, wave) => sum + wave.steps.length, 0),
+		max_parallelism: orderedWaves.reduce((max, wave) => Math.max(max, wave.steps.length), 0),
+	};
+}
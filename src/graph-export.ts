@@ -0,0 +1,287 @@
+/**
+ * Thought graph export
+ * Renders a session's thoughts, dependencies and branches as Mermaid, Graphviz DOT
+ * or a JSON Graph Format document
+ */
+
+import { DAGNode, ThoughtDAG } from './dag.js';
+import { ThoughtData } from './types.js';
+
+export type GraphFormat = 'mermaid' | 'dot' | 'json';
+
+export const GRAPH_MIME_TYPES: Record<GraphFormat, string> = {
+	mermaid: 'text/vnd.mermaid',
+	dot: 'text/vnd.graphviz',
+	json: 'application/json',
+};
+
+export type ConfidenceBand = 'high' | 'medium' | 'low' | 'unknown';
+
+export interface GraphNode {
+	id: string;
+	thought_number: number;
+	label: string;
+	kind: 'thought' | 'revision' | 'branch';
+	status: DAGNode['status'] | 'recorded';  // 'recorded' when the DAG is disabled
+	confidence?: number;
+	confidence_band: ConfidenceBand;
+	branch_id?: string;
+	tools: string[];
+}
+
+export interface GraphEdge {
+	from: string;
+	to: string;
+	type: 'dependency' | 'revision' | 'branch';
+}
+
+export interface ThoughtGraph {
+	session_id: string;
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+	branches: Record<string, number[]>;
+}
+
+const LABEL_LENGTH = 48;
+
+const STATUS_COLORS: Record<GraphNode['status'], string> = {
+	pending: '#e0e0e0',
+	ready: '#bbdefb',
+	executing: '#fff59d',
+	completed: '#c8e6c9',
+	failed: '#ffcdd2',
+	recorded: '#f5f5f5',
+};
+
+const BAND_STROKES: Record<ConfidenceBand, { color: string; width: number; dashed: boolean }> = {
+	high: { color: '#2e7d32', width: 3, dashed: false },
+	medium: { color: '#f9a825', width: 2, dashed: false },
+	low: { color: '#c62828', width: 2, dashed: true },
+	unknown: { color: '#757575', width: 1, dashed: false },
+};
+
+export function confidenceBand(confidence: number | undefined): ConfidenceBand {
+	if (confidence === undefined) return 'unknown';
+	if (confidence >= 0.7) return 'high';
+	if (confidence >= 0.4) return 'medium';
+	return 'low';
+}
+
+const nodeId = (thoughtNumber: number) => `t${thoughtNumber}`;
+
+const truncate = (text: string, length: number) => {
+	const singleLine = text.replace(/\s+/g, ' ').trim();
+	return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+};
+
+/**
+ * Collect nodes and typed edges for a session. The latest thought wins when numbers repeat.
+ */
+export function buildThoughtGraph(
+	sessionId: string,
+	history: ThoughtData[],
+	branches: Record<string, ThoughtData[]>,
+	dag?: ThoughtDAG,
+): ThoughtGraph {
+	const latest = new Map<number, ThoughtData>();
+	for (const thought of history) {
+		latest.set(thought.thought_number, thought);
+	}
+	const thoughts = Array.from(latest.values()).sort((a, b) => a.thought_number - b.thought_number);
+	const resolver = dag ?? new ThoughtDAG();
+
+	const nodes: GraphNode[] = thoughts.map(thought => {
+		const tools = thought.current_step?.recommended_tools.map(tool => tool.tool_name) ?? [];
+		return {
+			id: nodeId(thought.thought_number),
+			thought_number: thought.thought_number,
+			label: truncate(thought.thought, LABEL_LENGTH),
+			kind: thought.is_revision || thought.revises_thought
+				? 'revision'
+				: thought.branch_from_thought ? 'branch' : 'thought',
+			status: dag?.getNode(thought.thought_number)?.status ?? 'recorded',
+			confidence: thought.confidence,
+			confidence_band: confidenceBand(thought.confidence),
+			branch_id: thought.branch_id,
+			tools,
+		};
+	});
+
+	const edges: GraphEdge[] = [];
+	for (const thought of thoughts) {
+		const dependencies = dag?.getNode(thought.thought_number)?.dependencies
+			?? resolver.resolveDependencies(thought);
+		for (const dep of dependencies) {
+			if (!latest.has(dep)) continue;
+			edges.push({
+				from: nodeId(dep),
+				to: nodeId(thought.thought_number),
+				type: dep === thought.revises_thought
+					? 'revision'
+					: dep === thought.branch_from_thought ? 'branch' : 'dependency',
+			});
+		}
+	}
+
+	return {
+		session_id: sessionId,
+		nodes,
+		edges,
+		branches: Object.fromEntries(
+			Object.entries(branches).map(([branchId, branchThoughts]) => [
+				branchId,
+				branchThoughts.map(thought => thought.thought_number),
+			]),
+		),
+	};
+}
+
+const nodeCaption = (node: GraphNode) => {
+	const confidence = node.confidence !== undefined ? ` (${node.confidence.toFixed(2)})` : '';
+	const tools = node.tools.length > 0 ? `\ntools: ${node.tools.join(', ')}` : '';
+	return `#${node.thought_number}${confidence}: ${node.label}${tools}`;
+};
+
+const escapeMermaid = (text: string) =>
+	text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+
+const MERMAID_SHAPES: Record<GraphNode['kind'], [string, string]> = {
+	thought: ['["', '"]'],
+	revision: ['{{"', '"}}'],
+	branch: ['[/"', '"/]'],
+};
+
+/**
+ * Mermaid flowchart: fill by status, stroke by confidence band, shape by thought kind
+ */
+export function toMermaid(graph: ThoughtGraph): string {
+	const lines = ['flowchart TD'];
+
+	for (const [status, color] of Object.entries(STATUS_COLORS)) {
+		lines.push(`    classDef ${status} fill:${color}`);
+	}
+	for (const [band, stroke] of Object.entries(BAND_STROKES)) {
+		const dash = stroke.dashed ? ',stroke-dasharray:5 5' : '';
+		lines.push(`    classDef conf_${band} stroke:${stroke.color},stroke-width:${stroke.width}px${dash}`);
+	}
+
+	const branchNodes = new Set(Object.values(graph.branches).flat());
+	const byBranch = new Map<string, GraphNode[]>();
+	for (const node of graph.nodes) {
+		const key = node.branch_id && branchNodes.has(node.thought_number) ? node.branch_id : '';
+		byBranch.set(key, [...(byBranch.get(key) ?? []), node]);
+	}
+
+	for (const [branchId, nodes] of byBranch) {
+		const indent = branchId ? '        ' : '    ';
+		if (branchId) {
+			lines.push(`    subgraph branch_${branchId.replace(/\W/g, '_')}["branch: ${escapeMermaid(branchId)}"]`);
+		}
+		for (const node of nodes) {
+			const [open, close] = MERMAID_SHAPES[node.kind];
+			lines.push(`${indent}${node.id}${open}${escapeMermaid(nodeCaption(node))}${close}`);
+		}
+		if (branchId) {
+			lines.push('    end');
+		}
+	}
+
+	for (const edge of graph.edges) {
+		const arrow = edge.type === 'dependency' ? '-->' : `-.->|${edge.type}|`;
+		lines.push(`    ${edge.from} ${arrow} ${edge.to}`);
+	}
+
+	for (const node of graph.nodes) {
+		lines.push(`    class ${node.id} ${node.status}`);
+		lines.push(`    class ${node.id} conf_${node.confidence_band}`);
+	}
+
+	return lines.join('\n');
+}
+
+const escapeDot = (text: string) =>
+	text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const DOT_SHAPES: Record<GraphNode['kind'], string> = {
+	thought: 'box',
+	revision: 'hexagon',
+	branch: 'parallelogram',
+};
+
+/**
+ * Graphviz DOT digraph with the same styling as the Mermaid output
+ */
+export function toDot(graph: ThoughtGraph): string {
+	const lines = [
+		`digraph "${escapeDot(graph.session_id)}" {`,
+		'    rankdir=TB;',
+		'    node [style="filled,rounded" fontname="Helvetica"];',
+	];
+
+	for (const [branchId, thoughtNumbers] of Object.entries(graph.branches)) {
+		lines.push(`    subgraph "cluster_${escapeDot(branchId)}" {`);
+		lines.push(`        label="branch: ${escapeDot(branchId)}";`);
+		lines.push('        style=dashed;');
+		for (const thoughtNumber of thoughtNumbers) {
+			lines.push(`        ${nodeId(thoughtNumber)};`);
+		}
+		lines.push('    }');
+	}
+
+	for (const node of graph.nodes) {
+		const stroke = BAND_STROKES[node.confidence_band];
+		const style = stroke.dashed ? 'filled,rounded,dashed' : 'filled,rounded';
+		lines.push(
+			`    ${node.id} [label="${escapeDot(nodeCaption(node))}" shape=${DOT_SHAPES[node.kind]} ` +
+			`fillcolor="${STATUS_COLORS[node.status]}" color="${stroke.color}" penwidth=${stroke.width} style="${style}"];`,
+		);
+	}
+
+	for (const edge of graph.edges) {
+		const style = edge.type === 'dependency' ? '' : ` [style=dashed label="${edge.type}"]`;
+		lines.push(`    ${edge.from} -> ${edge.to}${style};`);
+	}
+
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * JSON Graph Format (v2) document with thought metadata on nodes and edge types as relations
+ */
+export function toJsonGraph(graph: ThoughtGraph) {
+	return {
+		graph: {
+			id: graph.session_id,
+			type: 'thought-graph',
+			label: `Thought graph for session ${graph.session_id}`,
+			directed: true,
+			metadata: { branches: graph.branches },
+			nodes: Object.fromEntries(graph.nodes.map(node => [node.id, {
+				label: node.label,
+				metadata: {
+					thought_number: node.thought_number,
+					kind: node.kind,
+					status: node.status,
+					confidence: node.confidence,
+					confidence_band: node.confidence_band,
+					branch_id: node.branch_id,
+					tools: node.tools,
+				},
+			}])),
+			edges: graph.edges.map(edge => ({
+				source: edge.from,
+				target: edge.to,
+				relation: edge.type,
+			})),
+		},
+	};
+}
+
+export function renderGraph(graph: ThoughtGraph, format: GraphFormat): string {
+	switch (format) {
+		case 'mermaid': return toMermaid(graph);
+		case 'dot': return toDot(graph);
+		case 'json': return JSON.stringify(toJsonGraph(graph), null, 2);
+	}
+}
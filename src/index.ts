@@ -10,10 +10,26 @@ import * as v from 'valibot';
 import { readFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { SequentialThinkingSchema, SEQUENTIAL_THINKING_TOOL } from './schema.js';
+import {
+	DeleteSessionSchema,
+	ExportGraphSchema,
+	ExportSessionSchema,
+	ForkSessionSchema,
+	GetCriticalPathSchema,
+	GetExecutionPlanSchema,
+	ImportSessionSchema,
+	ListSessionsSchema,
+	MatchToolsSchema,
+	ReportStepResultSchema,
+	ReportToolResultSchema,
+	ResumeSessionSchema,
+	SequentialThinkingSchema,
+	SEQUENTIAL_THINKING_TOOL,
+} from './schema.js';
 import { logger } from './logging.js';
 import { ConfigurationManager } from './config-manager.js';
 import { ToolAwareSequentialThinkingServer } from './server.js';
+import { isSessionCommand, runSessionCommand } from './cli.js';
 
 const METRICS_INTERVAL_MS = 5 * 60 * 1000;
 
@@ -37,6 +53,7 @@ const server = new McpServer(
 		adapter,
 		capabilities: {
 			tools: { listChanged: true },
+			resources: { listChanged: true },
 		},
 	},
 );
@@ -49,22 +66,29 @@ const runtimeConfig = configurationManager.getRuntimeConfig();
 logger.info('Starting MCP Sequential Thinking Tools server', {
 	maxHistorySize: runtimeConfig.maxHistorySize,
 	enablePersistence: runtimeConfig.enablePersistence,
-	dbPath: runtimeConfig.enablePersistence ? runtimeConfig.dbPath : 'disabled',
+	storageBackend: runtimeConfig.enablePersistence ? runtimeConfig.storageBackend : 'disabled',
+	dbPath: runtimeConfig.enablePersistence && runtimeConfig.storageBackend === 'sqlite' ? runtimeConfig.dbPath : 'disabled',
+	jsonlPath: runtimeConfig.enablePersistence && runtimeConfig.storageBackend === 'jsonl' ? runtimeConfig.jsonlPath : 'disabled',
 	enableBacktracking: runtimeConfig.enableBacktracking,
 	minConfidence: runtimeConfig.minConfidence,
 	enableDAG: runtimeConfig.enableDAG,
 	enableToolChains: runtimeConfig.enableToolChains,
+	toolDiscoveryConfigPath: runtimeConfig.toolDiscoveryConfigPath ?? 'disabled',
+	toolCapabilitiesPath: runtimeConfig.toolCapabilitiesPath ?? 'disabled',
 });
 
 const thinkingServer = new ToolAwareSequentialThinkingServer({
-	availableTools: [], // TODO: Add tool discovery mechanism
+	availableTools: [], // Populated from sibling MCP servers by discoverTools()
 	maxHistorySize: runtimeConfig.maxHistorySize,
 	enablePersistence: runtimeConfig.enablePersistence,
+	storageBackend: runtimeConfig.storageBackend,
 	dbPath: runtimeConfig.dbPath,
+	jsonlPath: runtimeConfig.jsonlPath,
 	enableBacktracking: runtimeConfig.enableBacktracking,
 	minConfidence: runtimeConfig.minConfidence,
 	enableDAG: runtimeConfig.enableDAG,
 	enableToolChains: runtimeConfig.enableToolChains,
+	discoveryClientInfo: { name, version },
 	configManager: configurationManager,
 	scoringConfig,
 });
@@ -83,6 +107,198 @@ server.tool(
 	},
 );
 
+server.tool(
+	{
+		name: 'match_tools',
+		title: 'Match Tools',
+		description:
+			'Find available tools for a task before drafting a step. Ranks tools by a free-text intent (e.g. "read from a database"), capability categories and tags, complexity and keywords, and returns each match with its score, reasons, capability metadata and reported reliability. Optionally lists tools similar to a given tool.',
+		schema: MatchToolsSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof MatchToolsSchema>) => {
+		return thinkingServer.matchTools(input);
+	},
+);
+
+// Session management tools
+server.tool(
+	{
+		name: 'list_sessions',
+		title: 'List Thinking Sessions',
+		description:
+			'List stored and in-memory thinking sessions with thought count, last activity and completion state.',
+		schema: ListSessionsSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof ListSessionsSchema>) => {
+		return thinkingServer.listSessions(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'resume_session',
+		title: 'Resume Thinking Session',
+		description:
+			'Load a past session (hydrating it from storage) and return where it left off. Continue it by passing the same session_id to sequentialthinking_tools.',
+		schema: ResumeSessionSchema,
+		outputSchema: v.looseObject({}),
+	},
+	async (input: v.InferInput<typeof ResumeSessionSchema>) => {
+		return thinkingServer.resumeSession(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'fork_session',
+		title: 'Fork Thinking Session',
+		description:
+			'Copy the history of a session, optionally only up to a given thought number, into a new session id.',
+		schema: ForkSessionSchema,
+		outputSchema: v.looseObject({}),
+	},
+	async (input: v.InferInput<typeof ForkSessionSchema>) => {
+		return thinkingServer.forkSession(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'delete_session',
+		title: 'Delete Thinking Session',
+		description:
+			'Permanently delete a session: its stored thoughts, steps and tool recommendations and its in-memory state.',
+		schema: DeleteSessionSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { destructiveHint: true },
+	},
+	async (input: v.InferInput<typeof DeleteSessionSchema>) => {
+		return thinkingServer.deleteSession(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'export_session',
+		title: 'Export Thinking Session',
+		description:
+			'Export a session as a versioned, portable document: thoughts, steps and tool recommendations, branches, backtracks, step results, tool chains and tool budget. Import it elsewhere with import_session.',
+		schema: ExportSessionSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof ExportSessionSchema>) => {
+		return thinkingServer.exportSession(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'import_session',
+		title: 'Import Thinking Session',
+		description:
+			'Validate and import a document produced by export_session (as JSON or NDJSON). By default an existing session id is an error; on_conflict can replace that session or import under a new id.',
+		schema: ImportSessionSchema,
+		outputSchema: v.looseObject({}),
+	},
+	async (input: v.InferInput<typeof ImportSessionSchema>) => {
+		return thinkingServer.importSession(input);
+	},
+);
+
+// Execution planning tools
+server.tool(
+	{
+		name: 'get_execution_plan',
+		title: 'Get Execution Plan',
+		description:
+			'Turn the thought DAG and each thought\'s recommended tools into ordered waves of tool calls. Steps in the same wave do not depend on each other and can be issued concurrently. Requires ENABLE_DAG=true.',
+		schema: GetExecutionPlanSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof GetExecutionPlanSchema>) => {
+		return thinkingServer.getExecutionPlan(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'report_step_result',
+		title: 'Report Step Result',
+		description:
+			'Report that a planned step is executing, completed or failed. Completion unlocks dependent steps; failure is propagated to every step that depends on it. Returns the updated plan.',
+		schema: ReportStepResultSchema,
+		outputSchema: v.looseObject({}),
+	},
+	async (input: v.InferInput<typeof ReportStepResultSchema>) => {
+		return thinkingServer.reportStepResult(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'report_tool_result',
+		title: 'Report Tool Result',
+		description:
+			'Report the outcome of a tool call executed for a thought: success or failure, duration, error and an optional output summary. Updates per-tool statistics and the session\'s tool chain, which then learns from executed tools instead of recommendations. With ENABLE_DAG=true a failure fails the step and the step completes once every recommended tool has succeeded.',
+		schema: ReportToolResultSchema,
+		outputSchema: v.looseObject({}),
+	},
+	async (input: v.InferInput<typeof ReportToolResultSchema>) => {
+		return thinkingServer.reportToolResult(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'get_critical_path',
+		title: 'Get Critical Path',
+		description:
+			'Find the longest dependency chain in the thought DAG and the slack of every thought, weighted by chain length, tool complexity, tool cost or observed execution time. Thoughts with zero slack gate completion. Requires ENABLE_DAG=true.',
+		schema: GetCriticalPathSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof GetCriticalPathSchema>) => {
+		return thinkingServer.getCriticalPath(input);
+	},
+);
+
+server.tool(
+	{
+		name: 'export_thought_graph',
+		title: 'Export Thought Graph',
+		description:
+			'Render the thoughts of a session as a Mermaid flowchart, Graphviz DOT digraph or JSON Graph Format document. Nodes are styled by DAG status and confidence; revisions and branches use distinct shapes and dashed edges, and each branch is grouped in its own cluster.',
+		schema: ExportGraphSchema,
+		outputSchema: v.looseObject({}),
+		annotations: { readOnlyHint: true },
+	},
+	async (input: v.InferInput<typeof ExportGraphSchema>) => {
+		return thinkingServer.exportGraph(input);
+	},
+);
+
+server.template(
+	{
+		name: 'thought_graph',
+		title: 'Thought Graph',
+		description:
+			'Thought graph of a session rendered as mermaid, dot or json',
+		uri: 'thinking://sessions/{session_id}/graph/{format}',
+		list: () => thinkingServer.listGraphResources(),
+	},
+	async (uri, params) => {
+		const sessionId = decodeURIComponent(String(params.session_id));
+		return thinkingServer.readGraphResource(uri, sessionId, String(params.format));
+	},
+);
+
 async function main() {
 	// Initialize server state (hydration)
 	await thinkingServer.initialize();
@@ -91,6 +307,9 @@ async function main() {
 	transport.listen();
 	logger.info('Sequential Thinking MCP Server running on stdio');
 
+	// Discover tools from sibling MCP servers without delaying startup
+	void thinkingServer.discoverTools();
+
 	// Log metrics periodically (every 5 minutes)
 	const metricsInterval = setInterval(() => {
 		logger.logMetrics();
@@ -109,7 +328,20 @@ async function main() {
 	process.on('beforeExit', cleanup);
 }
 
-main().catch((error) => {
-	logger.error('Fatal error running server', error);
-	process.exit(1);
-});
+const [command, ...commandArgs] = process.argv.slice(2);
+
+if (isSessionCommand(command)) {
+	runSessionCommand(thinkingServer, command, commandArgs).then((exitCode) => {
+		thinkingServer.shutdown();
+		process.exit(exitCode);
+	}).catch((error) => {
+		logger.error('Fatal error running session command', error, { command });
+		thinkingServer.shutdown();
+		process.exit(1);
+	});
+} else {
+	main().catch((error) => {
+		logger.error('Fatal error running server', error);
+		process.exit(1);
+	});
+}
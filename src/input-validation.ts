@@ -0,0 +1,266 @@
+/**
+ * Validation of suggested tool inputs
+ * Checks `suggested_inputs` against the recommended tool's JSON Schema `inputSchema`
+ * and fills in a skeleton of the required arguments
+ */
+
+import { Tool, ThoughtData } from './types.js';
+import { logger } from './logging.js';
+
+type JsonSchema = Record<string, unknown>;
+
+export type InputIssueType =
+	| 'missing_required'
+	| 'type_mismatch'
+	| 'enum_mismatch'
+	| 'unknown_property'
+	| 'constraint_violation';
+
+export interface InputIssue {
+	path: string;  // Dotted path into the inputs, e.g. "options.limit" or "items[0]"
+	type: InputIssueType;
+	severity: 'error' | 'warning';
+	message: string;
+}
+
+export interface ToolInputValidation {
+	tool_name: string;
+	valid: boolean;
+	issues: InputIssue[];
+	skeleton: Record<string, unknown>;  // suggested_inputs with placeholders for missing required arguments
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+/**
+ * JSON Schema type name of a value
+ */
+const typeOf = (value: unknown): string => {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value;
+};
+
+const matchesType = (value: unknown, expected: string): boolean => {
+	const actual = typeOf(value);
+	if (expected === 'number') return actual === 'number' || actual === 'integer';
+	return actual === expected;
+};
+
+const schemaTypes = (schema: JsonSchema): string[] => {
+	if (typeof schema.type === 'string') return [schema.type];
+	if (Array.isArray(schema.type)) return schema.type.filter((type): type is string => typeof type === 'string');
+	return [];
+};
+
+/**
+ * Check a value against a JSON Schema subset: type, enum, const, required,
+ * properties, additionalProperties, items, anyOf/oneOf and basic numeric, string
+ * and array bounds. Unsupported keywords are ignored.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path = ''): InputIssue[] {
+	const issues: InputIssue[] = [];
+	const at = path || '(root)';
+
+	const branches = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+	if (Array.isArray(branches) && branches.length > 0) {
+		const branchIssues = branches.map(branch => validateAgainstSchema(branch, value, path));
+		if (!branchIssues.some(found => found.every(issue => issue.severity !== 'error'))) {
+			issues.push({
+				path: at,
+				type: 'type_mismatch',
+				severity: 'error',
+				message: `Value at ${at} does not match any allowed schema`,
+			});
+		}
+	}
+
+	const types = schemaTypes(schema);
+	if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+		issues.push({
+			path: at,
+			type: 'type_mismatch',
+			severity: 'error',
+			message: `Expected ${types.join(' | ')} at ${at}, received ${typeOf(value)}`,
+		});
+		return issues;
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+		issues.push({
+			path: at,
+			type: 'enum_mismatch',
+			severity: 'error',
+			message: `Value at ${at} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`,
+		});
+	}
+
+	if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		issues.push({
+			path: at,
+			type: 'enum_mismatch',
+			severity: 'error',
+			message: `Value at ${at} must be ${JSON.stringify(schema.const)}`,
+		});
+	}
+
+	if (typeof value === 'number') {
+		if (typeof schema.minimum === 'number' && value < schema.minimum) {
+			issues.push(constraintIssue(at, `must be >= ${schema.minimum}`));
+		}
+		if (typeof schema.maximum === 'number' && value > schema.maximum) {
+			issues.push(constraintIssue(at, `must be <= ${schema.maximum}`));
+		}
+	}
+
+	if (typeof value === 'string') {
+		if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+			issues.push(constraintIssue(at, `must be at least ${schema.minLength} characters`));
+		}
+		if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+			issues.push(constraintIssue(at, `must be at most ${schema.maxLength} characters`));
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+			issues.push(constraintIssue(at, `must have at least ${schema.minItems} items`));
+		}
+		if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+			issues.push(constraintIssue(at, `must have at most ${schema.maxItems} items`));
+		}
+		if (isObject(schema.items)) {
+			value.forEach((item, index) => {
+				issues.push(...validateAgainstSchema(schema.items as JsonSchema, item, `${path}[${index}]`));
+			});
+		}
+	}
+
+	if (isObject(value)) {
+		const properties = isObject(schema.properties) ? schema.properties : {};
+		const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+
+		for (const key of required) {
+			if (value[key] === undefined) {
+				issues.push({
+					path: joinPath(path, key),
+					type: 'missing_required',
+					severity: 'error',
+					message: `Missing required argument "${joinPath(path, key)}"`,
+				});
+			}
+		}
+
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema = properties[key];
+			if (isObject(propertySchema)) {
+				issues.push(...validateAgainstSchema(propertySchema, propertyValue, joinPath(path, key)));
+				continue;
+			}
+
+			if (isObject(schema.additionalProperties)) {
+				issues.push(...validateAgainstSchema(schema.additionalProperties, propertyValue, joinPath(path, key)));
+			} else if (Object.keys(properties).length > 0 || schema.additionalProperties === false) {
+				// Extra keys are legal JSON Schema unless additionalProperties is false, but usually a typo
+				issues.push({
+					path: joinPath(path, key),
+					type: 'unknown_property',
+					severity: schema.additionalProperties === false ? 'error' : 'warning',
+					message: `Unknown argument "${joinPath(path, key)}"`,
+				});
+			}
+		}
+	}
+
+	return issues;
+}
+
+function constraintIssue(at: string, requirement: string): InputIssue {
+	return {
+		path: at,
+		type: 'constraint_violation',
+		severity: 'error',
+		message: `Value at ${at} ${requirement}`,
+	};
+}
+
+/**
+ * Placeholder value for a schema: its default, first enum/const value, or an empty value of its type
+ */
+export function placeholderFor(schema: JsonSchema): unknown {
+	if (schema.default !== undefined) return schema.default;
+	if (schema.const !== undefined) return schema.const;
+	if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+	switch (schemaTypes(schema)[0]) {
+		case 'string': return '';
+		case 'number':
+		case 'integer': return typeof schema.minimum === 'number' ? schema.minimum : 0;
+		case 'boolean': return false;
+		case 'array': return [];
+		case 'null': return null;
+		case 'object': return buildSkeleton(schema, {});
+		default: return null;
+	}
+}
+
+/**
+ * Fill in every missing required argument (recursively for nested objects)
+ */
+export function buildSkeleton(schema: JsonSchema, inputs: Record<string, unknown>): Record<string, unknown> {
+	const skeleton: Record<string, unknown> = { ...inputs };
+	const properties = isObject(schema.properties) ? schema.properties : {};
+	const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+
+	for (const key of new Set([...required, ...Object.keys(inputs)])) {
+		const propertySchema = isObject(properties[key]) ? properties[key] as JsonSchema : {};
+		if (skeleton[key] === undefined) {
+			skeleton[key] = placeholderFor(propertySchema);
+		} else if (isObject(skeleton[key]) && schemaTypes(propertySchema).includes('object')) {
+			skeleton[key] = buildSkeleton(propertySchema, skeleton[key] as Record<string, unknown>);
+		}
+	}
+
+	return skeleton;
+}
+
+export class ToolInputValidator {
+	constructor(private readonly tools: Map<string, Tool>) { }
+
+	/**
+	 * Validate suggested inputs of every recommended tool that has a usable inputSchema.
+	 * Returns undefined when no recommendation could be checked.
+	 */
+	validate(thought: ThoughtData): ToolInputValidation[] | undefined {
+		const recommendations = thought.current_step?.recommended_tools ?? [];
+		const results: ToolInputValidation[] = [];
+
+		for (const recommendation of recommendations) {
+			const schema = this.tools.get(recommendation.tool_name)?.inputSchema;
+			if (!schema || Object.keys(schema).length === 0) continue;
+
+			const inputs = recommendation.suggested_inputs ?? {};
+			const issues = validateAgainstSchema(schema, inputs);
+			results.push({
+				tool_name: recommendation.tool_name,
+				valid: !issues.some(issue => issue.severity === 'error'),
+				issues,
+				skeleton: buildSkeleton(schema, inputs),
+			});
+		}
+
+		const invalid = results.filter(result => !result.valid);
+		if (invalid.length > 0) {
+			logger.debug('Suggested inputs failed schema validation', {
+				thoughtNumber: thought.thought_number,
+				tools: invalid.map(result => result.tool_name),
+			});
+		}
+
+		return results.length > 0 ? results : undefined;
+	}
+}
@@ -0,0 +1,86 @@
+/**
+ * Append-only JSONL thought store
+ * Writes every change as one JSON line and rebuilds its state by replaying the file on
+ * startup. Needs no native module, so it works where better-sqlite3 cannot be built.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { logger } from './logging.js';
+import { InMemoryThoughtStore, STORE_RECORD_TYPES, StoreRecord } from './memory-store.js';
+
+const isStoreRecord = (value: unknown): value is StoreRecord =>
+	typeof value === 'object' &&
+	value !== null &&
+	STORE_RECORD_TYPES.includes((value as { type?: unknown }).type as StoreRecord['type']);
+
+export class JsonlThoughtStore extends InMemoryThoughtStore {
+	private filePath: string;
+	private enabled = true;
+	private endsMidLine = false;  // The file's last line was cut off
+
+	constructor(filePath: string) {
+		super();
+		this.filePath = filePath;
+		this.replay();
+	}
+
+	private replay(): void {
+		if (!existsSync(this.filePath)) {
+			logger.info('JSONL store initialized', { jsonlPath: this.filePath, records: 0 });
+			return;
+		}
+
+		let lines: string[];
+		try {
+			lines = readFileSync(this.filePath, 'utf-8').split('\n');
+		} catch (error) {
+			logger.error('Failed to read JSONL store', error, { jsonlPath: this.filePath });
+			this.enabled = false;
+			return;
+		}
+
+		this.endsMidLine = lines[lines.length - 1] !== '';
+		let records = 0;
+		lines.forEach((line, index) => {
+			if (line.trim() === '') return;
+
+			let record: unknown;
+			try {
+				record = JSON.parse(line);
+			} catch {
+				// A crash mid-write leaves a partial last line; everything before it is intact
+				logger.warn('Skipping unreadable JSONL store line', { jsonlPath: this.filePath, line: index + 1 });
+				return;
+			}
+			if (!isStoreRecord(record)) {
+				logger.warn('Skipping unknown JSONL store record', { jsonlPath: this.filePath, line: index + 1 });
+				return;
+			}
+			this.apply(record);
+			records++;
+		});
+		logger.info('JSONL store initialized', { jsonlPath: this.filePath, records });
+	}
+
+	isEnabled(): boolean {
+		return this.enabled;
+	}
+
+	/**
+	 * Append the records to the file, then apply them in memory. Records that could not be
+	 * written are not applied either, so memory never holds what a restart would lose.
+	 */
+	protected commit(records: StoreRecord[]): boolean {
+		if (!this.enabled) return false;
+		try {
+			// A leading newline keeps the first record off a partial line left by a crash
+			const prefix = this.endsMidLine ? '\n' : '';
+			appendFileSync(this.filePath, prefix + records.map(record => `${JSON.stringify(record)}\n`).join(''));
+			this.endsMidLine = false;
+		} catch (error) {
+			logger.error('Failed to append to JSONL store', error, { jsonlPath: this.filePath });
+			return false;
+		}
+		return super.commit(records);
+	}
+}
@@ -0,0 +1,439 @@
+/**
+ * In-memory thought store
+ * Keeps everything the SQLite store keeps, for tests and short-lived servers. Every change
+ * is applied as a StoreRecord, so a store that writes the records somewhere can be rebuilt
+ * by applying them again (see JsonlThoughtStore). Like the SQLite store, each step is kept
+ * once per session under a hash of its content and thoughts reference steps by id, the
+ * start of their previous steps through the session's preceding thought.
+ */
+
+import { createHash } from 'node:crypto';
+import { logger } from './logging.js';
+import {
+	ExecutionStatusRecord,
+	SessionSummary,
+	ThoughtComputedState,
+	ThoughtStore,
+} from './thought-store.js';
+import { ChainBuffer, ToolChain } from './tool-chains.js';
+import { ToolBudgetState } from './tool-budget.js';
+import {
+	RECENT_OUTCOME_WINDOW,
+	ToolOutcome,
+	ToolOutcomeSnapshot,
+	ToolOutcomeTracker,
+} from './tool-outcomes.js';
+import { StepRecommendation, ThoughtData } from './types.js';
+
+type ThoughtFields = Omit<ThoughtData, 'current_step' | 'previous_steps'>;
+
+/**
+ * One change to a store
+ */
+export type StoreRecord =
+	| { type: 'step'; session_id: string | null; step_id: number; content_hash: string; step: StepRecommendation }
+	| {
+		type: 'thought';
+		thought_id?: number;  // Absent in records written before thoughts were numbered
+		session_id: string | null;
+		thought: ThoughtFields;
+		current_step_id?: number;
+		previous_steps_base?: PreviousStepsBase;
+		previous_step_ids?: number[];  // Steps after the base's
+		computed?: ThoughtComputedState;
+		created_at: string;
+	}
+	| { type: 'execution_status'; session_id: string; thought_number: number; record: ExecutionStatusRecord }
+	| { type: 'tool_chain'; chain: ToolChain }
+	| { type: 'chain_buffer'; session_id: string; buffer: ChainBuffer }
+	| { type: 'budget'; session_id: string; state: ToolBudgetState }
+	| { type: 'tool_outcome'; tool_name: string; outcome: ToolOutcome }
+	| { type: 'clear'; session_id?: string };
+
+export const STORE_RECORD_TYPES: ReadonlyArray<StoreRecord['type']> = [
+	'step',
+	'thought',
+	'execution_status',
+	'tool_chain',
+	'chain_buffer',
+	'budget',
+	'tool_outcome',
+	'clear',
+];
+
+/**
+ * Earlier thought whose first count previous steps start a thought's previous steps
+ */
+interface PreviousStepsBase {
+	thought_id: number;
+	count: number;
+}
+
+interface PreviousStepList {
+	thoughtId: number;
+	stepIds: number[];
+}
+
+interface StoredThought {
+	id: number;
+	sessionId: string | null;
+	thought: ThoughtFields;
+	currentStepId?: number;
+	previousStepsBase?: PreviousStepsBase;
+	previousStepIds?: number[];
+	computed?: ThoughtComputedState;
+	execution?: ExecutionStatusRecord;
+	createdAt: string;
+}
+
+interface StoredStep {
+	sessionId: string | null;
+	step: StepRecommendation;
+}
+
+const EMPTY_CHAIN_BUFFER: ChainBuffer = { sequence: [], executed: false, failures: 0 };
+
+const stepContentHash = (step: StepRecommendation): string =>
+	createHash('sha256').update(JSON.stringify(step)).digest('hex');
+
+export class InMemoryThoughtStore implements ThoughtStore {
+	private thoughts: StoredThought[] = [];
+	private nextThoughtId = 1;
+	private steps: Map<number, StoredStep> = new Map();
+	private stepIds: Map<string | null, Map<string, number>> = new Map();  // By session, then content hash
+	private nextStepId = 1;
+	private previousSteps: Map<string | null, PreviousStepList> = new Map();  // Base of each session's next previous_steps
+	private toolChains: Map<string, ToolChain> = new Map();  // By tool sequence, in the order first saved
+	private chainBuffers: Map<string, ChainBuffer> = new Map();
+	private budgets: Map<string, ToolBudgetState> = new Map();
+	private toolOutcomes = new ToolOutcomeTracker();
+
+	isEnabled(): boolean {
+		return true;
+	}
+
+	async whenReady(): Promise<boolean> {
+		return this.isEnabled();
+	}
+
+	/**
+	 * Apply changes to the store and report whether they were kept. Records are cloned, so
+	 * callers keep ownership of theirs.
+	 */
+	protected commit(records: StoreRecord[]): boolean {
+		for (const record of records) {
+			this.apply(structuredClone(record));
+		}
+		return true;
+	}
+
+	protected apply(record: StoreRecord): void {
+		switch (record.type) {
+			case 'step': {
+				this.steps.set(record.step_id, { sessionId: record.session_id, step: record.step });
+				const sessionSteps = this.stepIds.get(record.session_id) ?? new Map<string, number>();
+				sessionSteps.set(record.content_hash, record.step_id);
+				this.stepIds.set(record.session_id, sessionSteps);
+				this.nextStepId = Math.max(this.nextStepId, record.step_id + 1);
+				break;
+			}
+			case 'thought': {
+				const id = record.thought_id ?? this.nextThoughtId;
+				this.nextThoughtId = Math.max(this.nextThoughtId, id + 1);
+				this.thoughts.push({
+					id,
+					sessionId: record.session_id,
+					thought: record.thought,
+					currentStepId: record.current_step_id,
+					previousStepsBase: record.previous_steps_base,
+					previousStepIds: record.previous_step_ids,
+					computed: record.computed,
+					createdAt: record.created_at,
+				});
+				if (record.previous_step_ids) {
+					// The base was the session's latest list when the record was written
+					const base = this.previousSteps.get(record.session_id);
+					const shared = record.previous_steps_base && base?.thoughtId === record.previous_steps_base.thought_id
+						? base.stepIds.slice(0, record.previous_steps_base.count)
+						: [];
+					this.previousSteps.set(record.session_id, { thoughtId: id, stepIds: [...shared, ...record.previous_step_ids] });
+				}
+				break;
+			}
+			case 'execution_status': {
+				// Revisions and branches can reuse a number; the result belongs to the latest thought
+				const latest = this.sessionThoughts(record.session_id)
+					.filter(stored => stored.thought.thought_number === record.thought_number)
+					.at(-1);
+				if (latest) {
+					latest.execution = record.record;
+				}
+				break;
+			}
+			case 'tool_chain': {
+				const key = record.chain.sequence.join('->');
+				const existing = this.toolChains.get(key);
+				// The first id saved for a sequence is kept
+				this.toolChains.set(key, existing ? { ...record.chain, id: existing.id } : record.chain);
+				break;
+			}
+			case 'chain_buffer':
+				if (record.buffer.sequence.length === 0 && !record.buffer.executed) {
+					this.chainBuffers.delete(record.session_id);
+				} else {
+					this.chainBuffers.set(record.session_id, record.buffer);
+				}
+				break;
+			case 'budget':
+				this.budgets.set(record.session_id, record.state);
+				break;
+			case 'tool_outcome':
+				this.toolOutcomes.record(record.tool_name, record.outcome);
+				break;
+			case 'clear':
+				// Learned tool chains and tool outcomes are shared by all sessions and survive a reset
+				if (record.session_id === undefined) {
+					this.thoughts = [];
+					this.steps.clear();
+					this.stepIds.clear();
+					this.previousSteps.clear();
+					this.chainBuffers.clear();
+					this.budgets.clear();
+				} else {
+					this.thoughts = this.thoughts.filter(stored => stored.sessionId !== record.session_id);
+					for (const stepId of this.stepIds.get(record.session_id)?.values() ?? []) {
+						this.steps.delete(stepId);
+					}
+					this.stepIds.delete(record.session_id);
+					this.previousSteps.delete(record.session_id);
+					this.chainBuffers.delete(record.session_id);
+					this.budgets.delete(record.session_id);
+				}
+				break;
+		}
+	}
+
+	private sessionThoughts(sessionId: string): StoredThought[] {
+		return this.thoughts.filter(stored => stored.sessionId === sessionId);
+	}
+
+	/**
+	 * Records storing the thoughts of one session. Steps the session already stored, or that
+	 * repeat within the batch, are referenced by id instead of being stored again, and previous
+	 * steps shared with the session's preceding list are referenced through its thought.
+	 */
+	private thoughtRecords(
+		sessionId: string | null,
+		thoughts: Array<{ thought: ThoughtData; computed?: ThoughtComputedState }>,
+		createdAt: string
+	): StoreRecord[] {
+		const storedSteps = this.stepIds.get(sessionId);
+		const addedSteps = new Map<string, number>();
+		const records: StoreRecord[] = [];
+		let base = this.previousSteps.get(sessionId);
+
+		const stepId = (step: StepRecommendation): number => {
+			const contentHash = stepContentHash(step);
+			let id = storedSteps?.get(contentHash) ?? addedSteps.get(contentHash);
+			if (id === undefined) {
+				id = this.nextStepId + addedSteps.size;
+				addedSteps.set(contentHash, id);
+				records.push({ type: 'step', session_id: sessionId, step_id: id, content_hash: contentHash, step });
+			}
+			return id;
+		};
+
+		thoughts.forEach(({ thought, computed }, index) => {
+			const thoughtId = this.nextThoughtId + index;
+			const { current_step, previous_steps, ...fields } = thought;
+			// Step records are pushed while the ids are resolved, ahead of the thought
+			const currentStepId = current_step ? stepId(current_step) : undefined;
+			const previousStepIds = previous_steps?.map(stepId);
+
+			let shared = 0;
+			if (previousStepIds) {
+				while (base && shared < Math.min(base.stepIds.length, previousStepIds.length) && base.stepIds[shared] === previousStepIds[shared]) {
+					shared++;
+				}
+			}
+			records.push({
+				type: 'thought',
+				thought_id: thoughtId,
+				session_id: sessionId,
+				thought: fields,
+				...(currentStepId !== undefined ? { current_step_id: currentStepId } : {}),
+				...(base && shared > 0 ? { previous_steps_base: { thought_id: base.thoughtId, count: shared } } : {}),
+				...(previousStepIds ? { previous_step_ids: previousStepIds.slice(shared) } : {}),
+				...(computed ? { computed } : {}),
+				created_at: createdAt,
+			});
+			if (previousStepIds) {
+				base = { thoughtId, stepIds: previousStepIds };
+			}
+		});
+		return records;
+	}
+
+	private toThoughtData(stored: StoredThought, previousStepIds?: number[]): ThoughtData {
+		const thought: ThoughtData = structuredClone(stored.thought);
+		const step = (stepId: number) => structuredClone(this.steps.get(stepId)?.step);
+		if (stored.currentStepId !== undefined) {
+			thought.current_step = step(stored.currentStepId);
+		}
+		if (previousStepIds) {
+			thought.previous_steps = previousStepIds
+				.map(step)
+				.filter((previous): previous is StepRecommendation => previous !== undefined);
+		}
+		return thought;
+	}
+
+	async saveThought(
+		thought: ThoughtData,
+		sessionId?: string,
+		computed?: ThoughtComputedState
+	): Promise<number | null> {
+		const saved = this.commit(this.thoughtRecords(sessionId || null, [{ thought, computed }], new Date().toISOString()));
+		return saved ? this.nextThoughtId - 1 : null;
+	}
+
+	async getThoughtHistory(sessionId?: string): Promise<ThoughtData[]> {
+		if (!sessionId) {
+			logger.warn('getThoughtHistory called without sessionId');
+			return [];
+		}
+		// A base is an earlier thought of the session, so its list is resolved first
+		const previousStepIds = new Map<number, number[]>();
+		return this.sessionThoughts(sessionId).map(stored => {
+			if (!stored.previousStepIds) return this.toThoughtData(stored);
+
+			const base = stored.previousStepsBase;
+			const shared = base ? (previousStepIds.get(base.thought_id) ?? []).slice(0, base.count) : [];
+			const stepIds = [...shared, ...stored.previousStepIds];
+			previousStepIds.set(stored.id, stepIds);
+			return this.toThoughtData(stored, stepIds);
+		});
+	}
+
+	async listSessions(): Promise<SessionSummary[]> {
+		const sessions = new Map<string, SessionSummary>();
+		for (const stored of this.thoughts) {
+			if (stored.sessionId === null) continue;
+
+			const summary = sessions.get(stored.sessionId);
+			sessions.set(stored.sessionId, {
+				sessionId: stored.sessionId,
+				thoughtCount: (summary?.thoughtCount ?? 0) + 1,
+				firstActivity: summary && summary.firstActivity < stored.createdAt ? summary.firstActivity : stored.createdAt,
+				lastActivity: summary && summary.lastActivity > stored.createdAt ? summary.lastActivity : stored.createdAt,
+				lastThoughtNumber: stored.thought.thought_number,
+				completed: !stored.thought.next_thought_needed,
+			});
+		}
+		return Array.from(sessions.values()).sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+	}
+
+	async hasSession(sessionId: string): Promise<boolean> {
+		return this.thoughts.some(stored => stored.sessionId === sessionId);
+	}
+
+	async copyThoughts(
+		thoughts: ThoughtData[],
+		targetSessionId: string,
+		computedStates: Array<ThoughtComputedState | undefined> = []
+	): Promise<number> {
+		const saved = this.commit(this.thoughtRecords(
+			targetSessionId,
+			thoughts.map((thought, index) => ({ thought, computed: computedStates[index] })),
+			new Date().toISOString(),
+		));
+		if (!saved) return 0;
+		logger.info('Thoughts copied to session', { targetSessionId, thoughtCount: thoughts.length });
+		return thoughts.length;
+	}
+
+	async updateExecutionStatus(
+		sessionId: string,
+		thoughtNumber: number,
+		record: ExecutionStatusRecord
+	): Promise<void> {
+		this.commit([{ type: 'execution_status', session_id: sessionId, thought_number: thoughtNumber, record }]);
+	}
+
+	async getExecutionStatuses(sessionId: string): Promise<Map<number, ExecutionStatusRecord>> {
+		const statuses = new Map<number, ExecutionStatusRecord>();
+		for (const stored of this.sessionThoughts(sessionId)) {
+			if (stored.execution) {
+				statuses.set(stored.thought.thought_number, { ...stored.execution });
+			}
+		}
+		return statuses;
+	}
+
+	async getComputedStates(sessionId: string): Promise<Array<ThoughtComputedState | undefined>> {
+		return this.sessionThoughts(sessionId).map(stored => structuredClone(stored.computed));
+	}
+
+	async saveToolChain(chain: ToolChain): Promise<void> {
+		this.commit([{ type: 'tool_chain', chain }]);
+	}
+
+	async getToolChains(): Promise<ToolChain[]> {
+		return Array.from(this.toolChains.values(), chain => structuredClone(chain));
+	}
+
+	async saveCurrentChain(sessionId: string, buffer: ChainBuffer): Promise<void> {
+		this.commit([{ type: 'chain_buffer', session_id: sessionId, buffer }]);
+	}
+
+	async getCurrentChain(sessionId: string): Promise<ChainBuffer> {
+		return structuredClone(this.chainBuffers.get(sessionId) ?? EMPTY_CHAIN_BUFFER);
+	}
+
+	async saveSessionBudget(sessionId: string, state: ToolBudgetState): Promise<void> {
+		this.commit([{ type: 'budget', session_id: sessionId, state }]);
+	}
+
+	async getSessionBudget(sessionId: string): Promise<ToolBudgetState | null> {
+		const state = this.budgets.get(sessionId);
+		return state ? structuredClone(state) : null;
+	}
+
+	async saveToolOutcome(toolName: string, outcome: ToolOutcome): Promise<void> {
+		this.commit([{
+			type: 'tool_outcome',
+			tool_name: toolName,
+			outcome: { ...outcome, reportedAt: outcome.reportedAt ?? new Date().toISOString() },
+		}]);
+	}
+
+	async getToolOutcomeSnapshots(window: number = RECENT_OUTCOME_WINDOW): Promise<ToolOutcomeSnapshot[]> {
+		return this.toolOutcomes.getSnapshots().map(snapshot => ({
+			...snapshot,
+			recent: snapshot.recent.slice(-window),
+		}));
+	}
+
+	async clearHistory(sessionId?: string): Promise<void> {
+		this.commit([{ type: 'clear', ...(sessionId ? { session_id: sessionId } : {}) }]);
+		logger.info(sessionId ? 'Session history cleared' : 'All history cleared', { sessionId });
+	}
+
+	close(): void {
+		// Nothing to release
+	}
+}
+
+/**
+ * Store used when persistence is disabled or the configured store could not be loaded.
+ * Keeps nothing, so every read returns an empty result.
+ */
+export class DisabledThoughtStore extends InMemoryThoughtStore {
+	isEnabled(): boolean {
+		return false;
+	}
+
+	protected commit(): boolean {
+		return false;
+	}
+}
@@ -0,0 +1,467 @@
+/**
+ * Versioned schema migrations for the SQLite store
+ * The schema version lives in PRAGMA user_version. Migrations run forward in order,
+ * each in its own transaction, after an optional backup of the database. Operations
+ * skip what already exists (or is already gone), so databases created before versioning
+ * (user_version 0) are brought up to date without losing data.
+ */
+
+import { existsSync } from 'node:fs';
+import Database from 'better-sqlite3';
+import { logger } from './logging.js';
+import { migrateLegacySteps } from './step-storage.js';
+
+export type MigrationOperation =
+	| { kind: 'create_table'; table: string; sql: string }
+	| { kind: 'add_column'; table: string; column: string; definition: string }
+	| { kind: 'create_index'; index: string; sql: string }
+	| { kind: 'drop_table'; table: string }
+	// Rewrites the rows of a source table in code; skipped when the table does not exist
+	| { kind: 'migrate_data'; source: string; description: string; apply: (db: Database.Database) => void };
+
+export interface Migration {
+	version: number;
+	description: string;
+	operations: MigrationOperation[];
+}
+
+/**
+ * Every schema change, oldest first. Never edit a released migration; add a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+	{
+		version: 1,
+		description: 'Create thought, step and tool recommendation tables',
+		operations: [
+			{
+				kind: 'create_table',
+				table: 'thoughts',
+				sql: `
+					CREATE TABLE thoughts (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						thought_number INTEGER NOT NULL,
+						total_thoughts INTEGER NOT NULL,
+						thought TEXT NOT NULL,
+						is_revision BOOLEAN DEFAULT 0,
+						revises_thought INTEGER,
+						branch_from_thought INTEGER,
+						branch_id TEXT,
+						needs_more_thoughts BOOLEAN DEFAULT 0,
+						next_thought_needed BOOLEAN NOT NULL,
+						available_mcp_tools TEXT NOT NULL,
+						confidence REAL,
+						created_at TEXT NOT NULL,
+						session_id TEXT
+					)
+				`,
+			},
+			{
+				kind: 'create_table',
+				table: 'step_recommendations',
+				sql: `
+					CREATE TABLE step_recommendations (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						thought_id INTEGER NOT NULL,
+						step_description TEXT NOT NULL,
+						expected_outcome TEXT NOT NULL,
+						next_step_conditions TEXT,
+						is_current BOOLEAN DEFAULT 0,
+						created_at TEXT NOT NULL,
+						FOREIGN KEY (thought_id) REFERENCES thoughts(id)
+					)
+				`,
+			},
+			{
+				kind: 'create_table',
+				table: 'tool_recommendations',
+				sql: `
+					CREATE TABLE tool_recommendations (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						step_id INTEGER NOT NULL,
+						tool_name TEXT NOT NULL,
+						confidence REAL NOT NULL,
+						rationale TEXT NOT NULL,
+						priority INTEGER NOT NULL,
+						suggested_inputs TEXT,
+						alternatives TEXT,
+						created_at TEXT NOT NULL,
+						FOREIGN KEY (step_id) REFERENCES step_recommendations(id)
+					)
+				`,
+			},
+			{ kind: 'create_index', index: 'idx_thoughts_number', sql: 'CREATE INDEX idx_thoughts_number ON thoughts(thought_number)' },
+			{ kind: 'create_index', index: 'idx_thoughts_branch', sql: 'CREATE INDEX idx_thoughts_branch ON thoughts(branch_id)' },
+			{ kind: 'create_index', index: 'idx_thoughts_session', sql: 'CREATE INDEX idx_thoughts_session ON thoughts(session_id)' },
+			{ kind: 'create_index', index: 'idx_steps_thought', sql: 'CREATE INDEX idx_steps_thought ON step_recommendations(thought_id)' },
+			{ kind: 'create_index', index: 'idx_tools_step', sql: 'CREATE INDEX idx_tools_step ON tool_recommendations(step_id)' },
+		],
+	},
+	{
+		version: 2,
+		description: 'Store explicit thought dependencies',
+		operations: [
+			{ kind: 'add_column', table: 'thoughts', column: 'depends_on', definition: 'TEXT' },
+		],
+	},
+	{
+		version: 3,
+		description: 'Store step execution status',
+		operations: [
+			{ kind: 'add_column', table: 'thoughts', column: 'execution_status', definition: 'TEXT' },
+			{ kind: 'add_column', table: 'thoughts', column: 'execution_error', definition: 'TEXT' },
+		],
+	},
+	{
+		version: 4,
+		description: 'Persist learned tool chains and session chain buffers',
+		operations: [
+			{
+				kind: 'create_table',
+				table: 'tool_chains',
+				sql: `
+					CREATE TABLE tool_chains (
+						chain_key TEXT PRIMARY KEY,
+						chain_id TEXT NOT NULL,
+						sequence TEXT NOT NULL,
+						context TEXT NOT NULL,
+						success_count INTEGER NOT NULL,
+						total_uses INTEGER NOT NULL,
+						average_confidence REAL NOT NULL,
+						last_used TEXT NOT NULL
+					)
+				`,
+			},
+			{
+				kind: 'create_table',
+				table: 'tool_chain_buffers',
+				sql: `
+					CREATE TABLE tool_chain_buffers (
+						session_id TEXT PRIMARY KEY,
+						sequence TEXT NOT NULL,
+						updated_at TEXT NOT NULL
+					)
+				`,
+			},
+		],
+	},
+	{
+		version: 5,
+		description: 'Track executed calls and failures of session chain buffers',
+		operations: [
+			{ kind: 'add_column', table: 'tool_chain_buffers', column: 'executed', definition: 'BOOLEAN NOT NULL DEFAULT 0' },
+			{ kind: 'add_column', table: 'tool_chain_buffers', column: 'failures', definition: 'INTEGER NOT NULL DEFAULT 0' },
+		],
+	},
+	{
+		version: 6,
+		description: 'Record reported tool outcomes',
+		operations: [
+			{
+				kind: 'create_table',
+				table: 'tool_outcomes',
+				sql: `
+					CREATE TABLE tool_outcomes (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						tool_name TEXT NOT NULL,
+						session_id TEXT,
+						thought_number INTEGER,
+						success BOOLEAN NOT NULL,
+						duration_ms REAL,
+						error TEXT,
+						error_category TEXT,
+						output_summary TEXT,
+						reported_at TEXT NOT NULL
+					)
+				`,
+			},
+			{ kind: 'create_index', index: 'idx_outcomes_tool', sql: 'CREATE INDEX idx_outcomes_tool ON tool_outcomes(tool_name, id)' },
+		],
+	},
+	{
+		version: 7,
+		description: 'Persist session tool budgets',
+		operations: [
+			{
+				kind: 'create_table',
+				table: 'session_budgets',
+				sql: `
+					CREATE TABLE session_budgets (
+						session_id TEXT PRIMARY KEY,
+						max_high_cost_calls INTEGER,
+						max_cost_units REAL,
+						calls INTEGER NOT NULL,
+						high_cost_calls INTEGER NOT NULL,
+						cost_units REAL NOT NULL,
+						updated_at TEXT NOT NULL
+					)
+				`,
+			},
+		],
+	},
+	{
+		version: 8,
+		description: 'Store every thought field exactly, step and tool order, and server-computed state',
+		operations: [
+			{ kind: 'add_column', table: 'thoughts', column: 'remaining_steps', definition: 'TEXT' },
+			{ kind: 'add_column', table: 'thoughts', column: 'budget', definition: 'TEXT' },
+			{ kind: 'add_column', table: 'thoughts', column: 'previous_step_count', definition: 'INTEGER' },
+			{ kind: 'add_column', table: 'thoughts', column: 'computed', definition: 'TEXT' },
+			{ kind: 'add_column', table: 'step_recommendations', column: 'position', definition: 'INTEGER' },
+			{ kind: 'add_column', table: 'tool_recommendations', column: 'position', definition: 'INTEGER' },
+			{ kind: 'add_column', table: 'tool_recommendations', column: 'confirmed', definition: 'BOOLEAN' },
+		],
+	},
+	{
+		version: 9,
+		description: 'Store each step once per session and reference it from thoughts',
+		operations: [
+			{
+				kind: 'create_table',
+				table: 'steps',
+				sql: `
+					CREATE TABLE steps (
+						id INTEGER PRIMARY KEY AUTOINCREMENT,
+						session_id TEXT,
+						content_hash TEXT NOT NULL,
+						step_description TEXT NOT NULL,
+						expected_outcome TEXT NOT NULL,
+						next_step_conditions TEXT,
+						created_at TEXT NOT NULL
+					)
+				`,
+			},
+			{
+				kind: 'create_table',
+				table: 'step_tools',
+				sql: `
+					CREATE TABLE step_tools (
+						step_id INTEGER NOT NULL,
+						position INTEGER NOT NULL,
+						tool_name TEXT NOT NULL,
+						confidence REAL NOT NULL,
+						rationale TEXT NOT NULL,
+						priority INTEGER NOT NULL,
+						suggested_inputs TEXT,
+						alternatives TEXT,
+						confirmed BOOLEAN,
+						PRIMARY KEY (step_id, position),
+						FOREIGN KEY (step_id) REFERENCES steps(id)
+					) WITHOUT ROWID
+				`,
+			},
+			{
+				kind: 'create_table',
+				table: 'thought_steps',
+				sql: `
+					CREATE TABLE thought_steps (
+						thought_id INTEGER NOT NULL,
+						is_current BOOLEAN NOT NULL,
+						position INTEGER NOT NULL,
+						step_id INTEGER NOT NULL,
+						PRIMARY KEY (thought_id, is_current, position),
+						FOREIGN KEY (thought_id) REFERENCES thoughts(id),
+						FOREIGN KEY (step_id) REFERENCES steps(id)
+					) WITHOUT ROWID
+				`,
+			},
+			// Thought whose previous steps start this thought's; only the steps after them get rows
+			{ kind: 'add_column', table: 'thoughts', column: 'previous_steps_base', definition: 'INTEGER' },
+			{
+				kind: 'create_index',
+				index: 'idx_steps_content',
+				sql: 'CREATE UNIQUE INDEX idx_steps_content ON steps(session_id, content_hash)',
+			},
+			{
+				kind: 'migrate_data',
+				source: 'step_recommendations',
+				description: 'Deduplicate step_recommendations and tool_recommendations into steps',
+				apply: migrateLegacySteps,
+			},
+			{ kind: 'drop_table', table: 'tool_recommendations' },
+			{ kind: 'drop_table', table: 'step_recommendations' },
+		],
+	},
+	{
+		version: 10,
+		description: 'Count tool chain uses learned from recommendations',
+		operations: [
+			{ kind: 'add_column', table: 'tool_chains', column: 'recommended_uses', definition: 'INTEGER NOT NULL DEFAULT 0' },
+		],
+	},
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export class SchemaVersionError extends Error {
+	constructor(public readonly version: number, public readonly supported: number) {
+		super(`Database schema version ${version} is newer than the supported version ${supported}; upgrade the server`);
+		this.name = 'SchemaVersionError';
+	}
+}
+
+/**
+ * A pending migration with the statements it would run against the database
+ */
+export interface MigrationStep {
+	version: number;
+	description: string;
+	statements: string[];
+}
+
+export interface MigrationReport {
+	dbPath: string;
+	fromVersion: number;
+	toVersion: number;
+	dryRun: boolean;
+	migrations: MigrationStep[];  // Pending before the run
+	backupPath?: string;
+}
+
+export interface MigrationOptions {
+	dbPath: string;
+	backup: boolean;  // Copy the database next to it before migrating
+	migrations?: Migration[];
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+	return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Pending migrations with the statements each would run, skipping tables, columns and
+ * indexes that already exist
+ */
+export function planMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): MigrationStep[] {
+	const current = getSchemaVersion(db);
+	const latest = migrations[migrations.length - 1]?.version ?? 0;
+	if (current > latest) {
+		throw new SchemaVersionError(current, latest);
+	}
+
+	return [...migrations]
+		.sort((a, b) => a.version - b.version)
+		.filter(migration => migration.version > current)
+		.map(migration => ({
+			version: migration.version,
+			description: migration.description,
+			statements: migration.operations
+				.filter(operation => isNeeded(db, operation))
+				.map(toStatement),
+		}));
+}
+
+/**
+ * Bring the database to the latest schema version
+ */
+export function runMigrations(db: Database.Database, options: MigrationOptions): MigrationReport {
+	const migrations = options.migrations ?? MIGRATIONS;
+	const fromVersion = getSchemaVersion(db);
+	const pending = planMigrations(db, migrations);
+	const report: MigrationReport = {
+		dbPath: options.dbPath,
+		fromVersion,
+		toVersion: fromVersion,
+		dryRun: false,
+		migrations: pending,
+	};
+	if (pending.length === 0) return report;
+
+	if (options.backup && hasTables(db)) {
+		report.backupPath = backupDatabase(db, options.dbPath, fromVersion);
+	}
+
+	for (const step of pending) {
+		const migration = migrations.find(candidate => candidate.version === step.version)!;
+		db.transaction(() => {
+			for (const operation of migration.operations) {
+				if (!isNeeded(db, operation)) continue;
+				if (operation.kind === 'migrate_data') {
+					operation.apply(db);
+				} else {
+					db.exec(toStatement(operation));
+				}
+			}
+			db.pragma(`user_version = ${migration.version}`);
+		})();
+		report.toVersion = migration.version;
+		logger.info('Database migration applied', {
+			version: migration.version,
+			description: migration.description,
+		});
+	}
+
+	return report;
+}
+
+/**
+ * Report the migrations a database would need without changing or creating it
+ */
+export function previewMigrations(dbPath: string, migrations: Migration[] = MIGRATIONS): MigrationReport {
+	const exists = dbPath !== ':memory:' && existsSync(dbPath);
+	const db = exists ? new Database(dbPath, { readonly: true }) : new Database(':memory:');
+	try {
+		const fromVersion = getSchemaVersion(db);
+		const pending = planMigrations(db, migrations);
+		return {
+			dbPath,
+			fromVersion,
+			toVersion: pending[pending.length - 1]?.version ?? fromVersion,
+			dryRun: true,
+			migrations: pending,
+		};
+	} finally {
+		db.close();
+	}
+}
+
+function isNeeded(db: Database.Database, operation: MigrationOperation): boolean {
+	switch (operation.kind) {
+		case 'create_table':
+			return !hasObject(db, 'table', operation.table);
+		case 'create_index':
+			return !hasObject(db, 'index', operation.index);
+		case 'drop_table':
+			return hasObject(db, 'table', operation.table);
+		case 'migrate_data':
+			return hasObject(db, 'table', operation.source);
+		case 'add_column': {
+			// A table created by an earlier pending migration does not have the column yet
+			if (!hasObject(db, 'table', operation.table)) return true;
+			const columns = db.prepare(`PRAGMA table_info(${operation.table})`).all() as Array<{ name: string }>;
+			return !columns.some(column => column.name === operation.column);
+		}
+	}
+}
+
+function toStatement(operation: MigrationOperation): string {
+	switch (operation.kind) {
+		case 'create_table':
+		case 'create_index':
+			return operation.sql.replace(/\s+/g, ' ').trim();
+		case 'add_column':
+			return `ALTER TABLE ${operation.table} ADD COLUMN ${operation.column} ${operation.definition}`;
+		case 'drop_table':
+			return `DROP TABLE ${operation.table}`;
+		case 'migrate_data':
+			return `-- ${operation.description}`;
+	}
+}
+
+function hasObject(db: Database.Database, type: 'table' | 'index', name: string): boolean {
+	return db.prepare('SELECT 1 FROM sqlite_master WHERE type = ? AND name = ?').get(type, name) !== undefined;
+}
+
+function hasTables(db: Database.Database): boolean {
+	return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'").get() !== undefined;
+}
+
+/**
+ * Consistent copy of the database next to it, named after the version it had
+ */
+function backupDatabase(db: Database.Database, dbPath: string, version: number): string {
+	const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+	const backupPath = `${dbPath}.v${version}-${timestamp}.bak`;
+	db.prepare('VACUUM INTO ?').run(backupPath);
+	logger.info('Database backed up before migration', { backupPath, version });
+	return backupPath;
+}
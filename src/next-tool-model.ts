@@ -0,0 +1,151 @@
+/**
+ * N-gram next-tool model
+ * Learns order-k tool transitions from recorded chains and predicts the next tool
+ * with Witten-Bell interpolation down to an additively smoothed unigram distribution
+ */
+
+import { ToolChainScoringConfig } from './config-constants.js';
+import { ToolChain } from './tool-chains.js';
+
+export interface NextToolPrediction {
+	toolName: string;
+	confidence: number;  // Probability that this tool comes next
+	order: number;  // Longest context length that has observed this transition (0 = unigram)
+	observations: number;  // Success-weighted count of the transition at that order
+	reason: string;
+}
+
+type ModelOptions = Pick<ToolChainScoringConfig, 'modelOrder' | 'failureWeight' | 'recommendedWeight' | 'smoothing'>;
+
+// Marks the end of a chain so the model also learns when chains stop
+const END_OF_CHAIN = '\u0000end';
+
+interface ContextCounts {
+	total: number;
+	followers: Map<string, number>;
+}
+
+const contextKey = (tools: string[]) => tools.join('\u0001');
+
+export class NextToolModel {
+	// Context (joined tool names) -> weighted follower counts; '' holds the unigram counts
+	private contexts: Map<string, ContextCounts> = new Map();
+	private vocabulary: Set<string> = new Set();
+
+	constructor(private readonly options: ModelOptions) { }
+
+	/**
+	 * Rebuild the model from the given chains.
+	 * Each chain counts once per success and failureWeight per failed use, and the share of
+	 * uses learned from recommendations is scaled by recommendedWeight.
+	 */
+	train(chains: Iterable<ToolChain>): void {
+		this.contexts.clear();
+		this.vocabulary.clear();
+
+		for (const chain of chains) {
+			const failures = chain.totalUses - chain.successCount;
+			const recommendedShare = chain.totalUses > 0 ? (chain.recommendedUses ?? 0) / chain.totalUses : 0;
+			const weight = (chain.successCount + failures * this.options.failureWeight)
+				* (1 - recommendedShare * (1 - this.options.recommendedWeight));
+			if (weight <= 0) continue;
+
+			const sequence = [...chain.sequence, END_OF_CHAIN];
+			sequence.forEach((tool, position) => {
+				if (tool !== END_OF_CHAIN) this.vocabulary.add(tool);
+				const maxOrder = Math.min(this.options.modelOrder, position);
+				for (let order = 0; order <= maxOrder; order++) {
+					this.count(sequence.slice(position - order, position), tool, weight);
+				}
+			});
+		}
+	}
+
+	private count(context: string[], tool: string, weight: number): void {
+		const key = contextKey(context);
+		const counts = this.contexts.get(key) ?? { total: 0, followers: new Map() };
+		counts.total += weight;
+		counts.followers.set(tool, (counts.followers.get(tool) ?? 0) + weight);
+		this.contexts.set(key, counts);
+	}
+
+	/**
+	 * Additively smoothed unigram probability over known tools and the end marker
+	 */
+	private unigram(tool: string): number {
+		const counts = this.contexts.get('');
+		const outcomes = this.vocabulary.size + 1;
+		const smoothing = this.options.smoothing;
+		return ((counts?.followers.get(tool) ?? 0) + smoothing) / ((counts?.total ?? 0) + smoothing * outcomes);
+	}
+
+	/**
+	 * Witten-Bell interpolated probability of tool following history, using its last modelOrder tools
+	 */
+	probability(tool: string, history: string[]): number {
+		const recent = history.slice(Math.max(0, history.length - this.options.modelOrder));
+		let probability = this.unigram(tool);
+
+		// Interpolate from the shortest to the longest observed context
+		for (let order = 1; order <= recent.length; order++) {
+			const counts = this.contexts.get(contextKey(recent.slice(recent.length - order)));
+			if (!counts) continue;
+			const distinct = counts.followers.size;
+			probability = ((counts.followers.get(tool) ?? 0) + distinct * probability) / (counts.total + distinct);
+		}
+
+		return probability;
+	}
+
+	/**
+	 * Ranked next-tool candidates. Probabilities over all tools plus the chance that the
+	 * chain ends sum to 1; candidates below minProbability are dropped.
+	 */
+	predict(history: string[], minProbability = 0): NextToolPrediction[] {
+		const recent = history.slice(Math.max(0, history.length - this.options.modelOrder));
+		const predictions: NextToolPrediction[] = [];
+
+		for (const tool of this.vocabulary) {
+			const confidence = this.probability(tool, history);
+			if (confidence < minProbability) continue;
+
+			// Explain with the longest context that has seen this transition
+			let order = 0;
+			let observations = this.contexts.get('')?.followers.get(tool) ?? 0;
+			for (let length = recent.length; length >= 1; length--) {
+				const context = recent.slice(recent.length - length);
+				const seen = this.contexts.get(contextKey(context))?.followers.get(tool);
+				if (seen) {
+					order = length;
+					observations = seen;
+					break;
+				}
+			}
+
+			predictions.push({
+				toolName: tool,
+				confidence,
+				order,
+				observations,
+				reason: order > 0
+					? `Followed ${recent.slice(recent.length - order).join(' -> ')} in ${formatCount(observations)} weighted chain uses (order ${order}, p=${confidence.toFixed(2)})`
+					: `No chain continues the recent tools; backed off to overall tool frequency (p=${confidence.toFixed(2)})`,
+			});
+		}
+
+		return predictions.sort((a, b) => b.confidence - a.confidence || b.order - a.order);
+	}
+
+	/**
+	 * Probability that the chain ends after history
+	 */
+	endProbability(history: string[]): number {
+		return this.probability(END_OF_CHAIN, history);
+	}
+
+	getVocabularySize(): number {
+		return this.vocabulary.size;
+	}
+}
+
+const formatCount = (count: number) => (Number.isInteger(count) ? String(count) : count.toFixed(2));
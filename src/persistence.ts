@@ -5,24 +5,54 @@
 
 import Database from 'better-sqlite3';
 import { ThoughtData, StepRecommendation } from './types.js';
+import { ChainBuffer, ToolChain } from './tool-chains.js';
+import { ToolBudgetState } from './tool-budget.js';
+import {
+	categorizeToolError,
+	RECENT_OUTCOME_WINDOW,
+	ToolErrorCategory,
+	ToolOutcome,
+	ToolOutcomeSnapshot,
+} from './tool-outcomes.js';
 import { logger } from './logging.js';
 import { safeExecute } from './error-handling.js';
+import { MigrationReport, previewMigrations, runMigrations } from './migrations.js';
+import { linkPreviousSteps, linkStep, PreviousStepList, storeStep } from './step-storage.js';
+import {
+	ExecutionStatusRecord,
+	SessionSummary,
+	ThoughtComputedState,
+	ThoughtStore,
+} from './thought-store.js';
 
 export interface PersistenceConfig {
 	dbPath: string;
 	enablePersistence: boolean;
+	backupBeforeMigrate: boolean;
+	migrationDryRun: boolean;  // Report pending migrations and leave persistence disabled
 }
 
 const DEFAULT_DB_PATH = './mcp-thinking.db';
 
-export class PersistenceLayer {
+const toSqlBoolean = (value: boolean | undefined): number | null =>
+	value === undefined ? null : value ? 1 : 0;
+
+const toSqlJson = (value: unknown): string | null =>
+	value === undefined ? null : JSON.stringify(value);
+
+export class PersistenceLayer implements ThoughtStore {
 	private db: Database.Database | null = null;
 	private config: PersistenceConfig;
+	private migrationReport: MigrationReport | null = null;
+	// Base of each session's next previous_steps; seeded when a session's history is read
+	private previousSteps: Map<string | null, PreviousStepList> = new Map();
 
 	constructor(config: Partial<PersistenceConfig> = {}) {
 		this.config = {
 			dbPath: config.dbPath || DEFAULT_DB_PATH,
 			enablePersistence: config.enablePersistence ?? true,
+			backupBeforeMigrate: config.backupBeforeMigrate ?? true,
+			migrationDryRun: config.migrationDryRun ?? false,
 		};
 
 		if (this.config.enablePersistence) {
@@ -31,82 +61,54 @@ export class PersistenceLayer {
 	}
 
 	private initialize(): void {
+		if (this.config.migrationDryRun) {
+			try {
+				this.migrationReport = previewMigrations(this.config.dbPath);
+				logger.warn('Migration dry run: persistence disabled', { ...this.migrationReport });
+			} catch (error) {
+				logger.error('Migration dry run failed', error, { dbPath: this.config.dbPath });
+			}
+			return;
+		}
+
 		try {
 			this.db = new Database(this.config.dbPath);
-			this.createTables();
-			logger.info('Persistence layer initialized', { dbPath: this.config.dbPath });
+			this.migrationReport = runMigrations(this.db, {
+				dbPath: this.config.dbPath,
+				backup: this.config.backupBeforeMigrate,
+			});
+			logger.info('Persistence layer initialized', {
+				dbPath: this.config.dbPath,
+				schemaVersion: this.migrationReport.toVersion,
+			});
 		} catch (error) {
-			logger.error('Failed to initialize persistence layer', error);
+			// STORAGE_BACKEND=jsonl needs no native module when better-sqlite3 cannot be built
+			logger.error('Failed to initialize persistence layer', error, { dbPath: this.config.dbPath });
+			this.db?.close();
 			this.db = null;
 		}
 	}
 
-	private createTables(): void {
-		if (!this.db) return;
-
-		// Thoughts table
-		this.db.exec(`
-			CREATE TABLE IF NOT EXISTS thoughts (
-				id INTEGER PRIMARY KEY AUTOINCREMENT,
-				thought_number INTEGER NOT NULL,
-				total_thoughts INTEGER NOT NULL,
-				thought TEXT NOT NULL,
-				is_revision BOOLEAN DEFAULT 0,
-				revises_thought INTEGER,
-				branch_from_thought INTEGER,
-				branch_id TEXT,
-				needs_more_thoughts BOOLEAN DEFAULT 0,
-				next_thought_needed BOOLEAN NOT NULL,
-				available_mcp_tools TEXT NOT NULL,
-				confidence REAL,
-				created_at TEXT NOT NULL,
-				session_id TEXT
-			)
-		`);
-
-		// Step recommendations table
-		this.db.exec(`
-			CREATE TABLE IF NOT EXISTS step_recommendations (
-				id INTEGER PRIMARY KEY AUTOINCREMENT,
-				thought_id INTEGER NOT NULL,
-				step_description TEXT NOT NULL,
-				expected_outcome TEXT NOT NULL,
-				next_step_conditions TEXT,
-				is_current BOOLEAN DEFAULT 0,
-				created_at TEXT NOT NULL,
-				FOREIGN KEY (thought_id) REFERENCES thoughts(id)
-			)
-		`);
-
-		// Tool recommendations table
-		this.db.exec(`
-			CREATE TABLE IF NOT EXISTS tool_recommendations (
-				id INTEGER PRIMARY KEY AUTOINCREMENT,
-				step_id INTEGER NOT NULL,
-				tool_name TEXT NOT NULL,
-				confidence REAL NOT NULL,
-				rationale TEXT NOT NULL,
-				priority INTEGER NOT NULL,
-				suggested_inputs TEXT,
-				alternatives TEXT,
-				created_at TEXT NOT NULL,
-				FOREIGN KEY (step_id) REFERENCES step_recommendations(id)
-			)
-		`);
+	isEnabled(): boolean {
+		return this.db !== null && this.config.enablePersistence;
+	}
 
-		// Create indexes for faster queries
-		this.db.exec(`
-			CREATE INDEX IF NOT EXISTS idx_thoughts_number ON thoughts(thought_number);
-			CREATE INDEX IF NOT EXISTS idx_thoughts_branch ON thoughts(branch_id);
-			CREATE INDEX IF NOT EXISTS idx_thoughts_session ON thoughts(session_id);
-			CREATE INDEX IF NOT EXISTS idx_steps_thought ON step_recommendations(thought_id);
-			CREATE INDEX IF NOT EXISTS idx_tools_step ON tool_recommendations(step_id);
-		`);
+	async whenReady(): Promise<boolean> {
+		return this.isEnabled();
+	}
 
-		logger.debug('Database tables created/verified');
+	/**
+	 * Outcome of the schema migrations run (or previewed) during initialization
+	 */
+	getMigrationReport(): MigrationReport | null {
+		return this.migrationReport;
 	}
 
-	async saveThought(thought: ThoughtData, sessionId?: string): Promise<number | null> {
+	async saveThought(
+		thought: ThoughtData,
+		sessionId?: string,
+		computed?: ThoughtComputedState
+	): Promise<number | null> {
 		const db = this.db;
 		if (!db || !this.config.enablePersistence) return null;
 
@@ -115,45 +117,13 @@ export class PersistenceLayer {
 			db.exec('BEGIN TRANSACTION');
 
 			try {
-				const stmt = db.prepare(`
-					INSERT INTO thoughts (
-						thought_number, total_thoughts, thought, is_revision, revises_thought,
-						branch_from_thought, branch_id, needs_more_thoughts, next_thought_needed,
-						available_mcp_tools, confidence, created_at, session_id
-					) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-				`);
-
-				const info = stmt.run(
-					thought.thought_number,
-					thought.total_thoughts,
-					thought.thought,
-					thought.is_revision ? 1 : 0,
-					thought.revises_thought || null,
-					thought.branch_from_thought || null,
-					thought.branch_id || null,
-					thought.needs_more_thoughts ? 1 : 0,
-					thought.next_thought_needed ? 1 : 0,
-					JSON.stringify(thought.available_mcp_tools),
-					thought.confidence || null,
-					new Date().toISOString(),
-					sessionId || null
+				const sessionKey = sessionId || null;
+				const { thoughtId, previousSteps } = this.insertThought(
+					db, thought, sessionId, computed, this.previousSteps.get(sessionKey)
 				);
 
-				const thoughtId = Number(info.lastInsertRowid);
-
-				// Save current step if present
-				if (thought.current_step) {
-					this.saveStepRecommendation(db, thoughtId, thought.current_step, true);
-				}
-
-				// Save previous steps
-				if (thought.previous_steps) {
-					for (const step of thought.previous_steps) {
-						this.saveStepRecommendation(db, thoughtId, step, false);
-					}
-				}
-
 				db.exec('COMMIT');
+				if (previousSteps) this.previousSteps.set(sessionKey, previousSteps);
 
 				logger.debug('Thought saved to database', {
 					thoughtId,
@@ -170,58 +140,84 @@ export class PersistenceLayer {
 		return result.success ? result.data! : null;
 	}
 
-	private saveStepRecommendation(
+	/**
+	 * Insert a thought with its steps. Returns its id and, when it has previous steps, the
+	 * list the session's next thought builds on.
+	 */
+	private insertThought(
 		db: Database.Database,
-		thoughtId: number,
-		step: StepRecommendation,
-		isCurrent: boolean
-	): void {
-		if (!db) return;
+		thought: ThoughtData,
+		sessionId?: string,
+		computed?: ThoughtComputedState,
+		base?: PreviousStepList
+	): { thoughtId: number; previousSteps?: PreviousStepList } {
+		const stmt = db.prepare(`
+			INSERT INTO thoughts (
+				thought_number, total_thoughts, thought, is_revision, revises_thought,
+				branch_from_thought, branch_id, needs_more_thoughts, next_thought_needed,
+				available_mcp_tools, confidence, created_at, session_id, depends_on,
+				remaining_steps, budget, previous_step_count, computed
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		`);
 
-		try {
-			const stmt = db.prepare(`
-				INSERT INTO step_recommendations (
-					thought_id, step_description, expected_outcome, next_step_conditions,
-					is_current, created_at
-				) VALUES (?, ?, ?, ?, ?, ?)
-			`);
-
-			const info = stmt.run(
-				thoughtId,
-				step.step_description,
-				step.expected_outcome,
-				step.next_step_conditions ? JSON.stringify(step.next_step_conditions) : null,
-				isCurrent ? 1 : 0,
-				new Date().toISOString()
-			);
+		// Absent optional fields are stored as NULL so they stay absent on rehydration
+		const info = stmt.run(
+			thought.thought_number,
+			thought.total_thoughts,
+			thought.thought,
+			toSqlBoolean(thought.is_revision),
+			thought.revises_thought ?? null,
+			thought.branch_from_thought ?? null,
+			thought.branch_id ?? null,
+			toSqlBoolean(thought.needs_more_thoughts),
+			thought.next_thought_needed ? 1 : 0,
+			JSON.stringify(thought.available_mcp_tools),
+			thought.confidence ?? null,
+			new Date().toISOString(),
+			sessionId || null,
+			toSqlJson(thought.depends_on),
+			toSqlJson(thought.remaining_steps),
+			toSqlJson(thought.budget),
+			thought.previous_steps?.length ?? null,
+			toSqlJson(computed)
+		);
+
+		const thoughtId = Number(info.lastInsertRowid);
+
+		// Steps are stored once per session; the thought references them
+		const stepSessionId = sessionId || null;
+		if (thought.current_step) {
+			const stepId = this.saveStep(db, stepSessionId, thought.current_step);
+			linkStep(db, thoughtId, stepId, true, 0);
+		}
+		const previousSteps = thought.previous_steps
+			? linkPreviousSteps(db, thoughtId, thought.previous_steps.map(step => this.saveStep(db, stepSessionId, step)), base)
+			: undefined;
 
-			const stepId = Number(info.lastInsertRowid);
-
-			// Save tool recommendations
-			for (const tool of step.recommended_tools) {
-				const toolStmt = db.prepare(`
-					INSERT INTO tool_recommendations (
-						step_id, tool_name, confidence, rationale, priority,
-						suggested_inputs, alternatives, created_at
-					) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-				`);
-
-				toolStmt.run(
-					stepId,
-					tool.tool_name,
-					tool.confidence,
-					tool.rationale,
-					tool.priority,
-					tool.suggested_inputs ? JSON.stringify(tool.suggested_inputs) : null,
-					tool.alternatives ? JSON.stringify(tool.alternatives) : null,
-					new Date().toISOString()
-				);
-			}
+		return { thoughtId, previousSteps };
+	}
+
+	private saveStep(db: Database.Database, sessionId: string | null, step: StepRecommendation): number {
+		try {
+			return storeStep(db, sessionId, {
+				step_description: step.step_description,
+				expected_outcome: step.expected_outcome,
+				next_step_conditions: toSqlJson(step.next_step_conditions),
+				// Tools keep the order they were given in, not priority order
+				tools: step.recommended_tools.map(tool => ({
+					tool_name: tool.tool_name,
+					confidence: tool.confidence,
+					rationale: tool.rationale,
+					priority: tool.priority,
+					suggested_inputs: toSqlJson(tool.suggested_inputs),
+					alternatives: toSqlJson(tool.alternatives),
+					confirmed: toSqlBoolean(tool.confirmed),
+				})),
+			});
 		} catch (error) {
 			logger.error('Failed to save step recommendation', error, {
-				thoughtId,
+				sessionId,
 				stepDescription: step.step_description,
-				isCurrent,
 			});
 			throw error;
 		}
@@ -261,27 +257,22 @@ export class PersistenceLayer {
 		}
 
 		const result = await safeExecute(async () => {
+			// Insertion order is the order the session recorded them in
 			const thoughtRows = db.prepare(`
-				SELECT * FROM thoughts 
-				WHERE session_id = ? 
-				ORDER BY thought_number ASC
+				SELECT * FROM thoughts
+				WHERE session_id = ?
+				ORDER BY id ASC
 			`).all(sessionId) as any[];
 
 			if (thoughtRows.length === 0) return [];
 
 			const thoughts: ThoughtData[] = [];
-			const thoughtMap = new Map<number, ThoughtData>();
 
 			for (const row of thoughtRows) {
 				const thought: ThoughtData = {
 					thought_number: row.thought_number,
 					total_thoughts: row.total_thoughts,
 					thought: row.thought,
-					is_revision: Boolean(row.is_revision),
-					revises_thought: row.revises_thought || undefined,
-					branch_from_thought: row.branch_from_thought || undefined,
-					branch_id: row.branch_id || undefined,
-					needs_more_thoughts: Boolean(row.needs_more_thoughts),
 					next_thought_needed: Boolean(row.next_thought_needed),
 					available_mcp_tools: this.parseJson<string[]>(
 						row.available_mcp_tools,
@@ -292,11 +283,47 @@ export class PersistenceLayer {
 						},
 						Array.isArray
 					),
-					confidence: row.confidence ?? undefined,
 				};
+				if (row.is_revision !== null) thought.is_revision = Boolean(row.is_revision);
+				if (row.revises_thought !== null) thought.revises_thought = row.revises_thought;
+				if (row.branch_from_thought !== null) thought.branch_from_thought = row.branch_from_thought;
+				if (row.branch_id !== null) thought.branch_id = row.branch_id;
+				if (row.needs_more_thoughts !== null) thought.needs_more_thoughts = Boolean(row.needs_more_thoughts);
+				if (row.confidence !== null) thought.confidence = row.confidence;
+				// Rows written before the step count was stored have previous steps only when there are rows for them
+				if (row.previous_step_count !== null) thought.previous_steps = [];
+
+				const dependsOn = this.parseJson<number[] | undefined>(
+					row.depends_on,
+					undefined,
+					{ thoughtId: row.id, field: 'depends_on' },
+					Array.isArray
+				);
+				if (dependsOn) {
+					thought.depends_on = dependsOn;
+				}
+
+				const remainingSteps = this.parseJson<string[] | undefined>(
+					row.remaining_steps,
+					undefined,
+					{ thoughtId: row.id, field: 'remaining_steps' },
+					Array.isArray
+				);
+				if (remainingSteps) {
+					thought.remaining_steps = remainingSteps;
+				}
+
+				const budget = this.parseJson<ThoughtData['budget']>(
+					row.budget,
+					undefined,
+					{ thoughtId: row.id, field: 'budget' },
+					value => typeof value === 'object' && value !== null && !Array.isArray(value)
+				);
+				if (budget) {
+					thought.budget = budget;
+				}
 
 				thoughts.push(thought);
-				thoughtMap.set(row.id, thought);
 			}
 
 			const thoughtIds = this.extractValidIds(thoughtRows.map(row => row.id));
@@ -305,70 +332,58 @@ export class PersistenceLayer {
 			const CHUNK_SIZE = 900;
 			const thoughtIdChunks = this.chunk(thoughtIds, CHUNK_SIZE);
 
-			const stepRows: any[] = [];
+			const linkRows: any[] = [];
 			for (const chunk of thoughtIdChunks) {
 				if (chunk.length === 0) continue;
 				const placeholders = chunk.map(() => '?').join(',');
 				const rows = db.prepare(`
-					SELECT * FROM step_recommendations
+					SELECT * FROM thought_steps
 					WHERE thought_id IN (${placeholders})
-					ORDER BY thought_id ASC, is_current DESC, id ASC
+					ORDER BY thought_id ASC, is_current DESC, position ASC
 				`).all(...chunk) as any[];
-				stepRows.push(...rows);
+				linkRows.push(...rows);
 			}
 
+			// Each stored step is loaded once and shared by the thoughts that reference it
+			const stepIds = this.extractValidIds(new Set(linkRows.map(row => row.step_id)));
+			const stepIdChunks = this.chunk(stepIds, CHUNK_SIZE);
 			const stepMap = new Map<number, StepRecommendation>();
-			const stepIds: number[] = [];
-
-			for (const row of stepRows) {
-				const step: StepRecommendation = {
-					step_description: row.step_description,
-					expected_outcome: row.expected_outcome,
-					recommended_tools: [],
-				};
 
-				const parsedConditions = this.parseJson<string[] | undefined>(
-					row.next_step_conditions,
-					undefined,
-					{ stepId: row.id, field: 'next_step_conditions' },
-					value => value === undefined || Array.isArray(value)
-				);
-				if (parsedConditions !== undefined) {
-					step.next_step_conditions = parsedConditions;
-				}
+			for (const chunk of stepIdChunks) {
+				if (chunk.length === 0) continue;
+				const placeholders = chunk.map(() => '?').join(',');
+				const rows = db.prepare(`
+					SELECT * FROM steps WHERE id IN (${placeholders})
+				`).all(...chunk) as any[];
 
-				const thought = thoughtMap.get(row.thought_id);
-				if (thought) {
-					if (row.is_current) {
-						if (!thought.current_step) {
-							thought.current_step = step;
-						} else {
-							throw new Error(
-								`Multiple current steps found during rehydration for thoughtId=${row.thought_id}. Duplicate stepId=${row.id}.`
-							);
-						}
-					} else {
-						thought.previous_steps = [...(thought.previous_steps || []), step];
+				for (const row of rows) {
+					const step: StepRecommendation = {
+						step_description: row.step_description,
+						expected_outcome: row.expected_outcome,
+						recommended_tools: [],
+					};
+
+					const parsedConditions = this.parseJson<string[] | undefined>(
+						row.next_step_conditions,
+						undefined,
+						{ stepId: row.id, field: 'next_step_conditions' },
+						value => value === undefined || Array.isArray(value)
+					);
+					if (parsedConditions !== undefined) {
+						step.next_step_conditions = parsedConditions;
 					}
-				}
-
-				stepMap.set(row.id, step);
-				const stepIdNum = Number(row.id);
-				if (Number.isFinite(stepIdNum)) {
-					stepIds.push(stepIdNum);
+					stepMap.set(row.id, step);
 				}
 			}
 
-			const stepIdChunks = this.chunk(stepIds, CHUNK_SIZE);
 			const toolRows: any[] = [];
-
 			for (const chunk of stepIdChunks) {
 				if (chunk.length === 0) continue;
 				const placeholders = chunk.map(() => '?').join(',');
 				const rows = db.prepare(`
-					SELECT * FROM tool_recommendations
+					SELECT * FROM step_tools
 					WHERE step_id IN (${placeholders})
-					ORDER BY step_id ASC, priority ASC, id ASC
+					ORDER BY step_id ASC, position ASC
 				`).all(...chunk) as any[];
 				toolRows.push(...rows);
 			}
@@ -377,16 +392,17 @@ export class PersistenceLayer {
 				const step = stepMap.get(row.step_id);
 				if (!step) continue;
 
+				const toolContext = { stepId: row.step_id, position: row.position };
 				const suggestedInputs = this.parseJson<Record<string, unknown> | undefined>(
 					row.suggested_inputs,
 					undefined,
-					{ toolId: row.id, field: 'suggested_inputs' },
+					{ ...toolContext, field: 'suggested_inputs' },
 					value => value === undefined || (typeof value === 'object' && !Array.isArray(value))
 				);
 				const alternatives = this.parseJson<string[] | undefined>(
 					row.alternatives,
 					undefined,
-					{ toolId: row.id, field: 'alternatives' },
+					{ ...toolContext, field: 'alternatives' },
 					value => value === undefined || Array.isArray(value)
 				);
 
@@ -397,9 +413,47 @@ export class PersistenceLayer {
 					priority: row.priority,
 					...(suggestedInputs !== undefined ? { suggested_inputs: suggestedInputs } : {}),
 					...(alternatives !== undefined ? { alternatives } : {}),
+					...(row.confirmed !== null ? { confirmed: Boolean(row.confirmed) } : {}),
 				});
 			}
 
+			const currentStepIds = new Map<number, number>();
+			const ownPreviousStepIds = new Map<number, number[]>();
+			for (const row of linkRows) {
+				if (row.is_current) {
+					currentStepIds.set(row.thought_id, row.step_id);
+				} else {
+					const own = ownPreviousStepIds.get(row.thought_id) ?? [];
+					own.push(row.step_id);
+					ownPreviousStepIds.set(row.thought_id, own);
+				}
+			}
+
+			// A base is an earlier thought of the session, so its list is resolved first
+			const previousStepIds = new Map<number, number[]>();
+			let latest: PreviousStepList | undefined;
+			for (const [index, row] of thoughtRows.entries()) {
+				const thought = thoughts[index];
+				const currentStepId = currentStepIds.get(row.id);
+				const currentStep = currentStepId !== undefined ? stepMap.get(currentStepId) : undefined;
+				if (currentStep) thought.current_step = currentStep;
+
+				const own = ownPreviousStepIds.get(row.id) ?? [];
+				const shared = row.previous_steps_base !== null && row.previous_step_count !== null
+					? (previousStepIds.get(row.previous_steps_base) ?? []).slice(0, row.previous_step_count - own.length)
+					: [];
+				const stepIds = [...shared, ...own];
+				if (!thought.previous_steps && stepIds.length === 0) continue;
+
+				previousStepIds.set(row.id, stepIds);
+				latest = { thoughtId: row.id, stepIds };
+				thought.previous_steps = stepIds
+					.map(stepId => stepMap.get(stepId))
+					.filter((step): step is StepRecommendation => step !== undefined);
+			}
+			// A restarted server continues the session from its stored list
+			if (latest) this.previousSteps.set(sessionId, latest);
+
 			return thoughts;
 		}, 'getThoughtHistory', []);
 
@@ -420,6 +474,479 @@ export class PersistenceLayer {
 			.filter(value => Number.isFinite(value));
 	}
 
+	/**
+	 * Summarise every persisted session, most recently active first
+	 */
+	async listSessions(): Promise<SessionSummary[]> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return [];
+
+		const result = await safeExecute(async () => {
+			const rows = db.prepare(`
+				SELECT
+					t.session_id AS session_id,
+					COUNT(*) AS thought_count,
+					MIN(t.created_at) AS first_activity,
+					MAX(t.created_at) AS last_activity,
+					(
+						SELECT latest.thought_number FROM thoughts latest
+						WHERE latest.session_id = t.session_id
+						ORDER BY latest.id DESC LIMIT 1
+					) AS last_thought_number,
+					(
+						SELECT latest.next_thought_needed FROM thoughts latest
+						WHERE latest.session_id = t.session_id
+						ORDER BY latest.id DESC LIMIT 1
+					) AS last_next_thought_needed
+				FROM thoughts t
+				WHERE t.session_id IS NOT NULL
+				GROUP BY t.session_id
+				ORDER BY last_activity DESC
+			`).all() as any[];
+
+			return rows.map((row): SessionSummary => ({
+				sessionId: row.session_id,
+				thoughtCount: row.thought_count,
+				firstActivity: row.first_activity,
+				lastActivity: row.last_activity,
+				lastThoughtNumber: row.last_thought_number,
+				completed: !row.last_next_thought_needed,
+			}));
+		}, 'listSessions', []);
+
+		return result.success && result.data ? result.data : [];
+	}
+
+	async hasSession(sessionId: string): Promise<boolean> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return false;
+
+		const result = await safeExecute(async () => {
+			const row = db.prepare('SELECT 1 FROM thoughts WHERE session_id = ? LIMIT 1').get(sessionId);
+			return row !== undefined;
+		}, 'hasSession', false);
+
+		return result.success ? result.data : false;
+	}
+
+	/**
+	 * Copy thoughts (with their steps, tools and computed state) into another session in one transaction.
+	 * Returns the number of thoughts written.
+	 */
+	async copyThoughts(
+		thoughts: ThoughtData[],
+		targetSessionId: string,
+		computedStates: Array<ThoughtComputedState | undefined> = []
+	): Promise<number> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return 0;
+
+		const result = await safeExecute(async () => {
+			const transactional = db.transaction((items: ThoughtData[]) => {
+				let base = this.previousSteps.get(targetSessionId);
+				items.forEach((thought, index) => {
+					base = this.insertThought(db, thought, targetSessionId, computedStates[index], base).previousSteps ?? base;
+				});
+				return base;
+			});
+
+			const base = transactional(thoughts);
+			if (base) this.previousSteps.set(targetSessionId, base);
+			logger.info('Thoughts copied to session', {
+				targetSessionId,
+				thoughtCount: thoughts.length,
+			});
+			return thoughts.length;
+		}, 'copyThoughts');
+
+		if (!result.success) {
+			throw new Error(`Failed to copy thoughts into session ${targetSessionId}: ${result.error.error}`);
+		}
+		return result.data;
+	}
+
+	/**
+	 * Record the terminal execution status reported for a thought's step
+	 */
+	async updateExecutionStatus(
+		sessionId: string,
+		thoughtNumber: number,
+		record: ExecutionStatusRecord
+	): Promise<void> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return;
+
+		await safeExecute(async () => {
+			// Revisions and branches can reuse a number; the result belongs to the latest thought
+			db.prepare(`
+				UPDATE thoughts SET execution_status = ?, execution_error = ?
+				WHERE id = (SELECT MAX(id) FROM thoughts WHERE session_id = ? AND thought_number = ?)
+			`).run(record.status, record.error ?? null, sessionId, thoughtNumber);
+		}, 'updateExecutionStatus');
+	}
+
+	/**
+	 * Terminal execution statuses recorded for a session, keyed by thought number
+	 */
+	async getExecutionStatuses(sessionId: string): Promise<Map<number, ExecutionStatusRecord>> {
+		const db = this.db;
+		const statuses = new Map<number, ExecutionStatusRecord>();
+		if (!db || !this.config.enablePersistence) return statuses;
+
+		const result = await safeExecute(async () => {
+			return db.prepare(`
+				SELECT thought_number, execution_status, execution_error FROM thoughts
+				WHERE session_id = ? AND execution_status IS NOT NULL
+				ORDER BY id ASC
+			`).all(sessionId) as Array<{
+				thought_number: number;
+				execution_status: ExecutionStatusRecord['status'];
+				execution_error: string | null;
+			}>;
+		}, 'getExecutionStatuses', []);
+
+		for (const row of result.success && result.data ? result.data : []) {
+			statuses.set(row.thought_number, {
+				status: row.execution_status,
+				...(row.execution_error ? { error: row.execution_error } : {}),
+			});
+		}
+		return statuses;
+	}
+
+	/**
+	 * Server-computed state stored with each thought of a session, in getThoughtHistory order
+	 */
+	async getComputedStates(sessionId: string): Promise<Array<ThoughtComputedState | undefined>> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return [];
+
+		const result = await safeExecute(async () => {
+			return db.prepare(`
+				SELECT id, computed FROM thoughts
+				WHERE session_id = ?
+				ORDER BY id ASC
+			`).all(sessionId) as Array<{ id: number; computed: string | null }>;
+		}, 'getComputedStates', []);
+
+		return (result.success && result.data ? result.data : []).map(row =>
+			this.parseJson<ThoughtComputedState | undefined>(
+				row.computed,
+				undefined,
+				{ thoughtId: row.id, field: 'computed' },
+				value => typeof value === 'object' && value !== null && !Array.isArray(value)
+			));
+	}
+
+	/**
+	 * Insert or update a learned tool chain
+	 */
+	async saveToolChain(chain: ToolChain): Promise<void> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return;
+
+		await safeExecute(async () => {
+			db.prepare(`
+				INSERT INTO tool_chains (
+					chain_key, chain_id, sequence, context, success_count,
+					total_uses, recommended_uses, average_confidence, last_used
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(chain_key) DO UPDATE SET
+					context = excluded.context,
+					success_count = excluded.success_count,
+					total_uses = excluded.total_uses,
+					recommended_uses = excluded.recommended_uses,
+					average_confidence = excluded.average_confidence,
+					last_used = excluded.last_used
+			`).run(
+				chain.sequence.join('->'),
+				chain.id,
+				JSON.stringify(chain.sequence),
+				chain.context,
+				chain.successCount,
+				chain.totalUses,
+				chain.recommendedUses ?? 0,
+				chain.averageConfidence,
+				chain.lastUsed
+			);
+		}, 'saveToolChain');
+	}
+
+	/**
+	 * Every learned tool chain, oldest first
+	 */
+	async getToolChains(): Promise<ToolChain[]> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return [];
+
+		const result = await safeExecute(async () => {
+			return db.prepare(`
+				SELECT chain_id, sequence, context, success_count, total_uses, recommended_uses, average_confidence, last_used
+				FROM tool_chains ORDER BY rowid ASC
+			`).all() as Array<{
+				chain_id: string;
+				sequence: string;
+				context: string;
+				success_count: number;
+				total_uses: number;
+				recommended_uses: number;
+				average_confidence: number;
+				last_used: string;
+			}>;
+		}, 'getToolChains', []);
+
+		const chains: ToolChain[] = [];
+		for (const row of result.success && result.data ? result.data : []) {
+			const sequence = this.parseSequence(row.sequence);
+			if (sequence.length === 0) {
+				logger.warn('Skipping stored tool chain with an invalid sequence', { chainId: row.chain_id });
+				continue;
+			}
+			chains.push({
+				id: row.chain_id,
+				sequence,
+				context: row.context,
+				successCount: row.success_count,
+				totalUses: row.total_uses,
+				...(row.recommended_uses > 0 ? { recommendedUses: row.recommended_uses } : {}),
+				averageConfidence: row.average_confidence,
+				lastUsed: row.last_used,
+			});
+		}
+		return chains;
+	}
+
+	/**
+	 * Store a session's in-progress tool chain; an empty, unexecuted buffer removes it
+	 */
+	async saveCurrentChain(sessionId: string, buffer: ChainBuffer): Promise<void> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return;
+
+		await safeExecute(async () => {
+			if (buffer.sequence.length === 0 && !buffer.executed) {
+				db.prepare('DELETE FROM tool_chain_buffers WHERE session_id = ?').run(sessionId);
+				return;
+			}
+			db.prepare(`
+				INSERT INTO tool_chain_buffers (session_id, sequence, updated_at, executed, failures)
+				VALUES (?, ?, ?, ?, ?)
+				ON CONFLICT(session_id) DO UPDATE SET
+					sequence = excluded.sequence,
+					updated_at = excluded.updated_at,
+					executed = excluded.executed,
+					failures = excluded.failures
+			`).run(
+				sessionId,
+				JSON.stringify(buffer.sequence),
+				new Date().toISOString(),
+				buffer.executed ? 1 : 0,
+				buffer.failures
+			);
+		}, 'saveCurrentChain');
+	}
+
+	async getCurrentChain(sessionId: string): Promise<ChainBuffer> {
+		const db = this.db;
+		const empty: ChainBuffer = { sequence: [], executed: false, failures: 0 };
+		if (!db || !this.config.enablePersistence) return empty;
+
+		const result = await safeExecute(async () => {
+			return db.prepare('SELECT sequence, executed, failures FROM tool_chain_buffers WHERE session_id = ?')
+				.get(sessionId) as { sequence: string; executed: number; failures: number } | undefined;
+		}, 'getCurrentChain');
+
+		if (!result.success || !result.data) return empty;
+		return {
+			sequence: this.parseSequence(result.data.sequence),
+			executed: Boolean(result.data.executed),
+			failures: result.data.failures,
+		};
+	}
+
+	async saveSessionBudget(sessionId: string, state: ToolBudgetState): Promise<void> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return;
+
+		await safeExecute(async () => {
+			db.prepare(`
+				INSERT INTO session_budgets (
+					session_id, max_high_cost_calls, max_cost_units,
+					calls, high_cost_calls, cost_units, updated_at
+				) VALUES (?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(session_id) DO UPDATE SET
+					max_high_cost_calls = excluded.max_high_cost_calls,
+					max_cost_units = excluded.max_cost_units,
+					calls = excluded.calls,
+					high_cost_calls = excluded.high_cost_calls,
+					cost_units = excluded.cost_units,
+					updated_at = excluded.updated_at
+			`).run(
+				sessionId,
+				state.limits.maxHighCostCalls ?? null,
+				state.limits.maxCostUnits ?? null,
+				state.spent.calls,
+				state.spent.high_cost_calls,
+				state.spent.cost_units,
+				new Date().toISOString()
+			);
+		}, 'saveSessionBudget');
+	}
+
+	async getSessionBudget(sessionId: string): Promise<ToolBudgetState | null> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return null;
+
+		const result = await safeExecute(async () => {
+			return db.prepare(`
+				SELECT max_high_cost_calls, max_cost_units, calls, high_cost_calls, cost_units
+				FROM session_budgets WHERE session_id = ?
+			`).get(sessionId) as {
+				max_high_cost_calls: number | null;
+				max_cost_units: number | null;
+				calls: number;
+				high_cost_calls: number;
+				cost_units: number;
+			} | undefined;
+		}, 'getSessionBudget');
+
+		if (!result.success || !result.data) return null;
+		const row = result.data;
+		return {
+			limits: {
+				maxHighCostCalls: row.max_high_cost_calls ?? undefined,
+				maxCostUnits: row.max_cost_units ?? undefined,
+			},
+			spent: {
+				calls: row.calls,
+				high_cost_calls: row.high_cost_calls,
+				cost_units: row.cost_units,
+			},
+		};
+	}
+
+	async saveToolOutcome(toolName: string, outcome: ToolOutcome): Promise<void> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return;
+
+		await safeExecute(async () => {
+			db.prepare(`
+				INSERT INTO tool_outcomes (
+					tool_name, session_id, thought_number, success, duration_ms,
+					error, error_category, output_summary, reported_at
+				) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`).run(
+				toolName,
+				outcome.sessionId ?? null,
+				outcome.thoughtNumber ?? null,
+				outcome.success ? 1 : 0,
+				outcome.durationMs ?? null,
+				outcome.error ?? null,
+				outcome.success ? null : categorizeToolError(outcome.error),
+				outcome.outputSummary ?? null,
+				outcome.reportedAt ?? new Date().toISOString()
+			);
+		}, 'saveToolOutcome');
+	}
+
+	/**
+	 * Per-tool aggregates of every stored outcome plus each tool's most recent outcomes
+	 */
+	async getToolOutcomeSnapshots(window: number = RECENT_OUTCOME_WINDOW): Promise<ToolOutcomeSnapshot[]> {
+		const db = this.db;
+		if (!db || !this.config.enablePersistence) return [];
+
+		const result = await safeExecute(async () => {
+			const totals = db.prepare(`
+				SELECT tool_name,
+					SUM(success) AS successes,
+					SUM(1 - success) AS failures,
+					COUNT(duration_ms) AS timed_calls,
+					COALESCE(SUM(duration_ms), 0) AS total_duration_ms,
+					MAX(reported_at) AS last_reported_at
+				FROM tool_outcomes GROUP BY tool_name
+			`).all() as Array<{
+				tool_name: string;
+				successes: number;
+				failures: number;
+				timed_calls: number;
+				total_duration_ms: number;
+				last_reported_at: string;
+			}>;
+			const categories = db.prepare(`
+				SELECT tool_name, error_category, COUNT(*) AS count FROM tool_outcomes
+				WHERE success = 0 GROUP BY tool_name, error_category
+			`).all() as Array<{ tool_name: string; error_category: ToolErrorCategory | null; count: number }>;
+			const latest = db.prepare(`
+				SELECT tool_name, error, reported_at, output_summary, success FROM tool_outcomes
+				WHERE id IN (
+					SELECT MAX(id) FROM tool_outcomes WHERE success = 0 GROUP BY tool_name
+					UNION SELECT MAX(id) FROM tool_outcomes WHERE output_summary IS NOT NULL GROUP BY tool_name
+				)
+				ORDER BY id ASC
+			`).all() as Array<{
+				tool_name: string;
+				error: string | null;
+				reported_at: string;
+				output_summary: string | null;
+				success: number;
+			}>;
+			const recent = db.prepare(`
+				SELECT tool_name, success, duration_ms FROM (
+					SELECT tool_name, success, duration_ms, id,
+						ROW_NUMBER() OVER (PARTITION BY tool_name ORDER BY id DESC) AS position
+					FROM tool_outcomes
+				) WHERE position <= ? ORDER BY id ASC
+			`).all(window) as Array<{ tool_name: string; success: number; duration_ms: number | null }>;
+
+			return { totals, categories, latest, recent };
+		}, 'getToolOutcomeSnapshots');
+
+		if (!result.success || !result.data) return [];
+		const { totals, categories, latest, recent } = result.data;
+
+		const snapshots = new Map<string, ToolOutcomeSnapshot>(totals.map(row => [row.tool_name, {
+			toolName: row.tool_name,
+			successes: row.successes,
+			failures: row.failures,
+			timedCalls: row.timed_calls,
+			totalDurationMs: row.total_duration_ms,
+			errorCategories: {},
+			lastReportedAt: row.last_reported_at,
+			recent: [],
+		}]));
+		for (const row of categories) {
+			const snapshot = snapshots.get(row.tool_name)!;
+			snapshot.errorCategories[row.error_category ?? 'unknown'] = row.count;
+		}
+		for (const row of latest) {
+			const snapshot = snapshots.get(row.tool_name)!;
+			if (!row.success) {
+				snapshot.lastError = row.error ?? undefined;
+				snapshot.lastFailureAt = row.reported_at;
+			}
+			if (row.output_summary !== null) {
+				snapshot.lastOutputSummary = row.output_summary;
+			}
+		}
+		for (const row of recent) {
+			snapshots.get(row.tool_name)!.recent.push({
+				success: Boolean(row.success),
+				...(row.duration_ms !== null ? { durationMs: row.duration_ms } : {}),
+			});
+		}
+		return Array.from(snapshots.values());
+	}
+
+	private parseSequence(value: string): string[] {
+		try {
+			const parsed: unknown = JSON.parse(value);
+			return Array.isArray(parsed) ? parsed.filter((tool): tool is string => typeof tool === 'string') : [];
+		} catch {
+			return [];
+		}
+	}
+
 	async clearHistory(sessionId?: string): Promise<void> {
 		const db = this.db;
 		if (!db || !this.config.enablePersistence) return;
@@ -428,31 +955,37 @@ export class PersistenceLayer {
 			const transactional = db.transaction((session?: string) => {
 				if (session) {
 					db.prepare(`
-						DELETE FROM tool_recommendations 
-						WHERE step_id IN (
-							SELECT id FROM step_recommendations 
-							WHERE thought_id IN (
-								SELECT id FROM thoughts WHERE session_id = ?
-							)
-						)
+						DELETE FROM thought_steps
+						WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
 					`).run(session);
-
 					db.prepare(`
-						DELETE FROM step_recommendations 
-						WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
+						DELETE FROM step_tools
+						WHERE step_id IN (SELECT id FROM steps WHERE session_id = ?)
 					`).run(session);
+					db.prepare('DELETE FROM steps WHERE session_id = ?').run(session);
 
 					db.prepare('DELETE FROM thoughts WHERE session_id = ?').run(session);
+					db.prepare('DELETE FROM tool_chain_buffers WHERE session_id = ?').run(session);
+					db.prepare('DELETE FROM session_budgets WHERE session_id = ?').run(session);
 					logger.info('Session history cleared', { sessionId: session });
 				} else {
-					db.exec('DELETE FROM tool_recommendations');
-					db.exec('DELETE FROM step_recommendations');
+					db.exec('DELETE FROM thought_steps');
+					db.exec('DELETE FROM step_tools');
+					db.exec('DELETE FROM steps');
 					db.exec('DELETE FROM thoughts');
+					// Learned tool chains are shared by all sessions and survive a history reset
+					db.exec('DELETE FROM tool_chain_buffers');
+					db.exec('DELETE FROM session_budgets');
 					logger.info('All history cleared');
 				}
 			});
 
 			transactional(sessionId);
+			if (sessionId) {
+				this.previousSteps.delete(sessionId);
+			} else {
+				this.previousSteps.clear();
+			}
 		}, 'clearHistory');
 	}
 
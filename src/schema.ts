@@ -33,6 +33,7 @@ Key features:
 - Automatic backtracking suggestions when confidence is low
 
 Parameters explained:
+- session_id: Optional identifier for this conversation. Thoughts with the same session_id share history, branches, DAG and tool-chain state; omit it to use the server's default session
 - available_mcp_tools: Array of MCP tool names that are available for use (e.g., ["mcp-omnisearch", "mcp-turso-cloud"])
 - thought: Your current thinking step, which can include:
 * Regular analytical steps
@@ -51,10 +52,12 @@ Parameters explained:
 - branch_from_thought: If branching, which thought number is the branching point
 - branch_id: Identifier for the current branch (if any)
 - needs_more_thoughts: If reaching end but realizing more thoughts needed
+- depends_on: Optional thought numbers this thought depends on. Replaces the implicit dependency on the previous (or revised/branched-from) thought, so independent thoughts can fan out and later thoughts can fan in. Dependency cycles are rejected
 - confidence: Optional confidence score (0-1) for current thought path quality
+- budget: Optional session tool budget (max_high_cost_calls, max_cost_units). Calls reported with report_tool_result count against it, and recommendations that would exceed it are flagged in tool_budget with cheaper alternatives
 - current_step: Current step recommendation, including:
 * step_description: What needs to be done
-* recommended_tools: Tools recommended for this step
+* recommended_tools: Tools recommended for this step. Tools that delete data or act on external systems need confirmed: true or an earlier verification step; problems are listed in tool_safety
 * expected_outcome: What to expect from this step
 * next_step_conditions: Conditions to consider for the next step
 - previous_steps: Steps already recommended
@@ -105,6 +108,10 @@ export const ToolRecommendationSchema = v.object({
 	alternatives: v.optional(v.pipe(
 		v.array(v.string()),
 		v.description('Alternative tools that could be used')
+	)),
+	confirmed: v.optional(v.pipe(
+		v.boolean(),
+		v.description('Set once the user has explicitly approved this destructive or externally side-effecting call')
 	))
 });
 
@@ -128,6 +135,11 @@ export const StepRecommendationSchema = v.object({
 });
 
 export const SequentialThinkingSchema = v.object({
+	session_id: v.optional(v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Session identifier; isolates history, DAG and tool chains per conversation')
+	)),
 	available_mcp_tools: v.pipe(
 		v.array(v.string()),
 		v.description('Array of MCP tool names available for use (e.g., ["mcp-omnisearch", "mcp-turso-cloud"])')
@@ -172,6 +184,10 @@ export const SequentialThinkingSchema = v.object({
 		v.boolean(),
 		v.description('If more thoughts are needed')
 	)),
+	depends_on: v.optional(v.pipe(
+		v.array(v.pipe(v.number(), v.integer(), v.minValue(1))),
+		v.description('Thought numbers this thought depends on (explicit DAG parents)')
+	)),
 	current_step: v.optional(v.pipe(
 		StepRecommendationSchema,
 		v.description('Current step recommendation')
@@ -189,6 +205,22 @@ export const SequentialThinkingSchema = v.object({
 		v.minValue(0),
 		v.maxValue(1),
 		v.description('Confidence score (0-1) for current thought path')
+	)),
+	budget: v.optional(v.pipe(
+		v.object({
+			max_high_cost_calls: v.optional(v.pipe(
+				v.number(),
+				v.integer(),
+				v.minValue(0),
+				v.description('Maximum calls to high-cost tools in this session')
+			)),
+			max_cost_units: v.optional(v.pipe(
+				v.number(),
+				v.minValue(0),
+				v.description('Maximum total cost units (free 0, low 1, medium 2, high 3) in this session')
+			)),
+		}),
+		v.description('Tool spend limits for the session; replaces the server defaults for the limits given')
 	))
 });
 
@@ -196,4 +228,205 @@ export const SEQUENTIAL_THINKING_TOOL: Tool = {
 	name: 'sequentialthinking_tools',
 	description: TOOL_DESCRIPTION,
 	inputSchema: {} // This will be handled by tmcp with the schema above
-};
\ No newline at end of file
+};
+
+const SessionIdSchema = v.pipe(
+	v.string(),
+	v.minLength(1),
+	v.description('Session identifier')
+);
+
+export const ListSessionsSchema = v.object({
+	include_completed: v.optional(v.pipe(
+		v.boolean(),
+		v.description('Include sessions whose latest thought finished the process (default true)')
+	)),
+	limit: v.optional(v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1),
+		v.description('Maximum number of sessions to return, most recent first')
+	))
+});
+
+export const ResumeSessionSchema = v.object({
+	session_id: SessionIdSchema
+});
+
+export const ForkSessionSchema = v.object({
+	session_id: v.pipe(
+		SessionIdSchema,
+		v.description('Session to copy history from')
+	),
+	new_session_id: v.optional(v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Identifier for the new session (generated when omitted)')
+	)),
+	up_to_thought: v.optional(v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1),
+		v.description('Copy only thoughts numbered up to and including this one')
+	))
+});
+
+export const DeleteSessionSchema = v.object({
+	session_id: SessionIdSchema
+});
+
+export const ExportSessionSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session to export (defaults to the server session)')
+	)),
+	format: v.optional(v.pipe(
+		v.picklist(['json', 'ndjson']),
+		v.description('json returns the export document; ndjson returns it as text with one record per line (default json)')
+	))
+});
+
+export const ImportSessionSchema = v.object({
+	data: v.pipe(
+		v.union([v.string(), v.looseObject({})]),
+		v.description('Export document as returned by export_session, or its JSON or NDJSON text')
+	),
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session id to import into (defaults to the exported session id)')
+	)),
+	on_conflict: v.optional(v.pipe(
+		v.picklist(['fail', 'replace', 'rename']),
+		v.description('When the session id exists: fail, replace the existing session, or import under a new generated id (default fail)')
+	))
+});
+
+export const GetExecutionPlanSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session to plan (defaults to the server session)')
+	))
+});
+
+export const ReportStepResultSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session the step belongs to (defaults to the server session)')
+	)),
+	thought_number: v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1),
+		v.description('Thought whose recommended tool calls were executed')
+	),
+	status: v.pipe(
+		v.picklist(['executing', 'completed', 'failed']),
+		v.description('Execution status of the step; failures propagate to dependent steps')
+	),
+	result: v.optional(v.pipe(
+		v.unknown(),
+		v.description('Result of the tool calls, kept with the DAG node')
+	)),
+	error: v.optional(v.pipe(
+		v.string(),
+		v.description('Error message when status is failed')
+	))
+});
+
+export const ReportToolResultSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session the thought belongs to (defaults to the server session)')
+	)),
+	thought_number: v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1),
+		v.description('Thought whose step the tool call belonged to')
+	),
+	tool_name: v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Name of the tool that was executed')
+	),
+	success: v.pipe(
+		v.boolean(),
+		v.description('Whether the tool call succeeded')
+	),
+	duration_ms: v.optional(v.pipe(
+		v.number(),
+		v.minValue(0),
+		v.description('Execution time of the tool call in milliseconds')
+	)),
+	error: v.optional(v.pipe(
+		v.string(),
+		v.description('Error message when the call failed')
+	)),
+	output_summary: v.optional(v.pipe(
+		v.string(),
+		v.maxLength(2000),
+		v.description('Short summary of the tool output')
+	))
+});
+
+export const GetCriticalPathSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session to analyze (defaults to the server session)')
+	)),
+	weighting: v.optional(v.pipe(
+		v.picklist(['unit', 'complexity', 'cost', 'duration']),
+		v.description('Thought weights: unit (chain length), tool complexity, tool cost level, or observed execution time in ms (default unit)')
+	))
+});
+
+export const ExportGraphSchema = v.object({
+	session_id: v.optional(v.pipe(
+		SessionIdSchema,
+		v.description('Session to export (defaults to the server session)')
+	)),
+	format: v.optional(v.pipe(
+		v.picklist(['mermaid', 'dot', 'json']),
+		v.description('Mermaid flowchart, Graphviz DOT or JSON Graph Format document (default mermaid)')
+	))
+});
+
+export const MatchToolsSchema = v.object({
+	intent: v.optional(v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('What the tool should do in plain words, e.g. "read rows from a database"')
+	)),
+	categories: v.optional(v.pipe(
+		v.array(v.string()),
+		v.description('Capability categories to match (e.g. search, data, analysis, generation)')
+	)),
+	tags: v.optional(v.pipe(
+		v.array(v.string()),
+		v.description('Capability tags to match (e.g. read, write, delete, list, transform)')
+	)),
+	complexity: v.optional(v.pipe(
+		v.picklist(['low', 'medium', 'high']),
+		v.description('Preferred complexity level')
+	)),
+	keywords: v.optional(v.pipe(
+		v.array(v.string()),
+		v.description('Words to look for in tool names and descriptions')
+	)),
+	max_cost_level: v.optional(v.pipe(
+		v.picklist(['free', 'low', 'medium', 'high']),
+		v.description('Rank tools above this cost level below cheaper matches')
+	)),
+	similar_to: v.optional(v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Also list tools with capabilities similar to this tool')
+	)),
+	limit: v.optional(v.pipe(
+		v.number(),
+		v.integer(),
+		v.minValue(1),
+		v.maxValue(50),
+		v.description('Maximum number of tools to return (default 10)')
+	))
+});
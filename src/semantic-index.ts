@@ -0,0 +1,183 @@
+/**
+ * Offline text similarity between requests and tools
+ * Indexes tool names, descriptions and input property names with BM25 and expands
+ * queries with synonyms, so "look up" finds search tools and "fetch page" finds
+ * "scrape URL". Implementations of ToolTextIndex can replace it, e.g. with a local
+ * embedding model, without any change to the matcher.
+ */
+
+import { analyze, extractTermWords, stem } from './text-analysis.js';
+import { Tool } from './types.js';
+
+export interface ToolTextMatch {
+	toolName: string;
+	similarity: number;  // (0, 1]
+	matchedTerms: string[];  // Query words that matched, "word≈synonym" for expansions
+}
+
+export interface ToolTextIndex {
+	/**
+	 * Replace the indexed tools
+	 */
+	build(tools: Tool[]): void;
+	/**
+	 * Tools whose text is similar to the query, most similar first
+	 */
+	search(query: string): ToolTextMatch[];
+}
+
+// Words that mean the same thing in tool descriptions; matched in stemmed form
+export const SYNONYM_GROUPS: string[][] = [
+	['search', 'find', 'lookup', 'look', 'query', 'seek', 'locate', 'grep'],
+	['fetch', 'get', 'retrieve', 'download', 'scrape', 'crawl', 'load', 'read', 'open'],
+	['page', 'url', 'web', 'website', 'site', 'link', 'webpage', 'html'],
+	['write', 'save', 'store', 'persist', 'put'],
+	['create', 'make', 'generate', 'add', 'new', 'insert'],
+	['update', 'modify', 'edit', 'change', 'patch'],
+	['delete', 'remove', 'erase', 'drop', 'destroy'],
+	['list', 'enumerate', 'browse', 'show'],
+	['run', 'execute', 'invoke', 'launch', 'call'],
+	['send', 'notify', 'email', 'message', 'post'],
+	['file', 'document', 'doc'],
+	['directory', 'folder', 'dir'],
+	['database', 'db', 'sql', 'table'],
+	['summarize', 'summary', 'condense', 'digest'],
+	['transform', 'convert', 'translate', 'format', 'parse'],
+	['analyze', 'analysis', 'evaluate', 'inspect', 'examine', 'review'],
+	['image', 'picture', 'photo', 'screenshot'],
+];
+
+// Weight of a synonym relative to the word the query used
+const SYNONYM_WEIGHT = 0.5;
+// Name words are counted this many times, as names are the strongest signal
+const NAME_BOOST = 2;
+
+/**
+ * Text indexed for a tool: its name and aliases, description and input property names
+ */
+export function toolText(tool: Tool): { name: string; body: string } {
+	const properties = tool.inputSchema.properties;
+	const propertyNames = properties && typeof properties === 'object' ? Object.keys(properties) : [];
+	return {
+		name: [tool.name, ...(tool.aliases ?? [])].join(' '),
+		body: [tool.description, ...propertyNames].join(' '),
+	};
+}
+
+/**
+ * Okapi BM25 over tool text with synonym expansion of queries
+ */
+export class Bm25ToolIndex implements ToolTextIndex {
+	private documents: Array<{ toolName: string; termCounts: Map<string, number>; length: number }> = [];
+	private documentFrequency: Map<string, number> = new Map();
+	private averageLength = 0;
+	private synonyms: Map<string, Array<{ term: string; word: string }>>;
+
+	constructor(
+		private readonly k1 = 1.2,
+		private readonly b = 0.75,
+		synonymGroups: string[][] = SYNONYM_GROUPS,
+	) {
+		this.synonyms = buildSynonymMap(synonymGroups);
+	}
+
+	build(tools: Tool[]): void {
+		this.documentFrequency.clear();
+		this.documents = tools.map(tool => {
+			const { name, body } = toolText(tool);
+			const terms = [
+				...Array.from({ length: NAME_BOOST }, () => analyze(name)).flat(),
+				...analyze(body),
+			];
+			const termCounts = new Map<string, number>();
+			for (const term of terms) {
+				termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
+			}
+			for (const term of termCounts.keys()) {
+				this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+			}
+			return { toolName: tool.name, termCounts, length: terms.length };
+		});
+		this.averageLength = this.documents.length > 0
+			? this.documents.reduce((sum, document) => sum + document.length, 0) / this.documents.length
+			: 0;
+	}
+
+	search(query: string): ToolTextMatch[] {
+		const slots = this.expandQuery(query);
+		if (slots.length === 0 || this.documents.length === 0) return [];
+
+		// Reference score: every query word found once in a document of average length
+		const referenceScore = slots.reduce(
+			(sum, slot) => sum + Math.max(...slot.map(expansion => expansion.weight * this.idf(expansion.term))),
+			0,
+		);
+		if (referenceScore === 0) return [];
+
+		const matches: ToolTextMatch[] = [];
+		for (const document of this.documents) {
+			const normalization = 1 - this.b + this.b * (document.length / (this.averageLength || 1));
+			let score = 0;
+			const matchedTerms: string[] = [];
+			for (const slot of slots) {
+				// A query word counts once, through its best matching form
+				let best: { score: number; label: string } | undefined;
+				for (const expansion of slot) {
+					const frequency = document.termCounts.get(expansion.term);
+					if (!frequency) continue;
+
+					const termScore = expansion.weight * this.idf(expansion.term)
+						* (frequency * (this.k1 + 1)) / (frequency + this.k1 * normalization);
+					if (!best || termScore > best.score) {
+						best = { score: termScore, label: expansion.label };
+					}
+				}
+				if (best) {
+					score += best.score;
+					matchedTerms.push(best.label);
+				}
+			}
+			if (score > 0) {
+				matches.push({
+					toolName: document.toolName,
+					similarity: Math.min(1, score / referenceScore),
+					matchedTerms,
+				});
+			}
+		}
+
+		return matches.sort((a, b) => b.similarity - a.similarity || a.toolName.localeCompare(b.toolName));
+	}
+
+	private idf(term: string): number {
+		const frequency = this.documentFrequency.get(term) ?? 0;
+		const count = this.documents.length;
+		return Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5));
+	}
+
+	/**
+	 * One slot per query word: the word itself and its synonyms at SYNONYM_WEIGHT
+	 */
+	private expandQuery(query: string): Array<Array<{ term: string; weight: number; label: string }>> {
+		return Array.from(extractTermWords(query), ([term, word]) => [
+			{ term, weight: 1, label: word },
+			...(this.synonyms.get(term) ?? []).map(synonym => ({
+				term: synonym.term,
+				weight: SYNONYM_WEIGHT,
+				label: `${word}≈${synonym.word}`,
+			})),
+		]);
+	}
+}
+
+function buildSynonymMap(groups: string[][]): Map<string, Array<{ term: string; word: string }>> {
+	const synonyms = new Map<string, Array<{ term: string; word: string }>>();
+	for (const group of groups) {
+		const members = group.map(word => ({ term: stem(word), word }));
+		for (const member of members) {
+			const others = members.filter(other => other.term !== member.term);
+			synonyms.set(member.term, [...(synonyms.get(member.term) ?? []), ...others]);
+		}
+	}
+	return synonyms;
+}
@@ -0,0 +1,77 @@
+/**
+ * Alignment of tool sequences
+ * Scores how closely the tools used so far follow a recorded chain, tolerating
+ * inserted, skipped and renamed steps
+ */
+
+import { nameSimilarity } from './tool-validation.js';
+
+// Each step further back from the most recent tool counts this much less in suffix matching
+export const SUFFIX_DECAY = 0.7;
+
+/**
+ * Length of the longest common subsequence of two tool sequences
+ */
+export function longestCommonSubsequence(a: string[], b: string[]): number {
+	let previous = new Array<number>(b.length + 1).fill(0);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [0];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = a[i - 1] === b[j - 1]
+				? previous[j - 1] + 1
+				: Math.max(previous[j], current[j - 1]);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Edit distance between tool sequences where inserting or dropping a tool costs 1 and
+ * replacing a tool costs 1 minus the similarity of the two names (read_file vs read_files is cheap)
+ */
+export function weightedEditDistance(a: string[], b: string[]): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = a[i - 1] === b[j - 1] ? 0 : 1 - nameSimilarity(a[i - 1], b[j - 1]);
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + substitution,
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Similarity in [0, 1] derived from the weighted edit distance
+ */
+export function sequenceSimilarity(a: string[], b: string[]): number {
+	const longest = Math.max(a.length, b.length);
+	if (longest === 0) return 1;
+	return 1 - weightedEditDistance(a, b) / longest;
+}
+
+/**
+ * Longest run of the most recent tools that appears contiguously in the chain.
+ * The score weights the newest tool 1, the one before SUFFIX_DECAY, and so on.
+ */
+export function suffixMatch(previousTools: string[], chain: string[]): { length: number; score: number } {
+	for (let length = Math.min(previousTools.length, chain.length); length > 0; length--) {
+		const suffix = previousTools.slice(previousTools.length - length);
+		for (let start = 0; start + length <= chain.length; start++) {
+			if (suffix.every((tool, offset) => chain[start + offset] === tool)) {
+				let score = 0;
+				for (let back = 0; back < length; back++) {
+					score += SUFFIX_DECAY ** back;
+				}
+				return { length, score };
+			}
+		}
+	}
+	return { length: 0, score: 0 };
+}
@@ -1,34 +1,101 @@
 
-import { SequentialThinkingSchema, SEQUENTIAL_THINKING_TOOL } from './schema.js';
+import {
+    DeleteSessionSchema,
+    ExportGraphSchema,
+    ExportSessionSchema,
+    ForkSessionSchema,
+    GetCriticalPathSchema,
+    GetExecutionPlanSchema,
+    ImportSessionSchema,
+    ListSessionsSchema,
+    MatchToolsSchema,
+    ReportStepResultSchema,
+    ReportToolResultSchema,
+    ResumeSessionSchema,
+    SequentialThinkingSchema,
+    SEQUENTIAL_THINKING_TOOL,
+} from './schema.js';
 import { ThoughtData, Tool } from './types.js';
 import { logger, measureTime } from './logging.js';
 import { CircuitBreaker, createErrorContext } from './error-handling.js';
-import { PersistenceLayer } from './persistence.js';
-import { ToolCapabilityMatcher, enrichToolsWithCapabilities } from './tool-capabilities.js';
-import { BacktrackingManager } from './backtracking.js';
+import { createThoughtStore, DeferredThoughtStore, StorageBackend, ThoughtStore } from './thought-store.js';
+import { ToolCapabilityMatcher, ToolMatchScore, enrichToolsWithCapabilities } from './tool-capabilities.js';
+import { BacktrackingManager, BacktrackingConfig } from './backtracking.js';
 import { ThoughtDAG } from './dag.js';
 import { ToolChainLibrary } from './tool-chains.js';
 import { ConfigurationManager, RuntimeConfig } from './config-manager.js';
 import { ScoringConfigShape } from './config-constants.js';
 import { ThoughtProcessor } from './thought-processor.js';
-import { readFileSync } from 'node:fs';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { ToolDiscovery } from './tool-discovery.js';
+import { CapabilityOverrides } from './capability-overrides.js';
+import { ToolNameValidator } from './tool-validation.js';
+import { ToolInputValidator } from './input-validation.js';
+import { ToolSafetyPolicy } from './tool-safety.js';
+import { GRAPH_MIME_TYPES, GraphFormat, renderGraph } from './graph-export.js';
+import { ToolOutcomeTracker } from './tool-outcomes.js';
+import { ToolBudget, ToolBudgetLimits } from './tool-budget.js';
+import { Bm25ToolIndex, ToolTextIndex } from './semantic-index.js';
+import {
+    buildSessionExport,
+    parseSessionExport,
+    serializeSessionExport,
+    SESSION_EXPORT_VERSION,
+    SessionExport,
+    SessionSnapshot,
+    toSessionSnapshot,
+} from './session-export.js';
+import {
+    SessionComponents,
+    SessionExistsError,
+    SessionManager,
+    SessionNotFoundError,
+    SessionState,
+} from './session-manager.js';
+import { Stats, unwatchFile, watchFile } from 'node:fs';
 import * as v from 'valibot';
 
 const DEFAULT_MAX_HISTORY = 1000;
+// How often the capability overrides file is checked for changes
+const OVERRIDES_POLL_INTERVAL_MS = 1000;
+
+type ToolPayload = Record<string, unknown>;
+
+const toToolResult = (payload: ToolPayload, isError = false) => ({
+    content: [
+        {
+            type: 'text' as const,
+            text: JSON.stringify(payload, null, 2),
+        },
+    ],
+    structuredContent: payload,
+    ...(isError ? { isError: true } : {}),
+});
 
 export interface ServerOptions {
     available_tools?: Tool[];
     availableTools?: Tool[];
     maxHistorySize?: number;
     enablePersistence?: boolean;
+    storageBackend?: StorageBackend;
     dbPath?: string;
+    jsonlPath?: string;
+    store?: ThoughtStore;  // Used instead of the configured storage backend
     sessionId?: string;
     enableBacktracking?: boolean;
     minConfidence?: number;
     enableDAG?: boolean;
     enableToolChains?: boolean;
+    sessionIdleTimeoutMs?: number;
+    maxSessions?: number;
+    discoveryConfigPath?: string;
+    discoveryTimeoutMs?: number;
+    discoveryExclude?: string[];
+    discoveryClientInfo?: { name: string; version: string };
+    strictToolValidation?: boolean;
+    strictToolSafety?: boolean;  // Reject destructive or side-effecting tools without a safeguard
+    toolBudget?: ToolBudgetLimits;
+    toolTextIndex?: () => ToolTextIndex;  // Replaces the BM25 index used to rank tools by text
+    capabilityOverridesPath?: string;  // JSON file of curated capabilities, reloaded when it changes
     configManager?: ConfigurationManager;
     scoringConfig?: ScoringConfigShape;
 }
@@ -36,17 +103,27 @@ export interface ServerOptions {
 export class ToolAwareSequentialThinkingServer {
     private availableTools: Map<string, Tool> = new Map();
     private maxHistorySize: number;
-    private persistence: PersistenceLayer;
+    private persistence: ThoughtStore;
     private sessionId: string;
     private toolMatcher: ToolCapabilityMatcher;
-    private backtrackingManager: BacktrackingManager;
-    private thoughtDAG: ThoughtDAG;
+    private createTextIndex: () => ToolTextIndex;
+    private toolValidator: ToolNameValidator;
+    private inputValidator: ToolInputValidator;
+    private toolSafety: ToolSafetyPolicy;
+    private backtrackingConfig: BacktrackingConfig;
     private toolChainLibrary: ToolChainLibrary;
+    private toolOutcomes: ToolOutcomeTracker = new ToolOutcomeTracker();
     private enableDAG: boolean;
     private enableToolChains: boolean;
     private sessionLocks: Map<string, Promise<unknown>> = new Map();
+    private sessions: SessionManager;
+    private toolDiscovery: ToolDiscovery | null = null;
+    private configManager: ConfigurationManager;
+    private capabilityOverrides: CapabilityOverrides = new CapabilityOverrides();
+    private stopWatchingOverrides: (() => void) | null = null;
+    private runtimeConfig: RuntimeConfig;
+    private discoveryClientInfo?: { name: string; version: string };
     private scoringConfig: ScoringConfigShape;
-    private processor: ThoughtProcessor;
     private persistenceBreaker: CircuitBreaker;
     private dagBreaker: CircuitBreaker;
 
@@ -56,12 +133,14 @@ export class ToolAwareSequentialThinkingServer {
 
     private async withSessionLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
         const previous = this.sessionLocks.get(sessionId) ?? Promise.resolve();
-        const run = previous.then(fn);
+        // A failed predecessor must not prevent later tasks from running
+        const run = previous.catch(() => undefined).then(fn);
         const trackedRun = run.catch((error) => {
             logger.error('Session lock task failed', error, { sessionId });
             throw error;
         });
-        const tracker = trackedRun.finally(() => {
+        // The tracker only orders later tasks; the caller handles the failure
+        const tracker = trackedRun.catch(() => undefined).finally(() => {
             if (this.sessionLocks.get(sessionId) === tracker) {
                 this.sessionLocks.delete(sessionId);
             }
@@ -78,13 +157,27 @@ export class ToolAwareSequentialThinkingServer {
             ...loadedRuntime,
             maxHistorySize: options.maxHistorySize ?? loadedRuntime.maxHistorySize ?? DEFAULT_MAX_HISTORY,
             enablePersistence: options.enablePersistence ?? loadedRuntime.enablePersistence,
+            storageBackend: options.storageBackend ?? loadedRuntime.storageBackend,
             dbPath: options.dbPath ?? loadedRuntime.dbPath,
+            jsonlPath: options.jsonlPath ?? loadedRuntime.jsonlPath,
             enableBacktracking: options.enableBacktracking ?? loadedRuntime.enableBacktracking,
             minConfidence: options.minConfidence ?? loadedRuntime.minConfidence,
             enableDAG: options.enableDAG ?? loadedRuntime.enableDAG,
             enableToolChains: options.enableToolChains ?? loadedRuntime.enableToolChains,
+            sessionIdleTimeoutMs: options.sessionIdleTimeoutMs ?? loadedRuntime.sessionIdleTimeoutMs,
+            maxSessions: options.maxSessions ?? loadedRuntime.maxSessions,
+            toolDiscoveryConfigPath: options.discoveryConfigPath ?? loadedRuntime.toolDiscoveryConfigPath,
+            toolDiscoveryTimeoutMs: options.discoveryTimeoutMs ?? loadedRuntime.toolDiscoveryTimeoutMs,
+            toolDiscoveryExclude: options.discoveryExclude ?? loadedRuntime.toolDiscoveryExclude,
+            strictToolValidation: options.strictToolValidation ?? loadedRuntime.strictToolValidation,
+            strictToolSafety: options.strictToolSafety ?? loadedRuntime.strictToolSafety,
+            toolBudget: options.toolBudget ?? loadedRuntime.toolBudget,
+            toolCapabilitiesPath: options.capabilityOverridesPath ?? loadedRuntime.toolCapabilitiesPath,
             logLevel: loadedRuntime.logLevel,
         };
+        this.runtimeConfig = runtimeConfig;
+        this.configManager = configManager;
+        this.discoveryClientInfo = options.discoveryClientInfo;
 
         this.scoringConfig = options.scoringConfig ?? configManager.getScoringConfig();
         this.maxHistorySize = runtimeConfig.maxHistorySize;
@@ -105,13 +198,18 @@ export class ToolAwareSequentialThinkingServer {
         });
 
         // Initialize persistence layer
-        this.persistence = new PersistenceLayer({
+        // The store is opened in the background; the first call that needs it waits for it
+        this.persistence = options.store ?? new DeferredThoughtStore(createThoughtStore({
+            backend: runtimeConfig.storageBackend,
             enablePersistence: runtimeConfig.enablePersistence,
             dbPath: runtimeConfig.dbPath,
-        });
+            jsonlPath: runtimeConfig.jsonlPath,
+            backupBeforeMigrate: runtimeConfig.dbBackupBeforeMigrate,
+            migrationDryRun: runtimeConfig.dbMigrationDryRun,
+        }));
 
-        // Initialize backtracking manager
-        this.backtrackingManager = new BacktrackingManager({
+        // Backtracking settings shared by every session's manager
+        this.backtrackingConfig = {
             ...this.scoringConfig.backtracking,
             enableAutoBacktrack: runtimeConfig.enableBacktracking,
             minConfidence: runtimeConfig.minConfidence,
@@ -123,31 +221,25 @@ export class ToolAwareSequentialThinkingServer {
             progressBonus: this.scoringConfig.backtracking.progressBonus,
             progressThreshold: this.scoringConfig.backtracking.progressThreshold,
             decliningConfidenceThreshold: this.scoringConfig.backtracking.decliningConfidenceThreshold,
-        });
-
-        // Initialize DAG for parallel execution
-        this.thoughtDAG = new ThoughtDAG();
+        };
 
-        // Initialize tool chain library
+        // Initialize tool chain library (shared so every session learns from the others)
         this.toolChainLibrary = new ToolChainLibrary(this.scoringConfig.toolChains);
 
-        this.processor = new ThoughtProcessor({
-            backtrackingManager: this.backtrackingManager,
-            persistence: this.persistence,
-            thoughtDAG: this.thoughtDAG,
-            toolChainLibrary: this.toolChainLibrary,
-            enableDAG: this.enableDAG,
-            enableToolChains: this.enableToolChains,
-            maxHistorySize: this.maxHistorySize,
-            sessionId: this.sessionId,
-            scoringConfig: this.scoringConfig,
-            persistenceBreaker: this.persistenceBreaker,
-            dagBreaker: this.dagBreaker,
+        // Sessions are created lazily; the default session is never evicted
+        this.sessions = new SessionManager({
+            idleTimeoutMs: runtimeConfig.sessionIdleTimeoutMs,
+            maxSessions: runtimeConfig.maxSessions,
+            createSession: (sessionId) => this.createSessionComponents(sessionId),
+            hydrateSession: (session) => this.hydrateSession(session),
+            pinnedSessionIds: [this.sessionId],
+            canEvict: () => this.persistence.isEnabled(),
         });
 
         logger.info('Server initialized', {
             maxHistorySize: this.maxHistorySize,
             sessionId: this.sessionId,
+            maxSessions: runtimeConfig.maxSessions,
             persistenceEnabled: runtimeConfig.enablePersistence,
             backtrackingEnabled: runtimeConfig.enableBacktracking,
             dagEnabled: this.enableDAG,
@@ -176,11 +268,24 @@ export class ToolAwareSequentialThinkingServer {
             this.availableTools.set(tool.name, tool);
         });
 
-        // Enrich tools with capability metadata
+        // Enrich tools with capability metadata, then apply curated overrides
         enrichToolsWithCapabilities(this.availableTools);
+        this.loadCapabilityOverrides();
+        this.capabilityOverrides.apply(this.availableTools);
+        this.watchCapabilityOverrides();
+        this.createTextIndex = options.toolTextIndex ?? (() => new Bm25ToolIndex());
 
         // Initialize tool matcher
-        this.toolMatcher = new ToolCapabilityMatcher(this.availableTools);
+        this.toolMatcher = new ToolCapabilityMatcher(this.availableTools, this.toolOutcomes, this.createTextIndex());
+        this.toolValidator = new ToolNameValidator(this.availableTools, {
+            strict: runtimeConfig.strictToolValidation,
+            ignoredTools: [SEQUENTIAL_THINKING_TOOL.name],
+        }, () => this.toolMatcher);
+        this.inputValidator = new ToolInputValidator(this.availableTools);
+        this.toolSafety = new ToolSafetyPolicy(this.availableTools, {
+            strict: runtimeConfig.strictToolSafety,
+            ignoredTools: [SEQUENTIAL_THINKING_TOOL.name],
+        });
 
         logger.info('Tools initialized', {
             toolCount: this.availableTools.size,
@@ -190,29 +295,96 @@ export class ToolAwareSequentialThinkingServer {
         });
     }
 
-    public async initialize(): Promise<void> {
-        if (this.persistence) {
+    private createSessionComponents(sessionId: string): SessionComponents {
+        const backtrackingManager = new BacktrackingManager(this.backtrackingConfig);
+        const thoughtDAG = new ThoughtDAG();
+
+        const processor = new ThoughtProcessor({
+            backtrackingManager,
+            persistence: this.persistence,
+            thoughtDAG,
+            toolChainLibrary: this.toolChainLibrary,
+            enableDAG: this.enableDAG,
+            enableToolChains: this.enableToolChains,
+            maxHistorySize: this.maxHistorySize,
+            sessionId,
+            scoringConfig: this.scoringConfig,
+            persistenceBreaker: this.persistenceBreaker,
+            dagBreaker: this.dagBreaker,
+            toolValidator: this.toolValidator,
+            inputValidator: this.inputValidator,
+            toolSafety: this.toolSafety,
+            availableTools: this.availableTools,
+            toolOutcomes: this.toolOutcomes,
+            toolMatcher: () => this.toolMatcher,
+            toolBudget: new ToolBudget(this.runtimeConfig.toolBudget),
+        });
+
+        return { processor, backtrackingManager, thoughtDAG };
+    }
+
+    private async hydrateSession(session: SessionState): Promise<void> {
+        try {
+            const history = await this.persistence.getThoughtHistory(session.sessionId);
+            if (history.length > 0) {
+                logger.info('Found existing history, hydrating...', {
+                    sessionId: session.sessionId,
+                    thoughtCount: history.length
+                });
+                const executionStatuses = await this.persistence.getExecutionStatuses(session.sessionId);
+                const computedStates = await this.persistence.getComputedStates(session.sessionId);
+                await session.processor.hydrate(history, executionStatuses, computedStates);
+            }
+            const budget = await this.persistence.getSessionBudget(session.sessionId);
+            if (budget) {
+                session.processor.restoreBudget(budget);
+            }
+            if (this.enableToolChains) {
+                // Hydration resets the buffer; pick up the chain the session was building
+                const buffer = await this.persistence.getCurrentChain(session.sessionId);
+                this.toolChainLibrary.restoreChainBuffer(buffer, session.sessionId);
+            }
+        } catch (error) {
+            logger.error('Failed to hydrate history', error, { sessionId: session.sessionId });
+            // We don't throw here to allow the session to start even if rehydration fails
+            // although this might mean loss of context.
+        }
+    }
+
+    /**
+     * Run an operation against a session while holding its lock.
+     * The session is created and hydrated on first use.
+     */
+    private async withSession<T>(sessionId: string, fn: (session: SessionState) => Promise<T>): Promise<T> {
+        return this.withSessionLock(sessionId, async () => {
+            const session = await this.sessions.acquire(sessionId);
             try {
-                const history = await this.persistence.getThoughtHistory(this.sessionId);
-                if (history.length > 0) {
-                    logger.info('Found existing history, hydrating...', {
-                        sessionId: this.sessionId,
-                        thoughtCount: history.length
-                    });
-                    await this.processor.hydrate(history);
-                }
-            } catch (error) {
-                logger.error('Failed to hydrate history', error, { sessionId: this.sessionId });
-                // We don't throw here to allow the server to start even if rehydration fails
-                // although this might mean loss of context.
+                return await fn(session);
+            } finally {
+                this.sessions.release(session);
             }
+        });
+    }
+
+    public getDefaultSessionId(): string {
+        return this.sessionId;
+    }
+
+    public async initialize(): Promise<void> {
+        if (this.enableToolChains) {
+            this.toolChainLibrary.loadChains(await this.persistence.getToolChains());
         }
+        this.toolOutcomes.restore(await this.persistence.getToolOutcomeSnapshots());
+        // Eagerly hydrate the default session so it is ready before the first call
+        await this.withSession(this.sessionId, async () => undefined);
     }
 
-    public clearHistory(): void {
-        this.processor.clear();
-        this.persistence.clearHistory(this.sessionId);
-        logger.info('History cleared', { sessionId: this.sessionId });
+    public async clearHistory(sessionId: string = this.sessionId): Promise<void> {
+        await this.withSessionLock(sessionId, async () => {
+            this.sessions.get(sessionId)?.processor.clear();
+            await this.persistence.clearHistory(sessionId);
+        });
+        logger.info('History cleared', { sessionId });
     }
 
     public addTool(tool: Tool): void {
@@ -221,42 +393,670 @@ export class ToolAwareSequentialThinkingServer {
             return;
         }
         this.availableTools.set(tool.name, tool);
+        this.refreshToolMatcher();
+
+        logger.info('Tool added', { toolName: tool.name });
+    }
+
+    public removeTool(toolName: string): boolean {
+        if (toolName === SEQUENTIAL_THINKING_TOOL.name || !this.availableTools.delete(toolName)) {
+            return false;
+        }
+        this.refreshToolMatcher();
+
+        logger.info('Tool removed', { toolName });
+        return true;
+    }
 
+    private refreshToolMatcher(): void {
         // Enrich with capabilities if not present
         enrichToolsWithCapabilities(this.availableTools);
+        this.capabilityOverrides.apply(this.availableTools);
 
         // Recreate matcher with updated tools
-        this.toolMatcher = new ToolCapabilityMatcher(this.availableTools);
+        this.toolMatcher = new ToolCapabilityMatcher(this.availableTools, this.toolOutcomes, this.createTextIndex());
+    }
 
-        logger.info('Tool added', { toolName: tool.name });
+    /**
+     * Reload the capability overrides file and reapply it to every tool.
+     * Returns the number of tools with an override; an invalid file keeps the previous overrides.
+     */
+    public reloadCapabilityOverrides(): number {
+        if (!this.loadCapabilityOverrides()) {
+            return 0;
+        }
+        this.refreshToolMatcher();
+        return Array.from(this.availableTools.keys())
+            .filter(name => this.capabilityOverrides.resolve(name) !== undefined)
+            .length;
+    }
+
+    private loadCapabilityOverrides(): boolean {
+        const filePath = this.runtimeConfig.toolCapabilitiesPath;
+        if (!filePath) {
+            return false;
+        }
+        try {
+            this.capabilityOverrides.setRules(this.configManager.loadCapabilityOverrides(filePath));
+            return true;
+        } catch (error) {
+            logger.error('Failed to load capability overrides', error, { filePath });
+            return false;
+        }
     }
 
-    public discoverTools(): void {
-        // In a real implementation, this would scan the environment
-        // for available MCP tools and add them to availableTools
-        logger.warn('Tool discovery not implemented - manually add tools via addTool()');
+    private watchCapabilityOverrides(): void {
+        const filePath = this.runtimeConfig.toolCapabilitiesPath;
+        if (!filePath) {
+            return;
+        }
+        const onChange = (current: Stats, previous: Stats) => {
+            if (current.mtimeMs !== previous.mtimeMs) {
+                this.reloadCapabilityOverrides();
+            }
+        };
+        watchFile(filePath, { interval: OVERRIDES_POLL_INTERVAL_MS, persistent: false }, onChange);
+        this.stopWatchingOverrides = () => unwatchFile(filePath, onChange);
+    }
+
+    /**
+     * Replace every tool previously discovered on a server with its current tool list
+     */
+    private setServerTools(serverName: string, tools: Tool[]): void {
+        for (const [name, tool] of this.availableTools.entries()) {
+            if (tool.serverName === serverName) {
+                this.availableTools.delete(name);
+            }
+        }
+
+        let added = 0;
+        for (const tool of tools) {
+            if (this.availableTools.has(tool.name)) {
+                logger.warn('Duplicate tool name detected', {
+                    toolName: tool.name,
+                    serverName,
+                    message: 'Using first occurrence'
+                });
+                continue;
+            }
+            this.availableTools.set(tool.name, tool);
+            added++;
+        }
+
+        this.refreshToolMatcher();
+        logger.info('Discovered tools registered', {
+            serverName,
+            added,
+            toolCount: this.availableTools.size,
+            categories: this.toolMatcher.getCategories(),
+        });
+    }
+
+    /**
+     * Discover tools from the MCP servers listed in the configured client config file.
+     * Returns the number of servers whose tools were registered.
+     */
+    public async discoverTools(): Promise<number> {
+        const configPath = this.runtimeConfig.toolDiscoveryConfigPath;
+        if (!configPath) {
+            logger.warn('Tool discovery not configured - set MCP_CONFIG_PATH or add tools via addTool()');
+            return 0;
+        }
+
+        this.toolDiscovery?.close();
+        this.toolDiscovery = new ToolDiscovery({
+            configPath,
+            requestTimeoutMs: this.runtimeConfig.toolDiscoveryTimeoutMs,
+            excludeServers: this.runtimeConfig.toolDiscoveryExclude,
+            ...(this.discoveryClientInfo ? { clientInfo: this.discoveryClientInfo } : {}),
+        });
+
+        try {
+            return await this.toolDiscovery.start((serverName, tools) =>
+                this.setServerTools(serverName, tools),
+            );
+        } catch (error) {
+            logger.error('Tool discovery failed', error, { configPath });
+            return 0;
+        }
     }
 
     public shutdown(): void {
+        this.sessions.clear();
+        this.toolDiscovery?.close();
+        this.stopWatchingOverrides?.();
+        this.stopWatchingOverrides = null;
+
         // Close database connection
         this.persistence.close();
         logger.info('Server shutdown complete');
     }
 
+    private async sessionExists(sessionId: string): Promise<boolean> {
+        return this.sessions.has(sessionId) || await this.persistence.hasSession(sessionId);
+    }
+
+    private summarizeSession(session: SessionState): ToolPayload {
+        const history = session.processor.getHistory();
+        const latest = history[history.length - 1];
+        return {
+            session_id: session.sessionId,
+            is_default: session.sessionId === this.sessionId,
+            thought_count: history.length,
+            last_thought_number: latest?.thought_number,
+            next_thought_number: latest ? latest.thought_number + 1 : 1,
+            total_thoughts: latest?.total_thoughts,
+            next_thought_needed: latest?.next_thought_needed ?? true,
+            completed: latest ? !latest.next_thought_needed : false,
+            last_thought: latest?.thought,
+            branches: session.processor.getBranchIds(),
+            confidence_stats: session.processor.getConfidenceStats(),
+        };
+    }
+
+    /**
+     * Run a session management operation, converting failures into an error payload
+     */
+    private async runSessionTool(
+        operation: string,
+        sessionId: string | undefined,
+        fn: () => Promise<ToolPayload>,
+    ) {
+        return measureTime(operation, async () => {
+            try {
+                return toToolResult(await fn());
+            } catch (error) {
+                const errorContext = createErrorContext(operation, error);
+                logger.error('Session operation failed', error, {
+                    operation,
+                    sessionId,
+                    errorType: errorContext.errorType,
+                });
+                return toToolResult({
+                    session_id: sessionId,
+                    error: errorContext.error,
+                    errorType: errorContext.errorType,
+                    errorCategory: errorContext.category,
+                    status: 'failed',
+                }, true);
+            }
+        });
+    }
+
+    public async listSessions(input: v.InferInput<typeof ListSessionsSchema> = {}) {
+        return this.runSessionTool('listSessions', undefined, async () => {
+            const summaries = new Map<string, ToolPayload>();
+
+            for (const summary of await this.persistence.listSessions()) {
+                summaries.set(summary.sessionId, {
+                    session_id: summary.sessionId,
+                    thought_count: summary.thoughtCount,
+                    last_thought_number: summary.lastThoughtNumber,
+                    first_activity: summary.firstActivity,
+                    last_activity: summary.lastActivity,
+                    completed: summary.completed,
+                    loaded: this.sessions.has(summary.sessionId),
+                    is_default: summary.sessionId === this.sessionId,
+                });
+            }
+
+            // Sessions that only live in memory (persistence disabled or nothing saved yet)
+            for (const sessionId of this.sessions.getSessionIds()) {
+                if (summaries.has(sessionId)) continue;
+                const session = this.sessions.get(sessionId)!;
+                const history = session.processor.getHistory();
+                if (history.length === 0 && sessionId !== this.sessionId) continue;
+                const latest = history[history.length - 1];
+                summaries.set(sessionId, {
+                    session_id: sessionId,
+                    thought_count: history.length,
+                    last_thought_number: latest?.thought_number,
+                    first_activity: new Date(session.createdAt).toISOString(),
+                    last_activity: new Date(session.lastActivity).toISOString(),
+                    completed: latest ? !latest.next_thought_needed : false,
+                    loaded: true,
+                    is_default: sessionId === this.sessionId,
+                });
+            }
+
+            let sessions = Array.from(summaries.values())
+                .sort((a, b) => String(b.last_activity).localeCompare(String(a.last_activity)));
+            if (input.include_completed === false) {
+                sessions = sessions.filter(session => !session.completed);
+            }
+            if (input.limit !== undefined) {
+                sessions = sessions.slice(0, input.limit);
+            }
+
+            return {
+                sessions,
+                session_count: sessions.length,
+                default_session_id: this.sessionId,
+            };
+        });
+    }
+
+    public async resumeSession(input: v.InferInput<typeof ResumeSessionSchema>) {
+        const sessionId = input.session_id;
+        return this.runSessionTool('resumeSession', sessionId, async () => {
+            if (!await this.sessionExists(sessionId)) {
+                throw new SessionNotFoundError(sessionId);
+            }
+
+            const summary = await this.withSession(sessionId, async (session) =>
+                this.summarizeSession(session),
+            );
+            logger.info('Session resumed', { sessionId });
+            return { ...summary, resumed: true };
+        });
+    }
+
+    public async forkSession(input: v.InferInput<typeof ForkSessionSchema>) {
+        const sourceId = input.session_id;
+        return this.runSessionTool('forkSession', sourceId, async () => {
+            const targetId = input.new_session_id || `${sourceId}-fork-${Date.now()}`;
+
+            if (!await this.sessionExists(sourceId)) {
+                throw new SessionNotFoundError(sourceId);
+            }
+            if (await this.sessionExists(targetId)) {
+                throw new SessionExistsError(targetId);
+            }
+
+            // Persisted history is complete; in-memory history may have been trimmed
+            const source = await this.persistence.whenReady()
+                ? {
+                    history: await this.persistence.getThoughtHistory(sourceId),
+                    computedStates: await this.persistence.getComputedStates(sourceId),
+                }
+                : await this.withSession(sourceId, async (session) => ({
+                    history: structuredClone(session.processor.getHistory()),
+                    computedStates: structuredClone(session.processor.getComputedStates()),
+                }));
+            const kept = source.history
+                .map((thought, index) => ({ thought, computed: source.computedStates[index] }))
+                .filter(({ thought }) => input.up_to_thought === undefined || thought.thought_number <= input.up_to_thought);
+            const history = kept.map(({ thought }) => thought);
+            const computedStates = kept.map(({ computed }) => computed);
+            if (history.length === 0) {
+                throw new Error(`Fork validation failed: session "${sourceId}" has no thoughts to copy`);
+            }
+
+            const copied = await this.persistence.copyThoughts(history, targetId, computedStates);
+
+            const summary = await this.withSession(targetId, async (session) => {
+                if (copied === 0) {
+                    await session.processor.hydrate(history, new Map(), computedStates);
+                }
+                return this.summarizeSession(session);
+            });
+
+            logger.info('Session forked', {
+                sourceId,
+                targetId,
+                thoughtCount: history.length,
+                upToThought: input.up_to_thought,
+            });
+
+            return {
+                ...summary,
+                forked_from: sourceId,
+                up_to_thought: input.up_to_thought,
+            };
+        });
+    }
+
+    public async deleteSession(input: v.InferInput<typeof DeleteSessionSchema>) {
+        const sessionId = input.session_id;
+        return this.runSessionTool('deleteSession', sessionId, async () => {
+            if (!await this.sessionExists(sessionId)) {
+                throw new SessionNotFoundError(sessionId);
+            }
+
+            await this.removeSession(sessionId);
+
+            logger.info('Session deleted', { sessionId });
+            return { session_id: sessionId, deleted: true };
+        });
+    }
+
+    private async removeSession(sessionId: string): Promise<void> {
+        await this.withSessionLock(sessionId, () => this.discardSession(sessionId));
+    }
+
+    /**
+     * Drop a session's state; the caller holds the session lock
+     */
+    private async discardSession(sessionId: string): Promise<void> {
+        this.sessions.get(sessionId)?.processor.clear();
+        this.toolChainLibrary.resetCurrentChain(sessionId);
+        await this.persistence.clearHistory(sessionId);
+        this.sessions.delete(sessionId);
+    }
+
+    /**
+     * Collect everything a session export carries
+     */
+    private async collectSessionExport(sessionId: string): Promise<SessionExport> {
+        if (!await this.sessionExists(sessionId)) {
+            throw new SessionNotFoundError(sessionId);
+        }
+
+        return this.withSession(sessionId, async (session) => {
+            // Persisted history is complete; in-memory history may have been trimmed
+            const persisted = await this.persistence.whenReady();
+            const history = persisted
+                ? await this.persistence.getThoughtHistory(sessionId)
+                : structuredClone(session.processor.getHistory());
+            if (history.length === 0) {
+                throw new Error(`Export validation failed: session "${sessionId}" has no thoughts to export`);
+            }
+
+            // Learned chains are shared by all sessions; export those built from this session's tools
+            const sessionTools = new Set(history
+                .flatMap(thought => [thought.current_step, ...(thought.previous_steps ?? [])])
+                .flatMap(step => step?.recommended_tools.map(tool => tool.tool_name) ?? []));
+
+            return buildSessionExport({
+                sessionId,
+                history,
+                computedStates: persisted
+                    ? await this.persistence.getComputedStates(sessionId)
+                    : session.processor.getComputedStates(),
+                executionStatuses: persisted
+                    ? await this.persistence.getExecutionStatuses(sessionId)
+                    : session.processor.getExecutionStatuses(),
+                chainBuffer: this.enableToolChains ? this.toolChainLibrary.getChainBuffer(sessionId) : undefined,
+                learnedChains: this.enableToolChains
+                    ? this.toolChainLibrary.getChains().filter(chain => chain.sequence.every(tool => sessionTools.has(tool)))
+                    : [],
+                budget: session.processor.getBudgetState(),
+            });
+        });
+    }
+
+    public async exportSession(input: v.InferInput<typeof ExportSessionSchema> = {}) {
+        const sessionId = input.session_id || this.sessionId;
+        return this.runSessionTool('exportSession', sessionId, async () => {
+            const document = await this.collectSessionExport(sessionId);
+            const format = input.format ?? 'json';
+
+            logger.info('Session exported', { sessionId, format, thoughtCount: document.thoughts.length });
+            return {
+                session_id: sessionId,
+                format,
+                version: SESSION_EXPORT_VERSION,
+                thought_count: document.thoughts.length,
+                step_count: document.steps.length,
+                data: format === 'json' ? document : serializeSessionExport(document, format),
+            };
+        });
+    }
+
+    public async importSession(input: v.InferInput<typeof ImportSessionSchema>) {
+        return this.runSessionTool('importSession', input.session_id, async () => {
+            const document = parseSessionExport(input.data);
+            // Converting checks the step references before the existing session can be replaced
+            const snapshot = toSessionSnapshot(document);
+            const requestedId = input.session_id || document.session_id;
+            const onConflict = input.on_conflict ?? 'fail';
+            let targetId = requestedId;
+
+            // The conflict check and the write share the lock, so nothing can create the session in between
+            let imported = await this.withSessionLock(requestedId, async () => {
+                if (await this.sessionExists(requestedId)) {
+                    if (onConflict === 'fail') {
+                        throw new SessionExistsError(requestedId);
+                    }
+                    if (onConflict === 'rename') {
+                        return undefined;
+                    }
+                    await this.discardSession(requestedId);
+                }
+                return this.writeImportedSession(requestedId, snapshot);
+            });
+            if (!imported) {
+                targetId = `${requestedId}-import-${Date.now()}`;
+                imported = await this.withSessionLock(targetId, () => this.writeImportedSession(targetId, snapshot));
+            }
+
+            logger.info('Session imported', {
+                sourceId: document.session_id,
+                targetId,
+                thoughtCount: snapshot.history.length,
+                chainsImported: imported.chainsImported,
+            });
+
+            return {
+                ...imported.summary,
+                imported_from: document.session_id,
+                exported_at: document.exported_at,
+                renamed: targetId !== requestedId,
+                tool_chains_imported: imported.chainsImported,
+            };
+        });
+    }
+
+    /**
+     * Store an imported snapshot as a session; the caller holds the session lock
+     */
+    private async writeImportedSession(
+        targetId: string,
+        snapshot: SessionSnapshot,
+    ): Promise<{ summary: ToolPayload; chainsImported: number }> {
+        const copied = await this.persistence.copyThoughts(snapshot.history, targetId, snapshot.computedStates);
+        for (const [thoughtNumber, record] of snapshot.executionStatuses) {
+            await this.persistence.updateExecutionStatus(targetId, thoughtNumber, record);
+        }
+        if (snapshot.budget) {
+            await this.persistence.saveSessionBudget(targetId, snapshot.budget);
+        }
+
+        let chainsImported = 0;
+        if (this.enableToolChains) {
+            if (snapshot.chainBuffer) {
+                await this.persistence.saveCurrentChain(targetId, snapshot.chainBuffer);
+            }
+            const added = this.toolChainLibrary.importChains(snapshot.learnedChains);
+            for (const chain of added) {
+                await this.persistence.saveToolChain(chain);
+            }
+            chainsImported = added.length;
+        }
+
+        const session = await this.sessions.acquire(targetId);
+        try {
+            if (copied === 0) {
+                // Nothing was stored to hydrate from, so restore the session directly
+                await session.processor.hydrate(snapshot.history, snapshot.executionStatuses, snapshot.computedStates);
+                if (snapshot.budget) {
+                    session.processor.restoreBudget(snapshot.budget);
+                }
+                if (this.enableToolChains && snapshot.chainBuffer) {
+                    this.toolChainLibrary.restoreChainBuffer(snapshot.chainBuffer, targetId);
+                }
+            }
+            return { summary: this.summarizeSession(session), chainsImported };
+        } finally {
+            this.sessions.release(session);
+        }
+    }
+
+    public async getExecutionPlan(input: v.InferInput<typeof GetExecutionPlanSchema> = {}) {
+        const sessionId = input.session_id || this.sessionId;
+        return this.runSessionTool('getExecutionPlan', sessionId, async () =>
+            this.withSession(sessionId, async (session) => session.processor.getExecutionPlan()),
+        );
+    }
+
+    public async getCriticalPath(input: v.InferInput<typeof GetCriticalPathSchema> = {}) {
+        const sessionId = input.session_id || this.sessionId;
+        return this.runSessionTool('getCriticalPath', sessionId, async () =>
+            this.withSession(sessionId, async (session) => session.processor.getCriticalPath(input.weighting)),
+        );
+    }
+
+    public async exportGraph(input: v.InferInput<typeof ExportGraphSchema> = {}) {
+        const sessionId = input.session_id || this.sessionId;
+        const format = input.format ?? 'mermaid';
+        return this.runSessionTool('exportGraph', sessionId, async () => {
+            const graph = await this.withSession(sessionId, async (session) => session.processor.getGraph());
+            return {
+                session_id: sessionId,
+                format,
+                mime_type: GRAPH_MIME_TYPES[format],
+                node_count: graph.nodes.length,
+                edge_count: graph.edges.length,
+                content: renderGraph(graph, format),
+            };
+        });
+    }
+
+    /**
+     * Rendered graph for the thinking://sessions/{session_id}/graph/{format} resource
+     */
+    public async readGraphResource(uri: string, sessionId: string, format: string) {
+        if (!(format in GRAPH_MIME_TYPES)) {
+            throw new Error(`Graph format validation failed: unsupported format "${format}"`);
+        }
+        if (!await this.sessionExists(sessionId)) {
+            throw new SessionNotFoundError(sessionId);
+        }
+
+        const graph = await this.withSession(sessionId, async (session) => session.processor.getGraph());
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: GRAPH_MIME_TYPES[format as GraphFormat],
+                    text: renderGraph(graph, format as GraphFormat),
+                },
+            ],
+        };
+    }
+
+    /**
+     * Graph resources for every known session, one per format
+     */
+    public async listGraphResources() {
+        const sessionIds = new Set([
+            ...(await this.persistence.listSessions()).map(summary => summary.sessionId),
+            ...this.sessions.getSessionIds(),
+        ]);
+
+        return Array.from(sessionIds).flatMap(sessionId =>
+            (Object.keys(GRAPH_MIME_TYPES) as GraphFormat[]).map(format => ({
+                name: `${sessionId}-graph-${format}`,
+                title: `Thought graph for ${sessionId} (${format})`,
+                uri: `thinking://sessions/${encodeURIComponent(sessionId)}/graph/${format}`,
+                mimeType: GRAPH_MIME_TYPES[format],
+            })),
+        );
+    }
+
+    /**
+     * Rank the available tools against capability requirements and a free-text intent
+     */
+    public async matchTools(input: v.InferInput<typeof MatchToolsSchema>) {
+        return this.runSessionTool('matchTools', undefined, async () => {
+            const hasCriteria = Boolean(
+                input.intent
+                || input.categories?.length
+                || input.tags?.length
+                || input.complexity
+                || input.keywords?.length
+                || input.similar_to,
+            );
+            if (!hasCriteria) {
+                throw new Error('Tool matching validation failed: provide an intent, categories, tags, complexity, keywords or similar_to');
+            }
+
+            const matches = this.toolMatcher.matchTools({
+                categories: input.categories,
+                tags: input.tags,
+                complexity: input.complexity,
+                keywords: input.keywords,
+                intent: input.intent,
+                maxCostLevel: input.max_cost_level,
+            }).filter(match => match.toolName !== SEQUENTIAL_THINKING_TOOL.name);
+            const limit = input.limit ?? 10;
+
+            return {
+                matches: matches.slice(0, limit).map(match => this.describeToolMatch(match)),
+                total_matches: matches.length,
+                similar_tools: input.similar_to
+                    ? this.toolMatcher.findSimilarTools(input.similar_to, limit)
+                        .filter(toolName => toolName !== SEQUENTIAL_THINKING_TOOL.name)
+                    : undefined,
+                available_categories: this.toolMatcher.getCategories(),
+                available_tags: this.toolMatcher.getTags(),
+            };
+        });
+    }
+
+    private describeToolMatch(match: ToolMatchScore): ToolPayload {
+        const tool = this.availableTools.get(match.toolName)!;
+        const capabilities = tool.capabilities;
+        return {
+            tool_name: match.toolName,
+            score: match.score,
+            reasons: match.reasons,
+            description: tool.description,
+            server_name: tool.serverName,
+            aliases: tool.aliases,
+            capabilities: capabilities && {
+                category: capabilities.category,
+                categories: capabilities.categories,
+                tags: capabilities.tags,
+                complexity: capabilities.complexity,
+                cost_level: capabilities.costLevel,
+                input_types: capabilities.inputTypes,
+                output_types: capabilities.outputTypes,
+            },
+            tool_stats: this.toolOutcomes.getStats(match.toolName),
+        };
+    }
+
+    public async reportStepResult(input: v.InferInput<typeof ReportStepResultSchema>) {
+        const { session_id, ...report } = input;
+        const sessionId = session_id || this.sessionId;
+        return this.runSessionTool('reportStepResult', sessionId, async () =>
+            this.withSession(sessionId, async (session) => ({
+                session_id: sessionId,
+                ...await session.processor.reportStepResult(report),
+            })),
+        );
+    }
+
+    public async reportToolResult(input: v.InferInput<typeof ReportToolResultSchema>) {
+        const { session_id, ...report } = input;
+        const sessionId = session_id || this.sessionId;
+        return this.runSessionTool('reportToolResult', sessionId, async () =>
+            this.withSession(sessionId, async (session) => ({
+                session_id: sessionId,
+                ...await session.processor.reportToolResult(report),
+            })),
+        );
+    }
+
     public async processThought(input: v.InferInput<typeof SequentialThinkingSchema>) {
         return measureTime('processThought', async () => {
-            return this.withSessionLock(this.sessionId, async () => {
+            const { session_id, ...thoughtInput } = input;
+            const sessionId = session_id || this.sessionId;
+
+            return this.withSession(sessionId, async (session) => {
                 try {
-                    const validatedInput = input as ThoughtData;
+                    const validatedInput = thoughtInput as ThoughtData;
 
                     logger.debug('Processing thought', {
+                        sessionId,
                         thoughtNumber: validatedInput.thought_number,
                         totalThoughts: validatedInput.total_thoughts,
                         isRevision: validatedInput.is_revision,
                         branchId: validatedInput.branch_id,
                     });
 
-                    return await this.processor.processThought(validatedInput);
+                    return await session.processor.processThought(validatedInput);
                 } catch (error) {
                     const errorContext = createErrorContext('processThought', error, {
                         thoughtNumber: input.thought_number,
@@ -264,6 +1064,7 @@ export class ToolAwareSequentialThinkingServer {
                     });
 
                     const errorPayload = {
+                        session_id: sessionId,
                         error: errorContext.error,
                         errorType: errorContext.errorType,
                         errorCategory: errorContext.category,
@@ -0,0 +1,413 @@
+/**
+ * Portable session export format
+ * A session is exported as one versioned document: its thoughts, each step and tool
+ * recommendation stored once and referenced by id, branches, backtracks, execution
+ * results, tool chains and tool budget. The document is written as JSON or as NDJSON
+ * with one record per line, and is validated before anything is imported.
+ */
+
+import * as v from 'valibot';
+import { SequentialThinkingSchema, ToolRecommendationSchema } from './schema.js';
+import { ExecutionStatusRecord, ThoughtComputedState } from './thought-store.js';
+import { ChainBuffer, ToolChain } from './tool-chains.js';
+import { ToolBudgetState } from './tool-budget.js';
+import { StepRecommendation, ThoughtData } from './types.js';
+
+export const SESSION_EXPORT_FORMAT = 'mcp-sequentialthinking-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type SessionExportEncoding = 'json' | 'ndjson';
+
+const CountSchema = v.pipe(v.number(), v.integer(), v.minValue(0));
+const ThoughtNumberSchema = v.pipe(v.number(), v.integer(), v.minValue(1));
+
+const ExportedStepSchema = v.object({
+	id: CountSchema,
+	step_description: v.string(),
+	expected_outcome: v.string(),
+	next_step_conditions: v.optional(v.array(v.string())),
+	recommended_tools: v.array(ToolRecommendationSchema),
+});
+
+const ExportedThoughtSchema = v.object({
+	...v.omit(SequentialThinkingSchema, ['session_id', 'current_step', 'previous_steps']).entries,
+	current_step_id: v.optional(CountSchema),
+	previous_step_ids: v.optional(v.array(CountSchema)),
+	server: v.optional(v.object({
+		confidence_source: v.picklist(['input', 'calculated']),
+		input_total_thoughts: v.optional(v.number()),
+		backtrack_reason: v.optional(v.string()),
+		backtracks: v.optional(v.array(v.object({
+			thought_number: v.number(),
+			confidence: v.number(),
+			reason: v.string(),
+		}))),
+		dag_dependencies: v.optional(v.array(v.number())),
+		dag_status: v.optional(v.picklist(['pending', 'ready', 'executing', 'completed', 'failed'])),
+	})),
+	execution: v.optional(v.object({
+		status: v.picklist(['completed', 'failed']),
+		error: v.optional(v.string()),
+	})),
+});
+
+const ExportedBranchSchema = v.object({
+	branch_id: v.pipe(v.string(), v.minLength(1)),
+	branch_from_thought: ThoughtNumberSchema,
+	thought_numbers: v.array(ThoughtNumberSchema),
+});
+
+const ExportedChainBufferSchema = v.object({
+	sequence: v.array(v.string()),
+	executed: v.boolean(),
+	failures: CountSchema,
+});
+
+const ExportedToolChainSchema = v.object({
+	sequence: v.pipe(v.array(v.pipe(v.string(), v.minLength(1))), v.minLength(1)),
+	context: v.string(),
+	success_count: CountSchema,
+	total_uses: CountSchema,
+	recommended_uses: v.optional(CountSchema),
+	average_confidence: v.number(),
+	last_used: v.string(),
+});
+
+const ExportedBudgetSchema = v.object({
+	limits: v.object({
+		max_high_cost_calls: v.optional(v.number()),
+		max_cost_units: v.optional(v.number()),
+	}),
+	spent: v.object({
+		calls: v.number(),
+		high_cost_calls: v.number(),
+		cost_units: v.number(),
+	}),
+});
+
+const SessionHeaderEntries = {
+	format: v.literal(SESSION_EXPORT_FORMAT),
+	version: v.literal(SESSION_EXPORT_VERSION),
+	exported_at: v.string(),
+	session_id: v.pipe(v.string(), v.minLength(1)),
+};
+
+export const SessionExportSchema = v.object({
+	...SessionHeaderEntries,
+	steps: v.array(ExportedStepSchema),
+	thoughts: v.pipe(v.array(ExportedThoughtSchema), v.minLength(1)),
+	branches: v.array(ExportedBranchSchema),
+	tool_chains: v.object({
+		current: v.optional(ExportedChainBufferSchema),
+		learned: v.array(ExportedToolChainSchema),
+	}),
+	budget: v.optional(ExportedBudgetSchema),
+});
+
+export type SessionExport = v.InferOutput<typeof SessionExportSchema>;
+type ExportedStep = SessionExport['steps'][number];
+type ExportedThought = SessionExport['thoughts'][number];
+
+/**
+ * Everything a session export carries, in the shapes the server works with
+ */
+export interface SessionSnapshot {
+	sessionId: string;
+	history: ThoughtData[];
+	computedStates: Array<ThoughtComputedState | undefined>;  // One entry per thought in history
+	executionStatuses: Map<number, ExecutionStatusRecord>;
+	chainBuffer?: ChainBuffer;
+	learnedChains: Array<Omit<ToolChain, 'id'>>;  // Ids are assigned by the library that loads them
+	budget?: ToolBudgetState;
+}
+
+/**
+ * Build an export document from a session snapshot
+ */
+export function buildSessionExport(snapshot: SessionSnapshot, exportedAt: Date = new Date()): SessionExport {
+	const steps: ExportedStep[] = [];
+	const stepIds = new Map<string, number>();
+	const stepId = (step: StepRecommendation): number => {
+		const key = JSON.stringify(step);
+		let id = stepIds.get(key);
+		if (id === undefined) {
+			id = steps.length;
+			stepIds.set(key, id);
+			steps.push({ id, ...structuredClone(step) });
+		}
+		return id;
+	};
+
+	// Execution results belong to the latest thought with their number
+	const latestIndex = new Map(snapshot.history.map((thought, index) => [thought.thought_number, index]));
+
+	const branches = new Map<string, SessionExport['branches'][number]>();
+	const thoughts = snapshot.history.map((thought, index): ExportedThought => {
+		const { current_step, previous_steps, ...fields } = structuredClone(thought);
+		const computed = snapshot.computedStates[index];
+		const execution = latestIndex.get(thought.thought_number) === index
+			? snapshot.executionStatuses.get(thought.thought_number)
+			: undefined;
+
+		if (thought.branch_id && thought.branch_from_thought) {
+			const branch = branches.get(thought.branch_id)
+				?? { branch_id: thought.branch_id, branch_from_thought: thought.branch_from_thought, thought_numbers: [] };
+			branch.thought_numbers.push(thought.thought_number);
+			branches.set(thought.branch_id, branch);
+		}
+
+		return {
+			...fields,
+			...(current_step ? { current_step_id: stepId(current_step) } : {}),
+			...(previous_steps ? { previous_step_ids: previous_steps.map(stepId) } : {}),
+			...(computed ? {
+				server: {
+					confidence_source: computed.confidenceSource,
+					...(computed.inputTotalThoughts !== undefined ? { input_total_thoughts: computed.inputTotalThoughts } : {}),
+					...(computed.backtrackReason !== undefined ? { backtrack_reason: computed.backtrackReason } : {}),
+					...(computed.backtracks ? {
+						backtracks: computed.backtracks.map(point => ({
+							thought_number: point.thoughtNumber,
+							confidence: point.confidence,
+							reason: point.reason,
+						})),
+					} : {}),
+					...(computed.dagDependencies ? { dag_dependencies: computed.dagDependencies } : {}),
+					...(computed.dagStatus ? { dag_status: computed.dagStatus } : {}),
+				},
+			} : {}),
+			...(execution ? { execution: { ...execution } } : {}),
+		};
+	});
+
+	return {
+		format: SESSION_EXPORT_FORMAT,
+		version: SESSION_EXPORT_VERSION,
+		exported_at: exportedAt.toISOString(),
+		session_id: snapshot.sessionId,
+		steps,
+		thoughts,
+		branches: Array.from(branches.values()),
+		tool_chains: {
+			...(snapshot.chainBuffer ? { current: { ...snapshot.chainBuffer, sequence: [...snapshot.chainBuffer.sequence] } } : {}),
+			learned: snapshot.learnedChains.map(chain => ({
+				sequence: [...chain.sequence],
+				context: chain.context,
+				success_count: chain.successCount,
+				total_uses: chain.totalUses,
+				...(chain.recommendedUses ? { recommended_uses: chain.recommendedUses } : {}),
+				average_confidence: chain.averageConfidence,
+				last_used: chain.lastUsed,
+			})),
+		},
+		...(snapshot.budget ? {
+			budget: {
+				limits: {
+					...(snapshot.budget.limits.maxHighCostCalls !== undefined
+						? { max_high_cost_calls: snapshot.budget.limits.maxHighCostCalls }
+						: {}),
+					...(snapshot.budget.limits.maxCostUnits !== undefined
+						? { max_cost_units: snapshot.budget.limits.maxCostUnits }
+						: {}),
+				},
+				spent: { ...snapshot.budget.spent },
+			},
+		} : {}),
+	};
+}
+
+/**
+ * Turn a validated export document back into a session snapshot.
+ * Branches are rebuilt from the thoughts, and learned chains get ids when they are loaded.
+ */
+export function toSessionSnapshot(document: SessionExport, sessionId: string = document.session_id): SessionSnapshot {
+	const steps = new Map<number, StepRecommendation>();
+	for (const { id, ...step } of document.steps) {
+		steps.set(id, step);
+	}
+	const step = (id: number, thoughtNumber: number): StepRecommendation => {
+		const found = steps.get(id);
+		if (!found) {
+			throw new Error(`Session import validation failed: thought ${thoughtNumber} references unknown step ${id}`);
+		}
+		return structuredClone(found);
+	};
+
+	const computedStates: Array<ThoughtComputedState | undefined> = [];
+	const executionStatuses = new Map<number, ExecutionStatusRecord>();
+	const history = document.thoughts.map(({ current_step_id, previous_step_ids, server, execution, ...fields }): ThoughtData => {
+		const thought: ThoughtData = structuredClone(fields);
+		if (current_step_id !== undefined) {
+			thought.current_step = step(current_step_id, thought.thought_number);
+		}
+		if (previous_step_ids) {
+			thought.previous_steps = previous_step_ids.map(id => step(id, thought.thought_number));
+		}
+		computedStates.push(server ? {
+			confidenceSource: server.confidence_source,
+			...(server.input_total_thoughts !== undefined ? { inputTotalThoughts: server.input_total_thoughts } : {}),
+			...(server.backtrack_reason !== undefined ? { backtrackReason: server.backtrack_reason } : {}),
+			...(server.backtracks ? {
+				backtracks: server.backtracks.map(point => ({
+					thoughtNumber: point.thought_number,
+					confidence: point.confidence,
+					reason: point.reason,
+				})),
+			} : {}),
+			...(server.dag_dependencies ? { dagDependencies: server.dag_dependencies } : {}),
+			...(server.dag_status ? { dagStatus: server.dag_status } : {}),
+		} : undefined);
+		if (execution) {
+			executionStatuses.set(thought.thought_number, { ...execution });
+		}
+		return thought;
+	});
+
+	return {
+		sessionId,
+		history,
+		computedStates,
+		executionStatuses,
+		chainBuffer: document.tool_chains.current,
+		learnedChains: document.tool_chains.learned.map(chain => ({
+			sequence: chain.sequence,
+			context: chain.context,
+			successCount: chain.success_count,
+			totalUses: chain.total_uses,
+			...(chain.recommended_uses ? { recommendedUses: chain.recommended_uses } : {}),
+			averageConfidence: chain.average_confidence,
+			lastUsed: chain.last_used,
+		})),
+		budget: document.budget ? {
+			limits: {
+				maxHighCostCalls: document.budget.limits.max_high_cost_calls,
+				maxCostUnits: document.budget.limits.max_cost_units,
+			},
+			spent: { ...document.budget.spent },
+		} : undefined,
+	};
+}
+
+/**
+ * Write an export document as pretty-printed JSON or as NDJSON. NDJSON starts with a
+ * "session" record holding the header and budget, followed by one "step", "thought",
+ * "branch", "chain_buffer" or "tool_chain" record per line.
+ */
+export function serializeSessionExport(document: SessionExport, encoding: SessionExportEncoding = 'json'): string {
+	if (encoding === 'json') {
+		return `${JSON.stringify(document, null, 2)}\n`;
+	}
+
+	const { steps, thoughts, branches, tool_chains, ...header } = document;
+	const records: Array<Record<string, unknown>> = [
+		{ type: 'session', ...header },
+		...steps.map(step => ({ type: 'step', ...step })),
+		...thoughts.map(thought => ({ type: 'thought', ...thought })),
+		...branches.map(branch => ({ type: 'branch', ...branch })),
+		...(tool_chains.current ? [{ type: 'chain_buffer', ...tool_chains.current }] : []),
+		...tool_chains.learned.map(chain => ({ type: 'tool_chain', ...chain })),
+	];
+	return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+function parseJsonText(text: string, context: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Session import validation failed: ${context} is not valid JSON (${(error as Error).message})`);
+	}
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isNdjsonHeader(line: string): boolean {
+	try {
+		const record = JSON.parse(line);
+		return isRecord(record) && record.type === 'session';
+	} catch {
+		// The first line of a pretty-printed JSON document is not a value on its own
+		return false;
+	}
+}
+
+/**
+ * Reassemble the document written by the NDJSON encoding
+ */
+function fromNdjson(lines: string[]): Record<string, unknown> {
+	const document: Record<string, unknown> = {};
+	const steps: unknown[] = [];
+	const thoughts: unknown[] = [];
+	const branches: unknown[] = [];
+	const learned: unknown[] = [];
+	let current: unknown;
+
+	lines.forEach((line, index) => {
+		const record = parseJsonText(line, `line ${index + 1}`);
+		if (!isRecord(record)) {
+			throw new Error(`Session import validation failed: line ${index + 1} is not an object`);
+		}
+		const { type, ...fields } = record;
+		switch (type) {
+			case 'session':
+				Object.assign(document, fields);
+				break;
+			case 'step':
+				steps.push(fields);
+				break;
+			case 'thought':
+				thoughts.push(fields);
+				break;
+			case 'branch':
+				branches.push(fields);
+				break;
+			case 'chain_buffer':
+				current = fields;
+				break;
+			case 'tool_chain':
+				learned.push(fields);
+				break;
+			default:
+				throw new Error(`Session import validation failed: line ${index + 1} has unknown record type "${String(type)}"`);
+		}
+	});
+
+	return { ...document, steps, thoughts, branches, tool_chains: { current, learned } };
+}
+
+/**
+ * Parse and validate an export given as JSON text, NDJSON text or an already parsed document
+ */
+export function parseSessionExport(data: unknown): SessionExport {
+	let raw = data;
+	if (typeof data === 'string') {
+		const lines = data.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+		if (lines.length === 0) {
+			throw new Error('Session import validation failed: the export is empty');
+		}
+		raw = isNdjsonHeader(lines[0])
+			? fromNdjson(lines)
+			: parseJsonText(data, 'the export');
+	}
+
+	// Report format and version problems before field-level issues
+	if (!isRecord(raw) || raw.format !== SESSION_EXPORT_FORMAT) {
+		throw new Error(`Session import validation failed: not a ${SESSION_EXPORT_FORMAT} export`);
+	}
+	if (raw.version !== SESSION_EXPORT_VERSION) {
+		throw new Error(
+			`Session import validation failed: unsupported format version ${String(raw.version)} (supported: ${SESSION_EXPORT_VERSION})`,
+		);
+	}
+
+	const result = v.safeParse(SessionExportSchema, raw);
+	if (!result.success) {
+		throw new Error(
+			`Session import validation failed: ${result.issues.slice(0, 5).map(issue => {
+				const path = issue.path?.map(item => String(item.key)).join('.');
+				return path ? `${path}: ${issue.message}` : issue.message;
+			}).join('; ')}`,
+		);
+	}
+	return result.output;
+}
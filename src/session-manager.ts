@@ -0,0 +1,219 @@
+/**
+ * Per-conversation session registry
+ * Keeps reasoning state isolated per session and evicts idle sessions
+ */
+
+import { BacktrackingManager } from './backtracking.js';
+import { ThoughtDAG } from './dag.js';
+import { logger } from './logging.js';
+import { ThoughtProcessor } from './thought-processor.js';
+
+export class SessionNotFoundError extends Error {
+	constructor(sessionId: string) {
+		super(`Session "${sessionId}" not found`);
+		this.name = 'SessionNotFoundError';
+	}
+}
+
+export class SessionExistsError extends Error {
+	constructor(sessionId: string) {
+		super(`Session "${sessionId}" already exists`);
+		this.name = 'SessionExistsError';
+	}
+}
+
+export interface SessionState {
+	sessionId: string;
+	processor: ThoughtProcessor;
+	backtrackingManager: BacktrackingManager;
+	thoughtDAG: ThoughtDAG;
+	createdAt: number;
+	lastActivity: number;
+	activeOperations: number;
+}
+
+export type SessionComponents = Pick<
+	SessionState,
+	'processor' | 'backtrackingManager' | 'thoughtDAG'
+>;
+
+export interface SessionManagerConfig {
+	idleTimeoutMs: number;
+	maxSessions: number;
+	createSession: (sessionId: string) => SessionComponents;
+	hydrateSession: (session: SessionState) => Promise<void>;
+	pinnedSessionIds?: string[];  // Sessions that are never evicted
+	canEvict?: () => boolean;  // False while an evicted session could not be hydrated again
+}
+
+export class SessionManager {
+	private sessions: Map<string, SessionState> = new Map();
+	private pending: Map<string, Promise<SessionState>> = new Map();
+	private pinned: Set<string>;
+	private retained: Set<string> = new Set();  // Kept despite eviction, already warned about
+
+	constructor(private readonly config: SessionManagerConfig) {
+		this.pinned = new Set(config.pinnedSessionIds ?? []);
+	}
+
+	/**
+	 * Get a session, creating and hydrating it on first use.
+	 * Callers must pair every acquire with a release.
+	 */
+	async acquire(sessionId: string): Promise<SessionState> {
+		this.evictIdle();
+
+		const existing = this.sessions.get(sessionId);
+		if (existing) {
+			existing.activeOperations++;
+			existing.lastActivity = Date.now();
+			return existing;
+		}
+
+		let creation = this.pending.get(sessionId);
+		if (!creation) {
+			creation = this.createSession(sessionId);
+			this.pending.set(sessionId, creation);
+		}
+
+		try {
+			const session = await creation;
+			session.activeOperations++;
+			session.lastActivity = Date.now();
+			this.enforceSessionLimit();
+			return session;
+		} finally {
+			this.pending.delete(sessionId);
+		}
+	}
+
+	release(session: SessionState): void {
+		session.activeOperations = Math.max(0, session.activeOperations - 1);
+		session.lastActivity = Date.now();
+	}
+
+	private async createSession(sessionId: string): Promise<SessionState> {
+		const now = Date.now();
+		const session: SessionState = {
+			sessionId,
+			...this.config.createSession(sessionId),
+			createdAt: now,
+			lastActivity: now,
+			activeOperations: 0,
+		};
+
+		await this.config.hydrateSession(session);
+
+		this.sessions.set(sessionId, session);
+
+		logger.info('Session created', {
+			sessionId,
+			activeSessions: this.sessions.size,
+		});
+		return session;
+	}
+
+	get(sessionId: string): SessionState | undefined {
+		return this.sessions.get(sessionId);
+	}
+
+	has(sessionId: string): boolean {
+		return this.sessions.has(sessionId);
+	}
+
+	getSessionIds(): string[] {
+		return Array.from(this.sessions.keys());
+	}
+
+	/**
+	 * Drop a session from memory. Persisted history is untouched.
+	 */
+	delete(sessionId: string): boolean {
+		const session = this.sessions.get(sessionId);
+		if (!session) return false;
+
+		if (session.activeOperations > 0) {
+			logger.warn('Refusing to unload busy session', { sessionId });
+			return false;
+		}
+
+		this.sessions.delete(sessionId);
+		this.retained.delete(sessionId);
+		logger.debug('Session unloaded', { sessionId });
+		return true;
+	}
+
+	/**
+	 * Unload sessions that have been idle longer than the configured timeout
+	 */
+	evictIdle(now: number = Date.now()): string[] {
+		const idle = Array.from(this.sessions.values()).filter(session =>
+			this.isEvictable(session) && now - session.lastActivity >= this.config.idleTimeoutMs
+		);
+		if (idle.length === 0 || !this.canEvict(idle)) return [];
+
+		const evicted: string[] = [];
+		for (const session of idle) {
+			this.sessions.delete(session.sessionId);
+			evicted.push(session.sessionId);
+		}
+
+		if (evicted.length > 0) {
+			logger.info('Idle sessions evicted', {
+				evicted,
+				activeSessions: this.sessions.size,
+			});
+		}
+
+		return evicted;
+	}
+
+	private enforceSessionLimit(): void {
+		if (this.sessions.size <= this.config.maxSessions) return;
+
+		const candidates = Array.from(this.sessions.values())
+			.filter(session => this.isEvictable(session))
+			.sort((a, b) => a.lastActivity - b.lastActivity);
+		if (!this.canEvict(candidates.slice(0, this.sessions.size - this.config.maxSessions))) return;
+
+		while (this.sessions.size > this.config.maxSessions && candidates.length > 0) {
+			const oldest = candidates.shift()!;
+			this.sessions.delete(oldest.sessionId);
+			logger.info('Session evicted to respect session limit', {
+				sessionId: oldest.sessionId,
+				maxSessions: this.config.maxSessions,
+			});
+		}
+	}
+
+	private isEvictable(session: SessionState): boolean {
+		return session.activeOperations === 0 && !this.pinned.has(session.sessionId);
+	}
+
+	/**
+	 * Whether sessions can be unloaded. Without a store to hydrate them from, unloading
+	 * would lose their state, so they are kept and a warning is logged once per session.
+	 */
+	private canEvict(sessions: SessionState[]): boolean {
+		if (this.config.canEvict?.() ?? true) return true;
+
+		const unwarned = sessions
+			.map(session => session.sessionId)
+			.filter(sessionId => !this.retained.has(sessionId));
+		if (unwarned.length > 0) {
+			logger.warn('Keeping sessions in memory because no thought store can restore them', {
+				sessionIds: unwarned,
+				activeSessions: this.sessions.size,
+			});
+			unwarned.forEach(sessionId => this.retained.add(sessionId));
+		}
+		return false;
+	}
+
+	clear(): void {
+		this.sessions.clear();
+		this.pending.clear();
+		this.retained.clear();
+		logger.info('All sessions unloaded');
+	}
+}
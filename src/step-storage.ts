@@ -0,0 +1,212 @@
+/**
+ * Deduplicated storage of step recommendations
+ * A step is stored once per session under a hash of its content and thoughts reference
+ * their steps by id. Clients echo previous_steps back with one more step each thought, so
+ * a thought references the start of its previous steps through the session's preceding
+ * list (its base) and only the steps after it get rows of their own.
+ */
+
+import { createHash } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { logger } from './logging.js';
+
+/**
+ * A step in its stored form: JSON fields serialized, absent values as NULL
+ */
+export interface StoredStep {
+	step_description: string;
+	expected_outcome: string;
+	next_step_conditions: string | null;
+	tools: StoredTool[];
+}
+
+/**
+ * Previous step ids of the session's latest thought that had previous steps
+ */
+export interface PreviousStepList {
+	thoughtId: number;
+	stepIds: number[];
+}
+
+export interface StoredTool {
+	tool_name: string;
+	confidence: number;
+	rationale: string;
+	priority: number;
+	suggested_inputs: string | null;
+	alternatives: string | null;
+	confirmed: number | null;
+}
+
+/**
+ * Hash of everything stored for a step, tools in order
+ */
+export function stepContentHash(step: StoredStep): string {
+	const content = [
+		step.step_description,
+		step.expected_outcome,
+		step.next_step_conditions,
+		step.tools.map(tool => [
+			tool.tool_name,
+			tool.confidence,
+			tool.rationale,
+			tool.priority,
+			tool.suggested_inputs,
+			tool.alternatives,
+			tool.confirmed,
+		]),
+	];
+	return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Id of the session's step with this content, inserting it the first time it is seen
+ */
+export function storeStep(db: Database.Database, sessionId: string | null, step: StoredStep): number {
+	const contentHash = stepContentHash(step);
+	const existing = db.prepare('SELECT id FROM steps WHERE session_id IS ? AND content_hash = ?')
+		.get(sessionId, contentHash) as { id: number } | undefined;
+	if (existing) return existing.id;
+
+	const info = db.prepare(`
+		INSERT INTO steps (session_id, content_hash, step_description, expected_outcome, next_step_conditions, created_at)
+		VALUES (?, ?, ?, ?, ?, ?)
+	`).run(
+		sessionId,
+		contentHash,
+		step.step_description,
+		step.expected_outcome,
+		step.next_step_conditions,
+		new Date().toISOString()
+	);
+	const stepId = Number(info.lastInsertRowid);
+
+	const toolStmt = db.prepare(`
+		INSERT INTO step_tools (
+			step_id, position, tool_name, confidence, rationale, priority,
+			suggested_inputs, alternatives, confirmed
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+	`);
+	step.tools.forEach((tool, position) => {
+		toolStmt.run(
+			stepId,
+			position,
+			tool.tool_name,
+			tool.confidence,
+			tool.rationale,
+			tool.priority,
+			tool.suggested_inputs,
+			tool.alternatives,
+			tool.confirmed
+		);
+	});
+
+	return stepId;
+}
+
+/**
+ * Reference a stored step from a thought, as its current step or at a position in its previous steps
+ */
+export function linkStep(
+	db: Database.Database,
+	thoughtId: number,
+	stepId: number,
+	isCurrent: boolean,
+	position: number
+): void {
+	db.prepare(`
+		INSERT INTO thought_steps (thought_id, is_current, position, step_id)
+		VALUES (?, ?, ?, ?)
+	`).run(thoughtId, isCurrent ? 1 : 0, position, stepId);
+}
+
+/**
+ * Reference a thought's previous steps. Steps shared with the start of the base list are
+ * referenced through the base thought; the rest are linked at their positions. Returns the
+ * thought's list, the base of the session's next thought.
+ */
+export function linkPreviousSteps(
+	db: Database.Database,
+	thoughtId: number,
+	stepIds: number[],
+	base?: PreviousStepList
+): PreviousStepList {
+	let shared = 0;
+	while (base && shared < Math.min(base.stepIds.length, stepIds.length) && base.stepIds[shared] === stepIds[shared]) {
+		shared++;
+	}
+
+	if (shared > 0) {
+		db.prepare('UPDATE thoughts SET previous_steps_base = ?, previous_step_count = ? WHERE id = ?')
+			.run(base!.thoughtId, stepIds.length, thoughtId);
+	}
+	for (let position = shared; position < stepIds.length; position++) {
+		linkStep(db, thoughtId, stepIds[position], false, position);
+	}
+	return { thoughtId, stepIds };
+}
+
+/**
+ * Move steps from the per-thought step_recommendations and tool_recommendations tables
+ * into deduplicated steps. Runs inside the migration's transaction.
+ */
+export function migrateLegacySteps(db: Database.Database): void {
+	const stepRows = db.prepare(`
+		SELECT s.*, t.session_id FROM step_recommendations s
+		JOIN thoughts t ON t.id = s.thought_id
+		ORDER BY s.thought_id ASC, s.is_current DESC, s.position ASC, s.id ASC
+	`).all() as any[];
+	const toolRows = db.prepare(`
+		SELECT * FROM tool_recommendations
+		ORDER BY step_id ASC, position ASC, priority ASC, id ASC
+	`).all() as any[];
+
+	const toolsByStep = new Map<number, StoredTool[]>();
+	for (const row of toolRows) {
+		const tools = toolsByStep.get(row.step_id) ?? [];
+		tools.push({
+			tool_name: row.tool_name,
+			confidence: row.confidence,
+			rationale: row.rationale,
+			priority: row.priority,
+			suggested_inputs: row.suggested_inputs,
+			alternatives: row.alternatives,
+			confirmed: row.confirmed ?? null,
+		});
+		toolsByStep.set(row.step_id, tools);
+	}
+
+	// Rows written before positions were stored are kept in insertion order
+	const previousSteps = new Map<number, { sessionId: string | null; stepIds: number[] }>();
+	const linked = new Set<number>();
+	for (const row of stepRows) {
+		const stepId = storeStep(db, row.session_id ?? null, {
+			step_description: row.step_description,
+			expected_outcome: row.expected_outcome,
+			next_step_conditions: row.next_step_conditions,
+			tools: toolsByStep.get(row.id) ?? [],
+		});
+
+		if (row.is_current) {
+			// Only one current step per thought can be referenced
+			if (linked.has(row.thought_id)) continue;
+			linked.add(row.thought_id);
+			linkStep(db, row.thought_id, stepId, true, 0);
+		} else {
+			const previous = previousSteps.get(row.thought_id) ?? { sessionId: row.session_id ?? null, stepIds: [] as number[] };
+			previous.stepIds.push(stepId);
+			previousSteps.set(row.thought_id, previous);
+		}
+	}
+
+	// Thoughts come in id order, so each base is the session's preceding list
+	const bases = new Map<string | null, PreviousStepList>();
+	for (const [thoughtId, { sessionId, stepIds }] of previousSteps) {
+		bases.set(sessionId, linkPreviousSteps(db, thoughtId, stepIds, bases.get(sessionId)));
+	}
+
+	logger.info('Step recommendations deduplicated', {
+		stepRows: stepRows.length,
+		storedSteps: (db.prepare('SELECT COUNT(*) AS count FROM steps').get() as { count: number }).count,
+	});
+}
@@ -0,0 +1,114 @@
+/**
+ * Text analysis for keyword matching
+ * Tokenizes free text, removes stop words and reduces words to a light stem
+ */
+
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+	'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+	'be', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do',
+	'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into',
+	'is', 'it', 'its', 'just', 'let', 'may', 'me', 'might', 'more', 'my', 'need',
+	'needs', 'no', 'not', 'now', 'of', 'on', 'once', 'only', 'or', 'other', 'our',
+	'out', 'over', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+	'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+	'too', 'up', 'us', 'use', 'using', 'very', 'was', 'we', 'were', 'what', 'when',
+	'where', 'which', 'while', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Suffix rewrites, longest first; the first applicable rule wins
+const SUFFIX_RULES: Array<[suffix: string, replacement: string]> = [
+	['ational', 'ate'],
+	['ization', 'ize'],
+	['fulness', 'ful'],
+	['iveness', 'ive'],
+	['ations', 'ate'],
+	['ation', 'ate'],
+	['ments', ''],
+	['ment', ''],
+	['ness', ''],
+	['sses', 'ss'],
+	['ings', ''],
+	['ing', ''],
+	['ies', 'y'],
+	['ied', 'y'],
+	['ed', ''],
+	['es', ''],
+	['s', ''],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Reduce a lowercase word to a light stem so inflections of a word compare equal
+ * (searching, searches, searched -> search). Stems are match keys, not always words.
+ */
+export function stem(word: string): string {
+	if (word.length <= MIN_STEM_LENGTH) return word;
+	return dropSilentE(stripSuffix(word));
+}
+
+function stripSuffix(word: string): string {
+	for (const [suffix, replacement] of SUFFIX_RULES) {
+		if (!word.endsWith(suffix)) continue;
+
+		const base = word.slice(0, -suffix.length);
+		if (base.length + replacement.length < MIN_STEM_LENGTH) continue;
+		// -es is only a plural after sibilants (boxes, searches); files falls through to -s
+		if (suffix === 'es' && !/(s|x|z|ch|sh)$/.test(base)) continue;
+		// "ss", "us" and "is" are word endings, not plurals (class, status, analysis)
+		if (suffix === 's' && /(s|u|i)$/.test(base)) return word;
+
+		if (suffix === 'ing' || suffix === 'ed') {
+			// No vowel left means the suffix was part of the word (bring, shed)
+			if (!/[aeiouy]/.test(base)) return word;
+			// Undouble consonants (mapping -> map)
+			if (/([^aeiouls])\1$/.test(base)) return base.slice(0, -1);
+		}
+		return base + replacement;
+	}
+	return word;
+}
+
+// Drop a final e so forms with and without it agree (write, writing -> writ)
+const dropSilentE = (word: string) =>
+	word.length > MIN_STEM_LENGTH && word.endsWith('e') ? word.slice(0, -1) : word;
+
+/**
+ * Lowercase alphanumeric words of text; identifiers split on _, - and camelCase
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+/**
+ * Stemmed terms of text in order, repeats included, without stop words and single characters
+ */
+export function analyze(text: string): string[] {
+	return tokenize(text)
+		.filter(token => token.length >= 2 && !STOP_WORDS.has(token))
+		.map(stem);
+}
+
+/**
+ * Distinct stemmed terms of text, without stop words and single characters
+ */
+export function extractTerms(text: string): string[] {
+	return Array.from(extractTermWords(text).keys());
+}
+
+/**
+ * Stemmed terms of text mapped to the first word they were taken from, for display
+ */
+export function extractTermWords(text: string): Map<string, string> {
+	const terms = new Map<string, string>();
+	for (const token of tokenize(text)) {
+		if (token.length < 2 || STOP_WORDS.has(token)) continue;
+		const term = stem(token);
+		if (!terms.has(term)) terms.set(term, token);
+	}
+	return terms;
+}
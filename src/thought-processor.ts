@@ -1,15 +1,36 @@
 import { BacktrackingManager } from './backtracking.js';
 import { CircuitBreaker, CircuitBreakerOpenError } from './error-handling.js';
 import { logger } from './logging.js';
-import { PersistenceLayer } from './persistence.js';
-import { ThoughtDAG } from './dag.js';
-import { ToolChainLibrary } from './tool-chains.js';
-import { StepRecommendation, ThoughtData } from './types.js';
+import { ExecutionStatusRecord, ThoughtComputedState, ThoughtStore } from './thought-store.js';
+import {
+	DagCycleError,
+	DagNodeNotFoundError,
+	InvalidStepStateError,
+	ThoughtDAG,
+} from './dag.js';
+import { buildExecutionPlan } from './execution-plan.js';
+import { analyzeCriticalPath, CriticalPathWeighting } from './critical-path.js';
+import { buildThoughtGraph, ThoughtGraph } from './graph-export.js';
+import { ToolChain, ToolChainLibrary } from './tool-chains.js';
+import { StepRecommendation, ThoughtData, Tool, ToolRecommendation } from './types.js';
 import { ScoringConfigShape } from './config-constants.js';
+import { ToolNameValidationResult, ToolNameValidator } from './tool-validation.js';
+import { ToolInputValidator } from './input-validation.js';
+import { ToolSafetyPolicy, ToolSafetyResult } from './tool-safety.js';
+import { ToolOutcome, ToolOutcomeTracker } from './tool-outcomes.js';
+import { toBudgetLimits, ToolBudget, ToolBudgetState } from './tool-budget.js';
+import { ToolCapabilityMatcher } from './tool-capabilities.js';
+
+export class ThoughtNotFoundError extends Error {
+	constructor(thoughtNumber: number, sessionId: string) {
+		super(`Thought ${thoughtNumber} not found in session "${sessionId}"`);
+		this.name = 'ThoughtNotFoundError';
+	}
+}
 
 export interface ThoughtProcessorDeps {
 	backtrackingManager: BacktrackingManager;
-	persistence: PersistenceLayer;
+	persistence: ThoughtStore;
 	thoughtDAG: ThoughtDAG;
 	toolChainLibrary: ToolChainLibrary;
 	enableDAG: boolean;
@@ -19,6 +40,29 @@ export interface ThoughtProcessorDeps {
 	scoringConfig: ScoringConfigShape;
 	persistenceBreaker: CircuitBreaker;
 	dagBreaker: CircuitBreaker;
+	toolValidator?: ToolNameValidator;
+	inputValidator?: ToolInputValidator;
+	toolSafety?: ToolSafetyPolicy;
+	availableTools?: Map<string, Tool>;  // Capability metadata for weighted critical paths
+	toolOutcomes?: ToolOutcomeTracker;  // Shared across sessions
+	toolMatcher?: () => ToolCapabilityMatcher;  // The server's matcher, rebuilt when its tools change
+	toolBudget?: ToolBudget;  // This session's tool spend
+}
+
+export interface StepResultReport {
+	thought_number: number;
+	status: 'executing' | 'completed' | 'failed';
+	result?: unknown;
+	error?: string;
+}
+
+export interface ToolResultReport {
+	thought_number: number;
+	tool_name: string;
+	success: boolean;
+	duration_ms?: number;
+	error?: string;
+	output_summary?: string;
 }
 
 export class ThoughtProcessor {
@@ -26,22 +70,50 @@ export class ThoughtProcessor {
 	private branches: Record<string, ThoughtData[]> = {};
 	private branchOrder: string[] = [];
 	private formatCache: Map<string, string> = new Map();
+	private ownToolMatcher?: ToolCapabilityMatcher;  // Without a server matcher, built on first use
+	// Successful tool calls reported for each unfinished step, with their output summaries
+	private toolResults: Map<number, Map<string, string | undefined>> = new Map();
+	// Backtracks already stored with a recorded thought
+	private recordedBacktracks = 0;
+	// What the server derived for each thought in thoughtHistory, at the same index
+	private computedStates: Array<ThoughtComputedState | undefined> = [];
 	private static readonly FORMAT_CACHE_LIMIT = 200;
 
 	constructor(private readonly deps: ThoughtProcessorDeps) { }
 
+	getHistory(): ThoughtData[] {
+		return [...this.thoughtHistory];
+	}
+
+	getBranchIds(): string[] {
+		return Object.keys(this.branches);
+	}
+
+	getConfidenceStats(): ReturnType<BacktrackingManager['getConfidenceStats']> {
+		return this.deps.backtrackingManager.getConfidenceStats();
+	}
+
 	clear(): void {
 		this.thoughtHistory = [];
 		this.branches = {};
 		this.branchOrder = [];
 		this.formatCache.clear();
+		this.toolResults.clear();
+		this.recordedBacktracks = 0;
+		this.computedStates = [];
+		this.deps.toolBudget?.reset();
 		this.deps.backtrackingManager.clear();
 		this.deps.thoughtDAG.clear();
-		this.deps.toolChainLibrary.clear();
+		// The chain library is shared across sessions; only drop this session's buffer
+		this.deps.toolChainLibrary.resetCurrentChain(this.deps.sessionId);
 		logger.info('Processor state cleared', { sessionId: this.deps.sessionId });
 	}
 
-	async hydrate(history: ThoughtData[]): Promise<void> {
+	async hydrate(
+		history: ThoughtData[],
+		executionStatuses: Map<number, ExecutionStatusRecord> = new Map(),
+		computedStates: Array<ThoughtComputedState | undefined> = [],
+	): Promise<void> {
 		this.clear();
 
 		if (history.length === 0) return;
@@ -51,9 +123,10 @@ export class ThoughtProcessor {
 			sessionId: this.deps.sessionId
 		});
 
-		for (const thought of history) {
-			// 1. Restore core history
+		for (const [index, thought] of history.entries()) {
+			// 1. Restore core history with what the server derived for each thought
 			this.thoughtHistory.push(thought);
+			this.computedStates.push(computedStates[index]);
 
 			// 2. Restore branches
 			this.updateBranches(thought);
@@ -62,24 +135,33 @@ export class ThoughtProcessor {
 			if (this.deps.enableDAG) {
 				await this.deps.dagBreaker.execute(async () => {
 					this.deps.thoughtDAG.addThought(thought);
-					this.deps.thoughtDAG.markExecuting(thought.thought_number);
-					this.deps.thoughtDAG.markCompleted(thought.thought_number, {
-						confidence: thought.confidence,
-						rehydrated: true
-					});
 				});
 			}
 
-			// 4. Restore Backtracking State (partial, just confidence stats if needed, 
-			// but BacktrackingManager largely recalculates on new thoughts. 
-			// We might want to feed it confidence values if it tracks history internally.)
-			// For now, we assume BacktrackingManager is stateless regarding *past* decision logic 
-			// except what's in the thoughts themselves, but let's check if we need to do anything.
-			// (Checked BacktrackingManager usage: it uses thought history from arguments often, 
-			// but might have internal state. The `clear()` method implies some internal state.
-			// However, for just restoring context, preserving `thoughHistory` is key.)
+			// 4. Restore confidence and the backtracks suggested before the thought
+			this.deps.backtrackingManager.restore(
+				thought,
+				computedStates[index]?.backtracks,
+			);
+		}
+
+		// Restore reported step results, then complete reasoning-only thoughts
+		if (this.deps.enableDAG) {
+			await this.deps.dagBreaker.execute(async () => {
+				for (const node of this.deps.thoughtDAG.getNodes()) {
+					const record = executionStatuses.get(node.thoughtNumber);
+					if (record?.status === 'completed') {
+						this.deps.thoughtDAG.markCompleted(node.thoughtNumber, { rehydrated: true });
+					} else if (record?.status === 'failed') {
+						this.deps.thoughtDAG.markFailed(node.thoughtNumber, record.error ?? 'Step failed');
+					}
+				}
+				this.deps.thoughtDAG.settleReasoningThoughts();
+			});
 		}
 
+		this.recordedBacktracks = this.deps.backtrackingManager.getBacktrackHistory().length;
+
 		// Re-enforce history limit in case the DB has more than the current limit
 		this.enforceHistoryLimit();
 
@@ -89,6 +171,264 @@ export class ThoughtProcessor {
 		});
 	}
 
+	/**
+	 * Thoughts, typed dependency edges and branches for visualization
+	 */
+	getGraph(): ThoughtGraph {
+		return buildThoughtGraph(
+			this.deps.sessionId,
+			this.thoughtHistory,
+			this.branches,
+			this.deps.enableDAG ? this.deps.thoughtDAG : undefined,
+		);
+	}
+
+	/**
+	 * Restore the session's persisted tool spend and budget overrides
+	 */
+	restoreBudget(state: ToolBudgetState): void {
+		this.deps.toolBudget?.restore(state);
+	}
+
+	getBudgetState(): ToolBudgetState | undefined {
+		return this.deps.toolBudget?.getState();
+	}
+
+	/** One entry per thought in getHistory(), at the same index */
+	getComputedStates(): Array<ThoughtComputedState | undefined> {
+		return [...this.computedStates];
+	}
+
+	/**
+	 * Terminal execution statuses of the session's DAG nodes, keyed by thought number
+	 */
+	getExecutionStatuses(): Map<number, ExecutionStatusRecord> {
+		const statuses = new Map<number, ExecutionStatusRecord>();
+		if (!this.deps.enableDAG) return statuses;
+
+		for (const node of this.deps.thoughtDAG.getNodes()) {
+			if (node.status === 'completed' || node.status === 'failed') {
+				statuses.set(node.thoughtNumber, {
+					status: node.status,
+					...(node.error ? { error: node.error } : {}),
+				});
+			}
+		}
+		return statuses;
+	}
+
+	private requireDAG(): ThoughtDAG {
+		if (!this.deps.enableDAG) {
+			throw new Error('DAG analysis requires the DAG; enable it with ENABLE_DAG=true');
+		}
+		return this.deps.thoughtDAG;
+	}
+
+	/**
+	 * Parallel execution schedule for the session's unfinished tool steps
+	 */
+	getExecutionPlan() {
+		const dag = this.requireDAG();
+		return {
+			session_id: this.deps.sessionId,
+			...buildExecutionPlan(dag),
+			dag_stats: dag.getStats(),
+		};
+	}
+
+	/**
+	 * Critical path and per-thought slack of the session's DAG
+	 */
+	getCriticalPath(weighting: CriticalPathWeighting = 'unit') {
+		const dag = this.requireDAG();
+		return {
+			session_id: this.deps.sessionId,
+			...analyzeCriticalPath(dag, weighting, this.deps.availableTools),
+		};
+	}
+
+	/**
+	 * Apply a client-reported step result to the DAG and return the updated plan
+	 */
+	async reportStepResult(report: StepResultReport) {
+		const dag = this.requireDAG();
+		const node = dag.getNode(report.thought_number);
+		if (!node) {
+			throw new DagNodeNotFoundError(report.thought_number);
+		}
+		if (node.status === 'completed' || node.status === 'failed') {
+			throw new InvalidStepStateError(report.thought_number, node.status, report.status);
+		}
+
+		const transition = await this.transitionStep(dag, report.thought_number, () => {
+			if (report.status === 'executing') {
+				dag.markExecuting(report.thought_number);
+			} else if (report.status === 'completed') {
+				dag.markCompleted(report.thought_number, report.result);
+				dag.settleReasoningThoughts();
+			} else {
+				dag.markFailed(report.thought_number, report.error ?? 'Step failed');
+			}
+		});
+
+		logger.info('Step result reported', {
+			sessionId: this.deps.sessionId,
+			thoughtNumber: report.thought_number,
+			status: report.status,
+			changed: transition.changed,
+		});
+
+		return {
+			thought_number: report.thought_number,
+			status: report.status,
+			propagated_failures: transition.propagated_failures,
+			auto_completed: transition.auto_completed,
+			plan: this.getExecutionPlan(),
+		};
+	}
+
+	/**
+	 * Record the outcome of a tool call the client executed for a thought's step.
+	 * Updates tool statistics, the session's executed tool chain and, with the DAG enabled,
+	 * the step: a failure fails it, and it completes once every recommended tool succeeded.
+	 */
+	async reportToolResult(report: ToolResultReport) {
+		const thought = [...this.thoughtHistory].reverse()
+			.find(candidate => candidate.thought_number === report.thought_number);
+		if (!thought) {
+			throw new ThoughtNotFoundError(report.thought_number, this.deps.sessionId);
+		}
+
+		const recommendedTools = thought.current_step?.recommended_tools.map(tool => tool.tool_name) ?? [];
+		const outcome: ToolOutcome = {
+			success: report.success,
+			durationMs: report.duration_ms,
+			error: report.error,
+			outputSummary: report.output_summary,
+			sessionId: this.deps.sessionId,
+			thoughtNumber: report.thought_number,
+			reportedAt: new Date().toISOString(),
+		};
+		const toolStats = this.deps.toolOutcomes?.record(report.tool_name, outcome);
+		await this.persistToolOutcome(report.tool_name, outcome);
+
+		// Failed calls cost as much as successful ones
+		this.deps.toolBudget?.recordCall(this.deps.availableTools?.get(report.tool_name));
+		await this.persistBudget();
+
+		if (this.deps.enableToolChains) {
+			this.deps.toolChainLibrary.recordToolResult(report.tool_name, report.success, this.deps.sessionId);
+			await this.persistToolChains();
+		}
+
+		const step = await this.applyToolResult(report, recommendedTools);
+
+		logger.info('Tool result reported', {
+			sessionId: this.deps.sessionId,
+			thoughtNumber: report.thought_number,
+			toolName: report.tool_name,
+			success: report.success,
+			stepStatus: step?.status,
+		});
+
+		return {
+			thought_number: report.thought_number,
+			tool_name: report.tool_name,
+			success: report.success,
+			recommended: recommendedTools.includes(report.tool_name),
+			tool_stats: toolStats,
+			tool_budget: this.getBudgetStatus([], thought.available_mcp_tools),
+			tool_chain: this.deps.enableToolChains
+				? this.deps.toolChainLibrary.getChainBuffer(this.deps.sessionId)
+				: undefined,
+			step_status: step?.status,
+			pending_tools: step?.pending_tools,
+			propagated_failures: step?.propagated_failures ?? [],
+			auto_completed: step?.auto_completed ?? [],
+		};
+	}
+
+	/**
+	 * Move the thought's DAG node along with a reported tool result
+	 */
+	private async applyToolResult(report: ToolResultReport, recommendedTools: string[]) {
+		if (!this.deps.enableDAG) return undefined;
+
+		const dag = this.deps.thoughtDAG;
+		const node = dag.getNode(report.thought_number);
+		if (!node) return undefined;
+		if (node.status === 'completed' || node.status === 'failed') {
+			// Late results still count for statistics but do not reopen the step
+			return { status: node.status, pending_tools: [], propagated_failures: [], auto_completed: [] };
+		}
+
+		const succeeded = this.toolResults.get(report.thought_number) ?? new Map<string, string | undefined>();
+		this.toolResults.set(report.thought_number, succeeded);
+
+		const transition = await this.transitionStep(dag, report.thought_number, () => {
+			if (node.status !== 'executing') {
+				// Backdate the start so observed durations cover the tool call itself
+				dag.markExecuting(report.thought_number, Date.now() - (report.duration_ms ?? 0));
+			}
+			if (!report.success) {
+				dag.markFailed(report.thought_number, report.error ?? `Tool ${report.tool_name} failed`);
+				return;
+			}
+
+			succeeded.set(report.tool_name, report.output_summary);
+			if (recommendedTools.every(toolName => succeeded.has(toolName))) {
+				dag.markCompleted(report.thought_number, Object.fromEntries(succeeded));
+				dag.settleReasoningThoughts();
+			}
+		});
+
+		// Re-read the status; the closure above moved the node
+		const { status } = dag.getNode(report.thought_number)!;
+		if (status === 'completed' || status === 'failed') {
+			this.toolResults.delete(report.thought_number);
+		}
+
+		return {
+			status,
+			pending_tools: recommendedTools.filter(toolName => !succeeded.has(toolName)),
+			propagated_failures: transition.propagated_failures,
+			auto_completed: transition.auto_completed,
+		};
+	}
+
+	/**
+	 * Apply a status change to the DAG, persist every thought it moved to a terminal state
+	 * and report which other thoughts it failed or completed along the way
+	 */
+	private async transitionStep(dag: ThoughtDAG, thoughtNumber: number, change: () => void) {
+		const previousStatuses = new Map(dag.getNodes().map(current => [current.thoughtNumber, current.status]));
+
+		change();
+
+		const changed = dag.getNodes().filter(current =>
+			current.status !== previousStatuses.get(current.thoughtNumber),
+		);
+		for (const current of changed) {
+			if (current.status === 'completed' || current.status === 'failed') {
+				await this.deps.persistence.updateExecutionStatus(this.deps.sessionId, current.thoughtNumber, {
+					status: current.status,
+					error: current.error,
+				});
+			}
+		}
+
+		const others = changed.filter(current => current.thoughtNumber !== thoughtNumber);
+		return {
+			changed: changed.map(current => current.thoughtNumber),
+			propagated_failures: others
+				.filter(current => current.status === 'failed')
+				.map(current => current.thoughtNumber),
+			auto_completed: others
+				.filter(current => current.status === 'completed')
+				.map(current => current.thoughtNumber),
+		};
+	}
+
 	private formatRecommendation(step: StepRecommendation): string {
 		const tools = step.recommended_tools
 			.map((tool) => {
@@ -203,8 +543,10 @@ ${formattedContent}
 		return thought;
 	}
 
-	private evaluateBacktracking(thought: ThoughtData) {
-		const backtrackDecision = this.deps.backtrackingManager.shouldBacktrack(thought);
+	private evaluateBacktracking(
+		thought: ThoughtData,
+		backtrackDecision: ReturnType<BacktrackingManager['shouldBacktrack']>,
+	) {
 		if (backtrackDecision.shouldBacktrack) {
 			logger.warn('Backtracking triggered', {
 				thoughtNumber: thought.thought_number,
@@ -237,19 +579,101 @@ ${formattedContent}
 		return null;
 	}
 
-	private recordStep(thought: ThoughtData): void {
-		if (!thought.current_step) return;
+	/**
+	 * Build a rejection result for a thought that was not recorded
+	 */
+	private rejectThought(
+		thought: ThoughtData,
+		rejection: { error: string; errorType: string } & Record<string, unknown>,
+	) {
+		const rejectionPayload = {
+			session_id: this.deps.sessionId,
+			thought_number: thought.thought_number,
+			status: 'rejected' as const,
+			errorCategory: 'ValidationError',
+			...rejection,
+		};
+
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: JSON.stringify(rejectionPayload, null, 2),
+				},
+			],
+			structuredContent: rejectionPayload,
+			isError: true,
+		};
+	}
+
+	private rejectInvalidTools(thought: ThoughtData, toolValidation: ToolNameValidationResult) {
+		logger.warn('Thought rejected by strict tool validation', {
+			thoughtNumber: thought.thought_number,
+			unknownTools: toolValidation.issues
+				.filter(issue => issue.type === 'unknown_tool')
+				.map(issue => issue.tool_name),
+		});
+
+		return this.rejectThought(thought, {
+			error: 'Recommended tools failed validation: unknown tool names',
+			errorType: 'ToolValidationError',
+			tool_validation: toolValidation,
+		});
+	}
+
+	private rejectUnsafeTools(thought: ThoughtData, toolSafety: ToolSafetyResult) {
+		logger.warn('Thought rejected by strict tool safety policy', {
+			thoughtNumber: thought.thought_number,
+			unsafeTools: toolSafety.violations.map(violation => violation.tool_name),
+		});
+
+		return this.rejectThought(thought, {
+			error: 'Recommended tools failed validation: destructive or side-effecting tools without confirmation or a prior verify step',
+			errorType: 'ToolSafetyError',
+			tool_safety: toolSafety,
+		});
+	}
+
+	/**
+	 * Reject thoughts whose dependencies would create a cycle in the DAG
+	 */
+	private checkDependencies(thought: ThoughtData) {
+		if (!this.deps.enableDAG) return null;
 
-		if (!thought.previous_steps) {
-			thought.previous_steps = [];
+		try {
+			this.deps.thoughtDAG.assertAcyclic(thought);
+			return null;
+		} catch (error) {
+			if (!(error instanceof DagCycleError)) throw error;
+
+			return this.rejectThought(thought, {
+				error: error.message,
+				errorType: error.name,
+				depends_on: this.deps.thoughtDAG.resolveDependencies(thought),
+				cycle: error.cycle,
+			});
 		}
-		thought.previous_steps.push(thought.current_step);
+	}
+
+	private recordStep(thought: ThoughtData, toolValidation?: ToolNameValidationResult): void {
+		if (!thought.current_step) return;
+
+		// A new list, so the caller's previous_steps does not grow with every thought
+		thought.previous_steps = [...(thought.previous_steps ?? []), thought.current_step];
 
 		if (this.deps.enableToolChains) {
+			// Keep unknown (likely hallucinated) tools out of the chain library
+			const unknownTools = new Set(
+				(toolValidation?.issues ?? [])
+					.filter(issue => issue.type === 'unknown_tool')
+					.map(issue => issue.tool_name),
+			);
 			for (const toolRec of thought.current_step.recommended_tools) {
+				if (unknownTools.has(toolRec.tool_name)) continue;
 				this.deps.toolChainLibrary.recordToolUse(
 					toolRec.tool_name,
-					thought.current_step.step_description
+					thought.current_step.step_description,
+					this.deps.sessionId
 				);
 			}
 		}
@@ -277,10 +701,27 @@ ${formattedContent}
 		}
 	}
 
-	private async persistThought(thought: ThoughtData): Promise<void> {
+	/**
+	 * What the server derived for a thought it is about to record
+	 */
+	private computeState(input: ThoughtData, thought: ThoughtData, backtrackReason?: string): ThoughtComputedState {
+		const backtracks = this.deps.backtrackingManager.getBacktrackHistory().slice(this.recordedBacktracks);
+		this.recordedBacktracks += backtracks.length;
+		const node = this.deps.enableDAG ? this.deps.thoughtDAG.getNode(thought.thought_number) : undefined;
+
+		return {
+			confidenceSource: input.confidence === undefined ? 'calculated' : 'input',
+			...(input.total_thoughts !== thought.total_thoughts ? { inputTotalThoughts: input.total_thoughts } : {}),
+			...(backtrackReason ? { backtrackReason } : {}),
+			...(backtracks.length > 0 ? { backtracks } : {}),
+			...(node ? { dagDependencies: node.dependencies, dagStatus: node.status } : {}),
+		};
+	}
+
+	private async persistThought(thought: ThoughtData, computed: ThoughtComputedState): Promise<void> {
 		try {
 			await this.deps.persistenceBreaker.execute(() =>
-				this.deps.persistence.saveThought(thought, this.deps.sessionId),
+				this.deps.persistence.saveThought(thought, this.deps.sessionId, computed),
 			);
 		} catch (error) {
 			if (error instanceof CircuitBreakerOpenError) {
@@ -293,22 +734,34 @@ ${formattedContent}
 		}
 	}
 
-	private async updateDAG(thought: ThoughtData): Promise<(ReturnType<ThoughtDAG['getStats']> & { parallelGroupCount?: number }) | undefined> {
+	private async updateDAG(thought: ThoughtData): Promise<(ReturnType<ThoughtDAG['getStats']> & {
+		parallelGroupCount?: number;
+		dependencies?: number[];
+		independentThoughts?: number[];
+		criticalPath?: number[];
+		criticalPathLength?: number;
+		slack?: number;
+	}) | undefined> {
 		if (!this.deps.enableDAG) return undefined;
 
 		try {
 			return await this.deps.dagBreaker.execute(async () => {
 				this.deps.thoughtDAG.addThought(thought);
-
-				this.deps.thoughtDAG.markExecuting(thought.thought_number);
-				this.deps.thoughtDAG.markCompleted(thought.thought_number, {
-					confidence: thought.confidence,
-					thoughtNumber: thought.thought_number,
-				});
+				// Steps with tool calls stay pending until the client reports their result
+				this.deps.thoughtDAG.settleReasoningThoughts();
 
 				const stats = this.deps.thoughtDAG.getStats();
 				const parallelGroups = this.deps.thoughtDAG.getParallelGroups();
-				const dagStats = { ...stats, parallelGroupCount: parallelGroups.length };
+				const criticalPath = analyzeCriticalPath(this.deps.thoughtDAG);
+				const dagStats = {
+					...stats,
+					parallelGroupCount: parallelGroups.length,
+					dependencies: this.deps.thoughtDAG.resolveDependencies(thought),
+					independentThoughts: this.deps.thoughtDAG.getIndependentThoughts(thought.thought_number),
+					criticalPath: criticalPath.critical_path,
+					criticalPathLength: criticalPath.length,
+					slack: criticalPath.nodes.find(node => node.thought_number === thought.thought_number)?.slack,
+				};
 				logger.debug('DAG updated', dagStats);
 				return dagStats;
 			});
@@ -331,6 +784,7 @@ ${formattedContent}
 		if (this.thoughtHistory.length > this.deps.maxHistorySize) {
 			const excess = this.thoughtHistory.length - this.deps.maxHistorySize;
 			this.thoughtHistory.splice(0, excess);
+			this.computedStates.splice(0, excess);
 			logger.warn('History trimmed', { maxSize: this.deps.maxHistorySize });
 		}
 	}
@@ -355,39 +809,173 @@ ${formattedContent}
 		return undefined;
 	}
 
-	private finalizeToolChain(thought: ThoughtData): void {
-		if (!this.deps.enableToolChains || thought.next_thought_needed) return;
+	private finalizeToolChain(thought: ThoughtData): ToolChain | undefined {
+		if (!this.deps.enableToolChains || thought.next_thought_needed) return undefined;
 
-		const success = (thought.confidence || 0.5) >= 0.5;
-		this.deps.toolChainLibrary.finalizeCurrentChain(
-			success,
+		// Reported tool results take precedence; otherwise the recommended tools are learned
+		const chain = this.deps.toolChainLibrary.finalizeSessionChain(
 			thought.confidence,
-			thought.thought
+			thought.thought,
+			this.deps.sessionId
 		);
 		logger.debug('Tool chain finalized', {
-			success,
+			recorded: chain !== undefined,
 			confidence: thought.confidence
 		});
+		return chain;
+	}
+
+	private async persistToolOutcome(toolName: string, outcome: ToolOutcome): Promise<void> {
+		try {
+			await this.deps.persistenceBreaker.execute(() =>
+				this.deps.persistence.saveToolOutcome(toolName, outcome),
+			);
+		} catch (error) {
+			if (error instanceof CircuitBreakerOpenError) {
+				logger.warn('Persistence circuit breaker open, skipping tool outcome persistence', { toolName });
+				return;
+			}
+			logger.error('Failed to persist tool outcome', error, { toolName });
+		}
+	}
+
+	/**
+	 * Reliability warnings for the tools recommended in the current step
+	 */
+	private getToolWarnings(thought: ThoughtData) {
+		if (!this.deps.toolOutcomes || !thought.current_step) return undefined;
+
+		const warnings = this.deps.toolOutcomes.getWarnings(
+			thought.current_step.recommended_tools.flatMap(tool => [tool.tool_name, ...(tool.alternatives ?? [])]),
+		);
+		if (warnings.length === 0) return undefined;
+
+		logger.warn('Recommended tools have been failing', {
+			thoughtNumber: thought.thought_number,
+			tools: warnings.map(warning => warning.tool_name),
+		});
+		return warnings;
+	}
+
+	/** The server's shared tool matcher, or one of this processor's own without a server */
+	private getToolMatcher(tools: Map<string, Tool>): ToolCapabilityMatcher {
+		if (this.deps.toolMatcher) {
+			return this.deps.toolMatcher();
+		}
+		this.ownToolMatcher ??= new ToolCapabilityMatcher(tools, this.deps.toolOutcomes);
+		return this.ownToolMatcher;
+	}
+
+	/**
+	 * Budget status of the session with the given tools planned next; undefined without limits
+	 */
+	private getBudgetStatus(recommendations: ToolRecommendation[], offeredTools?: string[]) {
+		const budget = this.deps.toolBudget;
+		if (!budget?.hasLimits()) return undefined;
+
+		const tools = this.deps.availableTools ?? new Map<string, Tool>();
+		const status = budget.evaluate(recommendations, tools, this.getToolMatcher(tools), offeredTools);
+		if (status.flags) {
+			logger.warn('Recommended tools exceed the session budget', {
+				sessionId: this.deps.sessionId,
+				tools: status.flags.map(flag => flag.tool_name),
+			});
+		}
+		return status;
+	}
+
+	/**
+	 * Apply budget limits sent with a thought to the rest of the session
+	 */
+	private async applyBudget(thought: ThoughtData): Promise<void> {
+		if (!thought.budget || !this.deps.toolBudget) return;
+
+		this.deps.toolBudget.setLimits(toBudgetLimits(thought.budget));
+		await this.persistBudget();
+	}
+
+	private async persistBudget(): Promise<void> {
+		if (!this.deps.toolBudget) return;
+
+		try {
+			await this.deps.persistenceBreaker.execute(() =>
+				this.deps.persistence.saveSessionBudget(this.deps.sessionId, this.deps.toolBudget!.getState()),
+			);
+		} catch (error) {
+			if (error instanceof CircuitBreakerOpenError) {
+				logger.warn('Persistence circuit breaker open, skipping budget persistence', {
+					sessionId: this.deps.sessionId,
+				});
+				return;
+			}
+			logger.error('Failed to persist session budget', error, { sessionId: this.deps.sessionId });
+		}
+	}
+
+	/**
+	 * Store the session's in-progress chain and any chain just learned from it
+	 */
+	private async persistToolChains(finalizedChain?: ToolChain): Promise<void> {
+		if (!this.deps.enableToolChains) return;
+
+		try {
+			await this.deps.persistenceBreaker.execute(async () => {
+				await this.deps.persistence.saveCurrentChain(
+					this.deps.sessionId,
+					this.deps.toolChainLibrary.getChainBuffer(this.deps.sessionId),
+				);
+				if (finalizedChain) {
+					await this.deps.persistence.saveToolChain(finalizedChain);
+				}
+			});
+		} catch (error) {
+			if (error instanceof CircuitBreakerOpenError) {
+				logger.warn('Persistence circuit breaker open, skipping tool chain persistence', {
+					sessionId: this.deps.sessionId,
+				});
+				return;
+			}
+			logger.error('Failed to persist tool chains', error, { sessionId: this.deps.sessionId });
+		}
 	}
 
 	async processThought(input: ThoughtData) {
 		const validatedInput = this.prepareThought(input);
 
-		const backtrackResponse = this.evaluateBacktracking(validatedInput);
+		const toolValidation = this.deps.toolValidator?.validate(validatedInput);
+		if (toolValidation && !toolValidation.valid && this.deps.toolValidator?.strict) {
+			return this.rejectInvalidTools(validatedInput, toolValidation);
+		}
+
+		const toolSafety = this.deps.toolSafety?.evaluate(validatedInput, this.thoughtHistory);
+		if (toolSafety && !toolSafety.valid && this.deps.toolSafety?.strict) {
+			return this.rejectUnsafeTools(validatedInput, toolSafety);
+		}
+
+		const cycleResponse = this.checkDependencies(validatedInput);
+		if (cycleResponse) {
+			return cycleResponse;
+		}
+
+		const backtrackDecision = this.deps.backtrackingManager.shouldBacktrack(validatedInput);
+		const backtrackResponse = this.evaluateBacktracking(validatedInput, backtrackDecision);
 		if (backtrackResponse) {
 			return backtrackResponse;
 		}
 
-		this.recordStep(validatedInput);
+		this.recordStep(validatedInput, toolValidation);
 
 		const dagStats = await this.updateDAG(validatedInput);
 
+		const computed = this.computeState(input, validatedInput, backtrackDecision.reason);
 		this.thoughtHistory.push(validatedInput);
+		this.computedStates.push(computed);
 		this.enforceHistoryLimit();
 
 		this.updateBranches(validatedInput);
 
-		await this.persistThought(validatedInput);
+		await this.persistThought(validatedInput, computed);
+		await this.applyBudget(validatedInput);
 
 		const formattedThought = this.formatThought(validatedInput);
 		logger.info(formattedThought);
@@ -400,9 +988,11 @@ ${formattedContent}
 
 		const confidenceStats = this.deps.backtrackingManager.getConfidenceStats();
 		const toolChainSuggestions = this.suggestNextTools(validatedInput);
-		this.finalizeToolChain(validatedInput);
+		const finalizedChain = this.finalizeToolChain(validatedInput);
+		await this.persistToolChains(finalizedChain);
 
 		const payload = {
+			session_id: this.deps.sessionId,
 			thought: validatedInput.thought,
 			thought_number: validatedInput.thought_number,
 			total_thoughts: validatedInput.total_thoughts,
@@ -416,12 +1006,21 @@ ${formattedContent}
 			previous_steps: validatedInput.previous_steps,
 			remaining_steps: validatedInput.remaining_steps,
 			tool_chain_suggestions: toolChainSuggestions,
+			tool_validation: toolValidation,
+			input_validation: this.deps.inputValidator?.validate(validatedInput),
+			tool_safety: toolSafety,
+			tool_warnings: this.getToolWarnings(validatedInput),
+			tool_budget: this.getBudgetStatus(
+				validatedInput.current_step?.recommended_tools ?? [],
+				validatedInput.available_mcp_tools,
+			),
 			dag_stats: dagStats,
 			is_revision: validatedInput.is_revision,
 			revises_thought: validatedInput.revises_thought,
 			branch_from_thought: validatedInput.branch_from_thought,
 			branch_id: validatedInput.branch_id,
 			needs_more_thoughts: validatedInput.needs_more_thoughts,
+			depends_on: validatedInput.depends_on,
 		};
 
 		return {
@@ -0,0 +1,254 @@
+/**
+ * Storage backends for thoughts and session state
+ * Sessions, learned tool chains, budgets and tool outcomes are kept in a ThoughtStore:
+ * SQLite (the default), an in-memory store for tests, or an append-only JSONL file for
+ * environments where the native SQLite module cannot be built. better-sqlite3 is an
+ * optional dependency, so the SQLite store is only imported when it is selected.
+ */
+
+import { BacktrackPoint } from './backtracking.js';
+import { DAGNode } from './dag.js';
+import { logger } from './logging.js';
+import { JsonlThoughtStore } from './jsonl-store.js';
+import { DisabledThoughtStore, InMemoryThoughtStore } from './memory-store.js';
+import { ChainBuffer, ToolChain } from './tool-chains.js';
+import { ToolBudgetState } from './tool-budget.js';
+import { ToolOutcome, ToolOutcomeSnapshot } from './tool-outcomes.js';
+import { ThoughtData } from './types.js';
+
+export const STORAGE_BACKENDS = ['sqlite', 'memory', 'jsonl'] as const;
+
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export interface SessionSummary {
+	sessionId: string;
+	thoughtCount: number;
+	firstActivity: string;
+	lastActivity: string;
+	lastThoughtNumber: number;
+	completed: boolean;  // Latest thought did not request another thought
+}
+
+export interface ExecutionStatusRecord {
+	status: 'completed' | 'failed';
+	error?: string;
+}
+
+/**
+ * What the server derived while recording a thought, stored next to the thought itself
+ */
+export interface ThoughtComputedState {
+	confidenceSource: 'input' | 'calculated';
+	inputTotalThoughts?: number;  // total_thoughts as sent, when it was raised to the thought number
+	backtrackReason?: string;  // Low confidence noted without backtracking
+	backtracks?: BacktrackPoint[];  // Backtracks suggested since the previous recorded thought
+	dagDependencies?: number[];
+	dagStatus?: DAGNode['status'];  // Status when the thought joined the DAG
+}
+
+/**
+ * Storage used by the server and thought processors. Thoughts come back exactly as they
+ * were saved, in the order each session recorded them. A disabled store keeps nothing
+ * and every read returns an empty result.
+ */
+export interface ThoughtStore {
+	isEnabled(): boolean;
+	/** Wait until the store has opened, then report whether it is enabled */
+	whenReady(): Promise<boolean>;
+
+	/** Store a thought and return its id, or null when it was not stored */
+	saveThought(thought: ThoughtData, sessionId?: string, computed?: ThoughtComputedState): Promise<number | null>;
+	getThoughtHistory(sessionId?: string): Promise<ThoughtData[]>;
+	/** Every session with stored thoughts, most recently active first */
+	listSessions(): Promise<SessionSummary[]>;
+	hasSession(sessionId: string): Promise<boolean>;
+	/**
+	 * Store thoughts into another session at once and return how many were written.
+	 * computedStates[i] is stored with thoughts[i].
+	 */
+	copyThoughts(
+		thoughts: ThoughtData[],
+		targetSessionId: string,
+		computedStates?: Array<ThoughtComputedState | undefined>,
+	): Promise<number>;
+
+	/** Record the result on the latest thought with this number */
+	updateExecutionStatus(sessionId: string, thoughtNumber: number, record: ExecutionStatusRecord): Promise<void>;
+	/** Keyed by thought number; a later thought with the same number wins */
+	getExecutionStatuses(sessionId: string): Promise<Map<number, ExecutionStatusRecord>>;
+	/** One entry per thought, in getThoughtHistory order; undefined where nothing was stored */
+	getComputedStates(sessionId: string): Promise<Array<ThoughtComputedState | undefined>>;
+
+	/** Insert or update a learned chain, keyed by its tool sequence */
+	saveToolChain(chain: ToolChain): Promise<void>;
+	/** Every learned chain, oldest first */
+	getToolChains(): Promise<ToolChain[]>;
+	/** An empty, unexecuted buffer removes the session's buffer */
+	saveCurrentChain(sessionId: string, buffer: ChainBuffer): Promise<void>;
+	getCurrentChain(sessionId: string): Promise<ChainBuffer>;
+
+	saveSessionBudget(sessionId: string, state: ToolBudgetState): Promise<void>;
+	getSessionBudget(sessionId: string): Promise<ToolBudgetState | null>;
+
+	saveToolOutcome(toolName: string, outcome: ToolOutcome): Promise<void>;
+	/** Per-tool aggregates of every stored outcome with each tool's most recent outcomes */
+	getToolOutcomeSnapshots(window?: number): Promise<ToolOutcomeSnapshot[]>;
+
+	/** Remove a session's thoughts, chain buffer and budget, or every session's without an id */
+	clearHistory(sessionId?: string): Promise<void>;
+	close(): void;
+}
+
+export interface ThoughtStoreConfig {
+	backend: StorageBackend;
+	enablePersistence: boolean;
+	dbPath: string;  // SQLite database
+	jsonlPath: string;  // JSONL log
+	backupBeforeMigrate: boolean;
+	migrationDryRun: boolean;
+}
+
+/**
+ * Create the configured store; with persistence disabled nothing is stored
+ */
+export async function createThoughtStore(config: ThoughtStoreConfig): Promise<ThoughtStore> {
+	if (!config.enablePersistence) {
+		return new DisabledThoughtStore();
+	}
+
+	logger.info('Opening thought store', {
+		backend: config.backend,
+		path: config.backend === 'sqlite' ? config.dbPath : config.backend === 'jsonl' ? config.jsonlPath : undefined,
+	});
+	switch (config.backend) {
+		case 'memory':
+			return new InMemoryThoughtStore();
+		case 'jsonl':
+			return new JsonlThoughtStore(config.jsonlPath);
+		case 'sqlite': {
+			let persistence: typeof import('./persistence.js');
+			try {
+				persistence = await import('./persistence.js');
+			} catch (error) {
+				logger.error(
+					'Failed to load the SQLite store; is better-sqlite3 installed? Set STORAGE_BACKEND=jsonl to store sessions without it',
+					error,
+					{ dbPath: config.dbPath },
+				);
+				return new DisabledThoughtStore();
+			}
+			return new persistence.PersistenceLayer({
+				dbPath: config.dbPath,
+				backupBeforeMigrate: config.backupBeforeMigrate,
+				migrationDryRun: config.migrationDryRun,
+			});
+		}
+	}
+}
+
+/**
+ * A store that is still being created. Calls wait for it; until then it reports itself
+ * disabled. Lets a synchronous constructor hand out the store createThoughtStore returns.
+ */
+export class DeferredThoughtStore implements ThoughtStore {
+	private store: ThoughtStore | null = null;
+	private closed = false;
+	private ready: Promise<ThoughtStore>;
+
+	constructor(store: Promise<ThoughtStore>) {
+		this.ready = store.catch(error => {
+			logger.error('Failed to open thought store', error);
+			return new DisabledThoughtStore();
+		}).then(created => {
+			this.store = created;
+			if (this.closed) created.close();
+			return created;
+		});
+	}
+
+	isEnabled(): boolean {
+		return this.store?.isEnabled() ?? false;
+	}
+
+	async whenReady(): Promise<boolean> {
+		return (await this.ready).isEnabled();
+	}
+
+	async saveThought(thought: ThoughtData, sessionId?: string, computed?: ThoughtComputedState): Promise<number | null> {
+		return (await this.ready).saveThought(thought, sessionId, computed);
+	}
+
+	async getThoughtHistory(sessionId?: string): Promise<ThoughtData[]> {
+		return (await this.ready).getThoughtHistory(sessionId);
+	}
+
+	async listSessions(): Promise<SessionSummary[]> {
+		return (await this.ready).listSessions();
+	}
+
+	async hasSession(sessionId: string): Promise<boolean> {
+		return (await this.ready).hasSession(sessionId);
+	}
+
+	async copyThoughts(
+		thoughts: ThoughtData[],
+		targetSessionId: string,
+		computedStates?: Array<ThoughtComputedState | undefined>,
+	): Promise<number> {
+		return (await this.ready).copyThoughts(thoughts, targetSessionId, computedStates);
+	}
+
+	async updateExecutionStatus(sessionId: string, thoughtNumber: number, record: ExecutionStatusRecord): Promise<void> {
+		return (await this.ready).updateExecutionStatus(sessionId, thoughtNumber, record);
+	}
+
+	async getExecutionStatuses(sessionId: string): Promise<Map<number, ExecutionStatusRecord>> {
+		return (await this.ready).getExecutionStatuses(sessionId);
+	}
+
+	async getComputedStates(sessionId: string): Promise<Array<ThoughtComputedState | undefined>> {
+		return (await this.ready).getComputedStates(sessionId);
+	}
+
+	async saveToolChain(chain: ToolChain): Promise<void> {
+		return (await this.ready).saveToolChain(chain);
+	}
+
+	async getToolChains(): Promise<ToolChain[]> {
+		return (await this.ready).getToolChains();
+	}
+
+	async saveCurrentChain(sessionId: string, buffer: ChainBuffer): Promise<void> {
+		return (await this.ready).saveCurrentChain(sessionId, buffer);
+	}
+
+	async getCurrentChain(sessionId: string): Promise<ChainBuffer> {
+		return (await this.ready).getCurrentChain(sessionId);
+	}
+
+	async saveSessionBudget(sessionId: string, state: ToolBudgetState): Promise<void> {
+		return (await this.ready).saveSessionBudget(sessionId, state);
+	}
+
+	async getSessionBudget(sessionId: string): Promise<ToolBudgetState | null> {
+		return (await this.ready).getSessionBudget(sessionId);
+	}
+
+	async saveToolOutcome(toolName: string, outcome: ToolOutcome): Promise<void> {
+		return (await this.ready).saveToolOutcome(toolName, outcome);
+	}
+
+	async getToolOutcomeSnapshots(window?: number): Promise<ToolOutcomeSnapshot[]> {
+		return (await this.ready).getToolOutcomeSnapshots(window);
+	}
+
+	async clearHistory(sessionId?: string): Promise<void> {
+		return (await this.ready).clearHistory(sessionId);
+	}
+
+	close(): void {
+		// A store that is not created yet is closed as soon as it is
+		this.closed = true;
+		this.store?.close();
+	}
+}
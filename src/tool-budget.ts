@@ -0,0 +1,219 @@
+/**
+ * Session tool budgets
+ * Tracks the cost of the tool calls a session reported against optional spend limits and
+ * flags recommended tools that would exceed them, proposing cheaper similar tools instead
+ */
+
+import { COST_UNITS, CostLevel, getCostLevel, ToolCapabilityMatcher } from './tool-capabilities.js';
+import { SessionBudgetInput, Tool, ToolRecommendation } from './types.js';
+
+export interface ToolBudgetLimits {
+	maxHighCostCalls?: number;
+	maxCostUnits?: number;
+}
+
+export interface ToolBudgetSpend {
+	calls: number;
+	high_cost_calls: number;
+	cost_units: number;
+}
+
+/**
+ * Persisted budget state of a session: its own limits and what it has spent
+ */
+export interface ToolBudgetState {
+	limits: ToolBudgetLimits;  // Session overrides of the server defaults
+	spent: ToolBudgetSpend;
+}
+
+export interface ToolBudgetFlag {
+	tool_name: string;
+	cost_level: CostLevel;
+	estimated_cost: boolean;  // The tool has no cost metadata
+	reasons: string[];
+	cheaper_alternatives: string[];
+}
+
+export interface ToolBudgetStatus {
+	max_high_cost_calls?: number;
+	max_cost_units?: number;
+	spent: ToolBudgetSpend;
+	planned: ToolBudgetSpend;  // Recommended tools of the current step
+	remaining_high_cost_calls?: number;
+	remaining_cost_units?: number;
+	within_budget: boolean;  // Spent plus planned stays within every limit
+	flags?: ToolBudgetFlag[];
+}
+
+const MAX_CHEAPER_ALTERNATIVES = 3;
+
+const emptySpend = (): ToolBudgetSpend => ({ calls: 0, high_cost_calls: 0, cost_units: 0 });
+
+/**
+ * Convert the snake_case budget of a thought into limits
+ */
+export function toBudgetLimits(input: SessionBudgetInput): ToolBudgetLimits {
+	return {
+		maxHighCostCalls: input.max_high_cost_calls,
+		maxCostUnits: input.max_cost_units,
+	};
+}
+
+export class ToolBudget {
+	private overrides: ToolBudgetLimits = {};
+	private spent: ToolBudgetSpend = emptySpend();
+
+	constructor(private readonly defaults: ToolBudgetLimits = {}) { }
+
+	/**
+	 * Effective limits: session overrides on top of the server defaults
+	 */
+	getLimits(): ToolBudgetLimits {
+		return {
+			maxHighCostCalls: this.overrides.maxHighCostCalls ?? this.defaults.maxHighCostCalls,
+			maxCostUnits: this.overrides.maxCostUnits ?? this.defaults.maxCostUnits,
+		};
+	}
+
+	hasLimits(): boolean {
+		const limits = this.getLimits();
+		return limits.maxHighCostCalls !== undefined || limits.maxCostUnits !== undefined;
+	}
+
+	/**
+	 * Override the limits that are given; the others keep their current value
+	 */
+	setLimits(limits: ToolBudgetLimits): void {
+		this.overrides = {
+			maxHighCostCalls: limits.maxHighCostCalls ?? this.overrides.maxHighCostCalls,
+			maxCostUnits: limits.maxCostUnits ?? this.overrides.maxCostUnits,
+		};
+	}
+
+	/**
+	 * Count an executed call of the tool against the budget
+	 */
+	recordCall(tool: Tool | undefined): void {
+		const { level } = getCostLevel(tool);
+		this.spent = addCall(this.spent, level);
+	}
+
+	getState(): ToolBudgetState {
+		return { limits: { ...this.overrides }, spent: { ...this.spent } };
+	}
+
+	restore(state: ToolBudgetState): void {
+		this.overrides = { ...state.limits };
+		this.spent = { ...state.spent };
+	}
+
+	/**
+	 * Drop the session's spend and limit overrides
+	 */
+	reset(): void {
+		this.overrides = {};
+		this.spent = emptySpend();
+	}
+
+	/**
+	 * Project the recommended tools, in priority order, onto what was already spent and
+	 * flag every tool that would take the session over a limit. Cheaper alternatives are
+	 * limited to offeredTools when it is not empty.
+	 */
+	evaluate(
+		recommendations: ToolRecommendation[],
+		tools: Map<string, Tool>,
+		matcher: ToolCapabilityMatcher,
+		offeredTools: string[] = [],
+	): ToolBudgetStatus {
+		const { maxHighCostCalls, maxCostUnits } = this.getLimits();
+		const flags: ToolBudgetFlag[] = [];
+		let projected = { ...this.spent };
+		let planned = emptySpend();
+
+		for (const recommendation of [...recommendations].sort((a, b) => a.priority - b.priority)) {
+			const { level, estimated } = getCostLevel(tools.get(recommendation.tool_name));
+			const next = addCall(projected, level);
+			const reasons: string[] = [];
+			if (maxHighCostCalls !== undefined && level === 'high' && next.high_cost_calls > maxHighCostCalls) {
+				reasons.push(`Would be high-cost call ${next.high_cost_calls} of ${maxHighCostCalls} allowed`);
+			}
+			if (maxCostUnits !== undefined && next.cost_units > maxCostUnits) {
+				reasons.push(`Would bring spend to ${next.cost_units} of ${maxCostUnits} cost units`);
+			}
+
+			if (reasons.length > 0) {
+				flags.push({
+					tool_name: recommendation.tool_name,
+					cost_level: level,
+					estimated_cost: estimated,
+					reasons,
+					cheaper_alternatives: this.findCheaperAlternatives(
+						recommendation,
+						level,
+						projected,
+						tools,
+						matcher,
+						offeredTools,
+					),
+				});
+			}
+			projected = next;
+			planned = addCall(planned, level);
+		}
+
+		return {
+			max_high_cost_calls: maxHighCostCalls,
+			max_cost_units: maxCostUnits,
+			spent: { ...this.spent },
+			planned,
+			remaining_high_cost_calls: maxHighCostCalls !== undefined
+				? Math.max(0, maxHighCostCalls - this.spent.high_cost_calls)
+				: undefined,
+			remaining_cost_units: maxCostUnits !== undefined
+				? Math.max(0, maxCostUnits - this.spent.cost_units)
+				: undefined,
+			within_budget: flags.length === 0,
+			flags: flags.length > 0 ? flags : undefined,
+		};
+	}
+
+	/**
+	 * The recommendation's own alternatives, then capability-similar tools, that cost less
+	 * and would fit in what is left of the budget
+	 */
+	private findCheaperAlternatives(
+		recommendation: ToolRecommendation,
+		level: CostLevel,
+		spentBefore: ToolBudgetSpend,
+		tools: Map<string, Tool>,
+		matcher: ToolCapabilityMatcher,
+		offeredTools: string[],
+	): string[] {
+		const { maxCostUnits } = this.getLimits();
+		const candidates = new Set([
+			...(recommendation.alternatives ?? []),
+			...matcher.findSimilarTools(recommendation.tool_name, tools.size),
+		]);
+
+		return Array.from(candidates)
+			.filter(toolName => {
+				const tool = tools.get(toolName);
+				if (!tool || toolName === recommendation.tool_name) return false;
+				if (offeredTools.length > 0 && !offeredTools.includes(toolName)) return false;
+
+				const candidate = getCostLevel(tool).level;
+				if (COST_UNITS[candidate] >= COST_UNITS[level]) return false;
+				return maxCostUnits === undefined || spentBefore.cost_units + COST_UNITS[candidate] <= maxCostUnits;
+			})
+			.slice(0, MAX_CHEAPER_ALTERNATIVES);
+	}
+}
+
+function addCall(spend: ToolBudgetSpend, level: CostLevel): ToolBudgetSpend {
+	return {
+		calls: spend.calls + 1,
+		high_cost_calls: spend.high_cost_calls + (level === 'high' ? 1 : 0),
+		cost_units: spend.cost_units + COST_UNITS[level],
+	};
+}
@@ -3,8 +3,45 @@
  * Improves recommendation accuracy through structured capability tags
  */
 
-import { Tool, ToolCapability } from './types.js';
+import { Tool, ToolCapability, ToolCategoryConfidence } from './types.js';
+import { inferCapabilities } from './capability-inference.js';
 import { logger } from './logging.js';
+import { ToolOutcomeTracker } from './tool-outcomes.js';
+import { extractTermWords, extractTerms } from './text-analysis.js';
+import { Bm25ToolIndex, ToolTextIndex, ToolTextMatch } from './semantic-index.js';
+
+export type CostLevel = NonNullable<ToolCapability['costLevel']>;
+
+// Relative cost of one call at each cost level
+export const COST_UNITS: Record<CostLevel, number> = {
+	free: 0,
+	low: 1,
+	medium: 2,
+	high: 3,
+};
+
+// Tools without cost metadata are assumed to cost this much
+export const DEFAULT_COST_LEVEL: CostLevel = 'medium';
+
+/**
+ * Cost level of a tool, falling back to DEFAULT_COST_LEVEL when it has no metadata
+ */
+export function getCostLevel(tool: Tool | undefined): { level: CostLevel; estimated: boolean } {
+	const level = tool?.capabilities?.costLevel;
+	return level ? { level, estimated: false } : { level: DEFAULT_COST_LEVEL, estimated: true };
+}
+
+export interface ToolMatchRequirements {
+	categories?: string[];
+	tags?: string[];
+	complexity?: 'low' | 'medium' | 'high';
+	keywords?: string[];
+	intent?: string;  // Free text such as "read rows from a database"
+	maxCostLevel?: CostLevel;
+}
+
+// Points for a perfect text similarity between the intent and keywords and a tool
+const TEXT_SIMILARITY_WEIGHT = 10;
 
 export interface ToolMatchScore {
 	toolName: string;
@@ -14,25 +51,35 @@ export interface ToolMatchScore {
 
 export class ToolCapabilityMatcher {
 	private tools: Map<string, Tool>;
+	private outcomes?: ToolOutcomeTracker;
+	private textIndex: ToolTextIndex;
+	private textIndexBuilt = false;
 
-	constructor(tools: Map<string, Tool>) {
+	constructor(tools: Map<string, Tool>, outcomes?: ToolOutcomeTracker, textIndex?: ToolTextIndex) {
 		this.tools = tools;
+		this.outcomes = outcomes;
+		this.textIndex = textIndex ?? new Bm25ToolIndex();
 	}
 
 	/**
 	 * Match tools based on capability requirements
 	 */
-	matchTools(requirements: {
-		categories?: string[];
-		tags?: string[];
-		complexity?: 'low' | 'medium' | 'high';
-		keywords?: string[];
-	}): ToolMatchScore[] {
+	matchTools(requirements: ToolMatchRequirements): ToolMatchScore[] {
 		const scores: ToolMatchScore[] = [];
+		const textMatches = this.searchText(requirements);
 
 		for (const [name, tool] of this.tools.entries()) {
 			const matchResult = this.scoreToolMatch(tool, requirements);
+			const textMatch = textMatches.get(name);
+			if (textMatch) {
+				matchResult.score += textMatch.similarity * TEXT_SIMILARITY_WEIGHT;
+				matchResult.reasons.push(
+					`Text similarity ${(textMatch.similarity * 100).toFixed(0)}%: ${textMatch.matchedTerms.join(', ')}`,
+				);
+			}
 			if (matchResult.score > 0) {
+				this.applyReliability(name, matchResult);
+				this.applyCostLimit(tool, requirements.maxCostLevel, matchResult);
 				scores.push({
 					toolName: name,
 					score: matchResult.score,
@@ -45,21 +92,36 @@ export class ToolCapabilityMatcher {
 		return scores.sort((a, b) => b.score - a.score);
 	}
 
+	/**
+	 * Similarity of every tool to the intent and keywords, from the text index built on first use
+	 */
+	private searchText(requirements: ToolMatchRequirements): Map<string, ToolTextMatch> {
+		const query = [requirements.intent ?? '', ...(requirements.keywords ?? [])].join(' ').trim();
+		if (!query) return new Map();
+
+		if (!this.textIndexBuilt) {
+			this.textIndex.build(Array.from(this.tools.values()));
+			this.textIndexBuilt = true;
+		}
+		return new Map(this.textIndex.search(query).map(match => [match.toolName, match]));
+	}
+
 	/**
 	 * Score a single tool against requirements
 	 */
 	private scoreToolMatch(
 		tool: Tool,
-		requirements: {
-			categories?: string[];
-			tags?: string[];
-			complexity?: 'low' | 'medium' | 'high';
-			keywords?: string[];
-		}
+		requirements: ToolMatchRequirements,
 	): { score: number; reasons: string[] } {
 		let score = 0;
 		const reasons: string[] = [];
 
+		if (requirements.intent) {
+			const intentScore = this.matchIntent(tool, requirements.intent);
+			score += intentScore.score;
+			reasons.push(...intentScore.reasons);
+		}
+
 		// If no capabilities metadata, fall back to keyword matching
 		if (!tool.capabilities) {
 			if (requirements.keywords) {
@@ -72,11 +134,14 @@ export class ToolCapabilityMatcher {
 
 		const cap = tool.capabilities;
 
-		// Category matching (high weight)
-		if (requirements.categories && cap.category) {
-			if (requirements.categories.includes(cap.category)) {
-				score += 10;
-				reasons.push(`Matches category: ${cap.category}`);
+		// Category matching (high weight), scaled by the confidence of inferred categories
+		if (requirements.categories) {
+			const matched = categoriesOf(cap).find(entry => requirements.categories!.includes(entry.category));
+			if (matched) {
+				score += 10 * matched.confidence;
+				reasons.push(matched.confidence < 1
+					? `Matches category: ${matched.category} (confidence ${matched.confidence.toFixed(2)})`
+					: `Matches category: ${matched.category}`);
 			}
 		}
 
@@ -107,6 +172,56 @@ export class ToolCapabilityMatcher {
 		return { score, reasons };
 	}
 
+	/**
+	 * Scale a match by the tool's observed reliability relative to the 0.5 prior of untried tools,
+	 * from 2/3 of the score for a tool that always fails to 4/3 for one that always succeeds
+	 */
+	private applyReliability(toolName: string, matchResult: { score: number; reasons: string[] }): void {
+		const observed = this.outcomes?.getReliability(toolName);
+		if (!observed) return;
+
+		matchResult.score *= (0.5 + 0.5 * observed.reliability) / 0.75;
+		matchResult.reasons.push(
+			`Reliability ${(observed.reliability * 100).toFixed(0)}% over ${observed.calls} reported calls`,
+		);
+	}
+
+	/**
+	 * Halve the score of tools above the requested cost level so cheaper matches rank first
+	 */
+	private applyCostLimit(
+		tool: Tool,
+		maxCostLevel: CostLevel | undefined,
+		matchResult: { score: number; reasons: string[] },
+	): void {
+		if (!maxCostLevel) return;
+
+		const { level } = getCostLevel(tool);
+		if (COST_UNITS[level] <= COST_UNITS[maxCostLevel]) return;
+
+		matchResult.score *= 0.5;
+		matchResult.reasons.push(`Cost level ${level} exceeds ${maxCostLevel}`);
+	}
+
+	/**
+	 * Match the stemmed words of a free-text intent against the tool's categories and tags,
+	 * 3 points each; its name and description are covered by the text index
+	 */
+	private matchIntent(tool: Tool, intent: string): { score: number; reasons: string[] } {
+		const categories = tool.capabilities ? categoriesOf(tool.capabilities).map(entry => entry.category) : [];
+		const capabilityTerms = new Set(extractTerms(
+			[...categories, ...(tool.capabilities?.tags ?? [])].join(' '),
+		));
+		const matched = Array.from(extractTermWords(intent))
+			.filter(([term]) => capabilityTerms.has(term))
+			.map(([, word]) => word);
+
+		return {
+			score: matched.length * 3,
+			reasons: matched.length > 0 ? [`Matches intent capabilities: ${matched.join(', ')}`] : [],
+		};
+	}
+
 	/**
 	 * Match keywords in tool name and description
 	 */
@@ -134,7 +249,7 @@ export class ToolCapabilityMatcher {
 	getToolsByCategory(category: string): Tool[] {
 		const tools: Tool[] = [];
 		for (const tool of this.tools.values()) {
-			if (tool.capabilities?.category === category) {
+			if (tool.capabilities && categoriesOf(tool.capabilities).some(entry => entry.category === category)) {
 				tools.push(tool);
 			}
 		}
@@ -147,8 +262,8 @@ export class ToolCapabilityMatcher {
 	getCategories(): string[] {
 		const categories = new Set<string>();
 		for (const tool of this.tools.values()) {
-			if (tool.capabilities?.category) {
-				categories.add(tool.capabilities.category);
+			if (tool.capabilities) {
+				categoriesOf(tool.capabilities).forEach(entry => categories.add(entry.category));
 			}
 		}
 		return Array.from(categories);
@@ -177,7 +292,7 @@ export class ToolCapabilityMatcher {
 		}
 
 		const scores = this.matchTools({
-			categories: tool.capabilities.category ? [tool.capabilities.category] : undefined,
+			categories: categoriesOf(tool.capabilities).map(entry => entry.category),
 			tags: tool.capabilities.tags,
 			complexity: tool.capabilities.complexity,
 		});
@@ -191,63 +306,11 @@ export class ToolCapabilityMatcher {
 }
 
 /**
- * Infer capabilities from tool name and description
- * Used for tools without explicit capability metadata
+ * Categories of a tool, most confident first; an explicit category alone has confidence 1
  */
-export const COMPLEXITY_TERMS = ['api', 'advanced', 'complex', 'sophisticated', 'ml', 'ai'];
-
-export function inferCapabilities(tool: Tool): ToolCapability {
-	const text = `${tool.name} ${tool.description}`.toLowerCase();
-
-	// Infer category
-	let category = 'general';
-	if (text.includes('search') || text.includes('find') || text.includes('query')) {
-		category = 'search';
-	} else if (text.includes('data') || text.includes('database') || text.includes('storage')) {
-		category = 'data';
-	} else if (text.includes('analysis') || text.includes('analyze') || text.includes('evaluate')) {
-		category = 'analysis';
-	} else if (text.includes('create') || text.includes('generate') || text.includes('build')) {
-		category = 'generation';
-	} else if (text.includes('transform') || text.includes('convert') || text.includes('format')) {
-		category = 'transformation';
-	} else if (text.includes('communicate') || text.includes('send') || text.includes('notify')) {
-		category = 'communication';
-	}
-
-	// Infer tags
-	const tags: string[] = [];
-	if (text.includes('read') || text.includes('get') || text.includes('fetch')) {
-		tags.push('read');
-	}
-	if (text.includes('write') || text.includes('create') || text.includes('update')) {
-		tags.push('write');
-	}
-	if (text.includes('delete') || text.includes('remove')) {
-		tags.push('delete');
-	}
-	if (text.includes('list') || text.includes('browse')) {
-		tags.push('list');
-	}
-	if (text.includes('transform') || text.includes('convert')) {
-		tags.push('transform');
-	}
-
-
-
-	// Infer complexity based on description length and technical terms
-	let complexity: 'low' | 'medium' | 'high' = 'medium';
-	if (COMPLEXITY_TERMS.some(term => text.includes(term))) {
-		complexity = 'high';
-	} else if (tool.description.length < 100) {
-		complexity = 'low';
-	}
-
-	return {
-		category,
-		tags,
-		complexity,
-	};
+export function categoriesOf(capability: ToolCapability): ToolCategoryConfidence[] {
+	if (capability.categories?.length) return capability.categories;
+	return capability.category ? [{ category: capability.category, confidence: 1 }] : [];
 }
 
 /**
@@ -262,7 +325,7 @@ export function enrichToolsWithCapabilities(tools: Map<string, Tool>): void {
 			enrichedCount++;
 			logger.debug('Enriched tool with inferred capabilities', {
 				toolName: name,
-				category: tool.capabilities.category,
+				categories: categoriesOf(tool.capabilities),
 				tags: tool.capabilities.tags,
 			});
 		}
@@ -5,6 +5,13 @@
 
 import { logger } from './logging.js';
 import { loadScoringConfig, ScoringConfig } from './config.js';
+import { NextToolModel, NextToolPrediction } from './next-tool-model.js';
+import {
+	longestCommonSubsequence,
+	sequenceSimilarity,
+	suffixMatch,
+} from './sequence-matching.js';
+import { extractTerms } from './text-analysis.js';
 
 export interface ToolChain {
 	id: string;
@@ -12,60 +19,225 @@ export interface ToolChain {
 	context: string; // Description of when this chain is useful
 	successCount: number;
 	totalUses: number;
+	recommendedUses?: number;  // Uses learned from recommendations because no tool results were reported
 	averageConfidence: number;
 	lastUsed: string;
 }
 
+export const DEFAULT_CHAIN_BUFFER = 'default';
+
+/**
+ * A session's in-progress chain. Once the client reports tool results the buffer holds
+ * executed tools only, and the chain's success comes from those results.
+ */
+export interface ChainBuffer {
+	sequence: string[];
+	executed: boolean;
+	failures: number;  // Reported failures among the executed tools
+}
+
+/**
+ * Points contributed by each matching signal; matchScore is their sum
+ */
+export interface ChainMatchBreakdown {
+	prefix: number;
+	subsequence: number;
+	editSimilarity: number;
+	suffix: number;
+	keywords: number;
+	successBonus: number;
+	recencyBonus: number;
+}
+
 export interface ChainMatch {
 	chain: ToolChain;
 	matchScore: number;
+	breakdown: ChainMatchBreakdown;
+	matchedKeywords: string[];  // Stemmed terms shared by the keywords and the chain context
 	reason: string;
 }
 
 export class ToolChainLibrary {
 	private chains: Map<string, ToolChain> = new Map();
-	private currentChain: string[] = [];
+	private currentChains: Map<string, string[]> = new Map();
+	private executedChains: Map<string, { failures: number }> = new Map();
 	private chainIdCounter = 0;
 	private scoring: typeof ScoringConfig.toolChains;
+	private nextToolModel: NextToolModel;
+	private modelStale = false;
 
 	constructor(scoring: typeof ScoringConfig.toolChains = loadScoringConfig().toolChains) {
 		this.scoring = scoring;
+		this.nextToolModel = new NextToolModel(scoring);
 		logger.info('Tool chain library initialized');
 	}
 
+	/**
+	 * Get the in-progress chain buffer for a session
+	 */
+	getCurrentChain(bufferId: string = DEFAULT_CHAIN_BUFFER): string[] {
+		return [...(this.currentChains.get(bufferId) ?? [])];
+	}
+
+	/**
+	 * Get a session's in-progress chain with its execution state
+	 */
+	getChainBuffer(bufferId: string = DEFAULT_CHAIN_BUFFER): ChainBuffer {
+		const executed = this.executedChains.get(bufferId);
+		return {
+			sequence: this.getCurrentChain(bufferId),
+			executed: executed !== undefined,
+			failures: executed?.failures ?? 0,
+		};
+	}
+
+	/**
+	 * Restore a session's in-progress chain buffer, e.g. after a restart
+	 */
+	restoreChainBuffer(buffer: ChainBuffer, bufferId: string = DEFAULT_CHAIN_BUFFER): void {
+		this.resetCurrentChain(bufferId);
+		if (buffer.sequence.length > 0) {
+			this.currentChains.set(bufferId, [...buffer.sequence]);
+		}
+		if (buffer.executed) {
+			this.executedChains.set(bufferId, { failures: buffer.failures });
+		}
+	}
+
+	/**
+	 * Load previously learned chains, replacing any in-memory chain with the same sequence
+	 */
+	loadChains(chains: ToolChain[]): void {
+		for (const chain of chains) {
+			this.chains.set(this.getChainKey(chain.sequence), { ...chain, sequence: [...chain.sequence] });
+			this.modelStale = true;
+
+			// Keep new chain ids unique
+			const idNumber = Number(chain.id.replace(/^chain-/, ''));
+			if (Number.isInteger(idNumber) && idNumber > this.chainIdCounter) {
+				this.chainIdCounter = idNumber;
+			}
+		}
+		logger.info('Tool chains loaded', { chainCount: chains.length, totalChains: this.chains.size });
+	}
+
+	/**
+	 * Add chains learned elsewhere under new ids. Sequences already in the library keep
+	 * their local statistics. Returns the chains that were added.
+	 */
+	importChains(chains: Array<Omit<ToolChain, 'id'>>): ToolChain[] {
+		const added: ToolChain[] = [];
+		for (const chain of chains) {
+			const chainKey = this.getChainKey(chain.sequence);
+			if (this.chains.has(chainKey)) continue;
+
+			const imported = { ...chain, id: `chain-${++this.chainIdCounter}`, sequence: [...chain.sequence] };
+			this.chains.set(chainKey, imported);
+			added.push(imported);
+			this.modelStale = true;
+		}
+		logger.info('Tool chains imported', { chainCount: chains.length, added: added.length });
+		return added;
+	}
+
+	/**
+	 * Every learned chain, in the order they were first learned
+	 */
+	getChains(): ToolChain[] {
+		return Array.from(this.chains.values(), chain => ({ ...chain, sequence: [...chain.sequence] }));
+	}
+
 	/**
 	 * Record a tool being used in sequence
 	 */
-	recordToolUse(toolName: string, _context?: string): void {
-		this.currentChain.push(toolName);
+	recordToolUse(
+		toolName: string,
+		_context?: string,
+		bufferId: string = DEFAULT_CHAIN_BUFFER
+	): void {
+		if (this.executedChains.has(bufferId)) {
+			// Reported results replace recommendations for this chain
+			return;
+		}
+		const currentChain = this.currentChains.get(bufferId) ?? [];
+		currentChain.push(toolName);
+		this.currentChains.set(bufferId, currentChain);
 		logger.debug('Tool use recorded', { 
 			toolName, 
-			chainLength: this.currentChain.length 
+			bufferId,
+			chainLength: currentChain.length 
+		});
+	}
+
+	/**
+	 * Record a tool the client actually executed. The first result switches the session's
+	 * buffer from recommended to executed tools.
+	 */
+	recordToolResult(
+		toolName: string,
+		success: boolean,
+		bufferId: string = DEFAULT_CHAIN_BUFFER
+	): void {
+		let executed = this.executedChains.get(bufferId);
+		if (!executed) {
+			executed = { failures: 0 };
+			this.executedChains.set(bufferId, executed);
+			this.currentChains.delete(bufferId);
+		}
+		if (!success) {
+			executed.failures++;
+		}
+
+		const currentChain = this.currentChains.get(bufferId) ?? [];
+		currentChain.push(toolName);
+		this.currentChains.set(bufferId, currentChain);
+		logger.debug('Tool result recorded', {
+			toolName,
+			success,
+			bufferId,
+			chainLength: currentChain.length,
 		});
 	}
 
 	/**
-	 * Mark current chain as successful and save it
+	 * Mark current chain as successful and save it.
+	 * For executed chains, success is whether every reported tool call succeeded; other
+	 * chains are counted as recommended uses.
+	 * Returns the recorded chain, or undefined when the buffer was too short to record.
 	 */
-	completeChain(success: boolean, confidence?: number, context?: string): void {
-		if (this.currentChain.length < 2) {
+	completeChain(
+		success: boolean,
+		confidence?: number,
+		context?: string,
+		bufferId: string = DEFAULT_CHAIN_BUFFER
+	): ToolChain | undefined {
+		const currentChain = this.currentChains.get(bufferId) ?? [];
+		const executed = this.executedChains.get(bufferId);
+		if (executed) {
+			success = executed.failures === 0;
+		}
+		// Reset the buffer up front; the chain is recorded from the local copy
+		this.resetCurrentChain(bufferId);
+
+		if (currentChain.length < 2) {
 			// Only save chains of 2+ tools
-			this.currentChain = [];
-			return;
+			return undefined;
 		}
 
-		const chainKey = this.getChainKey(this.currentChain);
+		const chainKey = this.getChainKey(currentChain);
 		let chain = this.chains.get(chainKey);
+		this.modelStale = true;
 
 		if (!chain) {
 			// Create new chain
 			chain = {
 				id: `chain-${++this.chainIdCounter}`,
-				sequence: [...this.currentChain],
+				sequence: [...currentChain],
 				context: context || '',
 				successCount: success ? 1 : 0,
 				totalUses: 1,
-				averageConfidence: confidence || 0.5,
+				...(executed ? {} : { recommendedUses: 1 }),
+				averageConfidence: confidence ?? 0.5,
 				lastUsed: new Date().toISOString(),
 			};
 			this.chains.set(chainKey, chain);
@@ -80,6 +252,9 @@ export class ToolChainLibrary {
 			if (success) {
 				chain.successCount++;
 			}
+			if (!executed) {
+				chain.recommendedUses = (chain.recommendedUses ?? 0) + 1;
+			}
 			if (confidence !== undefined) {
 				// Update rolling average
 				chain.averageConfidence = 
@@ -99,8 +274,7 @@ export class ToolChainLibrary {
 			});
 		}
 
-		// Reset current chain
-		this.currentChain = [];
+		return chain;
 	}
 
 	/**
@@ -109,9 +283,41 @@ export class ToolChainLibrary {
 	 * @param success Whether the chain led to a successful outcome
 	 * @param confidence Confidence score for the chain (optional)
 	 * @param context Additional context for the chain (optional)
+	 * @param bufferId Session whose in-progress chain is finalized (optional)
+	 * @returns The recorded chain, if the buffer held 2+ tools
 	 */
-	public finalizeCurrentChain(success: boolean, confidence?: number, context?: string): void {
-		this.completeChain(success, confidence, context);
+	public finalizeCurrentChain(
+		success: boolean,
+		confidence?: number,
+		context?: string,
+		bufferId?: string
+	): ToolChain | undefined {
+		return this.completeChain(success, confidence, context, bufferId);
+	}
+
+	/**
+	 * Record a session's chain once its reasoning is complete. A chain with reported tool
+	 * results succeeds when none of them failed. Without reported results the recommended
+	 * tools are recorded instead, succeeding when the confidence is at least 0.5, and the
+	 * next-tool model weighs those uses by recommendedWeight.
+	 * @returns The recorded chain, if the buffer held 2+ tools
+	 */
+	public finalizeSessionChain(
+		confidence?: number,
+		context?: string,
+		bufferId: string = DEFAULT_CHAIN_BUFFER
+	): ToolChain | undefined {
+		// completeChain takes the success of an executed chain from its reported failures
+		const success = this.executedChains.has(bufferId) || (confidence ?? 0.5) >= 0.5;
+		return this.completeChain(success, confidence, context, bufferId);
+	}
+
+	/**
+	 * Discard a session's in-progress chain without recording it
+	 */
+	resetCurrentChain(bufferId: string = DEFAULT_CHAIN_BUFFER): void {
+		this.currentChains.delete(bufferId);
+		this.executedChains.delete(bufferId);
 	}
 
 	/**
@@ -122,7 +328,10 @@ export class ToolChainLibrary {
 	}
 
 	/**
-	 * Find chains that match or partially match the current context
+	 * Find chains that match or partially match the current context.
+	 * Tool sequences are aligned by exact prefix, longest common subsequence, weighted edit
+	 * distance and recency-weighted suffix, so similar but not identical workflows surface.
+	 * Keywords and chain contexts are compared as stemmed terms without stop words.
 	 */
 	findMatchingChains(
 		previousTools: string[],
@@ -130,6 +339,7 @@ export class ToolChainLibrary {
 		minSuccessRate: number = 0.5
 	): ChainMatch[] {
 		const matches: ChainMatch[] = [];
+		const keywordTerms = new Set(extractTerms((keywords ?? []).join(' ')));
 
 		for (const chain of this.chains.values()) {
 			const successRate = chain.successCount / chain.totalUses;
@@ -139,38 +349,58 @@ export class ToolChainLibrary {
 				continue;
 			}
 
-			let matchScore = 0;
+			const breakdown: ChainMatchBreakdown = {
+				prefix: 0,
+				subsequence: 0,
+				editSimilarity: 0,
+				suffix: 0,
+				keywords: 0,
+				successBonus: 0,
+				recencyBonus: 0,
+			};
 			const reasons: string[] = [];
 
-			// Score based on matching prefix
 			if (previousTools.length > 0) {
-				const matchLength = this.getMatchingPrefixLength(
+				const prefixLength = this.getMatchingPrefixLength(previousTools, chain.sequence);
+				if (prefixLength > 0) {
+					breakdown.prefix = prefixLength * this.scoring.prefixMatchWeight;
+					reasons.push(`Matches ${prefixLength} previous tools`);
+				}
+
+				const common = longestCommonSubsequence(previousTools, chain.sequence);
+				if (common > 0) {
+					breakdown.subsequence = common * this.scoring.subsequenceMatchWeight;
+					reasons.push(`Shares ${common} tools in order`);
+				}
+
+				// Compare against the part of the chain the session should have covered so far
+				const similarity = sequenceSimilarity(
 					previousTools,
-					chain.sequence
+					chain.sequence.slice(0, previousTools.length)
 				);
-				
-				if (matchLength > 0) {
-					matchScore += matchLength * this.scoring.prefixMatchWeight;
-					reasons.push(`Matches ${matchLength} previous tools`);
+				if (similarity > 0) {
+					breakdown.editSimilarity = similarity * this.scoring.editSimilarityWeight;
+					reasons.push(`Sequence similarity ${(similarity * 100).toFixed(0)}%`);
 				}
-			}
 
-			// Score based on keyword matching in context
-			if (keywords && keywords.length > 0) {
-				const contextLower = chain.context.toLowerCase();
-				const matchingKeywords = keywords.filter(kw => 
-					contextLower.includes(kw.toLowerCase())
-				);
-				
-				if (matchingKeywords.length > 0) {
-					matchScore += matchingKeywords.length * this.scoring.keywordMatchWeight;
-					reasons.push(`Context matches: ${matchingKeywords.join(', ')}`);
+				const suffix = suffixMatch(previousTools, chain.sequence);
+				if (suffix.length > 0) {
+					breakdown.suffix = suffix.score * this.scoring.suffixMatchWeight;
+					reasons.push(`Last ${suffix.length} tools appear in the chain`);
 				}
 			}
 
+			const matchedKeywords = keywordTerms.size > 0
+				? extractTerms(chain.context).filter(term => keywordTerms.has(term))
+				: [];
+			if (matchedKeywords.length > 0) {
+				breakdown.keywords = matchedKeywords.length * this.scoring.keywordMatchWeight;
+				reasons.push(`Context matches: ${matchedKeywords.join(', ')}`);
+			}
+
 			// Bonus for high success rate
 			if (successRate > this.scoring.highSuccessRateThreshold) {
-				matchScore += this.scoring.highSuccessBonus;
+				breakdown.successBonus = this.scoring.highSuccessBonus;
 				reasons.push('High success rate');
 			}
 
@@ -178,14 +408,17 @@ export class ToolChainLibrary {
 			const daysSinceUse = (Date.now() - new Date(chain.lastUsed).getTime()) 
 				/ (1000 * 60 * 60 * 24);
 			if (daysSinceUse < this.scoring.recentUseDaysThreshold) {
-				matchScore += this.scoring.recentUseBonus;
+				breakdown.recencyBonus = this.scoring.recentUseBonus;
 				reasons.push('Recently used');
 			}
 
+			const matchScore = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
 			if (matchScore > 0) {
 				matches.push({
 					chain,
 					matchScore,
+					breakdown,
+					matchedKeywords,
 					reason: reasons.join('; '),
 				});
 			}
@@ -221,59 +454,16 @@ export class ToolChainLibrary {
 	}
 
 	/**
-	 * Suggest next tool based on previous tools
+	 * Suggest next tools from the n-gram model over recorded chains.
+	 * Only the most recent tools matter, so suggestions keep coming when early steps deviate.
 	 */
-	suggestNextTool(previousTools: string[]): { 
-		toolName: string; 
-		confidence: number; 
-		reason: string;
-	}[] {
-		const suggestions: Map<string, { 
-			confidence: number; 
-			reasons: string[];
-			chainCount: number;
-		}> = new Map();
-
-		// Find chains that match the prefix
-		for (const chain of this.chains.values()) {
-			const matchLength = this.getMatchingPrefixLength(
-				previousTools,
-				chain.sequence
-			);
-
-			if (matchLength === previousTools.length && 
-			    matchLength < chain.sequence.length) {
-				// This chain has our exact sequence as prefix
-				const nextTool = chain.sequence[matchLength];
-				const successRate = chain.successCount / chain.totalUses;
-
-				const existing = suggestions.get(nextTool) || {
-					confidence: 0,
-					reasons: [],
-					chainCount: 0,
-				};
-
-				existing.confidence = Math.max(
-					existing.confidence,
-					successRate * chain.averageConfidence
-				);
-				existing.reasons.push(
-					`Found in ${chain.id} (success rate: ${(successRate * 100).toFixed(0)}%)`
-				);
-				existing.chainCount++;
-
-				suggestions.set(nextTool, existing);
-			}
+	suggestNextTool(previousTools: string[]): NextToolPrediction[] {
+		if (this.modelStale) {
+			this.nextToolModel.train(this.chains.values());
+			this.modelStale = false;
 		}
 
-		// Convert to array and sort by confidence
-		const result = Array.from(suggestions.entries()).map(([toolName, data]) => ({
-			toolName,
-			confidence: data.confidence,
-			reason: data.reasons.join('; '),
-		}));
-
-		result.sort((a, b) => b.confidence - a.confidence);
+		const result = this.nextToolModel.predict(previousTools, this.scoring.minProbability);
 
 		logger.debug('Next tool suggestions', {
 			suggestionCount: result.length,
@@ -335,7 +525,9 @@ export class ToolChainLibrary {
 	 */
 	clear(): void {
 		this.chains.clear();
-		this.currentChain = [];
+		this.currentChains.clear();
+		this.executedChains.clear();
+		this.modelStale = true;
 		logger.info('Tool chain library cleared');
 	}
 }
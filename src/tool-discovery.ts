@@ -0,0 +1,386 @@
+/**
+ * Tool discovery from sibling MCP servers
+ * Reads a client-style `mcpServers` config, connects to each server over stdio
+ * and lists its tools so they can be fed into the capability matcher
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import * as v from 'valibot';
+import { Tool, ToolAnnotations } from './types.js';
+import { logger } from './logging.js';
+
+const MCP_PROTOCOL_VERSION = '2025-06-18';
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// Set in the environment of every spawned server. A copy of this server listed in the
+// config under another name sees it and skips discovery instead of spawning more copies.
+export const DISCOVERY_CHILD_ENV = 'MCP_SEQUENTIALTHINKING_DISCOVERY_CHILD';
+
+const McpServerEntrySchema = v.object({
+	command: v.pipe(v.string(), v.minLength(1)),
+	args: v.optional(v.array(v.string()), []),
+	env: v.optional(v.record(v.string(), v.string()), {}),
+	cwd: v.optional(v.string()),
+	disabled: v.optional(v.boolean(), false),
+});
+
+const McpConfigFileSchema = v.object({
+	mcpServers: v.record(v.string(), McpServerEntrySchema),
+});
+
+export type McpServerEntry = v.InferOutput<typeof McpServerEntrySchema>;
+
+// Responses, requests and notifications share one shape; id and method tell them apart
+const JsonRpcMessageSchema = v.object({
+	id: v.optional(v.union([v.number(), v.string()])),
+	method: v.optional(v.string()),
+	result: v.optional(v.unknown()),
+	error: v.optional(v.object({
+		code: v.number(),
+		message: v.string(),
+	})),
+});
+
+export interface ToolDiscoveryConfig {
+	configPath: string;
+	requestTimeoutMs?: number;
+	excludeServers?: string[];  // Server names to skip (e.g. this server)
+	clientInfo?: { name: string; version: string };
+	env?: NodeJS.ProcessEnv;  // Environment this server was started with
+}
+
+interface PendingRequest {
+	resolve: (value: unknown) => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+/**
+ * Load and validate the `mcpServers` section of a client config file
+ */
+export function loadMcpServersConfig(configPath: string): Record<string, McpServerEntry> {
+	const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+	const result = v.safeParse(McpConfigFileSchema, raw);
+	if (!result.success) {
+		throw new Error(
+			`MCP config validation failed for ${configPath}: ${result.issues.map(issue => issue.message).join('; ')}`,
+		);
+	}
+	return result.output.mcpServers;
+}
+
+/**
+ * Minimal MCP client speaking newline-delimited JSON-RPC over a child process' stdio
+ */
+export class McpStdioClient {
+	private child: ChildProcessWithoutNullStreams | null = null;
+	private buffer = '';
+	private nextId = 1;
+	private pending: Map<number | string, PendingRequest> = new Map();
+	private notificationHandlers: Map<string, () => void> = new Map();
+	private closed = false;
+
+	constructor(
+		private readonly serverName: string,
+		private readonly entry: McpServerEntry,
+		private readonly requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+	) { }
+
+	async connect(clientInfo: { name: string; version: string }): Promise<void> {
+		this.child = spawn(this.entry.command, this.entry.args, {
+			cwd: this.entry.cwd,
+			env: { ...process.env, ...this.entry.env, [DISCOVERY_CHILD_ENV]: '1' },
+			stdio: ['pipe', 'pipe', 'pipe'],
+		});
+
+		this.child.stdout.setEncoding('utf-8');
+		this.child.stdout.on('data', (chunk: string) => this.handleData(chunk));
+		this.child.stderr.on('data', (chunk: Buffer) => {
+			logger.debug('Discovered server stderr', {
+				serverName: this.serverName,
+				output: chunk.toString().trim(),
+			});
+		});
+		this.child.stdin.on('error', (error) => this.failAll(error));
+		this.child.on('error', (error) => this.failAll(error));
+		this.child.on('exit', (code) => {
+			this.closed = true;
+			this.failAll(new Error(`MCP server "${this.serverName}" exited with code ${code}`));
+		});
+
+		await this.request('initialize', {
+			protocolVersion: MCP_PROTOCOL_VERSION,
+			capabilities: {},
+			clientInfo,
+		});
+		this.notify('notifications/initialized');
+	}
+
+	onNotification(method: string, handler: () => void): void {
+		this.notificationHandlers.set(method, handler);
+	}
+
+	/**
+	 * List every tool, following pagination cursors
+	 */
+	async listTools(): Promise<Tool[]> {
+		const tools: Tool[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const result = await this.request('tools/list', cursor ? { cursor } : {}) as {
+				tools?: Array<{
+					name: string;
+					description?: string;
+					inputSchema?: Record<string, unknown>;
+					annotations?: ToolAnnotations;
+				}>;
+				nextCursor?: string;
+			};
+
+			for (const tool of result.tools ?? []) {
+				tools.push({
+					name: tool.name,
+					description: tool.description ?? '',
+					inputSchema: tool.inputSchema ?? {},
+					annotations: tool.annotations,
+					serverName: this.serverName,
+				});
+			}
+			cursor = result.nextCursor;
+		} while (cursor);
+
+		return tools;
+	}
+
+	request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+		if (!this.child || this.closed) {
+			return Promise.reject(new Error(`MCP server "${this.serverName}" is not connected`));
+		}
+
+		const id = this.nextId++;
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.pending.delete(id);
+				reject(new Error(`Request "${method}" to MCP server "${this.serverName}" timeout after ${this.requestTimeoutMs}ms`));
+			}, this.requestTimeoutMs);
+
+			this.pending.set(id, { resolve, reject, timer });
+			this.send({ jsonrpc: '2.0', id, method, params });
+		});
+	}
+
+	private notify(method: string, params?: Record<string, unknown>): void {
+		this.send({ jsonrpc: '2.0', method, params });
+	}
+
+	private send(message: Record<string, unknown>): void {
+		this.child?.stdin.write(`${JSON.stringify(message)}\n`);
+	}
+
+	private handleData(chunk: string): void {
+		this.buffer += chunk;
+		let newline = this.buffer.indexOf('\n');
+
+		while (newline !== -1) {
+			const line = this.buffer.slice(0, newline).trim();
+			this.buffer = this.buffer.slice(newline + 1);
+			if (line) {
+				this.handleMessage(line);
+			}
+			newline = this.buffer.indexOf('\n');
+		}
+	}
+
+	private handleMessage(line: string): void {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(line);
+		} catch (_error) {
+			logger.debug('Ignoring non-JSON output from MCP server', { serverName: this.serverName });
+			return;
+		}
+
+		const result = v.safeParse(JsonRpcMessageSchema, parsed);
+		if (!result.success) {
+			logger.debug('Ignoring malformed JSON-RPC message from MCP server', { serverName: this.serverName });
+			return;
+		}
+		const message = result.output;
+
+		// Response to one of our requests
+		if (message.id !== undefined && message.method === undefined) {
+			const pending = this.pending.get(message.id);
+			if (!pending) return;
+			this.pending.delete(message.id);
+			clearTimeout(pending.timer);
+			if (message.error) {
+				pending.reject(new Error(
+					`MCP server "${this.serverName}" returned error ${message.error.code}: ${message.error.message}`,
+				));
+			} else {
+				pending.resolve(message.result);
+			}
+			return;
+		}
+
+		// Request from the server: answer pings, decline anything else
+		if (message.id !== undefined) {
+			if (message.method === 'ping') {
+				this.send({ jsonrpc: '2.0', id: message.id, result: {} });
+			} else {
+				this.send({
+					jsonrpc: '2.0',
+					id: message.id,
+					error: { code: -32601, message: `Method not supported: ${message.method}` },
+				});
+			}
+			return;
+		}
+
+		if (message.method !== undefined) {
+			this.notificationHandlers.get(message.method)?.();
+		}
+	}
+
+	private failAll(error: Error): void {
+		for (const [id, pending] of this.pending.entries()) {
+			clearTimeout(pending.timer);
+			pending.reject(error);
+			this.pending.delete(id);
+		}
+	}
+
+	close(): void {
+		if (this.closed) return;
+		this.closed = true;
+		this.failAll(new Error(`MCP server "${this.serverName}" connection closed`));
+		this.child?.stdin.end();
+		this.child?.kill();
+	}
+}
+
+export type ToolsChangedHandler = (serverName: string, tools: Tool[]) => void;
+
+/**
+ * Connects to every configured MCP server and reports their tools,
+ * refreshing a server's tools when it sends `notifications/tools/list_changed`
+ */
+export class ToolDiscovery {
+	private clients: Map<string, McpStdioClient> = new Map();
+	private config: Required<ToolDiscoveryConfig>;
+	private closed = false;
+
+	constructor(config: ToolDiscoveryConfig) {
+		this.config = {
+			requestTimeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+			excludeServers: [],
+			clientInfo: { name: 'mcp-sequentialthinking-tools', version: '0.0.0' },
+			env: process.env,
+			...config,
+		};
+	}
+
+	/**
+	 * Connect to all servers and report their tools. Servers that fail are skipped.
+	 * Returns the number of servers that were discovered successfully.
+	 */
+	async start(onToolsChanged: ToolsChangedHandler): Promise<number> {
+		if (this.config.env[DISCOVERY_CHILD_ENV]) {
+			logger.warn('Skipping tool discovery in a server started by tool discovery', {
+				configPath: this.config.configPath,
+			});
+			return 0;
+		}
+
+		const servers = loadMcpServersConfig(this.config.configPath);
+		const excluded = new Set(this.config.excludeServers);
+
+		const results = await Promise.all(
+			Object.entries(servers)
+				.filter(([name, entry]) => !entry.disabled && !excluded.has(name))
+				.map(([name, entry]) => this.discoverServer(name, entry, onToolsChanged)),
+		);
+
+		const discovered = results.filter(Boolean).length;
+		logger.info('Tool discovery complete', {
+			configPath: this.config.configPath,
+			serverCount: results.length,
+			discovered,
+		});
+		return discovered;
+	}
+
+	private async discoverServer(
+		name: string,
+		entry: McpServerEntry,
+		onToolsChanged: ToolsChangedHandler,
+	): Promise<boolean> {
+		if (this.closed) return false;
+
+		const client = new McpStdioClient(name, entry, this.config.requestTimeoutMs);
+		// Tracked before connecting so close() also stops servers that are still starting
+		this.clients.set(name, client);
+
+		// Listings are numbered so a slow one never replaces the tools of a later one
+		let listings = 0;
+		let reported = 0;
+		const report = (listing: number, tools: Tool[]) => {
+			if (this.closed || listing < reported) return;
+			reported = listing;
+			onToolsChanged(name, tools);
+		};
+
+		// Registered before the first listing so a change announced during it is not lost
+		client.onNotification('notifications/tools/list_changed', () => {
+			const listing = ++listings;
+			client.listTools()
+				.then(refreshed => {
+					logger.info('Tool list changed on discovered server', {
+						serverName: name,
+						toolCount: refreshed.length,
+					});
+					report(listing, refreshed);
+				})
+				.catch(error => {
+					logger.error('Failed to refresh tools after list change', error, { serverName: name });
+				});
+		});
+
+		try {
+			await client.connect(this.config.clientInfo);
+			const listing = ++listings;
+			const tools = await client.listTools();
+			if (this.closed) {
+				client.close();
+				return false;
+			}
+			report(listing, tools);
+
+			logger.info('Discovered tools from MCP server', {
+				serverName: name,
+				toolCount: tools.length,
+			});
+			return true;
+		} catch (error) {
+			client.close();
+			if (this.clients.get(name) === client) {
+				this.clients.delete(name);
+			}
+			// Requests fail when close() stops a server that is still starting
+			if (!this.closed) {
+				logger.error('Tool discovery failed for MCP server', error, { serverName: name });
+			}
+			return false;
+		}
+	}
+
+	close(): void {
+		this.closed = true;
+		for (const client of this.clients.values()) {
+			client.close();
+		}
+		this.clients.clear();
+	}
+}
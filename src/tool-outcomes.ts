@@ -0,0 +1,270 @@
+/**
+ * Tool execution outcomes
+ * Aggregates the results clients report for executed tool calls into per-tool
+ * reliability and latency statistics, giving the learning components ground truth
+ * instead of recommendations
+ */
+
+import { logger } from './logging.js';
+
+export type ToolErrorCategory =
+	| 'timeout'
+	| 'rate_limit'
+	| 'not_found'
+	| 'permission'
+	| 'network'
+	| 'invalid_input'
+	| 'server_error'
+	| 'unknown';
+
+export interface ToolOutcome {
+	success: boolean;
+	durationMs?: number;
+	error?: string;
+	outputSummary?: string;
+	sessionId?: string;
+	thoughtNumber?: number;
+	reportedAt?: string;  // ISO timestamp, defaults to now
+}
+
+export interface ToolStats {
+	tool_name: string;
+	calls: number;
+	successes: number;
+	failures: number;
+	success_rate: number;
+	average_duration_ms?: number;  // Over calls that reported a duration
+	p50_latency_ms?: number;  // Over the recent window
+	p95_latency_ms?: number;
+	recent_calls: number;
+	recent_failures: number;
+	last_error?: string;
+	last_failure_at?: string;
+	error_categories: Partial<Record<ToolErrorCategory, number>>;
+	last_output_summary?: string;
+	last_reported_at: string;
+}
+
+export interface ToolReliabilityWarning {
+	tool_name: string;
+	message: string;
+	recent_calls: number;
+	recent_failures: number;
+	top_error_category?: ToolErrorCategory;
+}
+
+/**
+ * Aggregate state of one tool, as kept in memory and rebuilt from storage
+ */
+export interface ToolOutcomeSnapshot {
+	toolName: string;
+	successes: number;
+	failures: number;
+	timedCalls: number;
+	totalDurationMs: number;
+	errorCategories: Partial<Record<ToolErrorCategory, number>>;
+	lastError?: string;
+	lastFailureAt?: string;
+	lastOutputSummary?: string;
+	lastReportedAt: string;
+	recent: Array<{ success: boolean; durationMs?: number }>;  // Oldest first
+}
+
+// Outcomes kept per tool for latency percentiles and reliability
+export const RECENT_OUTCOME_WINDOW = 50;
+
+// Reliability warnings look at this many of the most recent calls
+const WARNING_WINDOW = 5;
+const WARNING_MIN_CALLS = 3;
+const WARNING_FAILURE_RATE = 0.5;
+
+const ERROR_PATTERNS: Array<[ToolErrorCategory, RegExp]> = [
+	['timeout', /time[d\s-]*out|deadline exceeded|etimedout/i],
+	['rate_limit', /rate[\s-]*limit|too many requests|\b429\b|quota/i],
+	['not_found', /not found|no such|\b404\b|enoent|does not exist/i],
+	['permission', /permission|forbidden|unauthori[sz]ed|access denied|\b40[13]\b|eacces/i],
+	['network', /network|econnre(set|fused)|socket|dns|unreachable|connection/i],
+	['invalid_input', /invalid|validation|malformed|required|bad request|\b400\b/i],
+	['server_error', /internal|server error|\b50\d\b|unavailable|crash/i],
+];
+
+/**
+ * Bucket a tool error message into a coarse category
+ */
+export function categorizeToolError(error: string | undefined): ToolErrorCategory {
+	if (!error) return 'unknown';
+	return ERROR_PATTERNS.find(([, pattern]) => pattern.test(error))?.[0] ?? 'unknown';
+}
+
+/**
+ * Value at the given percentile (0-100) using nearest-rank
+ */
+export function percentile(values: number[], p: number): number | undefined {
+	if (values.length === 0) return undefined;
+	const sorted = [...values].sort((a, b) => a - b);
+	const rank = Math.ceil((p / 100) * sorted.length);
+	return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+export class ToolOutcomeTracker {
+	private tools: Map<string, ToolOutcomeSnapshot> = new Map();
+
+	/**
+	 * Add a reported outcome and return the tool's updated statistics
+	 */
+	record(toolName: string, outcome: ToolOutcome): ToolStats {
+		const reportedAt = outcome.reportedAt ?? new Date().toISOString();
+		const snapshot = this.tools.get(toolName) ?? {
+			toolName,
+			successes: 0,
+			failures: 0,
+			timedCalls: 0,
+			totalDurationMs: 0,
+			errorCategories: {},
+			lastReportedAt: reportedAt,
+			recent: [],
+		};
+
+		if (outcome.success) {
+			snapshot.successes++;
+		} else {
+			snapshot.failures++;
+			const category = categorizeToolError(outcome.error);
+			snapshot.errorCategories[category] = (snapshot.errorCategories[category] ?? 0) + 1;
+			snapshot.lastError = outcome.error ?? snapshot.lastError;
+			snapshot.lastFailureAt = reportedAt;
+		}
+		if (outcome.durationMs !== undefined) {
+			snapshot.timedCalls++;
+			snapshot.totalDurationMs += outcome.durationMs;
+		}
+		if (outcome.outputSummary !== undefined) {
+			snapshot.lastOutputSummary = outcome.outputSummary;
+		}
+		snapshot.lastReportedAt = reportedAt;
+
+		snapshot.recent.push({
+			success: outcome.success,
+			...(outcome.durationMs !== undefined ? { durationMs: outcome.durationMs } : {}),
+		});
+		if (snapshot.recent.length > RECENT_OUTCOME_WINDOW) {
+			snapshot.recent.splice(0, snapshot.recent.length - RECENT_OUTCOME_WINDOW);
+		}
+		this.tools.set(toolName, snapshot);
+
+		logger.debug('Tool outcome recorded', {
+			toolName,
+			success: outcome.success,
+			durationMs: outcome.durationMs,
+			sessionId: outcome.sessionId,
+			thoughtNumber: outcome.thoughtNumber,
+		});
+
+		return this.toStats(snapshot);
+	}
+
+	/**
+	 * Replace in-memory statistics with snapshots loaded from storage
+	 */
+	restore(snapshots: ToolOutcomeSnapshot[]): void {
+		this.tools.clear();
+		for (const snapshot of snapshots) {
+			this.tools.set(snapshot.toolName, {
+				...snapshot,
+				errorCategories: { ...snapshot.errorCategories },
+				recent: snapshot.recent.slice(-RECENT_OUTCOME_WINDOW),
+			});
+		}
+		logger.info('Tool statistics loaded', { toolCount: snapshots.length });
+	}
+
+	/**
+	 * Copies of the per-tool statistics in the shape restore() loads
+	 */
+	getSnapshots(): ToolOutcomeSnapshot[] {
+		return Array.from(this.tools.values(), snapshot => ({
+			...snapshot,
+			errorCategories: { ...snapshot.errorCategories },
+			recent: snapshot.recent.map(outcome => ({ ...outcome })),
+		}));
+	}
+
+	getStats(toolName: string): ToolStats | undefined {
+		const snapshot = this.tools.get(toolName);
+		return snapshot ? this.toStats(snapshot) : undefined;
+	}
+
+	/**
+	 * Statistics for every tool with reported outcomes, most used first
+	 */
+	getAllStats(): ToolStats[] {
+		return Array.from(this.tools.values())
+			.map(snapshot => this.toStats(snapshot))
+			.sort((a, b) => b.calls - a.calls || a.tool_name.localeCompare(b.tool_name));
+	}
+
+	/**
+	 * Laplace-smoothed success rate over the recent window; undefined without reported calls
+	 */
+	getReliability(toolName: string): { reliability: number; calls: number } | undefined {
+		const recent = this.tools.get(toolName)?.recent;
+		if (!recent || recent.length === 0) return undefined;
+		const successes = recent.filter(outcome => outcome.success).length;
+		return { reliability: (successes + 1) / (recent.length + 2), calls: recent.length };
+	}
+
+	/**
+	 * Warnings for tools that failed at least half of their last few calls
+	 */
+	getWarnings(toolNames: Iterable<string>): ToolReliabilityWarning[] {
+		const warnings: ToolReliabilityWarning[] = [];
+		for (const toolName of new Set(toolNames)) {
+			const snapshot = this.tools.get(toolName);
+			if (!snapshot) continue;
+
+			const window = snapshot.recent.slice(-WARNING_WINDOW);
+			const failures = window.filter(outcome => !outcome.success).length;
+			if (window.length < WARNING_MIN_CALLS || failures / window.length < WARNING_FAILURE_RATE) continue;
+
+			const topCategory = (Object.entries(snapshot.errorCategories) as Array<[ToolErrorCategory, number]>)
+				.sort((a, b) => b[1] - a[1])[0]?.[0];
+			const cause = topCategory && topCategory !== 'unknown' ? `, mostly ${topCategory.replace('_', ' ')} errors` : '';
+			warnings.push({
+				tool_name: toolName,
+				message: `${toolName} failed ${failures} of the last ${window.length} times${cause}`,
+				recent_calls: window.length,
+				recent_failures: failures,
+				top_error_category: topCategory,
+			});
+		}
+		return warnings;
+	}
+
+	clear(): void {
+		this.tools.clear();
+	}
+
+	private toStats(snapshot: ToolOutcomeSnapshot): ToolStats {
+		const calls = snapshot.successes + snapshot.failures;
+		const latencies = snapshot.recent
+			.map(outcome => outcome.durationMs)
+			.filter((duration): duration is number => duration !== undefined);
+		return {
+			tool_name: snapshot.toolName,
+			calls,
+			successes: snapshot.successes,
+			failures: snapshot.failures,
+			success_rate: calls > 0 ? snapshot.successes / calls : 0,
+			average_duration_ms: snapshot.timedCalls > 0 ? snapshot.totalDurationMs / snapshot.timedCalls : undefined,
+			p50_latency_ms: percentile(latencies, 50),
+			p95_latency_ms: percentile(latencies, 95),
+			recent_calls: snapshot.recent.length,
+			recent_failures: snapshot.recent.filter(outcome => !outcome.success).length,
+			last_error: snapshot.lastError,
+			last_failure_at: snapshot.lastFailureAt,
+			error_categories: { ...snapshot.errorCategories },
+			last_output_summary: snapshot.lastOutputSummary,
+			last_reported_at: snapshot.lastReportedAt,
+		};
+	}
+}
@@ -0,0 +1,195 @@
+/**
+ * Safety policy for destructive and side-effecting tool recommendations
+ * A recommended tool that deletes data or acts on an external system must either be
+ * confirmed on its recommendation or come right after a read or verify step on its branch
+ */
+
+import { inferCapabilities } from './capability-inference.js';
+import { extractTerms, stem } from './text-analysis.js';
+import { StepRecommendation, ThoughtData, Tool, ToolCapability, ToolRecommendation } from './types.js';
+import { logger } from './logging.js';
+
+export type ToolRisk =
+	| 'destructive'  // Deletes or overwrites data
+	| 'external_side_effect';  // Changes something outside this system, e.g. sends a message
+
+export type ToolSafeguard =
+	| 'confirmed'  // The recommendation set confirmed: true
+	| 'prior_verification';  // A read or verify step comes first
+
+export interface ToolSafetyFlag {
+	tool_name: string;
+	risk: ToolRisk;
+	reasons: string[];
+	safeguard?: ToolSafeguard;
+	verified_by?: string;  // Step or tool that counted as the verification
+}
+
+export interface ToolSafetyViolation {
+	tool_name: string;
+	risk: ToolRisk;
+	message: string;
+}
+
+export interface ToolSafetyResult {
+	valid: boolean;
+	checked: number;
+	flags: ToolSafetyFlag[];
+	violations: ToolSafetyViolation[];
+}
+
+export interface ToolSafetyPolicyConfig {
+	strict: boolean;  // Reject thoughts with unsafeguarded risky tools
+	ignoredTools: string[];
+}
+
+const DEFAULT_CONFIG: ToolSafetyPolicyConfig = {
+	strict: false,
+	ignoredTools: [],
+};
+
+// Tags of tools that only look at data and so can verify before a risky call
+const VERIFYING_TAGS = ['read', 'list', 'query', 'read-only'];
+// Step descriptions with these words count as a verify step
+const VERIFY_TERMS = new Set(
+	['verify', 'check', 'confirm', 'inspect', 'review', 'preview', 'validate'].map(stem),
+);
+
+export class ToolSafetyPolicy {
+	private config: ToolSafetyPolicyConfig;
+
+	constructor(
+		private readonly tools: Map<string, Tool>,
+		config: Partial<ToolSafetyPolicyConfig> = {},
+	) {
+		this.config = { ...DEFAULT_CONFIG, ...config };
+	}
+
+	get strict(): boolean {
+		return this.config.strict;
+	}
+
+	/**
+	 * Check the recommended tools of the thought's current step against the steps right before
+	 * it: the last of the thought's previous_steps and the current step of the thought before
+	 * it on its branch. Returns undefined when no recommended tool is risky.
+	 */
+	evaluate(thought: ThoughtData, earlierThoughts: ThoughtData[] = []): ToolSafetyResult | undefined {
+		const recommendations = thought.current_step?.recommended_tools ?? [];
+		if (recommendations.length === 0) return undefined;
+
+		const precedingSteps = [
+			thought.previous_steps?.at(-1),
+			this.precedingThought(thought, earlierThoughts)?.current_step,
+		].filter((step): step is StepRecommendation => step !== undefined);
+		const priorVerification = precedingSteps
+			.map(step => this.findVerification(step.recommended_tools, step.step_description))
+			.find(Boolean);
+
+		const flags: ToolSafetyFlag[] = [];
+		for (const recommendation of recommendations) {
+			if (this.config.ignoredTools.includes(recommendation.tool_name)) continue;
+
+			const assessment = this.assess(recommendation.tool_name);
+			if (!assessment) continue;
+
+			// Earlier recommendations of the same step also verify
+			const verification = priorVerification ?? this.findVerification(
+				recommendations.filter(other => other.priority < recommendation.priority),
+			);
+			flags.push({
+				tool_name: recommendation.tool_name,
+				risk: assessment.risk,
+				reasons: assessment.reasons,
+				safeguard: recommendation.confirmed
+					? 'confirmed'
+					: verification ? 'prior_verification' : undefined,
+				verified_by: recommendation.confirmed ? undefined : verification,
+			});
+		}
+		if (flags.length === 0) return undefined;
+
+		const violations = flags
+			.filter(flag => !flag.safeguard)
+			.map(flag => ({
+				tool_name: flag.tool_name,
+				risk: flag.risk,
+				message: `Tool "${flag.tool_name}" is ${flag.risk === 'destructive' ? 'destructive' : 'an external side effect'}; `
+					+ 'set confirmed: true once the user has approved it, or add a read or verify step before it',
+			}));
+
+		if (violations.length > 0) {
+			logger.warn('Recommended tools violate the safety policy', {
+				thoughtNumber: thought.thought_number,
+				tools: violations.map(violation => `${violation.risk}: ${violation.tool_name}`),
+			});
+		}
+
+		return {
+			valid: violations.length === 0,
+			checked: recommendations.length,
+			flags,
+			violations,
+		};
+	}
+
+	/**
+	 * Latest earlier thought on the thought's branch, or for the first thought of a branch,
+	 * the main-line thought it branched from
+	 */
+	private precedingThought(thought: ThoughtData, earlierThoughts: ThoughtData[]): ThoughtData | undefined {
+		const onBranch = earlierThoughts
+			.filter(earlier => earlier.branch_id === thought.branch_id && earlier.thought_number < thought.thought_number)
+			.at(-1);
+		if (onBranch || thought.branch_id === undefined) return onBranch;
+
+		return earlierThoughts
+			.filter(earlier => earlier.branch_id === undefined && earlier.thought_number === thought.branch_from_thought)
+			.at(-1);
+	}
+
+	/**
+	 * Risk of calling a tool; unknown tools are judged by capabilities inferred from their name
+	 */
+	assess(toolName: string): { risk: ToolRisk; reasons: string[] } | undefined {
+		const tool = this.tools.get(toolName);
+		const capabilities = this.capabilitiesOf(toolName);
+		const tags = capabilities.tags;
+		if (tags.includes('read-only') || tool?.annotations?.readOnlyHint === true) return undefined;
+
+		const destructive: string[] = [];
+		if (tool?.annotations?.destructiveHint === true) destructive.push('Annotated as destructive');
+		if (tags.includes('delete')) destructive.push('Tagged delete');
+		if (destructive.length > 0) return { risk: 'destructive', reasons: destructive };
+
+		if (!tags.includes('write')) return undefined;
+		const categories = [capabilities.category, ...(capabilities.categories ?? []).map(entry => entry.category)];
+		const external: string[] = [];
+		if (tags.includes('network')) external.push('Writes over the network');
+		if (tool?.annotations?.openWorldHint === true) external.push('Annotated as open world');
+		if (categories.includes('communication')) external.push('Sends communication');
+		return external.length > 0 ? { risk: 'external_side_effect', reasons: external } : undefined;
+	}
+
+	private capabilitiesOf(toolName: string): ToolCapability {
+		const tool = this.tools.get(toolName);
+		return tool?.capabilities ?? inferCapabilities(tool ?? { name: toolName, description: '', inputSchema: {} });
+	}
+
+	/**
+	 * Name of the tool or step that reads or verifies, if any
+	 */
+	private findVerification(recommendations: ToolRecommendation[], stepDescription?: string): string | undefined {
+		const verifyingTool = recommendations.find(recommendation => {
+			if (this.assess(recommendation.tool_name)) return false;
+			const tags = this.capabilitiesOf(recommendation.tool_name).tags;
+			return tags.some(tag => VERIFYING_TAGS.includes(tag));
+		});
+		if (verifyingTool) return verifyingTool.tool_name;
+
+		if (stepDescription && extractTerms(stepDescription).some(term => VERIFY_TERMS.has(term))) {
+			return stepDescription;
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,234 @@
+/**
+ * Validation of recommended tool names
+ * Flags tools that are neither offered by the client nor known to the registry
+ * and suggests the closest known names
+ */
+
+import { Tool, ThoughtData } from './types.js';
+import { ToolCapabilityMatcher } from './tool-capabilities.js';
+import { logger } from './logging.js';
+
+export type ToolNameIssueType =
+	| 'unknown_tool'  // Not in available_mcp_tools nor in the tool registry
+	| 'unavailable_tool';  // Known to the registry but not offered in available_mcp_tools
+
+export interface ToolNameIssue {
+	tool_name: string;
+	field: 'tool_name' | 'alternatives';
+	type: ToolNameIssueType;
+	message: string;
+	suggestions: string[];
+}
+
+export interface ToolNameValidationResult {
+	valid: boolean;
+	checked: number;
+	issues: ToolNameIssue[];
+}
+
+export interface ToolNameValidatorConfig {
+	strict: boolean;  // Reject thoughts that recommend unknown tools
+	maxSuggestions: number;
+	minSimilarity: number;  // 0-1 threshold for fuzzy name suggestions
+	ignoredTools: string[];  // Registry tools that never count as "known" targets
+}
+
+const DEFAULT_CONFIG: ToolNameValidatorConfig = {
+	strict: false,
+	maxSuggestions: 3,
+	minSimilarity: 0.5,
+	ignoredTools: [],
+};
+
+const normalizeName = (name: string): string =>
+	name.toLowerCase().replace(/[\s_\-.:/]+/g, '_');
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+	if (a === b) return 0;
+	if (a.length === 0) return b.length;
+	if (b.length === 0) return a.length;
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost,
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Similarity of two tool names in [0, 1], combining edit distance and shared name tokens
+ */
+export function nameSimilarity(a: string, b: string): number {
+	const left = normalizeName(a);
+	const right = normalizeName(b);
+	if (left === right) return 1;
+
+	const maxLength = Math.max(left.length, right.length);
+	const editScore = 1 - editDistance(left, right) / maxLength;
+
+	const leftTokens = new Set(left.split('_').filter(Boolean));
+	const rightTokens = new Set(right.split('_').filter(Boolean));
+	const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+	const tokenScore = shared / Math.max(leftTokens.size, rightTokens.size, 1);
+
+	return Math.max(editScore, tokenScore);
+}
+
+export class ToolNameValidator {
+	private config: ToolNameValidatorConfig;
+	private ownMatcher?: ToolCapabilityMatcher;  // Without a server matcher, built on first use
+
+	constructor(
+		private readonly tools: Map<string, Tool>,
+		config: Partial<ToolNameValidatorConfig> = {},
+		private readonly toolMatcher?: () => ToolCapabilityMatcher,  // The server's matcher, rebuilt when its tools change
+	) {
+		this.config = { ...DEFAULT_CONFIG, ...config };
+	}
+
+	get strict(): boolean {
+		return this.config.strict;
+	}
+
+	/**
+	 * Validate tool names in the thought's current step.
+	 * Returns undefined when there is nothing to validate against.
+	 */
+	validate(thought: ThoughtData): ToolNameValidationResult | undefined {
+		const recommendations = thought.current_step?.recommended_tools ?? [];
+		if (recommendations.length === 0) return undefined;
+
+		const offered = new Set(thought.available_mcp_tools);
+		const registry = new Set(
+			Array.from(this.tools.keys()).filter(name => !this.config.ignoredTools.includes(name)),
+		);
+		if (offered.size === 0 && registry.size === 0) return undefined;
+
+		const issues: ToolNameIssue[] = [];
+		let checked = 0;
+
+		const check = (toolName: string, field: ToolNameIssue['field']) => {
+			checked++;
+			if (offered.has(toolName) || this.config.ignoredTools.includes(toolName)) return;
+
+			if (registry.has(toolName)) {
+				if (offered.size === 0) return;
+				issues.push({
+					tool_name: toolName,
+					field,
+					type: 'unavailable_tool',
+					message: `Tool "${toolName}" is registered but not listed in available_mcp_tools`,
+					suggestions: this.suggestCapabilityAlternatives(toolName, offered),
+				});
+				return;
+			}
+
+			const aliasOf = this.resolveAlias(toolName);
+			const suggestions = this.suggest(toolName, offered, registry);
+			issues.push({
+				tool_name: toolName,
+				field,
+				type: 'unknown_tool',
+				message: aliasOf
+					? `Tool "${toolName}" is an alias of "${aliasOf}"; recommend it by that name`
+					: `Tool "${toolName}" is not in available_mcp_tools or the tool registry`,
+				suggestions: aliasOf
+					? [aliasOf, ...suggestions.filter(name => name !== aliasOf)].slice(0, this.config.maxSuggestions)
+					: suggestions,
+			});
+		};
+
+		for (const recommendation of recommendations) {
+			check(recommendation.tool_name, 'tool_name');
+			for (const alternative of recommendation.alternatives ?? []) {
+				check(alternative, 'alternatives');
+			}
+		}
+
+		if (issues.length > 0) {
+			logger.warn('Recommended tools failed validation', {
+				thoughtNumber: thought.thought_number,
+				issues: issues.map(issue => `${issue.type}: ${issue.tool_name}`),
+			});
+		}
+
+		return {
+			valid: !issues.some(issue => issue.type === 'unknown_tool'),
+			checked,
+			issues,
+		};
+	}
+
+	/** The server's shared tool matcher, or one of this validator's own without a server */
+	private getMatcher(): ToolCapabilityMatcher {
+		if (this.toolMatcher) {
+			return this.toolMatcher();
+		}
+		this.ownMatcher ??= new ToolCapabilityMatcher(this.tools);
+		return this.ownMatcher;
+	}
+
+	/**
+	 * Registered tool that lists the name among its aliases
+	 */
+	private resolveAlias(toolName: string): string | undefined {
+		const normalized = normalizeName(toolName);
+		for (const tool of this.tools.values()) {
+			if (tool.aliases?.some(alias => normalizeName(alias) === normalized)) {
+				return tool.name;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Nearest known names by fuzzy matching, followed by capability-similar tools
+	 */
+	private suggest(toolName: string, offered: Set<string>, registry: Set<string>): string[] {
+		const candidates = new Set([...offered, ...registry]);
+		const ranked = Array.from(candidates)
+			.map(name => ({ name, similarity: nameSimilarity(toolName, name) }))
+			.filter(candidate => candidate.similarity >= this.config.minSimilarity)
+			.sort((a, b) => b.similarity - a.similarity)
+			.map(candidate => candidate.name);
+
+		const suggestions = ranked.slice(0, this.config.maxSuggestions);
+		const closestRegistered = ranked.find(name => registry.has(name));
+		if (closestRegistered) {
+			const allowed = offered.size > 0 ? offered : registry;
+			for (const similar of this.getMatcher().findSimilarTools(closestRegistered, this.config.maxSuggestions)) {
+				if (allowed.has(similar) && !suggestions.includes(similar)) {
+					suggestions.push(similar);
+				}
+			}
+		}
+
+		return suggestions.slice(0, this.config.maxSuggestions);
+	}
+
+	private suggestCapabilityAlternatives(toolName: string, offered: Set<string>): string[] {
+		const similar = this.getMatcher()
+			.findSimilarTools(toolName, this.tools.size)
+			.filter(name => offered.has(name));
+		const byName = Array.from(offered)
+			.filter(name => !similar.includes(name))
+			.map(name => ({ name, similarity: nameSimilarity(toolName, name) }))
+			.filter(candidate => candidate.similarity >= this.config.minSimilarity)
+			.sort((a, b) => b.similarity - a.similarity)
+			.map(candidate => candidate.name);
+
+		return [...similar, ...byName].slice(0, this.config.maxSuggestions);
+	}
+}
@@ -6,6 +6,7 @@ export interface ToolRecommendation {
 	priority: number;   // Order in the recommendation sequence
 	suggested_inputs?: Record<string, unknown>;  // Optional suggested parameters
 	alternatives?: string[];  // Alternative tools that could be used
+	confirmed?: boolean;  // The user approved this destructive or side-effecting call
 }
 
 export interface StepRecommendation {
@@ -26,6 +27,7 @@ export interface ThoughtData {
 	branch_id?: string;
 	needs_more_thoughts?: boolean;
 	next_thought_needed: boolean;
+	depends_on?: number[];  // Explicit DAG parents; overrides the inferred dependency
 	
 	// Recommendation-related fields
 	current_step?: StepRecommendation;  // Current step being considered
@@ -34,10 +36,23 @@ export interface ThoughtData {
 	
 	// Confidence scoring for backtracking support
 	confidence?: number;  // 0-1 confidence in current thought path
+
+	budget?: SessionBudgetInput;  // Tool spend limits for the rest of the session
+}
+
+export interface SessionBudgetInput {
+	max_high_cost_calls?: number;  // Calls to tools with costLevel "high"
+	max_cost_units?: number;  // Total cost units (free 0, low 1, medium 2, high 3)
+}
+
+export interface ToolCategoryConfidence {
+	category: string;
+	confidence: number;  // 0-1
 }
 
 export interface ToolCapability {
 	category: string;  // e.g., "data", "search", "analysis", "communication"
+	categories?: ToolCategoryConfidence[];  // Every category the tool fits, most confident first
 	tags: string[];  // Capability tags like "read", "write", "transform", "query"
 	inputTypes?: string[];  // Types of input the tool accepts
 	outputTypes?: string[];  // Types of output the tool produces
@@ -45,11 +60,25 @@ export interface ToolCapability {
 	costLevel?: 'free' | 'low' | 'medium' | 'high';  // Cost/resource level
 }
 
+/**
+ * MCP tool annotations; hints from the tool's server, not guarantees
+ */
+export interface ToolAnnotations {
+	title?: string;
+	readOnlyHint?: boolean;  // Does not modify its environment
+	destructiveHint?: boolean;  // May delete or overwrite data
+	idempotentHint?: boolean;  // Repeating a call with the same arguments has no further effect
+	openWorldHint?: boolean;  // Interacts with external entities such as the web
+}
+
 export interface Tool {
 	name: string;
 	description: string;
 	inputSchema: Record<string, unknown>;
 	capabilities?: ToolCapability;  // Extended capability metadata
+	annotations?: ToolAnnotations;  // MCP behaviour hints from tools/list
+	aliases?: string[];  // Other names the tool is known by
+	serverName?: string;  // MCP server the tool was discovered on
 }
 
 export interface ServerConfig {
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inferCapabilities } from '../src/capability-inference.js';
+import { ToolCapabilityMatcher, enrichToolsWithCapabilities } from '../src/tool-capabilities.js';
+import { Tool, ToolAnnotations } from '../src/types.js';
+
+const tool = (
+	name: string,
+	description: string,
+	properties: Record<string, Record<string, unknown>> = {},
+	annotations?: ToolAnnotations,
+): Tool => ({
+	name,
+	description,
+	inputSchema: { type: 'object', properties },
+	annotations,
+});
+
+describe('inferCapabilities', () => {
+	it('reads categories and input types from schema properties', () => {
+		const capabilities = inferCapabilities(tool('fetch', 'Fetches a URL and returns its contents as markdown', {
+			url: { type: 'string', format: 'uri' },
+			max_length: { type: 'number' },
+		}));
+
+		assert.equal(capabilities.category, 'web');
+		assert.deepStrictEqual(capabilities.inputTypes, ['url']);
+		assert.deepStrictEqual(capabilities.outputTypes, ['markdown']);
+		assert.ok(capabilities.tags.includes('read'));
+		assert.ok(capabilities.tags.includes('network'));
+	});
+
+	it('keeps every category with its confidence instead of the first match', () => {
+		const capabilities = inferCapabilities(tool('search_and_save', 'Searches the web and writes results to a file', {
+			query: { type: 'string' },
+			output_path: { type: 'string' },
+		}));
+
+		assert.equal(capabilities.category, 'search');
+		assert.deepStrictEqual(
+			capabilities.categories?.map(entry => entry.category),
+			['search', 'filesystem', 'web'],
+		);
+		const confidences = capabilities.categories!.map(entry => entry.confidence);
+		assert.deepStrictEqual(confidences, [...confidences].sort((a, b) => b - a));
+		assert.ok(confidences.every(confidence => confidence > 0 && confidence < 1));
+		assert.deepStrictEqual(capabilities.tags.sort(), ['query', 'write']);
+		assert.deepStrictEqual(capabilities.inputTypes, ['query', 'file_path']);
+	});
+
+	it('lets annotations override what the description suggests', () => {
+		const readOnly = inferCapabilities(tool('update_preview', 'Preview an update without writing it', {}, {
+			readOnlyHint: true,
+			openWorldHint: false,
+		}));
+		assert.deepStrictEqual(readOnly.tags.sort(), ['read', 'read-only']);
+
+		const destructive = inferCapabilities(tool('purge_path', 'Clean up a path', { path: { type: 'string' } }, {
+			destructiveHint: true,
+			idempotentHint: true,
+		}));
+		assert.equal(destructive.category, 'filesystem');
+		assert.deepStrictEqual(destructive.tags.sort(), ['delete', 'destructive', 'idempotent', 'write']);
+	});
+
+	it('matches whole words rather than substrings', () => {
+		// "update" contains "data" and "email" contains "ai"
+		const capabilities = inferCapabilities(tool('update_email', 'Update an email address', {}));
+		assert.ok(!capabilities.categories?.some(entry => entry.category === 'data'));
+		assert.equal(capabilities.complexity, 'low');
+
+		assert.equal(inferCapabilities(tool('mystery', 'Does things')).category, 'general');
+	});
+
+	it('rates tools with many inputs or technical terms as complex', () => {
+		const properties = Object.fromEntries(
+			Array.from({ length: 8 }, (_, index) => [`option_${index}`, { type: 'string' }]),
+		);
+		assert.equal(inferCapabilities(tool('configure', 'Configure the build', properties)).complexity, 'high');
+		assert.equal(inferCapabilities(tool('classify', 'Classify text with an ML model')).complexity, 'high');
+	});
+});
+
+describe('ToolCapabilityMatcher with inferred categories', () => {
+	it('matches secondary categories weighted by confidence', () => {
+		const tools = new Map([
+			['search_and_save', tool('search_and_save', 'Searches the web and writes results to a file', {
+				query: { type: 'string' },
+				output_path: { type: 'string' },
+			})],
+			['read_file', tool('read_file', 'Read a file', { path: { type: 'string' } })],
+			['explicit_files', {
+				name: 'explicit_files',
+				description: 'Manage files',
+				inputSchema: {},
+				capabilities: { category: 'filesystem', tags: [] },
+			}],
+		]);
+		enrichToolsWithCapabilities(tools);
+		const matcher = new ToolCapabilityMatcher(tools);
+
+		const matches = matcher.matchTools({ categories: ['filesystem'] });
+		assert.deepStrictEqual(
+			matches.map(match => match.toolName),
+			['explicit_files', 'read_file', 'search_and_save'],
+		);
+		assert.match(matches[2].reasons[0], /^Matches category: filesystem \(confidence 0\.\d\d\)$/);
+		assert.ok(matcher.getCategories().includes('web'));
+		assert.deepStrictEqual(
+			matcher.getToolsByCategory('search').map(entry => entry.name),
+			['search_and_save'],
+		);
+	});
+});
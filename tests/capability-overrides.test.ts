@@ -0,0 +1,149 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CapabilityOverrides, loadCapabilityOverrides } from '../src/capability-overrides.js';
+import { ConfigurationManager } from '../src/config-manager.js';
+import { enrichToolsWithCapabilities } from '../src/tool-capabilities.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { Tool } from '../src/types.js';
+
+const tool = (name: string, description: string): Tool => ({ name, description, inputSchema: {} });
+
+const TOOLS = [
+	tool('github_create_issue', 'Create an issue in a repository'),
+	tool('github_search_code', 'Search code in repositories'),
+	tool('send_email', 'Send an email notification'),
+];
+
+const writeOverrides = (content: unknown) => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-overrides-'));
+	const filePath = path.join(dir, 'capabilities.json');
+	fs.writeFileSync(filePath, JSON.stringify(content));
+	return { filePath, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+describe('loadCapabilityOverrides', () => {
+	it('reads patterns and rejects invalid fields with their path', () => {
+		const { filePath, cleanup } = writeOverrides({
+			tools: { 'github_*': { category: 'vcs', costLevel: 'low' } },
+		});
+		assert.deepStrictEqual(loadCapabilityOverrides(filePath), [
+			{ pattern: 'github_*', override: { category: 'vcs', costLevel: 'low' } },
+		]);
+
+		fs.writeFileSync(filePath, JSON.stringify({ tools: { send_email: { costLevel: 'expensive' } } }));
+		assert.throws(
+			() => loadCapabilityOverrides(filePath),
+			/Capability overrides validation failed for .*: tools\.send_email\.costLevel: /,
+		);
+		cleanup();
+	});
+
+	it('is read by the configuration manager from TOOL_CAPABILITIES_PATH', () => {
+		const { filePath, cleanup } = writeOverrides({ tools: { send_email: { costLevel: 'high' } } });
+		const manager = new ConfigurationManager({ TOOL_CAPABILITIES_PATH: filePath });
+
+		assert.equal(manager.getRuntimeConfig().toolCapabilitiesPath, filePath);
+		assert.equal(manager.loadCapabilityOverrides().length, 1);
+		assert.deepStrictEqual(new ConfigurationManager({}).loadCapabilityOverrides(), []);
+		cleanup();
+	});
+});
+
+describe('CapabilityOverrides', () => {
+	it('merges globs from least to most specific and exact names last over inferred capabilities', () => {
+		const tools = new Map(TOOLS.map(entry => [entry.name, { ...entry }]));
+		enrichToolsWithCapabilities(tools);
+		const inferredTags = tools.get('github_create_issue')!.capabilities!.tags;
+
+		const overrides = new CapabilityOverrides([
+			{ pattern: 'github_create_issue', override: { costLevel: 'high', aliases: ['new_issue'] } },
+			{ pattern: 'github_*', override: { category: 'vcs', costLevel: 'low' } },
+			{ pattern: '*', override: { complexity: 'medium' } },
+		]);
+		assert.equal(overrides.apply(tools), 3);
+
+		const createIssue = tools.get('github_create_issue')!;
+		assert.equal(createIssue.capabilities?.category, 'vcs');
+		assert.equal(createIssue.capabilities?.categories, undefined);
+		assert.equal(createIssue.capabilities?.costLevel, 'high');
+		assert.equal(createIssue.capabilities?.complexity, 'medium');
+		assert.deepStrictEqual(createIssue.capabilities?.tags, inferredTags);
+		assert.deepStrictEqual(createIssue.aliases, ['new_issue']);
+		assert.equal(tools.get('github_search_code')!.capabilities?.costLevel, 'low');
+		assert.equal(tools.get('send_email')!.capabilities?.category, 'communication');
+	});
+
+	it('starts from the original capabilities when rules change', () => {
+		const tools = new Map(TOOLS.map(entry => [entry.name, { ...entry }]));
+		enrichToolsWithCapabilities(tools);
+		const inferred = tools.get('send_email')!.capabilities;
+
+		const overrides = new CapabilityOverrides([{ pattern: 'send_*', override: { costLevel: 'high' } }]);
+		overrides.apply(tools);
+		assert.equal(tools.get('send_email')!.capabilities?.costLevel, 'high');
+
+		overrides.setRules([]);
+		overrides.apply(tools);
+		assert.deepStrictEqual(tools.get('send_email')!.capabilities, inferred);
+	});
+});
+
+describe('Server capability overrides', () => {
+	it('applies the file, reloads it and resolves aliases', async () => {
+		const { filePath, cleanup } = writeOverrides({
+			tools: { 'github_*': { category: 'vcs', aliases: ['gh'] } },
+		});
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: TOOLS.map(entry => ({ ...entry })),
+			capabilityOverridesPath: filePath,
+		});
+
+		const vcs = (await server.matchTools({ categories: ['vcs'] })).structuredContent as any;
+		assert.deepStrictEqual(
+			vcs.matches.map((match: any) => match.tool_name).sort(),
+			['github_create_issue', 'github_search_code'],
+		);
+
+		fs.writeFileSync(filePath, JSON.stringify({
+			tools: { github_create_issue: { category: 'tracker', aliases: ['open_ticket'] } },
+		}));
+		assert.equal(server.reloadCapabilityOverrides(), 1);
+
+		const tracker = (await server.matchTools({ categories: ['tracker'] })).structuredContent as any;
+		assert.equal(tracker.matches[0].tool_name, 'github_create_issue');
+		assert.deepStrictEqual(tracker.matches[0].aliases, ['open_ticket']);
+		assert.ok(!tracker.available_categories.includes('vcs'));
+
+		const byAlias = (await server.matchTools({ intent: 'open ticket' })).structuredContent as any;
+		assert.equal(byAlias.matches[0].tool_name, 'github_create_issue');
+
+		const result = (await server.processThought({
+			available_mcp_tools: TOOLS.map(entry => entry.name),
+			thought: 'File the bug',
+			thought_number: 1,
+			total_thoughts: 1,
+			next_thought_needed: false,
+			current_step: {
+				step_description: 'Open a ticket',
+				expected_outcome: 'Ticket created',
+				recommended_tools: [{ tool_name: 'open_ticket', confidence: 0.8, rationale: 'Track it', priority: 1 }],
+			},
+		})).structuredContent as any;
+		const [issue] = result.tool_validation.issues;
+		assert.match(issue.message, /alias of "github_create_issue"/);
+		assert.equal(issue.suggestions[0], 'github_create_issue');
+
+		// An invalid file keeps the overrides that were loaded before
+		fs.writeFileSync(filePath, '{ not json');
+		assert.equal(server.reloadCapabilityOverrides(), 0);
+		const unchanged = (await server.matchTools({ categories: ['tracker'] })).structuredContent as any;
+		assert.equal(unchanged.matches[0].tool_name, 'github_create_issue');
+
+		server.shutdown();
+		cleanup();
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SCORING_CONFIG } from '../src/config-constants.js';
+import {
+	longestCommonSubsequence,
+	sequenceSimilarity,
+	suffixMatch,
+	weightedEditDistance,
+} from '../src/sequence-matching.js';
+import { extractTerms, stem } from '../src/text-analysis.js';
+import { ToolChainLibrary } from '../src/tool-chains.js';
+
+describe('Sequence alignment', () => {
+	it('counts tools shared in order with gaps', () => {
+		assert.equal(longestCommonSubsequence(['search', 'fetch', 'read', 'write'], ['search', 'read', 'lint', 'write']), 3);
+		assert.equal(longestCommonSubsequence([], ['search']), 0);
+	});
+
+	it('charges less for replacing a tool with a similarly named one', () => {
+		assert.equal(weightedEditDistance(['search', 'read'], ['search', 'read']), 0);
+		assert.equal(weightedEditDistance(['search'], ['search', 'read']), 1);
+		assert.ok(weightedEditDistance(['read_file'], ['read_files']) < weightedEditDistance(['read_file'], ['deploy']));
+		assert.equal(sequenceSimilarity([], []), 1);
+	});
+
+	it('weights the most recent tools most in suffix matches', () => {
+		assert.deepStrictEqual(suffixMatch(['list', 'search', 'read'], ['search', 'read', 'write']), {
+			length: 2,
+			score: 1.7,
+		});
+		assert.deepStrictEqual(suffixMatch(['search', 'deploy'], ['search', 'read']), { length: 0, score: 0 });
+	});
+});
+
+describe('Keyword terms', () => {
+	it('stems inflections to the same term', () => {
+		for (const [word, expected] of [
+			['searching', 'search'],
+			['searches', 'search'],
+			['files', 'fil'],
+			['file', 'fil'],
+			['writing', 'writ'],
+			['queries', 'query'],
+			['mapping', 'map'],
+			['status', 'status'],
+		]) {
+			assert.equal(stem(word), expected, word);
+		}
+	});
+
+	it('drops stop words and splits identifiers', () => {
+		assert.deepStrictEqual(extractTerms('Search the web for readFile results'), ['search', 'web', 'read', 'fil', 'result']);
+	});
+});
+
+describe('ToolChainLibrary.findMatchingChains', () => {
+	const buildLibrary = () => {
+		const library = new ToolChainLibrary(DEFAULT_SCORING_CONFIG.toolChains);
+		const record = (tools: string[], context: string) => {
+			tools.forEach(tool => library.recordToolUse(tool));
+			library.completeChain(true, 0.9, context);
+		};
+		record(['search_web', 'fetch_page', 'summarize'], 'Researching recent papers');
+		record(['list_files', 'read_file', 'edit_file', 'run_tests'], 'Fixing a failing test');
+		return library;
+	};
+
+	it('surfaces similar workflows that diverge from the recorded prefix', () => {
+		const matches = buildLibrary().findMatchingChains(['grep', 'read_files', 'edit_file']);
+		const [top] = matches;
+
+		assert.deepStrictEqual(top.chain.sequence, ['list_files', 'read_file', 'edit_file', 'run_tests']);
+		assert.equal(top.breakdown.prefix, 0);
+		assert.equal(top.breakdown.subsequence, 4);
+		assert.ok(top.breakdown.editSimilarity > 0);
+		assert.equal(top.breakdown.suffix, 8);
+	});
+
+	it('matches stemmed keywords and reports the score breakdown', () => {
+		const [top] = buildLibrary().findMatchingChains([], ['research', 'the', 'paper']);
+
+		assert.deepStrictEqual(top.chain.sequence, ['search_web', 'fetch_page', 'summarize']);
+		assert.deepStrictEqual(top.matchedKeywords, ['research', 'paper']);
+		assert.equal(top.breakdown.keywords, 10);
+		assert.equal(
+			top.matchScore,
+			Object.values(top.breakdown).reduce((sum, points) => sum + points, 0),
+		);
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ThoughtDAG } from '../src/dag.js';
+import { analyzeCriticalPath } from '../src/critical-path.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ThoughtData, Tool } from '../src/types.js';
+
+const thought = (thoughtNumber: number, dependsOn: number[], tools: string[] = []): ThoughtData => ({
+	available_mcp_tools: [],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 5,
+	next_thought_needed: true,
+	depends_on: dependsOn,
+	current_step: tools.length > 0
+		? {
+			step_description: `step ${thoughtNumber}`,
+			expected_outcome: 'done',
+			recommended_tools: tools.map((toolName, index) => ({
+				tool_name: toolName,
+				confidence: 0.9,
+				rationale: 'needed',
+				priority: index + 1,
+			})),
+		}
+		: undefined,
+});
+
+// 1 -> 2 -> 3 -> 5 and 1 -> 4 -> 5
+const buildDag = () => {
+	const dag = new ThoughtDAG();
+	dag.addThought(thought(1, []));
+	dag.addThought(thought(2, [1], ['slow_tool']));
+	dag.addThought(thought(3, [2]));
+	dag.addThought(thought(4, [1], ['heavy_tool']));
+	dag.addThought(thought(5, [3, 4]));
+	return dag;
+};
+
+const slackOf = (analysis: ReturnType<typeof analyzeCriticalPath>) =>
+	Object.fromEntries(analysis.nodes.map(node => [node.thought_number, node.slack]));
+
+describe('analyzeCriticalPath', () => {
+	it('finds the longest chain and the slack of side branches', () => {
+		const analysis = analyzeCriticalPath(buildDag());
+
+		assert.deepStrictEqual(analysis.critical_path, [1, 2, 3, 5]);
+		assert.equal(analysis.length, 4);
+		assert.deepStrictEqual(slackOf(analysis), { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 });
+	});
+
+	it('weights thoughts by the complexity of their tools', () => {
+		const tools = new Map<string, Tool>([
+			['slow_tool', { name: 'slow_tool', description: '', inputSchema: {}, capabilities: { category: 'data', tags: [], complexity: 'low' } }],
+			['heavy_tool', { name: 'heavy_tool', description: '', inputSchema: {}, capabilities: { category: 'data', tags: [], complexity: 'high' } }],
+		]);
+
+		const analysis = analyzeCriticalPath(buildDag(), 'complexity', tools);
+
+		// 1 (1) -> 4 (1 + 3) -> 5 (1) outweighs 1 -> 2 (1 + 1) -> 3 (1) -> 5
+		assert.deepStrictEqual(analysis.critical_path, [1, 4, 5]);
+		assert.equal(analysis.length, 6);
+		assert.equal(slackOf(analysis)[2], 1);
+	});
+
+	it('uses observed durations and estimates untimed thoughts', () => {
+		const dag = buildDag();
+		Object.assign(dag.getNode(2)!, { startedAt: 0, completedAt: 100 });
+		Object.assign(dag.getNode(4)!, { startedAt: 0, completedAt: 1000 });
+
+		const analysis = analyzeCriticalPath(dag, 'duration');
+		const byThought = new Map(analysis.nodes.map(node => [node.thought_number, node]));
+
+		assert.equal(byThought.get(4)!.weight, 1000);
+		assert.equal(byThought.get(4)!.estimated, false);
+		// Untimed thoughts take the mean observed duration
+		assert.equal(byThought.get(3)!.weight, 550);
+		assert.ok(byThought.get(3)!.estimated);
+		assert.deepStrictEqual(analysis.critical_path, [1, 4, 5]);
+	});
+
+	it('handles an empty DAG', () => {
+		assert.deepStrictEqual(analyzeCriticalPath(new ThoughtDAG()).critical_path, []);
+	});
+});
+
+describe('Critical path exposure', () => {
+	it('reports the critical path in dag_stats and through getCriticalPath', async () => {
+		const server = new ToolAwareSequentialThinkingServer({ enablePersistence: false, enableDAG: true });
+
+		await server.processThought(thought(1, []));
+		await server.processThought(thought(2, [1]));
+		const last = await server.processThought(thought(3, [1]));
+
+		const dagStats = (last.structuredContent as any).dag_stats;
+		assert.equal(dagStats.criticalPathLength, 2);
+		assert.deepStrictEqual(dagStats.criticalPath, [1, 2]);
+		assert.equal(dagStats.slack, 0);
+
+		const result = await server.getCriticalPath({ weighting: 'unit' });
+		const payload = result.structuredContent as any;
+		assert.equal(payload.weighting, 'unit');
+		assert.equal(payload.nodes.length, 3);
+
+		server.shutdown();
+	});
+});
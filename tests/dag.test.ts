@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { ThoughtDAG } from '../src/dag.js';
+import { DagCycleError, ThoughtDAG } from '../src/dag.js';
 import { ThoughtData } from '../src/types.js';
 
 const baseThought = (overrides: Partial<ThoughtData>): ThoughtData => ({
@@ -69,3 +69,42 @@ describe('ThoughtDAG', () => {
 		});
 	});
 });
+
+describe('ThoughtDAG explicit dependencies', () => {
+	it('honors depends_on for fan-out and fan-in', () => {
+		const dag = new ThoughtDAG();
+
+		dag.addThought(baseThought({ thought_number: 1 }));
+		dag.addThought(baseThought({ thought_number: 2, depends_on: [1] }));
+		dag.addThought(baseThought({ thought_number: 3, depends_on: [1] }));
+		dag.addThought(baseThought({ thought_number: 4, depends_on: [2, 3] }));
+
+		assert.deepStrictEqual(dag.getParallelGroups(), [[1], [2, 3], [4]]);
+		assert.deepStrictEqual(dag.getIndependentThoughts(2), [3]);
+		assert.deepStrictEqual(dag.getIndependentThoughts(4), []);
+	});
+
+	it('treats an empty depends_on as a root thought', () => {
+		const dag = new ThoughtDAG();
+
+		dag.addThought(baseThought({ thought_number: 1 }));
+		dag.addThought(baseThought({ thought_number: 2, depends_on: [] }));
+
+		assert.deepStrictEqual(dag.getParallelGroups(), [[1, 2]]);
+	});
+
+	it('rejects cycles at insertion time without changing the graph', () => {
+		const dag = new ThoughtDAG();
+
+		dag.addThought(baseThought({ thought_number: 1, depends_on: [3] }));
+		dag.addThought(baseThought({ thought_number: 2, depends_on: [1] }));
+
+		assert.throws(
+			() => dag.addThought(baseThought({ thought_number: 3, depends_on: [2] })),
+			(error: unknown) => error instanceof DagCycleError
+				&& JSON.stringify(error.cycle) === JSON.stringify([3, 2, 1, 3]),
+		);
+		assert.throws(() => dag.addThought(baseThought({ thought_number: 5, depends_on: [5] })), DagCycleError);
+		assert.equal(dag.getStats().total, 2);
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ThoughtDAG } from '../src/dag.js';
+import { buildExecutionPlan } from '../src/execution-plan.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ThoughtData } from '../src/types.js';
+
+const thought = (thoughtNumber: number, tools: string[], dependsOn?: number[]): ThoughtData => ({
+	available_mcp_tools: [],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 5,
+	next_thought_needed: true,
+	depends_on: dependsOn,
+	current_step: tools.length > 0
+		? {
+			step_description: `step ${thoughtNumber}`,
+			expected_outcome: 'done',
+			recommended_tools: tools.map((toolName, index) => ({
+				tool_name: toolName,
+				confidence: 0.9,
+				rationale: 'needed',
+				priority: index + 1,
+			})),
+		}
+		: undefined,
+});
+
+const waveThoughts = (plan: ReturnType<typeof buildExecutionPlan>) =>
+	plan.waves.map(wave => wave.steps.map(step => step.thought_number));
+
+describe('buildExecutionPlan', () => {
+	it('groups independent tool steps into waves and skips reasoning thoughts', () => {
+		const dag = new ThoughtDAG();
+		dag.addThought(thought(1, []));
+		dag.addThought(thought(2, ['search_web'], [1]));
+		dag.addThought(thought(3, ['read_file', 'grep'], [1]));
+		dag.addThought(thought(4, [], [2, 3]));
+		dag.addThought(thought(5, ['write_report'], [4]));
+
+		const plan = buildExecutionPlan(dag);
+
+		assert.deepStrictEqual(waveThoughts(plan), [[2, 3], [5]]);
+		assert.deepStrictEqual(plan.waves[1].steps[0].depends_on, [2, 3]);
+		assert.deepStrictEqual(plan.waves[0].steps[1].tool_calls.map(call => call.tool_name), ['read_file', 'grep']);
+		assert.deepStrictEqual(plan.completed, [1]);
+		assert.equal(plan.max_parallelism, 2);
+	});
+
+	it('advances waves as steps complete and propagates failures', () => {
+		const dag = new ThoughtDAG();
+		dag.addThought(thought(1, ['a']));
+		dag.addThought(thought(2, ['b'], [1]));
+		dag.addThought(thought(3, ['c'], [2]));
+		dag.addThought(thought(4, ['d'], []));
+
+		dag.markCompleted(1);
+		assert.deepStrictEqual(waveThoughts(buildExecutionPlan(dag)), [[2, 4], [3]]);
+
+		dag.markFailed(2, 'boom');
+		const plan = buildExecutionPlan(dag);
+		assert.deepStrictEqual(waveThoughts(plan), [[4]]);
+		assert.deepStrictEqual(plan.failed.map(entry => entry.thought_number), [2, 3]);
+	});
+
+	it('reports steps waiting on thoughts that do not exist yet as blocked', () => {
+		const dag = new ThoughtDAG();
+		dag.addThought(thought(1, ['a'], [7]));
+
+		const plan = buildExecutionPlan(dag);
+		assert.deepStrictEqual(plan.waves, []);
+		assert.deepStrictEqual(plan.blocked, [{ thought_number: 1, missing_dependencies: [7] }]);
+	});
+});
+
+describe('Execution plan tools', () => {
+	const setupServer = (dbPath: string) => new ToolAwareSequentialThinkingServer({
+		dbPath,
+		sessionId: 'planner',
+		enablePersistence: true,
+		enableDAG: true,
+	});
+
+	it('drives steps through report_step_result and restores results after restart', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-plan-'));
+		const dbPath = path.join(dir, 'test.db');
+		const server = setupServer(dbPath);
+		await server.initialize();
+
+		await server.processThought(thought(1, ['search_web']));
+		await server.processThought(thought(2, ['read_file'], []));
+		await server.processThought(thought(3, ['summarize'], [1, 2]));
+
+		const initial = (await server.getExecutionPlan()).structuredContent as any;
+		assert.deepStrictEqual(initial.waves.map((wave: any) => wave.steps.length), [2, 1]);
+		assert.equal(initial.dag_stats.completed, 0);
+
+		await server.reportStepResult({ thought_number: 1, status: 'executing' });
+		const completed = await server.reportStepResult({ thought_number: 1, status: 'completed', result: { hits: 3 } });
+		const completedPayload = completed.structuredContent as any;
+		assert.deepStrictEqual(completedPayload.plan.completed, [1]);
+
+		const failed = await server.reportStepResult({ thought_number: 2, status: 'failed', error: 'file missing' });
+		assert.deepStrictEqual((failed.structuredContent as any).propagated_failures, [3]);
+
+		const again = await server.reportStepResult({ thought_number: 2, status: 'completed' });
+		assert.equal(again.isError, true);
+		assert.equal((again.structuredContent as any).errorCategory, 'ValidationError');
+
+		server.shutdown();
+
+		const restarted = setupServer(dbPath);
+		await restarted.initialize();
+		const restored = (await restarted.getExecutionPlan()).structuredContent as any;
+		assert.deepStrictEqual(restored.completed, [1]);
+		assert.deepStrictEqual(restored.failed, [
+			{ thought_number: 2, error: 'file missing' },
+			{ thought_number: 3, error: 'Dependency thought 2 failed' },
+		]);
+
+		restarted.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('rejects unknown thoughts and a disabled DAG', async () => {
+		const server = new ToolAwareSequentialThinkingServer({ enablePersistence: false, enableDAG: true });
+		const missing = await server.reportStepResult({ thought_number: 9, status: 'completed' });
+		assert.equal((missing.structuredContent as any).errorType, 'DagNodeNotFoundError');
+		server.shutdown();
+
+		const noDag = new ToolAwareSequentialThinkingServer({ enablePersistence: false, enableDAG: false });
+		const plan = await noDag.getExecutionPlan();
+		assert.equal(plan.isError, true);
+		assert.match((plan.structuredContent as any).error, /ENABLE_DAG=true/);
+		noDag.shutdown();
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ThoughtDAG } from '../src/dag.js';
+import {
+	buildThoughtGraph,
+	confidenceBand,
+	toDot,
+	toJsonGraph,
+	toMermaid,
+} from '../src/graph-export.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ThoughtData } from '../src/types.js';
+
+const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+	available_mcp_tools: [],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 4,
+	next_thought_needed: true,
+	...extra,
+});
+
+// 1 -> 2, 1 -> 3 (branch "alt"), 2 -> 4 (revision of 2)
+const history = [
+	thought(1, { confidence: 0.9 }),
+	thought(2, { confidence: 0.5 }),
+	thought(3, { branch_from_thought: 1, branch_id: 'alt', confidence: 0.2 }),
+	thought(4, { is_revision: true, revises_thought: 2 }),
+];
+const branches = { alt: [history[2]] };
+
+describe('buildThoughtGraph', () => {
+	it('types edges and nodes by dependency kind', () => {
+		const graph = buildThoughtGraph('s1', history, branches);
+
+		assert.deepStrictEqual(graph.edges, [
+			{ from: 't1', to: 't2', type: 'dependency' },
+			{ from: 't1', to: 't3', type: 'branch' },
+			{ from: 't2', to: 't4', type: 'revision' },
+		]);
+		assert.deepStrictEqual(graph.nodes.map(node => node.kind), ['thought', 'thought', 'branch', 'revision']);
+		assert.deepStrictEqual(graph.nodes.map(node => node.status), ['recorded', 'recorded', 'recorded', 'recorded']);
+		assert.deepStrictEqual(graph.branches, { alt: [3] });
+	});
+
+	it('takes statuses and explicit dependencies from the DAG', () => {
+		const dag = new ThoughtDAG();
+		dag.addThought(thought(1));
+		dag.addThought(thought(2, { depends_on: [] }));
+		dag.addThought(thought(3, { depends_on: [1, 2] }));
+		dag.markFailed(2, 'boom');
+
+		const graph = buildThoughtGraph('s1', dag.getNodes().map(node => node.thought), {}, dag);
+
+		assert.deepStrictEqual(graph.edges.map(edge => `${edge.from}->${edge.to}`), ['t1->t3', 't2->t3']);
+		assert.equal(graph.nodes[1].status, 'failed');
+	});
+
+	it('bands confidence', () => {
+		assert.equal(confidenceBand(0.7), 'high');
+		assert.equal(confidenceBand(0.4), 'medium');
+		assert.equal(confidenceBand(0.1), 'low');
+		assert.equal(confidenceBand(undefined), 'unknown');
+	});
+});
+
+describe('Graph renderers', () => {
+	const graph = buildThoughtGraph('s1', history, branches);
+
+	it('renders a styled Mermaid flowchart with branch subgraphs', () => {
+		const mermaid = toMermaid(graph);
+
+		assert.ok(mermaid.startsWith('flowchart TD'));
+		assert.match(mermaid, /subgraph branch_alt\["branch: alt"\]\n {8}t3\[\/"#3 \(0\.20\): thought 3"\/\]\n {4}end/);
+		assert.match(mermaid, /t4\{\{"#4: thought 4"\}\}/);
+		assert.match(mermaid, /t1 --> t2/);
+		assert.match(mermaid, /t2 -\.->\|revision\| t4/);
+		assert.match(mermaid, /class t3 conf_low/);
+		assert.match(mermaid, /classDef conf_low stroke:#c62828,stroke-width:2px,stroke-dasharray:5 5/);
+	});
+
+	it('renders a Graphviz digraph with branch clusters', () => {
+		const dot = toDot(graph);
+
+		assert.ok(dot.startsWith('digraph "s1" {'));
+		assert.match(dot, /subgraph "cluster_alt" \{\n {8}label="branch: alt";/);
+		assert.match(dot, /t4 \[label="#4: thought 4" shape=hexagon/);
+		assert.match(dot, /t1 -> t3 \[style=dashed label="branch"\];/);
+		assert.ok(dot.endsWith('}'));
+	});
+
+	it('renders a JSON Graph Format document', () => {
+		const json = toJsonGraph(graph);
+
+		assert.equal(json.graph.directed, true);
+		assert.deepStrictEqual(Object.keys(json.graph.nodes), ['t1', 't2', 't3', 't4']);
+		assert.equal(json.graph.nodes.t2.metadata.confidence_band, 'medium');
+		assert.deepStrictEqual(json.graph.edges[2], { source: 't2', target: 't4', relation: 'revision' });
+	});
+
+	it('escapes quotes and newlines in labels', () => {
+		const quoted = buildThoughtGraph('s1', [thought(1, { thought: 'say "hi"\nthen leave' })], {});
+
+		assert.match(toMermaid(quoted), /t1\["#1: say #quot;hi#quot; then leave"\]/);
+		assert.match(toDot(quoted), /label="#1: say \\"hi\\" then leave"/);
+	});
+});
+
+describe('Graph export tool and resource', () => {
+	it('exports the session graph in every format', async () => {
+		const server = new ToolAwareSequentialThinkingServer({ sessionId: 'grapher', enablePersistence: false, enableDAG: true });
+		for (const entry of history) {
+			await server.processThought(entry);
+		}
+
+		const result = await server.exportGraph({ format: 'dot' });
+		const payload = result.structuredContent as any;
+		assert.equal(payload.mime_type, 'text/vnd.graphviz');
+		assert.equal(payload.node_count, 4);
+		assert.equal(payload.edge_count, 3);
+		assert.match(payload.content, /fillcolor="#c8e6c9"/);
+
+		const resources = await server.listGraphResources();
+		assert.ok(resources.some(resource => resource.uri.endsWith('/graph/mermaid')));
+
+		const resource = await server.readGraphResource('thinking://sessions/grapher/graph/json', 'grapher', 'json');
+		assert.equal(resource.contents[0].mimeType, 'application/json');
+		assert.equal(JSON.parse(resource.contents[0].text).graph.edges.length, 3);
+
+		await assert.rejects(() => server.readGraphResource('thinking://sessions/grapher/graph/png', 'grapher', 'png'));
+		await assert.rejects(() => server.readGraphResource('thinking://sessions/missing/graph/dot', 'missing', 'dot'));
+
+		server.shutdown();
+	});
+});
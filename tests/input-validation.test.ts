@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSkeleton, validateAgainstSchema } from '../src/input-validation.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+
+const searchSchema = {
+	type: 'object',
+	properties: {
+		query: { type: 'string', minLength: 1 },
+		limit: { type: 'integer', minimum: 1, default: 10 },
+		mode: { type: 'string', enum: ['web', 'news'] },
+		filters: {
+			type: 'object',
+			properties: { site: { type: 'string' }, since: { type: 'string' } },
+			required: ['site'],
+		},
+	},
+	required: ['query', 'mode'],
+};
+
+describe('validateAgainstSchema', () => {
+	it('reports required, type, enum and unknown property problems by path', () => {
+		const issues = validateAgainstSchema(searchSchema, {
+			limit: 'ten',
+			mode: 'images',
+			filters: { since: 2024 },
+			qurey: 'typo',
+		});
+		const byPath = Object.fromEntries(issues.map(issue => [issue.path, issue]));
+
+		assert.equal(byPath.query.type, 'missing_required');
+		assert.equal(byPath.limit.type, 'type_mismatch');
+		assert.equal(byPath.mode.type, 'enum_mismatch');
+		assert.equal(byPath['filters.site'].type, 'missing_required');
+		assert.equal(byPath['filters.since'].type, 'type_mismatch');
+		assert.equal(byPath.qurey.type, 'unknown_property');
+		assert.equal(byPath.qurey.severity, 'warning');
+	});
+
+	it('treats unknown properties as errors when additionalProperties is false', () => {
+		const issues = validateAgainstSchema(
+			{ type: 'object', properties: { path: { type: 'string' } }, additionalProperties: false },
+			{ path: '/tmp', recursive: true },
+		);
+		assert.deepStrictEqual(issues.map(issue => [issue.path, issue.severity]), [['recursive', 'error']]);
+	});
+
+	it('accepts values matching any anyOf branch', () => {
+		const schema = { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] };
+		assert.deepStrictEqual(validateAgainstSchema(schema, ['a', 'b']), []);
+		assert.equal(validateAgainstSchema(schema, 42)[0].type, 'type_mismatch');
+	});
+});
+
+describe('buildSkeleton', () => {
+	it('keeps suggested inputs and fills required arguments with placeholders', () => {
+		assert.deepStrictEqual(buildSkeleton(searchSchema, { query: 'mcp', filters: {} }), {
+			query: 'mcp',
+			mode: 'web',
+			filters: { site: '' },
+		});
+	});
+});
+
+describe('Input validation in processThought', () => {
+	it('returns per-tool diagnostics and a skeleton for registered tools', async () => {
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: [{ name: 'search_web', description: 'Search the web', inputSchema: searchSchema }],
+		});
+
+		const result = await server.processThought({
+			thought: 'search for docs',
+			thought_number: 1,
+			total_thoughts: 1,
+			next_thought_needed: false,
+			available_mcp_tools: ['search_web'],
+			current_step: {
+				step_description: 'search',
+				expected_outcome: 'links',
+				recommended_tools: [{
+					tool_name: 'search_web',
+					confidence: 0.9,
+					rationale: 'find docs',
+					priority: 1,
+					suggested_inputs: { query: 'mcp spec' },
+				}],
+			},
+		});
+
+		const [validation] = (result.structuredContent as any).input_validation;
+		assert.equal(validation.tool_name, 'search_web');
+		assert.equal(validation.valid, false);
+		assert.deepStrictEqual(validation.issues.map((issue: any) => issue.path), ['mode']);
+		assert.deepStrictEqual(validation.skeleton, { query: 'mcp spec', mode: 'web' });
+
+		server.shutdown();
+	});
+});
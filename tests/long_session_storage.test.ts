@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { StepRecommendation } from '../src/types.js';
+
+const THOUGHTS = 300;
+// Storing every previous step again with each thought took about 15 MiB here
+const MAX_DB_BYTES = 4 * 1024 * 1024;
+const MAX_JSONL_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Process the session, echoing the previous_steps of each response like a client does.
+ * Returns the elapsed time in milliseconds.
+ */
+async function runLongSession(server: ToolAwareSequentialThinkingServer): Promise<number> {
+    const startedAt = Date.now();
+    let previousSteps: StepRecommendation[] = [];
+    for (let i = 1; i <= THOUGHTS; i++) {
+        const result = await server.processThought({
+            thought: `Thought ${i}: working through the next part of the task.`,
+            thought_number: i,
+            total_thoughts: THOUGHTS,
+            next_thought_needed: i < THOUGHTS,
+            available_mcp_tools: ['search_docs', 'read_file'],
+            current_step: {
+                step_description: `Step ${i}: look up and read the material for part ${i}`,
+                expected_outcome: `Notes for part ${i}`,
+                recommended_tools: [
+                    { tool_name: 'search_docs', confidence: 0.9, rationale: 'Find the material', priority: 1, suggested_inputs: { query: `part ${i}` } },
+                    { tool_name: 'read_file', confidence: 0.8, rationale: 'Read what was found', priority: 2 }
+                ]
+            },
+            // Clients send back the previous_steps of the last response
+            previous_steps: previousSteps
+        });
+        assert.ok(!result.isError, `Thought ${i} should not error`);
+        previousSteps = (result.structuredContent as any).previous_steps;
+    }
+    return Date.now() - startedAt;
+}
+
+test('Long Session Storage Suite', async (t) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-long-session-'));
+    const dbPath = path.join(dir, 'test.db');
+
+    await t.test(`Scenario: ${THOUGHTS} thoughts echoing previous_steps`, async () => {
+        const server = new ToolAwareSequentialThinkingServer({
+            enablePersistence: true,
+            dbPath,
+            sessionId: 'long-session',
+            enableDAG: true,
+            maxHistorySize: 1000
+        });
+
+        const elapsedMs = await runLongSession(server);
+        server.shutdown();
+
+        const db = new Database(dbPath, { readonly: true });
+        const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+        const steps = count('steps');
+        const tools = count('step_tools');
+        const references = count('thought_steps');
+        db.close();
+        const dbBytes = fs.statSync(dbPath).size;
+
+        console.log(`${THOUGHTS} thoughts in ${elapsedMs}ms: ${steps} steps, ${tools} tools, ${references} step references, ${(dbBytes / 1024).toFixed(0)} KiB`);
+
+        // Each step is stored once; each thought references its current step and the one
+        // previous step it adds, so references grow linearly with the session
+        assert.strictEqual(steps, THOUGHTS);
+        assert.strictEqual(tools, THOUGHTS * 2);
+        assert.strictEqual(references, THOUGHTS * 2);
+        assert.ok(dbBytes < MAX_DB_BYTES, `Database should stay under ${MAX_DB_BYTES} bytes, was ${dbBytes}`);
+
+        // The session still rehydrates with every previous step
+        const reopened = new ToolAwareSequentialThinkingServer({
+            enablePersistence: true,
+            dbPath,
+            sessionId: 'long-session'
+        });
+        await reopened.initialize();
+        const history = (reopened as any).sessions.get('long-session').processor.getHistory();
+        assert.strictEqual(history.length, THOUGHTS);
+        assert.strictEqual(history[THOUGHTS - 1].previous_steps.length, THOUGHTS);
+        reopened.shutdown();
+    });
+
+    await t.test(`Scenario: ${THOUGHTS} thoughts echoing previous_steps (JSONL)`, async () => {
+        const jsonlPath = path.join(dir, 'test.jsonl');
+        const server = new ToolAwareSequentialThinkingServer({
+            enablePersistence: true,
+            storageBackend: 'jsonl',
+            jsonlPath,
+            sessionId: 'long-session',
+            enableDAG: true,
+            maxHistorySize: 1000
+        });
+
+        const elapsedMs = await runLongSession(server);
+        server.shutdown();
+
+        const records = fs.readFileSync(jsonlPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+        const steps = records.filter(record => record.type === 'step').length;
+        const stepIds = records
+            .filter(record => record.type === 'thought')
+            .reduce((total, record) => total + record.previous_step_ids.length, 0);
+        const jsonlBytes = fs.statSync(jsonlPath).size;
+
+        console.log(`${THOUGHTS} thoughts in ${elapsedMs}ms: ${steps} step records, ${stepIds} previous step ids, ${(jsonlBytes / 1024).toFixed(0)} KiB of JSONL`);
+
+        // Each step is written once; thoughts only carry the id of the previous step they add
+        assert.strictEqual(steps, THOUGHTS);
+        assert.strictEqual(stepIds, THOUGHTS);
+        assert.ok(records.every(record => record.type !== 'thought' || record.thought.previous_steps === undefined));
+        assert.ok(jsonlBytes < MAX_JSONL_BYTES, `JSONL file should stay under ${MAX_JSONL_BYTES} bytes, was ${jsonlBytes}`);
+
+        // The session still rehydrates with every previous step
+        const reopened = new ToolAwareSequentialThinkingServer({
+            enablePersistence: true,
+            storageBackend: 'jsonl',
+            jsonlPath,
+            sessionId: 'long-session'
+        });
+        await reopened.initialize();
+        const history = (reopened as any).sessions.get('long-session').processor.getHistory();
+        assert.strictEqual(history.length, THOUGHTS);
+        assert.strictEqual(history[THOUGHTS - 1].previous_steps.length, THOUGHTS);
+        assert.strictEqual(history[THOUGHTS - 1].previous_steps[0].step_description, 'Step 1: look up and read the material for part 1');
+        reopened.shutdown();
+    });
+
+    fs.rmSync(dir, { recursive: true, force: true });
+});
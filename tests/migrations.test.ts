@@ -0,0 +1,247 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+import {
+	getSchemaVersion,
+	LATEST_SCHEMA_VERSION,
+	Migration,
+	MIGRATIONS,
+	runMigrations,
+	SchemaVersionError,
+} from '../src/migrations.js';
+import { PersistenceLayer } from '../src/persistence.js';
+import { ConfigurationManager } from '../src/config-manager.js';
+
+const tempDir = () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-migrations-'));
+	return { dir, dbPath: path.join(dir, 'test.db'), cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+// Schema written by releases before schema versioning, with one stored thought
+const createLegacyDatabase = (dbPath: string) => {
+	const db = new Database(dbPath);
+	db.exec(`
+		CREATE TABLE thoughts (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			thought_number INTEGER NOT NULL,
+			total_thoughts INTEGER NOT NULL,
+			thought TEXT NOT NULL,
+			is_revision BOOLEAN DEFAULT 0,
+			revises_thought INTEGER,
+			branch_from_thought INTEGER,
+			branch_id TEXT,
+			needs_more_thoughts BOOLEAN DEFAULT 0,
+			next_thought_needed BOOLEAN NOT NULL,
+			available_mcp_tools TEXT NOT NULL,
+			confidence REAL,
+			created_at TEXT NOT NULL,
+			session_id TEXT
+		);
+		CREATE TABLE step_recommendations (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			thought_id INTEGER NOT NULL,
+			step_description TEXT NOT NULL,
+			expected_outcome TEXT NOT NULL,
+			next_step_conditions TEXT,
+			is_current BOOLEAN DEFAULT 0,
+			created_at TEXT NOT NULL
+		);
+		CREATE TABLE tool_recommendations (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			step_id INTEGER NOT NULL,
+			tool_name TEXT NOT NULL,
+			confidence REAL NOT NULL,
+			rationale TEXT NOT NULL,
+			priority INTEGER NOT NULL,
+			suggested_inputs TEXT,
+			alternatives TEXT,
+			created_at TEXT NOT NULL
+		);
+	`);
+	db.prepare(`
+		INSERT INTO thoughts (thought_number, total_thoughts, thought, next_thought_needed, available_mcp_tools, created_at, session_id)
+		VALUES (1, 2, 'legacy thought', 1, '[]', '2024-01-01T00:00:00.000Z', 'legacy')
+	`).run();
+	db.close();
+};
+
+const columnsOf = (db: Database.Database, table: string) =>
+	(db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(column => column.name);
+
+describe('Schema migrations', () => {
+	it('creates the latest schema in a new database without a backup', () => {
+		const { dir, dbPath, cleanup } = tempDir();
+		const persistence = new PersistenceLayer({ dbPath });
+
+		const report = persistence.getMigrationReport()!;
+		assert.equal(report.fromVersion, 0);
+		assert.equal(report.toVersion, LATEST_SCHEMA_VERSION);
+		assert.deepStrictEqual(report.migrations.map(step => step.version), MIGRATIONS.map(migration => migration.version));
+		assert.equal(report.backupPath, undefined);
+		assert.deepStrictEqual(fs.readdirSync(dir), ['test.db']);
+		persistence.close();
+
+		const reopened = new PersistenceLayer({ dbPath });
+		assert.deepStrictEqual(reopened.getMigrationReport()!.migrations, []);
+		reopened.close();
+		cleanup();
+	});
+
+	it('upgrades an unversioned database in place after backing it up', async () => {
+		const { dbPath, cleanup } = tempDir();
+		createLegacyDatabase(dbPath);
+
+		const persistence = new PersistenceLayer({ dbPath });
+		const report = persistence.getMigrationReport()!;
+		assert.equal(report.fromVersion, 0);
+		assert.equal(report.toVersion, LATEST_SCHEMA_VERSION);
+		// Existing tables are kept; only the missing columns and tables are added
+		assert.ok(!report.migrations[0].statements.some(statement => statement.startsWith('CREATE TABLE thoughts')));
+		assert.ok(report.migrations[1].statements.includes('ALTER TABLE thoughts ADD COLUMN depends_on TEXT'));
+
+		const history = await persistence.getThoughtHistory('legacy');
+		assert.equal(history[0].thought, 'legacy thought');
+		await persistence.saveThought({
+			available_mcp_tools: [],
+			thought: 'new thought',
+			thought_number: 2,
+			total_thoughts: 2,
+			next_thought_needed: false,
+			depends_on: [1],
+		}, 'legacy');
+		assert.deepStrictEqual((await persistence.getThoughtHistory('legacy'))[1].depends_on, [1]);
+		persistence.close();
+
+		const backup = new Database(report.backupPath!, { readonly: true });
+		assert.equal(getSchemaVersion(backup), 0);
+		assert.ok(!columnsOf(backup, 'thoughts').includes('depends_on'));
+		assert.equal((backup.prepare('SELECT COUNT(*) AS count FROM thoughts').get() as { count: number }).count, 1);
+		backup.close();
+		cleanup();
+	});
+
+	it('moves per-thought step rows into deduplicated steps', async () => {
+		const { dbPath, cleanup } = tempDir();
+		createLegacyDatabase(dbPath);
+		const legacy = new Database(dbPath);
+		legacy.prepare(`
+			INSERT INTO thoughts (thought_number, total_thoughts, thought, next_thought_needed, available_mcp_tools, created_at, session_id)
+			VALUES (2, 2, 'second thought', 0, '[]', '2024-01-01T00:00:01.000Z', 'legacy')
+		`).run();
+		legacy.prepare(`
+			INSERT INTO thoughts (thought_number, total_thoughts, thought, next_thought_needed, available_mcp_tools, created_at, session_id)
+			VALUES (3, 3, 'third thought', 0, '[]', '2024-01-01T00:00:02.000Z', 'legacy')
+		`).run();
+		const insertStep = legacy.prepare(`
+			INSERT INTO step_recommendations (thought_id, step_description, expected_outcome, is_current, created_at)
+			VALUES (?, ?, 'done', ?, '2024-01-01T00:00:00.000Z')
+		`);
+		const insertTool = legacy.prepare(`
+			INSERT INTO tool_recommendations (step_id, tool_name, confidence, rationale, priority, created_at)
+			VALUES (?, 'search', 0.9, 'find it', 1, '2024-01-01T00:00:00.000Z')
+		`);
+		// The first step is saved again as a previous step of the second thought
+		insertTool.run(insertStep.run(1, 'Search', 1).lastInsertRowid);
+		insertStep.run(2, 'Summarize', 1);
+		insertTool.run(insertStep.run(2, 'Search', 0).lastInsertRowid);
+		insertTool.run(insertStep.run(3, 'Search', 0).lastInsertRowid);
+		insertStep.run(3, 'Summarize', 0);
+		legacy.close();
+
+		const persistence = new PersistenceLayer({ dbPath });
+		const history = await persistence.getThoughtHistory('legacy');
+		assert.equal(history[0].current_step?.step_description, 'Search');
+		assert.deepStrictEqual(history[1].previous_steps, [history[0].current_step]);
+		assert.equal(history[1].current_step?.step_description, 'Summarize');
+		assert.deepStrictEqual(history[2].previous_steps, [history[0].current_step, history[1].current_step]);
+		persistence.close();
+
+		const db = new Database(dbPath, { readonly: true });
+		assert.equal((db.prepare('SELECT COUNT(*) AS count FROM steps').get() as { count: number }).count, 2);
+		assert.equal((db.prepare('SELECT COUNT(*) AS count FROM step_tools').get() as { count: number }).count, 1);
+		// The third thought references the second one's previous step instead of storing it again
+		assert.deepStrictEqual(
+			db.prepare('SELECT thought_id, is_current, position FROM thought_steps ORDER BY thought_id, is_current DESC, position')
+				.all().map(row => ({ ...(row as object) })),
+			[
+				{ thought_id: 1, is_current: 1, position: 0 },
+				{ thought_id: 2, is_current: 1, position: 0 },
+				{ thought_id: 2, is_current: 0, position: 0 },
+				{ thought_id: 3, is_current: 0, position: 1 },
+			],
+		);
+		assert.equal((db.prepare('SELECT previous_steps_base FROM thoughts WHERE id = 3').get() as { previous_steps_base: number }).previous_steps_base, 2);
+		assert.equal(
+			db.prepare("SELECT 1 FROM sqlite_master WHERE name IN ('step_recommendations', 'tool_recommendations')").get(),
+			undefined,
+		);
+		db.close();
+		cleanup();
+	});
+
+	it('reports pending migrations in a dry run without touching the database', () => {
+		const { dir, dbPath, cleanup } = tempDir();
+		createLegacyDatabase(dbPath);
+		const before = fs.readFileSync(dbPath);
+
+		const persistence = new PersistenceLayer({ dbPath, migrationDryRun: true });
+		const report = persistence.getMigrationReport()!;
+		assert.equal(report.dryRun, true);
+		assert.equal(report.toVersion, LATEST_SCHEMA_VERSION);
+		assert.ok(report.migrations.some(step => step.statements.some(statement => statement.startsWith('CREATE TABLE session_budgets'))));
+		assert.equal(persistence.isEnabled(), false);
+		assert.deepStrictEqual(fs.readFileSync(dbPath), before);
+		assert.deepStrictEqual(fs.readdirSync(dir), ['test.db']);
+
+		const missing = new PersistenceLayer({ dbPath: path.join(dir, 'missing.db'), migrationDryRun: true });
+		assert.equal(missing.getMigrationReport()!.migrations.length, MIGRATIONS.length);
+		assert.ok(!fs.existsSync(path.join(dir, 'missing.db')));
+		cleanup();
+	});
+
+	it('refuses databases written by a newer schema', () => {
+		const { dbPath, cleanup } = tempDir();
+		const db = new Database(dbPath);
+		db.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+
+		assert.throws(() => runMigrations(db, { dbPath, backup: false }), SchemaVersionError);
+		db.close();
+
+		const persistence = new PersistenceLayer({ dbPath });
+		assert.equal(persistence.isEnabled(), false);
+		cleanup();
+	});
+
+	it('rolls back a failing migration and keeps the versions before it', () => {
+		const { dbPath, cleanup } = tempDir();
+		const db = new Database(dbPath);
+		const migrations: Migration[] = [
+			...MIGRATIONS,
+			{
+				version: LATEST_SCHEMA_VERSION + 1,
+				description: 'Broken',
+				operations: [
+					{ kind: 'add_column', table: 'thoughts', column: 'extra', definition: 'TEXT' },
+					{ kind: 'create_index', index: 'idx_broken', sql: 'CREATE INDEX idx_broken ON missing_table(id)' },
+				],
+			},
+		];
+
+		assert.throws(() => runMigrations(db, { dbPath, backup: false, migrations }));
+		assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+		assert.ok(!columnsOf(db, 'thoughts').includes('extra'));
+		db.close();
+		cleanup();
+	});
+
+	it('reads migration settings from the environment', () => {
+		const runtime = new ConfigurationManager({ DB_MIGRATION_DRY_RUN: 'true', DB_BACKUP_BEFORE_MIGRATE: 'false' })
+			.getRuntimeConfig();
+		assert.equal(runtime.dbMigrationDryRun, true);
+		assert.equal(runtime.dbBackupBeforeMigrate, false);
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SCORING_CONFIG } from '../src/config-constants.js';
+import { NextToolModel } from '../src/next-tool-model.js';
+import { ToolChain, ToolChainLibrary } from '../src/tool-chains.js';
+
+const chain = (sequence: string[], successCount = 1, totalUses = successCount): ToolChain => ({
+	id: `chain-${sequence.join('-')}`,
+	sequence,
+	context: '',
+	successCount,
+	totalUses,
+	averageConfidence: 0.8,
+	lastUsed: new Date().toISOString(),
+});
+
+const trainedModel = (chains: ToolChain[], overrides: Partial<typeof DEFAULT_SCORING_CONFIG.toolChains> = {}) => {
+	const model = new NextToolModel({ ...DEFAULT_SCORING_CONFIG.toolChains, ...overrides });
+	model.train(chains);
+	return model;
+};
+
+describe('NextToolModel', () => {
+	const chains = [
+		chain(['search', 'read', 'summarize']),
+		chain(['search', 'read', 'write'], 2),
+		chain(['list', 'read', 'write']),
+	];
+
+	it('returns a calibrated distribution over tools and the end of the chain', () => {
+		const model = trainedModel(chains);
+		const history = ['search', 'read'];
+
+		const total = model.predict(history)
+			.reduce((sum, prediction) => sum + prediction.confidence, model.endProbability(history));
+		assert.ok(Math.abs(total - 1) < 1e-9);
+	});
+
+	it('ranks success-weighted transitions from the longest matching context', () => {
+		const [top, second] = trainedModel(chains).predict(['search', 'read']);
+
+		assert.equal(top.toolName, 'write');
+		assert.equal(top.order, 2);
+		assert.equal(top.observations, 2);
+		assert.equal(second.toolName, 'summarize');
+		assert.match(top.reason, /Followed search -> read/);
+	});
+
+	it('backs off to shorter contexts when early steps deviate', () => {
+		const model = trainedModel(chains);
+		// No chain starts with fetch, and the long history has never been seen in full
+		const [top] = model.predict(['fetch', 'parse', 'validate', 'list', 'read']);
+
+		assert.equal(top.toolName, 'write');
+		assert.equal(top.order, 2);
+	});
+
+	it('falls back to tool frequency for unseen contexts', () => {
+		const [top] = trainedModel(chains).predict(['unknown_tool']);
+
+		assert.equal(top.order, 0);
+		assert.equal(top.toolName, 'read');
+		assert.match(top.reason, /backed off/);
+	});
+
+	it('discounts failed chain uses', () => {
+		const model = trainedModel([
+			// 4 uses with 1 success weigh 1 + 3 * 0.25 = 1.75
+			chain(['search', 'delete'], 1, 4),
+			chain(['search', 'read'], 2),
+		]);
+
+		assert.equal(model.predict(['search'])[0].toolName, 'read');
+		assert.ok(model.probability('delete', ['search']) < model.probability('read', ['search']));
+	});
+
+	it('predicts nothing before any chain is recorded', () => {
+		assert.deepStrictEqual(trainedModel([]).predict(['search']), []);
+	});
+});
+
+describe('ToolChainLibrary.suggestNextTool', () => {
+	it('retrains as chains are recorded and drops improbable candidates', () => {
+		const library = new ToolChainLibrary({ ...DEFAULT_SCORING_CONFIG.toolChains, minProbability: 0.2 });
+		assert.deepStrictEqual(library.suggestNextTool(['search']), []);
+
+		for (const tool of ['search', 'read', 'summarize']) {
+			library.recordToolUse(tool);
+		}
+		library.completeChain(true, 0.9);
+
+		const suggestions = library.suggestNextTool(['list', 'search', 'read']);
+		assert.deepStrictEqual(suggestions.map(suggestion => suggestion.toolName), ['summarize']);
+		assert.ok(suggestions[0].confidence > 0.5);
+	});
+});
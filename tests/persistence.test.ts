@@ -241,6 +241,92 @@ describe('PersistenceLayer.getThoughtHistory', () => {
 	});
 });
 
+describe('PersistenceLayer step storage', () => {
+	it('stores a step repeated in later previous_steps once per session', async () => {
+		const { persistence, dbPath, cleanup, close } = setupPersistence();
+		const step = (i: number) => ({
+			step_description: `step ${i}`,
+			expected_outcome: 'outcome',
+			recommended_tools: [{ tool_name: 'tool-x', confidence: 0.9, rationale: 'reason', priority: 1 }],
+		});
+
+		// Each thought repeats every earlier step, as clients echo previous_steps back
+		const thoughts = [1, 2, 3, 4].map(i => baseThought({
+			thought_number: i,
+			total_thoughts: 4,
+			current_step: step(i),
+			previous_steps: Array.from({ length: i }, (_, index) => step(index + 1)),
+		}));
+		for (const thought of thoughts) {
+			await persistence.saveThought(thought, 'session-a');
+		}
+		await persistence.saveThought(thoughts[0], 'session-b');
+
+		assert.deepStrictEqual(await persistence.getThoughtHistory('session-a'), thoughts);
+		close();
+
+		const db = new Database(dbPath);
+		const count = (sql: string, ...params: unknown[]) => (db.prepare(sql).get(...params) as any).count as number;
+		assert.strictEqual(count('SELECT COUNT(*) as count FROM steps WHERE session_id = ?', 'session-a'), 4);
+		assert.strictEqual(count('SELECT COUNT(*) as count FROM steps WHERE session_id = ?', 'session-b'), 1);
+		assert.strictEqual(count('SELECT COUNT(*) as count FROM step_tools'), 5);
+		// 4 current steps and the one previous step each thought adds, plus session-b's two references
+		assert.strictEqual(count('SELECT COUNT(*) as count FROM thought_steps'), 10);
+		db.close();
+		cleanup();
+	});
+
+	it('continues a reopened session from its stored previous steps', async () => {
+		const { persistence, dbPath, cleanup, close } = setupPersistence();
+		const step = (i: number) => ({ step_description: `step ${i}`, expected_outcome: 'outcome', recommended_tools: [] });
+		const thoughts = [1, 2, 3].map(i => baseThought({
+			thought_number: i,
+			previous_steps: Array.from({ length: i }, (_, index) => step(index + 1)),
+		}));
+		await persistence.saveThought(thoughts[0], 'session-a');
+		await persistence.saveThought(thoughts[1], 'session-a');
+		close();
+
+		// A restarted server reads the session's history before adding to it
+		const reopened = new PersistenceLayer({ dbPath });
+		await reopened.getThoughtHistory('session-a');
+		await reopened.saveThought(thoughts[2], 'session-a');
+		assert.deepStrictEqual(await reopened.getThoughtHistory('session-a'), thoughts);
+		reopened.close();
+
+		const db = new Database(dbPath);
+		assert.strictEqual((db.prepare('SELECT COUNT(*) as count FROM thought_steps').get() as any).count, 3);
+		db.close();
+		cleanup();
+	});
+});
+
+describe('PersistenceLayer.updateExecutionStatus', () => {
+	it('records the result on the latest thought with the number only', async () => {
+		const { persistence, dbPath, cleanup, close } = setupPersistence();
+		await persistence.saveThought(baseThought({ thought_number: 1 }), 'session-a');
+		await persistence.saveThought(baseThought({ thought_number: 1, is_revision: true, revises_thought: 1 }), 'session-a');
+		await persistence.saveThought(baseThought({ thought_number: 1 }), 'session-b');
+
+		await persistence.updateExecutionStatus('session-a', 1, { status: 'failed', error: 'timed out' });
+		assert.deepStrictEqual(
+			await persistence.getExecutionStatuses('session-a'),
+			new Map([[1, { status: 'failed', error: 'timed out' }]]),
+		);
+		close();
+
+		const db = new Database(dbPath);
+		const rows = db.prepare('SELECT session_id, execution_status FROM thoughts ORDER BY id ASC').all();
+		assert.deepStrictEqual(rows.map(row => ({ ...(row as object) })), [
+			{ session_id: 'session-a', execution_status: null },
+			{ session_id: 'session-a', execution_status: 'failed' },
+			{ session_id: 'session-b', execution_status: null },
+		]);
+		db.close();
+		cleanup();
+	});
+});
+
 describe('PersistenceLayer.clearHistory', () => {
 	it('removes thoughts, steps, and tools for a session', async () => {
 		const { persistence, dbPath, cleanup, close } = setupPersistence();
@@ -273,29 +359,18 @@ describe('PersistenceLayer.clearHistory', () => {
 		const thoughtCountA = (db.prepare('SELECT COUNT(*) as count FROM thoughts WHERE session_id = ?').get(sessionA) as any).count as number;
 		const thoughtCountB = (db.prepare('SELECT COUNT(*) as count FROM thoughts WHERE session_id = ?').get(sessionB) as any).count as number;
 
-		const stepCountA = (db.prepare(`
-			SELECT COUNT(*) as count FROM step_recommendations 
-			WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
-		`).get(sessionA) as any).count as number;
-		const stepCountB = (db.prepare(`
-			SELECT COUNT(*) as count FROM step_recommendations 
-			WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
-		`).get(sessionB) as any).count as number;
+		const stepCountA = (db.prepare('SELECT COUNT(*) as count FROM steps WHERE session_id = ?').get(sessionA) as any).count as number;
+		const stepCountB = (db.prepare('SELECT COUNT(*) as count FROM steps WHERE session_id = ?').get(sessionB) as any).count as number;
 
 		const toolCountA = (db.prepare(`
-			SELECT COUNT(*) as count FROM tool_recommendations 
-			WHERE step_id IN (
-				SELECT id FROM step_recommendations 
-				WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
-			)
+			SELECT COUNT(*) as count FROM step_tools
+			WHERE step_id IN (SELECT id FROM steps WHERE session_id = ?)
 		`).get(sessionA) as any).count as number;
 		const toolCountB = (db.prepare(`
-			SELECT COUNT(*) as count FROM tool_recommendations 
-			WHERE step_id IN (
-				SELECT id FROM step_recommendations 
-				WHERE thought_id IN (SELECT id FROM thoughts WHERE session_id = ?)
-			)
+			SELECT COUNT(*) as count FROM step_tools
+			WHERE step_id IN (SELECT id FROM steps WHERE session_id = ?)
 		`).get(sessionB) as any).count as number;
+		const linkCount = (db.prepare('SELECT COUNT(*) as count FROM thought_steps').get() as any).count as number;
 
 		db.close();
 		cleanup();
@@ -307,6 +382,7 @@ describe('PersistenceLayer.clearHistory', () => {
 		assert.strictEqual(thoughtCountB, 1);
 		assert.strictEqual(stepCountB, 1);
 		assert.strictEqual(toolCountB, 1);
+		assert.strictEqual(linkCount, 1);
 	});
 
 	it('clears all history when called without a session', async () => {
@@ -335,8 +411,8 @@ describe('PersistenceLayer.clearHistory', () => {
 
 		const db = new Database(dbPath);
 		const thoughts = (db.prepare('SELECT COUNT(*) as count FROM thoughts').get() as any).count as number;
-		const steps = (db.prepare('SELECT COUNT(*) as count FROM step_recommendations').get() as any).count as number;
-		const tools = (db.prepare('SELECT COUNT(*) as count FROM tool_recommendations').get() as any).count as number;
+		const steps = (db.prepare('SELECT COUNT(*) as count FROM steps').get() as any).count as number;
+		const tools = (db.prepare('SELECT COUNT(*) as count FROM step_tools').get() as any).count as number;
 		db.close();
 		cleanup();
 
@@ -345,3 +421,46 @@ describe('PersistenceLayer.clearHistory', () => {
 		assert.strictEqual(tools, 0);
 	});
 });
+
+describe('PersistenceLayer tool chains', () => {
+	const chain = {
+		id: 'chain-7',
+		sequence: ['search', 'summarize'],
+		context: 'research',
+		successCount: 1,
+		totalUses: 1,
+		averageConfidence: 0.8,
+		lastUsed: '2024-01-01T00:00:00.000Z',
+	};
+
+	it('upserts chains by sequence and stores session buffers', async () => {
+		const { persistence, cleanup } = setupPersistence();
+
+		await persistence.saveToolChain(chain);
+		await persistence.saveToolChain({ ...chain, successCount: 2, totalUses: 3, recommendedUses: 2, context: 'research; review' });
+		assert.deepStrictEqual(await persistence.getToolChains(), [
+			{ ...chain, successCount: 2, totalUses: 3, recommendedUses: 2, context: 'research; review' },
+		]);
+
+		const buffer = { sequence: ['search'], executed: true, failures: 1 };
+		await persistence.saveCurrentChain('session-a', buffer);
+		assert.deepStrictEqual(await persistence.getCurrentChain('session-a'), buffer);
+		await persistence.saveCurrentChain('session-a', { sequence: [], executed: false, failures: 0 });
+		assert.deepStrictEqual(await persistence.getCurrentChain('session-a'), { sequence: [], executed: false, failures: 0 });
+
+		cleanup();
+	});
+
+	it('keeps learned chains when a session history is cleared', async () => {
+		const { persistence, cleanup } = setupPersistence();
+
+		await persistence.saveToolChain(chain);
+		await persistence.saveCurrentChain('session-a', { sequence: ['search'], executed: false, failures: 0 });
+		await persistence.clearHistory('session-a');
+
+		assert.deepStrictEqual((await persistence.getCurrentChain('session-a')).sequence, []);
+		assert.equal((await persistence.getToolChains()).length, 1);
+
+		cleanup();
+	});
+});
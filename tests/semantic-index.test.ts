@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Bm25ToolIndex, ToolTextIndex, ToolTextMatch } from '../src/semantic-index.js';
+import { ToolCapabilityMatcher } from '../src/tool-capabilities.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { Tool } from '../src/types.js';
+
+const tool = (name: string, description: string, properties: string[] = []): Tool => ({
+	name,
+	description,
+	inputSchema: { type: 'object', properties: Object.fromEntries(properties.map(property => [property, { type: 'string' }])) },
+});
+
+const TOOLS = [
+	tool('web_search', 'Search the internet and return result snippets', ['query']),
+	tool('scrape_url', 'Scrape the HTML content at a URL', ['targetUrl']),
+	tool('send_email', 'Send an email to a recipient', ['to', 'subject']),
+	tool('run_sql', 'Execute a statement', ['databaseName', 'statement']),
+];
+
+describe('Bm25ToolIndex', () => {
+	const index = new Bm25ToolIndex();
+	index.build(TOOLS);
+
+	it('matches requests worded with synonyms', () => {
+		const [lookup] = index.search('look up recent news');
+		assert.equal(lookup.toolName, 'web_search');
+		assert.deepStrictEqual(lookup.matchedTerms, ['look≈search']);
+
+		const [fetch] = index.search('fetch page');
+		assert.equal(fetch.toolName, 'scrape_url');
+		assert.deepStrictEqual(fetch.matchedTerms, ['fetch≈scrape', 'page≈url']);
+	});
+
+	it('indexes input property names and prefers direct matches', () => {
+		const [database] = index.search('database');
+		assert.equal(database.toolName, 'run_sql');
+
+		const direct = index.search('scrape').find(match => match.toolName === 'scrape_url')!;
+		const synonym = index.search('download').find(match => match.toolName === 'scrape_url')!;
+		assert.ok(direct.similarity > synonym.similarity);
+		assert.ok(direct.similarity <= 1);
+	});
+
+	it('returns nothing for unrelated or empty queries', () => {
+		assert.deepStrictEqual(index.search('quantum chromodynamics'), []);
+		assert.deepStrictEqual(index.search('the of and'), []);
+		assert.deepStrictEqual(new Bm25ToolIndex().search('search'), []);
+	});
+});
+
+describe('Text similarity in capability matching', () => {
+	it('ranks tools by keywords that never appear in their descriptions', () => {
+		const matcher = new ToolCapabilityMatcher(new Map(TOOLS.map(entry => [entry.name, entry])));
+		const [top] = matcher.matchTools({ keywords: ['download', 'webpage'] });
+
+		assert.equal(top.toolName, 'scrape_url');
+		assert.match(top.reasons[0], /^Text similarity \d+%: download≈scrape, webpage≈url$/);
+	});
+
+	it('uses a text index supplied to the server', async () => {
+		class FixedIndex implements ToolTextIndex {
+			built: string[] = [];
+			build(tools: Tool[]): void {
+				this.built = tools.map(entry => entry.name);
+			}
+			search(): ToolTextMatch[] {
+				return [{ toolName: 'send_email', similarity: 0.5, matchedTerms: ['embedding'] }];
+			}
+		}
+		const index = new FixedIndex();
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: TOOLS,
+			toolTextIndex: () => index,
+		});
+
+		const result = (await server.matchTools({ intent: 'tell the team' })).structuredContent as any;
+		assert.deepStrictEqual(result.matches.map((match: any) => match.tool_name), ['send_email']);
+		assert.deepStrictEqual(result.matches[0].reasons, ['Text similarity 50%: embedding']);
+		assert.ok(index.built.includes('scrape_url'));
+
+		server.shutdown();
+	});
+});
@@ -71,10 +71,11 @@ describe('Server State Rehydration', () => {
         // However, let's see if we can use public methods. `processThought` returns context.
         // But valid rehydration is best checked by inspecting the processor.
 
-        const processorB = (serverB as any).processor;
+        const sessionB = (serverB as any).sessions.get(sessionId);
+        const processorB = sessionB.processor;
         const historyB = processorB.thoughtHistory as ThoughtData[];
         const branchesB = processorB.branches;
-        const dagB = (serverB as any).thoughtDAG;
+        const dagB = sessionB.thoughtDAG;
 
         assert.equal(historyB.length, 3, 'History length should be 3');
         assert.equal(historyB[0].thought, 'Thought 1');
@@ -121,7 +122,7 @@ describe('Server State Rehydration', () => {
 
         const server = await setupServer(sessionId, dbPath);
 
-        const processor = (server as any).processor;
+        const processor = (server as any).sessions.get(sessionId).processor;
         assert.equal(processor.thoughtHistory.length, 0);
 
         server.shutdown();
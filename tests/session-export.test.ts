@@ -0,0 +1,351 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runSessionCommand } from '../src/cli.js';
+import { PersistenceLayer } from '../src/persistence.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import {
+	parseSessionExport,
+	SESSION_EXPORT_FORMAT,
+	SESSION_EXPORT_VERSION,
+	SessionExport,
+} from '../src/session-export.js';
+import { ThoughtData } from '../src/types.js';
+
+const tempDir = () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-session-export-'));
+	return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+const createServer = async (dbPath: string, overrides: Record<string, unknown> = {}) => {
+	const server = new ToolAwareSequentialThinkingServer({
+		dbPath,
+		sessionId: 'default-session',
+		enablePersistence: true,
+		enableBacktracking: true,
+		enableDAG: true,
+		enableToolChains: true,
+		...overrides,
+	});
+	await server.initialize();
+	return server;
+};
+
+const search = {
+	step_description: 'Search the docs',
+	expected_outcome: 'Relevant pages',
+	recommended_tools: [{ tool_name: 'search_docs', confidence: 0.9, rationale: 'Find pages', priority: 1, suggested_inputs: { query: 'export' } }],
+};
+const read = {
+	step_description: 'Read the pages',
+	expected_outcome: 'Notes',
+	recommended_tools: [{ tool_name: 'read_file', confidence: 0.8, rationale: 'Read them', priority: 1 }],
+	next_step_conditions: ['pages found'],
+};
+
+const thought = (sessionId: string, thoughtNumber: number, extra: Partial<ThoughtData> = {}) => ({
+	session_id: sessionId,
+	available_mcp_tools: ['search_docs', 'read_file'],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 4,
+	next_thought_needed: true,
+	...extra,
+});
+
+// Steps, a suggested backtrack, a branch, reported results and a chain learned from them
+const recordSession = async (server: ToolAwareSequentialThinkingServer, sessionId: string) => {
+	await server.processThought(thought(sessionId, 1, { confidence: 0.9, current_step: search, budget: { max_cost_units: 10 } }));
+	await server.reportStepResult({ session_id: sessionId, thought_number: 1, status: 'completed' });
+	await server.reportToolResult({ session_id: sessionId, thought_number: 1, tool_name: 'search_docs', success: true });
+	await server.processThought(thought(sessionId, 2, { confidence: 0.1 }));
+	await server.processThought(thought(sessionId, 2, { confidence: 0.8, current_step: read, previous_steps: [search] }));
+	await server.reportToolResult({ session_id: sessionId, thought_number: 2, tool_name: 'read_file', success: true });
+	await server.processThought(thought(sessionId, 3, {
+		branch_from_thought: 2,
+		branch_id: 'alternative',
+		previous_steps: [search, read],
+		next_thought_needed: false,
+	}));
+};
+
+const exportOf = async (server: ToolAwareSequentialThinkingServer, sessionId: string) =>
+	(await server.exportSession({ session_id: sessionId })).structuredContent as any;
+
+describe('Session export', () => {
+	it('builds a versioned document with each step stored once', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await recordSession(server, 'traced');
+
+		const result = await exportOf(server, 'traced');
+		const document = result.data as SessionExport;
+		assert.equal(document.format, SESSION_EXPORT_FORMAT);
+		assert.equal(document.version, SESSION_EXPORT_VERSION);
+		assert.equal(document.session_id, 'traced');
+		assert.deepStrictEqual(document.steps.map(step => step.step_description), ['Search the docs', 'Read the pages']);
+		assert.deepStrictEqual(document.thoughts.map(item => item.previous_step_ids), [[0], [0, 1], [0, 1]]);
+		assert.deepStrictEqual(document.thoughts[0].execution, { status: 'completed' });
+		assert.equal(document.thoughts[1].server?.backtracks?.[0].thought_number, 2);
+		assert.deepStrictEqual(document.branches, [{ branch_id: 'alternative', branch_from_thought: 2, thought_numbers: [3] }]);
+		assert.deepStrictEqual(document.tool_chains.learned.map(chain => chain.sequence), [['search_docs', 'read_file']]);
+		assert.equal(document.budget?.limits.max_cost_units, 10);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('attaches a reported result to the latest thought with its number', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await server.processThought(thought('branched', 1, { current_step: search }));
+		await server.processThought(thought('branched', 2, { current_step: read }));
+		await server.processThought(thought('branched', 2, { current_step: read, branch_from_thought: 1, branch_id: 'retry' }));
+		await server.reportToolResult({ session_id: 'branched', thought_number: 2, tool_name: 'read_file', success: true });
+
+		const document = (await exportOf(server, 'branched')).data as SessionExport;
+		assert.deepStrictEqual(document.thoughts.map(item => item.execution), [undefined, undefined, { status: 'completed' }]);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('reports unknown sessions and sessions without thoughts as errors', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+
+		const missing = await server.exportSession({ session_id: 'missing' });
+		assert.equal(missing.isError, true);
+		assert.equal((missing.structuredContent as any).errorType, 'SessionNotFoundError');
+		const empty = await server.exportSession();
+		assert.equal(empty.isError, true);
+
+		server.shutdown();
+		cleanup();
+	});
+});
+
+describe('Session import', () => {
+	it('restores an exported session on another database', async () => {
+		const { dir, cleanup } = tempDir();
+		const source = await createServer(path.join(dir, 'source.db'));
+		await recordSession(source, 'traced');
+		const exported = await exportOf(source, 'traced');
+
+		const targetPath = path.join(dir, 'target.db');
+		const target = await createServer(targetPath);
+		const imported = (await target.importSession({ data: exported.data })).structuredContent as any;
+		assert.equal(imported.session_id, 'traced');
+		assert.equal(imported.thought_count, 3);
+		assert.deepStrictEqual(imported.branches, ['alternative']);
+		assert.equal(imported.tool_chains_imported, 1);
+
+		// A second export of the imported session carries the same trace
+		const reexported = await exportOf(target, 'traced');
+		assert.deepStrictEqual({ ...reexported.data, exported_at: undefined }, { ...exported.data, exported_at: undefined });
+		source.shutdown();
+		target.shutdown();
+
+		// Everything was stored, so a restart resumes the session where it left off
+		const persistence = new PersistenceLayer({ dbPath: targetPath });
+		const original = new PersistenceLayer({ dbPath: path.join(dir, 'source.db') });
+		assert.deepStrictEqual(await persistence.getThoughtHistory('traced'), await original.getThoughtHistory('traced'));
+		assert.deepStrictEqual(await persistence.getComputedStates('traced'), await original.getComputedStates('traced'));
+		assert.deepStrictEqual(await persistence.getSessionBudget('traced'), await original.getSessionBudget('traced'));
+		assert.deepStrictEqual(await persistence.getCurrentChain('traced'), await original.getCurrentChain('traced'));
+		persistence.close();
+		original.close();
+		cleanup();
+	});
+
+	it('reads the NDJSON encoding with one record per line', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await recordSession(server, 'traced');
+
+		const json = await exportOf(server, 'traced');
+		const ndjson = (await server.exportSession({ session_id: 'traced', format: 'ndjson' })).structuredContent as any;
+		const lines = (ndjson.data as string).trimEnd().split('\n').map(line => JSON.parse(line));
+		assert.deepStrictEqual(
+			lines.map(line => line.type),
+			['session', 'step', 'step', 'thought', 'thought', 'thought', 'branch', 'chain_buffer', 'tool_chain'],
+		);
+		assert.deepStrictEqual({ ...parseSessionExport(ndjson.data), exported_at: undefined }, { ...json.data, exported_at: undefined });
+
+		const imported = await server.importSession({ data: ndjson.data, session_id: 'from-ndjson' });
+		assert.equal((imported.structuredContent as any).thought_count, 3);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('handles existing session ids as asked', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await recordSession(server, 'traced');
+		await server.processThought(thought('other', 1));
+		const { data } = await exportOf(server, 'traced');
+
+		const refused = await server.importSession({ data, session_id: 'other' });
+		assert.equal(refused.isError, true);
+		assert.equal((refused.structuredContent as any).errorType, 'SessionExistsError');
+
+		const renamed = (await server.importSession({ data, on_conflict: 'rename' })).structuredContent as any;
+		assert.equal(renamed.renamed, true);
+		assert.match(renamed.session_id, /^traced-import-\d+$/);
+		assert.equal(renamed.thought_count, 3);
+
+		const replaced = (await server.importSession({ data, session_id: 'other', on_conflict: 'replace' })).structuredContent as any;
+		assert.equal(replaced.session_id, 'other');
+		assert.equal(replaced.thought_count, 3);
+		assert.equal(replaced.last_thought, 'thought 3');
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('refuses a concurrent import into the same session id', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await recordSession(server, 'traced');
+		const { data } = await exportOf(server, 'traced');
+
+		const results = await Promise.all([
+			server.importSession({ data, session_id: 'raced' }),
+			server.importSession({ data, session_id: 'raced' }),
+		]);
+		assert.deepStrictEqual(results.map(result => result.isError ?? false).sort(), [false, true]);
+		assert.equal((results.find(result => result.isError)!.structuredContent as any).errorType, 'SessionExistsError');
+		assert.equal((await exportOf(server, 'raced')).thought_count, 3);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('keeps the server state of each thought when a branch reuses its number', async () => {
+		const { dir, cleanup } = tempDir();
+		const source = await createServer(path.join(dir, 'source.db'));
+		await source.processThought(thought('reused', 1, { confidence: 0.9 }));
+		await source.processThought(thought('reused', 2, { confidence: 0.9 }));
+		await source.processThought(thought('reused', 3, { confidence: 0.1 }));
+		await source.processThought(thought('reused', 2, { confidence: 0.8, branch_from_thought: 1, branch_id: 'retry' }));
+
+		const exported = await exportOf(source, 'reused');
+		assert.deepStrictEqual(
+			exported.data.thoughts.map((item: any) => item.server?.backtracks?.length),
+			[undefined, undefined, 1],
+		);
+
+		const target = await createServer(path.join(dir, 'target.db'));
+		const imported = (await target.importSession({ data: exported.data })).structuredContent as any;
+		assert.equal(imported.confidence_stats.backtrackCount, 1);
+		const reexported = await exportOf(target, 'reused');
+		assert.deepStrictEqual(reexported.data.thoughts, exported.data.thoughts);
+
+		source.shutdown();
+		target.shutdown();
+		cleanup();
+	});
+
+	it('validates the document before importing anything', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'test.db'));
+		await recordSession(server, 'traced');
+		const { data } = await exportOf(server, 'traced');
+
+		const errorOf = async (input: unknown) => {
+			const result = await server.importSession({ data: input as string, session_id: 'imported' });
+			assert.equal(result.isError, true);
+			return String((result.structuredContent as any).error);
+		};
+
+		assert.match(await errorOf({ ...data, version: SESSION_EXPORT_VERSION + 1 }), /unsupported format version 2/);
+		assert.match(await errorOf({ format: 'something-else' }), /not a mcp-sequentialthinking-session export/);
+		assert.match(await errorOf('{ not json'), /not valid JSON/);
+		assert.match(
+			await errorOf({ ...data, thoughts: [{ ...data.thoughts[0], thought_number: 0 }] }),
+			/thoughts\.0\.thought_number/,
+		);
+		assert.match(await errorOf({ ...data, steps: [] }), /references unknown step 0/);
+		const replaced = await server.importSession({ data: { ...data, steps: [] }, session_id: 'traced', on_conflict: 'replace' });
+		assert.equal(replaced.isError, true);
+		assert.equal((await exportOf(server, 'traced')).thought_count, 3);
+		assert.equal((await server.listSessions()).structuredContent.sessions
+			.some((session: any) => session.session_id === 'imported'), false);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('imports into memory when persistence is disabled', async () => {
+		const server = await createServer(':memory:', { enablePersistence: false });
+		await recordSession(server, 'traced');
+		const { data } = await exportOf(server, 'traced');
+		assert.deepStrictEqual(data.thoughts[0].execution, { status: 'completed' });
+		assert.equal(data.thoughts[1].server.backtracks.length, 1);
+
+		const imported = (await server.importSession({ data, session_id: 'copy' })).structuredContent as any;
+		assert.equal(imported.thought_count, 3);
+		const { data: copied } = await exportOf(server, 'copy');
+		assert.deepStrictEqual(copied.thoughts, data.thoughts);
+		assert.deepStrictEqual(copied.budget, data.budget);
+
+		server.shutdown();
+	});
+});
+
+describe('Session commands', () => {
+	it('reports that there is nothing to export without stored sessions', async () => {
+		const { dir, cleanup } = tempDir();
+		const server = await createServer(path.join(dir, 'empty.db'));
+		const stderr = mock.method(process.stderr, 'write', () => true);
+
+		try {
+			assert.equal(await runSessionCommand(server, 'export', []), 1);
+			assert.match(String(stderr.mock.calls.at(-1)?.arguments[0]), /^No sessions to export/);
+		} finally {
+			stderr.mock.restore();
+		}
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('exports to a file and imports it into another database', async () => {
+		const { dir, cleanup } = tempDir();
+		const source = await createServer(path.join(dir, 'source.db'));
+		await recordSession(source, 'traced');
+		const file = path.join(dir, 'traced.ndjson');
+		const stderr = mock.method(process.stderr, 'write', () => true);
+		const stdout = mock.method(process.stdout, 'write', () => true);
+
+		try {
+			assert.equal(await runSessionCommand(source, 'export', ['traced', '--format', 'ndjson', '--output', file]), 0);
+			assert.equal(JSON.parse(fs.readFileSync(file, 'utf-8').split('\n')[0]).type, 'session');
+
+			const target = await createServer(path.join(dir, 'target.db'));
+			assert.equal(await runSessionCommand(target, 'import', [file, '--session-id', 'shared']), 0);
+			// The test runner can write to stdout too; the summary is the JSON line the command printed
+			const summary = stdout.mock.calls.map(call => String(call.arguments[0])).find(text => text.startsWith('{'));
+			assert.equal(JSON.parse(summary!).thought_count, 3);
+
+			assert.equal(await runSessionCommand(target, 'import', [file, '--session-id', 'shared']), 1);
+			assert.equal(await runSessionCommand(target, 'import', [file, '--on-conflict', 'sometimes']), 1);
+			assert.match(String(stderr.mock.calls.at(-1)?.arguments[0]), /Invalid --on-conflict "sometimes"/);
+
+			// Without an id, the most recently active session is exported
+			const latest = path.join(dir, 'latest.json');
+			assert.equal(await runSessionCommand(target, 'export', ['--output', latest]), 0);
+			assert.equal(JSON.parse(fs.readFileSync(latest, 'utf-8')).session_id, 'shared');
+			target.shutdown();
+		} finally {
+			stderr.mock.restore();
+			stdout.mock.restore();
+		}
+
+		source.shutdown();
+		cleanup();
+	});
+});
@@ -0,0 +1,361 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+
+const setupServer = (overrides: Record<string, unknown> = {}) => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-sessions-'));
+	const dbPath = path.join(dir, 'test.db');
+	const server = new ToolAwareSequentialThinkingServer({
+		dbPath,
+		sessionId: 'default-session',
+		enablePersistence: true,
+		enableDAG: true,
+		enableToolChains: true,
+		...overrides,
+	});
+
+	const cleanup = () => {
+		server.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	};
+
+	return { server, dbPath, dir, cleanup };
+};
+
+const thoughtInput = (sessionId: string | undefined, thoughtNumber: number, text: string) => ({
+	session_id: sessionId,
+	thought: text,
+	thought_number: thoughtNumber,
+	total_thoughts: 3,
+	next_thought_needed: true,
+	available_mcp_tools: [],
+});
+
+describe('Per-session state', () => {
+	it('keeps history and DAG separate for each session_id', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await server.processThought(thoughtInput('agent-a', 2, 'A2'));
+		const result = await server.processThought(thoughtInput('agent-b', 1, 'B1'));
+
+		const structured = result.structuredContent as Record<string, unknown>;
+		assert.equal(structured.session_id, 'agent-b');
+		assert.equal(structured.thought_history_length, 1);
+
+		const sessions = (server as any).sessions;
+		const sessionA = sessions.get('agent-a');
+		const sessionB = sessions.get('agent-b');
+		assert.equal(sessionA.processor.thoughtHistory.length, 2);
+		assert.equal(sessionB.processor.thoughtHistory.length, 1);
+		assert.equal(sessionA.thoughtDAG.getStats().total, 2);
+		assert.equal(sessionB.thoughtDAG.getStats().total, 1);
+		assert.notStrictEqual(sessionA.backtrackingManager, sessionB.backtrackingManager);
+
+		cleanup();
+	});
+
+	it('falls back to the default session when session_id is omitted', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		const result = await server.processThought(thoughtInput(undefined, 1, 'default'));
+
+		assert.equal((result.structuredContent as Record<string, unknown>).session_id, 'default-session');
+		assert.equal(server.getDefaultSessionId(), 'default-session');
+
+		cleanup();
+	});
+
+	it('hydrates a session lazily from persistence after eviction', async () => {
+		const { server, cleanup } = setupServer({ sessionIdleTimeoutMs: 1 });
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await server.processThought(thoughtInput('agent-a', 2, 'A2'));
+
+		const sessions = (server as any).sessions;
+		const evicted = sessions.evictIdle(Date.now() + 10);
+		assert.deepStrictEqual(evicted, ['agent-a']);
+		assert.ok(sessions.has('default-session'), 'default session should never be evicted');
+
+		const result = await server.processThought(thoughtInput('agent-a', 3, 'A3'));
+		assert.equal((result.structuredContent as Record<string, unknown>).thought_history_length, 3);
+
+		cleanup();
+	});
+
+	it('keeps idle and excess sessions in memory without persistence', async () => {
+		const { server, cleanup } = setupServer({ enablePersistence: false, sessionIdleTimeoutMs: 1, maxSessions: 2 });
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await server.processThought(thoughtInput('agent-a', 2, 'A2'));
+		await server.processThought(thoughtInput('agent-b', 1, 'B1'));
+
+		const sessions = (server as any).sessions;
+		assert.deepStrictEqual(sessions.evictIdle(Date.now() + 10), []);
+		assert.ok(sessions.has('agent-a'));
+		assert.ok(sessions.has('agent-b'));
+
+		const result = await server.processThought(thoughtInput('agent-a', 3, 'A3'));
+		assert.equal((result.structuredContent as Record<string, unknown>).thought_history_length, 3);
+
+		cleanup();
+	});
+
+	it('keeps separate tool chain buffers per session', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		const withTool = (sessionId: string, thoughtNumber: number, toolName: string) => ({
+			...thoughtInput(sessionId, thoughtNumber, `${sessionId} uses ${toolName}`),
+			current_step: {
+				step_description: `use ${toolName}`,
+				expected_outcome: 'done',
+				recommended_tools: [
+					{ tool_name: toolName, confidence: 0.9, rationale: 'needed', priority: 1 },
+				],
+			},
+		});
+
+		await server.processThought(withTool('agent-a', 1, 'search'));
+		await server.processThought(withTool('agent-b', 1, 'delete'));
+		await server.processThought(withTool('agent-a', 2, 'summarize'));
+
+		const library = (server as any).toolChainLibrary;
+		assert.deepStrictEqual(library.getCurrentChain('agent-a'), ['search', 'summarize']);
+		assert.deepStrictEqual(library.getCurrentChain('agent-b'), ['delete']);
+
+		cleanup();
+	});
+
+	it('restores learned tool chains and in-progress buffers after a restart', async () => {
+		const { server, dbPath, dir } = setupServer();
+		await server.initialize();
+
+		const withTool = (sessionId: string, thoughtNumber: number, toolName: string, done = false) => ({
+			...thoughtInput(sessionId, thoughtNumber, `${sessionId} uses ${toolName}`),
+			next_thought_needed: !done,
+			confidence: 0.9,
+			current_step: {
+				step_description: `use ${toolName}`,
+				expected_outcome: 'done',
+				recommended_tools: [
+					{ tool_name: toolName, confidence: 0.9, rationale: 'needed', priority: 1 },
+				],
+			},
+		});
+
+		// Chains are learned from the tools a session reported as executed
+		await server.processThought(withTool('agent-a', 1, 'search'));
+		await server.reportToolResult({ session_id: 'agent-a', thought_number: 1, tool_name: 'search', success: true });
+		await server.processThought(withTool('agent-a', 2, 'summarize'));
+		await server.reportToolResult({ session_id: 'agent-a', thought_number: 2, tool_name: 'summarize', success: true });
+		await server.processThought(withTool('agent-a', 3, 'summarize', true));
+		await server.processThought(withTool('agent-b', 1, 'search'));
+		server.shutdown();
+
+		const restarted = new ToolAwareSequentialThinkingServer({
+			dbPath,
+			sessionId: 'default-session',
+			enablePersistence: true,
+			enableDAG: true,
+			enableToolChains: true,
+		});
+		await restarted.initialize();
+
+		const library = (restarted as any).toolChainLibrary;
+		assert.deepStrictEqual(library.getTopChains().map((chain: any) => chain.sequence), [['search', 'summarize']]);
+
+		// Another session learns from the restored library and keeps its own buffer
+		const next = await restarted.processThought(withTool('agent-b', 2, 'read'));
+		assert.deepStrictEqual(library.getCurrentChain('agent-b'), ['search', 'read']);
+		assert.equal((next.structuredContent as any).thought_history_length, 2);
+
+		const suggestions = await restarted.processThought({
+			...withTool('agent-c', 1, 'search'),
+			previous_steps: [],
+		});
+		assert.equal((suggestions.structuredContent as any).tool_chain_suggestions[0].toolName, 'summarize');
+
+		restarted.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+});
+
+describe('Session management tools', () => {
+	it('lists persisted sessions with counts and completion state', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await server.processThought({ ...thoughtInput('agent-a', 2, 'A2'), next_thought_needed: false });
+		await server.processThought(thoughtInput('agent-b', 1, 'B1'));
+
+		const result = await server.listSessions();
+		const sessions = (result.structuredContent as any).sessions as any[];
+		const sessionA = sessions.find(session => session.session_id === 'agent-a');
+		const sessionB = sessions.find(session => session.session_id === 'agent-b');
+
+		assert.equal(sessionA.thought_count, 2);
+		assert.equal(sessionA.completed, true);
+		assert.equal(sessionB.thought_count, 1);
+		assert.equal(sessionB.completed, false);
+
+		const open = await server.listSessions({ include_completed: false });
+		const openIds = ((open.structuredContent as any).sessions as any[]).map(session => session.session_id);
+		assert.ok(!openIds.includes('agent-a'));
+
+		cleanup();
+	});
+
+	it('resumes a session from a previous server process', async () => {
+		const first = setupServer();
+		await first.server.initialize();
+		await first.server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await first.server.processThought(thoughtInput('agent-a', 2, 'A2'));
+		first.server.shutdown();
+
+		const second = new ToolAwareSequentialThinkingServer({
+			dbPath: first.dbPath,
+			enablePersistence: true,
+		});
+		await second.initialize();
+
+		const resumed = await second.resumeSession({ session_id: 'agent-a' });
+		const payload = resumed.structuredContent as any;
+		assert.equal(payload.resumed, true);
+		assert.equal(payload.thought_count, 2);
+		assert.equal(payload.next_thought_number, 3);
+
+		const missing = await second.resumeSession({ session_id: 'nope' });
+		assert.equal(missing.isError, true);
+		assert.equal((missing.structuredContent as any).errorCategory, 'ValidationError');
+
+		second.shutdown();
+		fs.rmSync(first.dir, { recursive: true, force: true });
+	});
+
+	it('forks history up to a thought into a new session', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		for (let i = 1; i <= 3; i++) {
+			await server.processThought(thoughtInput('agent-a', i, `A${i}`));
+		}
+
+		const forked = await server.forkSession({
+			session_id: 'agent-a',
+			new_session_id: 'agent-a-alt',
+			up_to_thought: 2,
+		});
+		const payload = forked.structuredContent as any;
+		assert.equal(payload.session_id, 'agent-a-alt');
+		assert.equal(payload.thought_count, 2);
+		assert.equal(payload.forked_from, 'agent-a');
+
+		const duplicate = await server.forkSession({ session_id: 'agent-a', new_session_id: 'agent-a-alt' });
+		assert.equal(duplicate.isError, true);
+
+		const next = await server.processThought(thoughtInput('agent-a-alt', 3, 'alt path'));
+		assert.equal((next.structuredContent as any).thought_history_length, 3);
+
+		cleanup();
+	});
+
+	it('forks and exports stored history right after construction', async () => {
+		const first = setupServer();
+		await first.server.initialize();
+		for (let i = 1; i <= 3; i++) {
+			await first.server.processThought(thoughtInput('agent-a', i, `A${i}`));
+		}
+		first.server.shutdown();
+
+		// The store is still opening when the fork and the export arrive
+		const second = new ToolAwareSequentialThinkingServer({
+			dbPath: first.dbPath,
+			sessionId: 'default-session',
+			enablePersistence: true,
+		});
+		const [forked, exported] = await Promise.all([
+			second.forkSession({ session_id: 'agent-a', new_session_id: 'copy' }),
+			second.exportSession({ session_id: 'agent-a' }),
+		]);
+		assert.equal((forked.structuredContent as any).thought_count, 3);
+		assert.equal((exported.structuredContent as any).thought_count, 3);
+		assert.equal(((await second.exportSession({ session_id: 'copy' })).structuredContent as any).thought_count, 3);
+
+		second.shutdown();
+		fs.rmSync(first.dir, { recursive: true, force: true });
+	});
+
+	it('forks in-memory sessions when persistence is disabled', async () => {
+		const { server, cleanup } = setupServer({ enablePersistence: false });
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		await server.processThought(thoughtInput('agent-a', 2, 'A2'));
+
+		const forked = await server.forkSession({ session_id: 'agent-a', new_session_id: 'copy' });
+		assert.equal((forked.structuredContent as any).thought_count, 2);
+
+		cleanup();
+	});
+
+	it('deletes stored and in-memory state for a session', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		await server.processThought(thoughtInput('agent-a', 1, 'A1'));
+		const deleted = await server.deleteSession({ session_id: 'agent-a' });
+		assert.equal((deleted.structuredContent as any).deleted, true);
+
+		const sessions = (server as any).sessions;
+		assert.equal(sessions.has('agent-a'), false);
+
+		const listed = await server.listSessions();
+		const ids = ((listed.structuredContent as any).sessions as any[]).map(session => session.session_id);
+		assert.ok(!ids.includes('agent-a'));
+
+		const again = await server.deleteSession({ session_id: 'agent-a' });
+		assert.equal(again.isError, true);
+
+		cleanup();
+	});
+});
+
+describe('Explicit thought dependencies', () => {
+	it('reports independent thoughts and rejects cycles as validation errors', async () => {
+		const { server, cleanup } = setupServer();
+		await server.initialize();
+
+		await server.processThought(thoughtInput('plan', 1, 'root'));
+		await server.processThought({ ...thoughtInput('plan', 2, 'left'), depends_on: [1] });
+		const right = await server.processThought({ ...thoughtInput('plan', 3, 'right'), depends_on: [1] });
+
+		const dagStats = (right.structuredContent as any).dag_stats;
+		assert.deepStrictEqual(dagStats.dependencies, [1]);
+		assert.deepStrictEqual(dagStats.independentThoughts, [2]);
+		assert.equal(dagStats.parallelGroupCount, 2);
+
+		const cyclic = await server.processThought({ ...thoughtInput('plan', 1, 'loop'), depends_on: [3] });
+		const payload = cyclic.structuredContent as any;
+		assert.equal(cyclic.isError, true);
+		assert.equal(payload.errorType, 'DagCycleError');
+		assert.equal(payload.errorCategory, 'ValidationError');
+		assert.deepStrictEqual(payload.cycle, [1, 3, 1]);
+
+		const sessions = (server as any).sessions;
+		sessions.delete('plan');
+		const rehydrated = await server.processThought({ ...thoughtInput('plan', 4, 'join'), depends_on: [2, 3] });
+		assert.deepStrictEqual((rehydrated.structuredContent as any).dag_stats.dependencies, [2, 3]);
+		assert.equal((rehydrated.structuredContent as any).dag_stats.parallelGroupCount, 3);
+
+		cleanup();
+	});
+});
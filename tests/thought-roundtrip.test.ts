@@ -0,0 +1,228 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PersistenceLayer } from '../src/persistence.js';
+import { ThoughtComputedState } from '../src/thought-store.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { StepRecommendation, ThoughtData, ToolRecommendation } from '../src/types.js';
+
+// Seeded generator so a failing case can be replayed from its seed
+const createRandom = (seed: number) => {
+	let state = seed >>> 0;
+	const next = () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+	const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+	const pick = <T>(values: T[]) => values[int(0, values.length - 1)];
+	const maybe = (probability = 0.5) => next() < probability;
+	const list = <T>(max: number, make: () => T) => Array.from({ length: int(0, max) }, make);
+	return { next, int, pick, maybe, list };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const text = (random: Random) => random.pick([
+	'',
+	'plain text',
+	'quotes " and \' and `',
+	'unicode ✓ 思考 🧠',
+	'line\nbreak\ttab',
+	`random ${random.int(0, 1_000_000)}`,
+]);
+
+// Edge values that falsy checks used to drop, mixed with arbitrary ones
+const number = (random: Random) => random.pick([0, 1, random.next()]);
+
+const jsonValue = (random: Random, depth = 0): unknown => {
+	switch (random.int(0, depth > 1 ? 3 : 5)) {
+		case 0: return text(random);
+		case 1: return random.pick([random.int(-100, 100), random.next()]);
+		case 2: return random.maybe();
+		case 3: return null;
+		case 4: return random.list(3, () => jsonValue(random, depth + 1));
+		default: return Object.fromEntries(random.list(3, () => [text(random), jsonValue(random, depth + 1)]));
+	}
+};
+
+const generateTool = (random: Random): ToolRecommendation => {
+	const tool: ToolRecommendation = {
+		tool_name: random.pick(['search_docs', 'read_file', 'delete_branch', 'send_email']),
+		confidence: number(random),
+		rationale: text(random),
+		priority: random.int(0, 5),
+	};
+	if (random.maybe()) tool.suggested_inputs = Object.fromEntries(random.list(3, () => [text(random), jsonValue(random)]));
+	if (random.maybe()) tool.alternatives = random.list(2, () => text(random));
+	if (random.maybe()) tool.confirmed = random.maybe();
+	return tool;
+};
+
+const generateStep = (random: Random): StepRecommendation => {
+	const step: StepRecommendation = {
+		step_description: text(random),
+		expected_outcome: text(random),
+		recommended_tools: random.list(4, () => generateTool(random)),
+	};
+	if (random.maybe()) step.next_step_conditions = random.list(2, () => text(random));
+	return step;
+};
+
+const generateThought = (random: Random): ThoughtData => {
+	const thought: ThoughtData = {
+		available_mcp_tools: random.list(3, () => text(random)),
+		thought: text(random),
+		thought_number: random.int(1, 20),
+		total_thoughts: random.int(1, 20),
+		next_thought_needed: random.maybe(),
+	};
+	if (random.maybe()) thought.is_revision = random.maybe();
+	if (random.maybe()) thought.revises_thought = random.int(0, 5);
+	if (random.maybe()) thought.branch_from_thought = random.int(0, 5);
+	if (random.maybe()) thought.branch_id = random.pick(['', 'branch-a', 'unicode ✓']);
+	if (random.maybe()) thought.needs_more_thoughts = random.maybe();
+	if (random.maybe()) thought.depends_on = random.list(3, () => random.int(1, 20));
+	if (random.maybe()) thought.current_step = generateStep(random);
+	if (random.maybe()) thought.previous_steps = random.list(3, () => generateStep(random));
+	if (random.maybe()) thought.remaining_steps = random.list(3, () => text(random));
+	if (random.maybe()) thought.confidence = number(random);
+	if (random.maybe()) {
+		thought.budget = {};
+		if (random.maybe()) thought.budget.max_high_cost_calls = random.int(0, 5);
+		if (random.maybe()) thought.budget.max_cost_units = number(random) * 10;
+	}
+	return thought;
+};
+
+const generateComputedState = (random: Random): ThoughtComputedState => {
+	const state: ThoughtComputedState = { confidenceSource: random.pick(['input', 'calculated']) };
+	if (random.maybe()) state.inputTotalThoughts = random.int(1, 20);
+	if (random.maybe()) state.backtrackReason = text(random);
+	if (random.maybe()) {
+		state.backtracks = random.list(2, () => ({ thoughtNumber: random.int(1, 20), confidence: number(random), reason: text(random) }));
+	}
+	if (random.maybe()) state.dagDependencies = random.list(3, () => random.int(1, 20));
+	if (random.maybe()) state.dagStatus = random.pick(['pending', 'completed', 'failed'] as const);
+	return state;
+};
+
+const SEEDS = [1, 7, 42, 2024, 99991];
+
+describe('Thought persistence round trip', () => {
+	for (const seed of SEEDS) {
+		it(`restores every field of generated thoughts exactly (seed ${seed})`, async () => {
+			const random = createRandom(seed);
+			const persistence = new PersistenceLayer({ dbPath: ':memory:' });
+			const thoughts = Array.from({ length: 40 }, () => generateThought(random));
+			// Thought numbers repeat, so each computed state must stay with its own thought
+			const computedStates = thoughts.map(() => random.maybe() ? generateComputedState(random) : undefined);
+
+			for (const [index, thought] of thoughts.entries()) {
+				await persistence.saveThought(thought, 'roundtrip', computedStates[index]);
+			}
+
+			const history = await persistence.getThoughtHistory('roundtrip');
+			const restoredStates = await persistence.getComputedStates('roundtrip');
+			assert.equal(history.length, thoughts.length);
+			history.forEach((restored, index) => {
+				assert.deepStrictEqual(restored, thoughts[index], `seed ${seed}, thought #${index}`);
+				assert.deepStrictEqual(restoredStates[index], computedStates[index], `seed ${seed}, state #${index}`);
+			});
+
+			await persistence.copyThoughts(history, 'copy', restoredStates);
+			assert.deepStrictEqual(await persistence.getComputedStates('copy'), computedStates);
+			persistence.close();
+		});
+	}
+
+	it('stores the server-computed state next to each thought', async () => {
+		const persistence = new PersistenceLayer({ dbPath: ':memory:' });
+		const computed: ThoughtComputedState = {
+			confidenceSource: 'calculated',
+			inputTotalThoughts: 1,
+			backtracks: [{ thoughtNumber: 2, confidence: 0.1, reason: 'Confidence 0.10 below threshold 0.3' }],
+			dagDependencies: [1],
+			dagStatus: 'completed',
+		};
+		await persistence.saveThought(generateThought(createRandom(3)), 'computed', computed);
+		await persistence.saveThought(generateThought(createRandom(4)), 'computed');
+
+		assert.deepStrictEqual(await persistence.getComputedStates('computed'), [computed, undefined]);
+		persistence.close();
+	});
+});
+
+describe('Hydrated session behavior', () => {
+	it('matches the original session thought for thought', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-roundtrip-'));
+		const dbPath = path.join(dir, 'test.db');
+		const sessionId = 'roundtrip-session';
+		const createServer = async () => {
+			const server = new ToolAwareSequentialThinkingServer({
+				dbPath,
+				sessionId,
+				enablePersistence: true,
+				enableBacktracking: true,
+				enableDAG: true,
+			});
+			await server.initialize();
+			return server;
+		};
+		const step = (description: string, tools: Array<[string, number]>): StepRecommendation => ({
+			step_description: description,
+			expected_outcome: 'done',
+			recommended_tools: tools.map(([toolName, priority]) => ({
+				tool_name: toolName,
+				confidence: 0.8,
+				rationale: 'needed',
+				priority,
+			})),
+		});
+		const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+			available_mcp_tools: ['search_docs', 'read_file'],
+			thought: `thought ${thoughtNumber}`,
+			thought_number: thoughtNumber,
+			total_thoughts: 4,
+			next_thought_needed: true,
+			...extra,
+		});
+
+		const original = await createServer();
+		await original.processThought(thought(1, { confidence: 0.9, remaining_steps: ['read', 'summarize'] }));
+		await original.processThought(thought(2, {
+			confidence: 0.8,
+			current_step: step('Search and read', [['read_file', 2], ['search_docs', 1]]),
+			remaining_steps: [],
+		}));
+		// Backtracking is suggested and the thought is not recorded
+		const suggested = (await original.processThought(thought(3, { confidence: 0.1 }))).structuredContent as any;
+		assert.equal(suggested.backtracking_suggested, true);
+		// A branch reuses number 2 and carries the backtrack suggested before it
+		await original.processThought(thought(2, { confidence: 0.8, branch_from_thought: 1, branch_id: 'retry' }));
+		await original.processThought(thought(5, { total_thoughts: 3, is_revision: false }));
+
+		const hydrated = await createServer();
+		const processorOf = (server: ToolAwareSequentialThinkingServer) =>
+			(server as any).sessions.get(sessionId).processor;
+		assert.deepStrictEqual(processorOf(hydrated).getHistory(), processorOf(original).getHistory());
+		assert.deepStrictEqual(processorOf(hydrated).getConfidenceStats(), processorOf(original).getConfidenceStats());
+		assert.equal(processorOf(hydrated).getConfidenceStats().backtrackCount, 1);
+		assert.deepStrictEqual(processorOf(hydrated).getComputedStates(), processorOf(original).getComputedStates());
+
+		// The same next thoughts get the same answers from both sessions
+		for (const next of [thought(6, { confidence: 0.05 }), thought(6, { next_thought_needed: false })]) {
+			const expected = (await original.processThought(structuredClone(next))).structuredContent;
+			const actual = (await hydrated.processThought(structuredClone(next))).structuredContent;
+			assert.deepStrictEqual(actual, expected);
+		}
+
+		original.shutdown();
+		hydrated.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+});
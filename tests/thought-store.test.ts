@@ -0,0 +1,327 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ConfigurationManager } from '../src/config-manager.js';
+import { JsonlThoughtStore } from '../src/jsonl-store.js';
+import { InMemoryThoughtStore } from '../src/memory-store.js';
+import { PersistenceLayer } from '../src/persistence.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { createThoughtStore, DeferredThoughtStore, ThoughtStore } from '../src/thought-store.js';
+import { ToolChain } from '../src/tool-chains.js';
+import { ThoughtData } from '../src/types.js';
+
+const tempDir = () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-thought-store-'));
+	return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+	available_mcp_tools: ['search', 'read'],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 3,
+	next_thought_needed: true,
+	...extra,
+});
+
+const chain = (id: string, sequence: string[], successCount = 1): ToolChain => ({
+	id,
+	sequence,
+	context: 'testing',
+	successCount,
+	totalUses: successCount,
+	averageConfidence: 0.8,
+	lastUsed: '2024-01-01T00:00:00.000Z',
+});
+
+const backends: Array<[string, (dir: string) => ThoughtStore]> = [
+	['sqlite', dir => new PersistenceLayer({ dbPath: path.join(dir, 'test.db') })],
+	['memory', () => new InMemoryThoughtStore()],
+	['jsonl', dir => new JsonlThoughtStore(path.join(dir, 'test.jsonl'))],
+];
+
+for (const [backend, open] of backends) {
+	describe(`ThoughtStore (${backend})`, () => {
+		const withStore = (test: (store: ThoughtStore) => Promise<void>) => async () => {
+			const { dir, cleanup } = tempDir();
+			const store = open(dir);
+			try {
+				await test(store);
+			} finally {
+				store.close();
+				cleanup();
+			}
+		};
+
+		it('returns thoughts as saved, per session and in order', withStore(async store => {
+			assert.equal(store.isEnabled(), true);
+			const first = thought(1, {
+				confidence: 0,
+				current_step: { step_description: 'Search', recommended_tools: [], expected_outcome: 'Pages' },
+			});
+			assert.equal(typeof await store.saveThought(first, 'a', { confidenceSource: 'input' }), 'number');
+			await store.saveThought(thought(1), 'b');
+			await store.saveThought(thought(2, { next_thought_needed: false }), 'a');
+
+			assert.deepStrictEqual(await store.getThoughtHistory('a'), [first, thought(2, { next_thought_needed: false })]);
+			assert.deepStrictEqual(await store.getThoughtHistory(), []);
+			assert.deepStrictEqual(await store.getComputedStates('a'), [{ confidenceSource: 'input' }, undefined]);
+			assert.equal(await store.hasSession('b'), true);
+			assert.equal(await store.hasSession('missing'), false);
+
+			const sessions = await store.listSessions();
+			assert.deepStrictEqual(sessions.map(session => session.sessionId).sort(), ['a', 'b']);
+			const a = sessions.find(session => session.sessionId === 'a')!;
+			assert.equal(a.thoughtCount, 2);
+			assert.equal(a.lastThoughtNumber, 2);
+			assert.equal(a.completed, true);
+		}));
+
+		it('copies thoughts with their computed states and records execution results', withStore(async store => {
+			const copied = await store.copyThoughts(
+				[thought(1), thought(2)],
+				'copy',
+				[undefined, { confidenceSource: 'calculated', dagDependencies: [1] }],
+			);
+			assert.equal(copied, 2);
+			assert.deepStrictEqual(await store.getThoughtHistory('copy'), [thought(1), thought(2)]);
+			assert.deepStrictEqual(
+				await store.getComputedStates('copy'),
+				[undefined, { confidenceSource: 'calculated', dagDependencies: [1] }],
+			);
+
+			await store.updateExecutionStatus('copy', 1, { status: 'failed', error: 'timed out' });
+			await store.updateExecutionStatus('copy', 1, { status: 'completed' });
+			await store.updateExecutionStatus('copy', 2, { status: 'failed', error: 'not found' });
+			assert.deepStrictEqual(await store.getExecutionStatuses('copy'), new Map([
+				[1, { status: 'completed' }],
+				[2, { status: 'failed', error: 'not found' }],
+			]));
+		}));
+
+		it('returns steps repeated across thoughts, copies and cleared sessions', withStore(async store => {
+			const search = { step_description: 'Search', recommended_tools: [], expected_outcome: 'Pages' };
+			const read = { step_description: 'Read', recommended_tools: [], expected_outcome: 'Notes' };
+			const thoughts = [
+				thought(1, { current_step: search, previous_steps: [] }),
+				thought(2, { current_step: read, previous_steps: [search] }),
+				thought(3, { current_step: search, previous_steps: [search, read] }),
+			];
+			for (const saved of thoughts) {
+				await store.saveThought(saved, 'a');
+			}
+			await store.copyThoughts(thoughts, 'b', new Map());
+			await store.clearHistory('a');
+			await store.saveThought(thoughts[1], 'a');
+
+			assert.deepStrictEqual(await store.getThoughtHistory('b'), thoughts);
+			assert.deepStrictEqual(await store.getThoughtHistory('a'), [thoughts[1]]);
+		}));
+
+		it('returns previous steps that grow, shrink and diverge between thoughts', withStore(async store => {
+			const [a, b, c, d] = ['A', 'B', 'C', 'D'].map(name => ({
+				step_description: name,
+				recommended_tools: [],
+				expected_outcome: name,
+			}));
+			const thoughts = [
+				thought(1, { previous_steps: [a, b] }),
+				thought(2, { previous_steps: [a, b, c] }),
+				thought(3, { previous_steps: [a] }),
+				thought(4),
+				thought(5, { previous_steps: [a, d] }),
+				thought(6, { previous_steps: [a, d, b] }),
+				thought(7, { previous_steps: [] }),
+				thought(8, { previous_steps: [c] }),
+			];
+			for (const saved of thoughts) {
+				await store.saveThought(saved, 'a');
+			}
+			await store.copyThoughts(thoughts, 'b');
+
+			assert.deepStrictEqual(await store.getThoughtHistory('a'), thoughts);
+			assert.deepStrictEqual(await store.getThoughtHistory('b'), thoughts);
+		}));
+
+		it('updates learned chains in place and removes empty chain buffers', withStore(async store => {
+			await store.saveToolChain(chain('first', ['search', 'read']));
+			await store.saveToolChain(chain('second', ['read', 'write']));
+			await store.saveToolChain(chain('renamed', ['search', 'read'], 3));
+			assert.deepStrictEqual(await store.getToolChains(), [
+				chain('first', ['search', 'read'], 3),
+				chain('second', ['read', 'write']),
+			]);
+
+			await store.saveCurrentChain('a', { sequence: ['search'], executed: true, failures: 1 });
+			assert.deepStrictEqual(await store.getCurrentChain('a'), { sequence: ['search'], executed: true, failures: 1 });
+			await store.saveCurrentChain('a', { sequence: [], executed: false, failures: 0 });
+			assert.deepStrictEqual(await store.getCurrentChain('a'), { sequence: [], executed: false, failures: 0 });
+		}));
+
+		it('keeps budgets and tool outcomes', withStore(async store => {
+			assert.equal(await store.getSessionBudget('a'), null);
+			const budget = { limits: { maxHighCostCalls: 2, maxCostUnits: 10 }, spent: { calls: 2, high_cost_calls: 1, cost_units: 4 } };
+			await store.saveSessionBudget('a', budget);
+			assert.deepStrictEqual(await store.getSessionBudget('a'), budget);
+
+			await store.saveToolOutcome('search', { success: true, durationMs: 10, outputSummary: 'ten results' });
+			await store.saveToolOutcome('search', { success: false, error: 'request timed out', reportedAt: '2030-01-01T00:00:00.000Z' });
+			await store.saveToolOutcome('read', { success: true });
+			await store.saveToolOutcome('read', { success: true, durationMs: 5 });
+
+			const snapshots = (await store.getToolOutcomeSnapshots(1))
+				.sort((a, b) => a.toolName.localeCompare(b.toolName));
+			assert.deepStrictEqual(snapshots.map(snapshot => snapshot.toolName), ['read', 'search']);
+			const [read, search] = snapshots;
+			assert.deepStrictEqual(read.recent, [{ success: true, durationMs: 5 }]);
+			assert.equal(search.successes, 1);
+			assert.equal(search.failures, 1);
+			assert.equal(search.timedCalls, 1);
+			assert.equal(search.totalDurationMs, 10);
+			assert.deepStrictEqual(search.errorCategories, { timeout: 1 });
+			assert.equal(search.lastError, 'request timed out');
+			assert.equal(search.lastFailureAt, '2030-01-01T00:00:00.000Z');
+			assert.equal(search.lastOutputSummary, 'ten results');
+			assert.deepStrictEqual(search.recent, [{ success: false }]);
+		}));
+
+		it('clears sessions but keeps learned chains and tool outcomes', withStore(async store => {
+			for (const sessionId of ['a', 'b']) {
+				await store.saveThought(thought(1), sessionId);
+				await store.saveCurrentChain(sessionId, { sequence: ['search'], executed: false, failures: 0 });
+				await store.saveSessionBudget(sessionId, { limits: {}, spent: { calls: 1, high_cost_calls: 0, cost_units: 1 } });
+			}
+			await store.saveToolChain(chain('first', ['search', 'read']));
+			await store.saveToolOutcome('search', { success: true });
+
+			await store.clearHistory('a');
+			assert.deepStrictEqual(await store.getThoughtHistory('a'), []);
+			assert.deepStrictEqual((await store.getCurrentChain('a')).sequence, []);
+			assert.equal(await store.getSessionBudget('a'), null);
+			assert.equal((await store.getThoughtHistory('b')).length, 1);
+
+			await store.clearHistory();
+			assert.deepStrictEqual(await store.listSessions(), []);
+			assert.equal(await store.getSessionBudget('b'), null);
+			assert.equal((await store.getToolChains()).length, 1);
+			assert.equal((await store.getToolOutcomeSnapshots()).length, 1);
+		}));
+	});
+}
+
+describe('JsonlThoughtStore', () => {
+	it('replays the file when reopened', async () => {
+		const { dir, cleanup } = tempDir();
+		const filePath = path.join(dir, 'store.jsonl');
+		const store = new JsonlThoughtStore(filePath);
+		await store.saveThought(thought(1), 'a', { confidenceSource: 'input' });
+		await store.updateExecutionStatus('a', 1, { status: 'completed' });
+		await store.saveToolChain(chain('first', ['search', 'read']));
+		await store.saveToolOutcome('search', { success: true, durationMs: 3 });
+		await store.saveThought(thought(1), 'b');
+		await store.clearHistory('b');
+		store.close();
+
+		const reopened = new JsonlThoughtStore(filePath);
+		assert.deepStrictEqual(await reopened.getThoughtHistory('a'), [thought(1)]);
+		assert.deepStrictEqual(await reopened.getComputedStates('a'), [{ confidenceSource: 'input' }]);
+		assert.deepStrictEqual(await reopened.getExecutionStatuses('a'), new Map([[1, { status: 'completed' }]]));
+		assert.deepStrictEqual(await reopened.getToolChains(), [chain('first', ['search', 'read'])]);
+		assert.equal((await reopened.getToolOutcomeSnapshots())[0].totalDurationMs, 3);
+		assert.equal(await reopened.hasSession('b'), false);
+		reopened.close();
+		cleanup();
+	});
+
+	it('writes each step of a session once', async () => {
+		const { dir, cleanup } = tempDir();
+		const filePath = path.join(dir, 'store.jsonl');
+		const store = new JsonlThoughtStore(filePath);
+		const step = { step_description: 'Search', recommended_tools: [], expected_outcome: 'Pages' };
+		await store.saveThought(thought(1, { current_step: step }), 'a');
+		await store.saveThought(thought(2, { current_step: step, previous_steps: [step] }), 'a');
+		await store.saveThought(thought(1, { current_step: step }), 'b');
+		store.close();
+
+		const types = fs.readFileSync(filePath, 'utf-8').trim().split('\n').map(line => JSON.parse(line).type);
+		assert.deepStrictEqual(types, ['step', 'thought', 'thought', 'step', 'thought']);
+		cleanup();
+	});
+
+	it('skips a line cut off by a crash and keeps appending after it', async () => {
+		const { dir, cleanup } = tempDir();
+		const filePath = path.join(dir, 'store.jsonl');
+		const store = new JsonlThoughtStore(filePath);
+		await store.saveThought(thought(1), 'a');
+		store.close();
+		fs.appendFileSync(filePath, '{"type":"thought","session_id":"a","thou');
+
+		const recovered = new JsonlThoughtStore(filePath);
+		assert.deepStrictEqual(await recovered.getThoughtHistory('a'), [thought(1)]);
+		await recovered.saveThought(thought(2), 'a');
+		recovered.close();
+
+		assert.deepStrictEqual(await new JsonlThoughtStore(filePath).getThoughtHistory('a'), [thought(1), thought(2)]);
+		cleanup();
+	});
+
+	it('lets a server resume its sessions after a restart', async () => {
+		const { dir, cleanup } = tempDir();
+		const options = {
+			storageBackend: 'jsonl' as const,
+			jsonlPath: path.join(dir, 'store.jsonl'),
+			dbPath: path.join(dir, 'unused.db'),
+			enablePersistence: true,
+			sessionId: 'default-session',
+		};
+		const server = new ToolAwareSequentialThinkingServer(options);
+		await server.initialize();
+		await server.processThought({ ...thought(1), session_id: 'resumed' });
+		await server.processThought({ ...thought(2), session_id: 'resumed' });
+		server.shutdown();
+		assert.equal(fs.existsSync(options.dbPath), false);
+
+		const restarted = new ToolAwareSequentialThinkingServer(options);
+		await restarted.initialize();
+		const sessions = (await restarted.listSessions()).structuredContent.sessions as Array<{ session_id: string; thought_count: number }>;
+		assert.equal(sessions.find(session => session.session_id === 'resumed')?.thought_count, 2);
+		restarted.shutdown();
+		cleanup();
+	});
+});
+
+describe('Storage backend selection', () => {
+	it('reads STORAGE_BACKEND and falls back to sqlite', () => {
+		assert.equal(new ConfigurationManager({}).getRuntimeConfig().storageBackend, 'sqlite');
+		assert.equal(new ConfigurationManager({ STORAGE_BACKEND: 'jsonl' }).getRuntimeConfig().storageBackend, 'jsonl');
+		assert.equal(new ConfigurationManager({ STORAGE_BACKEND: 'postgres' }).getRuntimeConfig().storageBackend, 'sqlite');
+		assert.equal(new ConfigurationManager({ JSONL_PATH: '/tmp/x.jsonl' }).getRuntimeConfig().jsonlPath, '/tmp/x.jsonl');
+	});
+
+	it('creates the configured store', async () => {
+		const config = { dbPath: ':memory:', jsonlPath: '', backupBeforeMigrate: false, migrationDryRun: false };
+		assert.ok(await createThoughtStore({ ...config, backend: 'memory', enablePersistence: true }) instanceof InMemoryThoughtStore);
+		const sqlite = await createThoughtStore({ ...config, backend: 'sqlite', enablePersistence: true });
+		assert.ok(sqlite instanceof PersistenceLayer);
+		sqlite.close();
+		const disabled = await createThoughtStore({ ...config, backend: 'memory', enablePersistence: false });
+		assert.equal(disabled.isEnabled(), false);
+		assert.equal(await disabled.saveThought(thought(1), 'a'), null);
+		assert.deepStrictEqual(await disabled.getThoughtHistory('a'), []);
+	});
+
+	it('waits for a store that is still being created', async () => {
+		let resolve!: (store: ThoughtStore) => void;
+		const deferred = new DeferredThoughtStore(new Promise(created => { resolve = created; }));
+		assert.equal(deferred.isEnabled(), false);
+
+		const saved = deferred.saveThought(thought(1), 'a');
+		const store = new InMemoryThoughtStore();
+		resolve(store);
+		assert.equal(typeof await saved, 'number');
+		assert.equal(deferred.isEnabled(), true);
+		assert.deepStrictEqual(await store.getThoughtHistory('a'), [thought(1)]);
+	});
+});
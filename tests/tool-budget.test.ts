@@ -0,0 +1,170 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ConfigurationManager } from '../src/config-manager.js';
+import { ToolBudget } from '../src/tool-budget.js';
+import { ToolCapabilityMatcher } from '../src/tool-capabilities.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { Tool, ToolCapability, ToolRecommendation } from '../src/types.js';
+
+const tool = (name: string, costLevel?: ToolCapability['costLevel']): Tool => ({
+	name,
+	description: `${name} searches the web`,
+	inputSchema: {},
+	capabilities: { category: 'search', tags: ['read'], complexity: 'medium', costLevel },
+});
+
+const TOOLS = [
+	tool('premium_search', 'high'),
+	tool('web_search', 'low'),
+	tool('cached_search', 'free'),
+	tool('deep_research', 'high'),
+];
+
+const recommend = (...names: string[]): ToolRecommendation[] => names.map((name, index) => ({
+	tool_name: name,
+	confidence: 0.9,
+	rationale: 'needed',
+	priority: index + 1,
+}));
+
+describe('ToolBudget', () => {
+	const tools = new Map(TOOLS.map(entry => [entry.name, entry]));
+	const matcher = new ToolCapabilityMatcher(tools);
+
+	it('flags the tools that would exceed a limit and proposes cheaper similar tools', () => {
+		const budget = new ToolBudget({ maxHighCostCalls: 1, maxCostUnits: 5 });
+		budget.recordCall(tools.get('premium_search'));
+
+		const status = budget.evaluate(recommend('web_search', 'deep_research'), tools, matcher);
+
+		assert.deepStrictEqual(status.spent, { calls: 1, high_cost_calls: 1, cost_units: 3 });
+		assert.deepStrictEqual(status.planned, { calls: 2, high_cost_calls: 1, cost_units: 4 });
+		assert.equal(status.remaining_high_cost_calls, 0);
+		assert.equal(status.remaining_cost_units, 2);
+		assert.equal(status.within_budget, false);
+		assert.deepStrictEqual(status.flags, [{
+			tool_name: 'deep_research',
+			cost_level: 'high',
+			estimated_cost: false,
+			reasons: ['Would be high-cost call 2 of 1 allowed', 'Would bring spend to 7 of 5 cost units'],
+			cheaper_alternatives: ['web_search', 'cached_search'],
+		}]);
+	});
+
+	it('treats tools without cost metadata as medium and keeps defaults under overrides', () => {
+		const budget = new ToolBudget({ maxHighCostCalls: 2 });
+		budget.setLimits({ maxCostUnits: 1 });
+		budget.recordCall(undefined);
+
+		assert.deepStrictEqual(budget.getLimits(), { maxHighCostCalls: 2, maxCostUnits: 1 });
+		assert.deepStrictEqual(budget.getState().spent, { calls: 1, high_cost_calls: 0, cost_units: 2 });
+
+		budget.reset();
+		assert.deepStrictEqual(budget.getLimits(), { maxHighCostCalls: 2, maxCostUnits: undefined });
+		assert.equal(new ToolBudget().hasLimits(), false);
+	});
+
+	it('ranks tools above a maximum cost level below cheaper matches', () => {
+		const matches = matcher.matchTools({ categories: ['search'], maxCostLevel: 'low' });
+		assert.deepStrictEqual(
+			matches.map(match => match.toolName),
+			['web_search', 'cached_search', 'premium_search', 'deep_research'],
+		);
+		assert.ok(matches[2].reasons.includes('Cost level high exceeds low'));
+	});
+
+	it('reads default limits from the environment', () => {
+		const runtime = new ConfigurationManager({
+			TOOL_BUDGET_MAX_HIGH_COST_CALLS: '2',
+			TOOL_BUDGET_MAX_COST_UNITS: 'lots',
+		}).getRuntimeConfig();
+		assert.deepStrictEqual(runtime.toolBudget, { maxHighCostCalls: 2, maxCostUnits: undefined });
+	});
+});
+
+describe('Session tool budgets', () => {
+	const thought = (thoughtNumber: number, tools: string[], extra: Record<string, unknown> = {}) => ({
+		available_mcp_tools: TOOLS.map(entry => entry.name),
+		thought: `thought ${thoughtNumber}`,
+		thought_number: thoughtNumber,
+		total_thoughts: 3,
+		next_thought_needed: true,
+		current_step: {
+			step_description: `step ${thoughtNumber}`,
+			expected_outcome: 'done',
+			recommended_tools: recommend(...tools),
+		},
+		...extra,
+	});
+
+	it('tracks reported calls against the budget across a restart', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-budget-'));
+		const options = {
+			dbPath: path.join(dir, 'test.db'),
+			sessionId: 'budgeted',
+			enablePersistence: true,
+			availableTools: TOOLS,
+			toolBudget: { maxCostUnits: 10 },
+		};
+
+		const server = new ToolAwareSequentialThinkingServer(options);
+		await server.initialize();
+		const first = (await server.processThought(thought(1, ['premium_search'], {
+			budget: { max_high_cost_calls: 1 },
+		}))).structuredContent as any;
+		assert.equal(first.tool_budget.max_high_cost_calls, 1);
+		assert.equal(first.tool_budget.max_cost_units, 10);
+		assert.equal(first.tool_budget.within_budget, true);
+
+		const reported = (await server.reportToolResult({
+			thought_number: 1,
+			tool_name: 'premium_search',
+			success: false,
+			error: 'timeout',
+		})).structuredContent as any;
+		assert.deepStrictEqual(reported.tool_budget.spent, { calls: 1, high_cost_calls: 1, cost_units: 3 });
+		server.shutdown();
+
+		const restarted = new ToolAwareSequentialThinkingServer(options);
+		await restarted.initialize();
+		const second = (await restarted.processThought(thought(2, ['premium_search']))).structuredContent as any;
+		assert.equal(second.tool_budget.remaining_high_cost_calls, 0);
+		assert.deepStrictEqual(second.tool_budget.flags.map((flag: any) => flag.tool_name), ['premium_search']);
+		assert.deepStrictEqual(second.tool_budget.flags[0].cheaper_alternatives, ['web_search', 'cached_search']);
+
+		await restarted.clearHistory();
+		const cleared = (await restarted.processThought(thought(1, ['premium_search']))).structuredContent as any;
+		assert.equal(cleared.tool_budget.max_high_cost_calls, undefined);
+		assert.equal(cleared.tool_budget.spent.calls, 0);
+
+		restarted.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('reuses the server tool matcher for cheaper alternatives', async () => {
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: TOOLS,
+			toolBudget: { maxHighCostCalls: 0 },
+		});
+		const findSimilar = mock.method((server as any).toolMatcher, 'findSimilarTools');
+
+		for (const thoughtNumber of [1, 2]) {
+			const result = (await server.processThought(thought(thoughtNumber, ['premium_search']))).structuredContent as any;
+			assert.deepStrictEqual(result.tool_budget.flags[0].cheaper_alternatives, ['web_search', 'cached_search']);
+		}
+		assert.equal(findSimilar.mock.callCount(), 2);
+
+		server.shutdown();
+	});
+
+	it('omits the budget when no limits are set', async () => {
+		const server = new ToolAwareSequentialThinkingServer({ enablePersistence: false, availableTools: TOOLS });
+		const result = (await server.processThought(thought(1, ['premium_search']))).structuredContent as any;
+		assert.equal(result.tool_budget, undefined);
+		server.shutdown();
+	});
+});
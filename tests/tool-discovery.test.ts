@@ -0,0 +1,198 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DISCOVERY_CHILD_ENV, ToolDiscovery, loadMcpServersConfig } from '../src/tool-discovery.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { Tool } from '../src/types.js';
+
+// A tiny stdio MCP server: lists one tool, then announces a second one
+const FAKE_SERVER = `
+const readline = require('node:readline');
+let listCalls = 0;
+const send = (message) => process.stdout.write(JSON.stringify(message) + '\\n');
+const tools = [
+	{ name: 'search_web', description: 'Search the web for pages' + (process.env.${DISCOVERY_CHILD_ENV} ? ' (discovery child)' : ''), inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] }, annotations: { readOnlyHint: true } },
+];
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+	const message = JSON.parse(line);
+	if (message.method === 'initialize') {
+		send({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: { listChanged: true } }, serverInfo: { name: 'fake', version: '1.0.0' } } });
+	} else if (message.method === 'tools/list') {
+		listCalls++;
+		if (listCalls === 1 && process.env.ANNOUNCE_DURING_LIST === 'true') {
+			// Announce the change before answering the first listing with the old tools
+			const listed = [...tools];
+			tools.push({ name: 'fetch_page', description: 'Fetch a page by URL', inputSchema: { type: 'object', properties: { url: { type: 'string' } } } });
+			send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+			send({ jsonrpc: '2.0', id: message.id, result: { tools: listed } });
+			return;
+		}
+		send({ jsonrpc: '2.0', id: message.id, result: { tools } });
+		if (listCalls === 1 && process.env.ANNOUNCE_CHANGE === 'true') {
+			tools.push({ name: 'fetch_page', description: 'Fetch a page by URL', inputSchema: { type: 'object', properties: { url: { type: 'string' } } } });
+			setTimeout(() => send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' }), 20);
+		}
+	}
+});
+`;
+
+const setupConfig = (servers: Record<string, unknown>) => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-discovery-'));
+	const serverPath = path.join(dir, 'fake-server.cjs');
+	fs.writeFileSync(serverPath, FAKE_SERVER);
+	const configPath = path.join(dir, 'mcp.json');
+	const mcpServers: Record<string, unknown> = {};
+	for (const [name, entry] of Object.entries(servers)) {
+		mcpServers[name] = { command: process.execPath, args: [serverPath], ...(entry as object) };
+	}
+	fs.writeFileSync(configPath, JSON.stringify({ mcpServers }));
+	return { dir, configPath, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+};
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 3000) => {
+	const start = Date.now();
+	while (!predicate()) {
+		if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+		await new Promise(resolve => setTimeout(resolve, 20));
+	}
+};
+
+describe('loadMcpServersConfig', () => {
+	it('rejects files without an mcpServers map', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-discovery-'));
+		const configPath = path.join(dir, 'bad.json');
+		fs.writeFileSync(configPath, JSON.stringify({ servers: {} }));
+
+		assert.throws(() => loadMcpServersConfig(configPath), /validation failed/);
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+});
+
+describe('ToolDiscovery', () => {
+	it('lists tools from each configured server and skips excluded or disabled ones', async () => {
+		const { configPath, cleanup } = setupConfig({
+			fake: {},
+			self: {},
+			off: { disabled: true },
+		});
+		const discovery = new ToolDiscovery({ configPath, excludeServers: ['self'], requestTimeoutMs: 5000 });
+		const seen: Record<string, Tool[]> = {};
+
+		const discovered = await discovery.start((serverName, tools) => {
+			seen[serverName] = tools;
+		});
+
+		assert.equal(discovered, 1);
+		assert.deepStrictEqual(Object.keys(seen), ['fake']);
+		assert.equal(seen.fake[0].name, 'search_web');
+		assert.equal(seen.fake[0].serverName, 'fake');
+		assert.deepStrictEqual((seen.fake[0].inputSchema as any).required, ['query']);
+		assert.deepStrictEqual(seen.fake[0].annotations, { readOnlyHint: true });
+		assert.match(seen.fake[0].description, /\(discovery child\)$/);
+
+		discovery.close();
+		cleanup();
+	});
+
+	it('does not discover from a server that was itself started by discovery', async () => {
+		const { configPath, cleanup } = setupConfig({ fake: {} });
+		const discovery = new ToolDiscovery({ configPath, env: { [DISCOVERY_CHILD_ENV]: '1' } });
+
+		const discovered = await discovery.start(() => {
+			assert.fail('no server should be started');
+		});
+
+		assert.equal(discovered, 0);
+		discovery.close();
+		cleanup();
+	});
+
+	it('keeps a tool list change announced during the first listing', async () => {
+		const { configPath, cleanup } = setupConfig({ fake: { env: { ANNOUNCE_DURING_LIST: 'true' } } });
+		const discovery = new ToolDiscovery({ configPath, requestTimeoutMs: 5000 });
+		let names: string[] = [];
+
+		await discovery.start((_serverName, tools) => {
+			names = tools.map(tool => tool.name);
+		});
+
+		await waitFor(() => names.includes('fetch_page'));
+		assert.deepStrictEqual(names, ['search_web', 'fetch_page']);
+		discovery.close();
+		cleanup();
+	});
+
+	it('stops servers that are still starting when closed', async () => {
+		const { configPath, cleanup } = setupConfig({ fake: {} });
+		const discovery = new ToolDiscovery({ configPath, requestTimeoutMs: 5000 });
+		const clients = (discovery as any).clients as Map<string, { close: () => void }>;
+
+		const started = discovery.start(() => {
+			assert.fail('no tools should be reported after close');
+		});
+		assert.equal(clients.size, 1);
+		const client = clients.get('fake')!;
+		let clientClosed = false;
+		const close = client.close.bind(client);
+		client.close = () => {
+			clientClosed = true;
+			close();
+		};
+		discovery.close();
+
+		assert.equal(await started, 0);
+		assert.equal(clientClosed, true);
+		assert.equal(clients.size, 0);
+		cleanup();
+	});
+
+	it('skips servers that fail to start', async () => {
+		const { configPath, cleanup } = setupConfig({
+			broken: { command: path.join(os.tmpdir(), 'does-not-exist-binary') },
+		});
+		const discovery = new ToolDiscovery({ configPath, requestTimeoutMs: 2000 });
+
+		const discovered = await discovery.start(() => {
+			assert.fail('no tools should be reported');
+		});
+
+		assert.equal(discovered, 0);
+		discovery.close();
+		cleanup();
+	});
+});
+
+describe('ToolAwareSequentialThinkingServer.discoverTools', () => {
+	it('registers discovered tools and refreshes them on listChanged', async () => {
+		const { configPath, cleanup } = setupConfig({ fake: { env: { ANNOUNCE_CHANGE: 'true' } } });
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			discoveryConfigPath: configPath,
+			discoveryTimeoutMs: 5000,
+		});
+
+		const discovered = await server.discoverTools();
+		assert.equal(discovered, 1);
+
+		const names = () => server.getAvailableTools().map(tool => tool.name);
+		assert.ok(names().includes('search_web'));
+
+		await waitFor(() => names().includes('fetch_page'));
+		const search = server.getAvailableTools().find(tool => tool.name === 'search_web');
+		assert.equal(search?.capabilities?.category, 'search');
+		assert.ok(search?.capabilities?.tags.includes('read-only'));
+		const fetchPage = server.getAvailableTools().find(tool => tool.name === 'fetch_page');
+		assert.deepStrictEqual(fetchPage?.capabilities?.inputTypes, ['url']);
+
+		server.shutdown();
+		cleanup();
+	});
+
+	it('is a no-op when no config path is set', async () => {
+		const server = new ToolAwareSequentialThinkingServer({ enablePersistence: false });
+		assert.equal(await server.discoverTools(), 0);
+		server.shutdown();
+	});
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { Tool } from '../src/types.js';
+
+const TOOLS: Tool[] = [
+	{
+		name: 'query_database',
+		description: 'Run a read-only SQL query against the database and return rows',
+		inputSchema: {},
+		capabilities: { category: 'data', tags: ['read', 'query'], complexity: 'medium', costLevel: 'low' },
+	},
+	{
+		name: 'write_record',
+		description: 'Insert or update a record in the database',
+		inputSchema: {},
+		capabilities: { category: 'data', tags: ['write'], complexity: 'medium', costLevel: 'medium' },
+	},
+	{
+		name: 'web_search',
+		description: 'Search the web for pages',
+		inputSchema: {},
+	},
+	{
+		name: 'send_email',
+		description: 'Send an email notification',
+		inputSchema: {},
+		capabilities: { category: 'communication', tags: ['write'], complexity: 'low', costLevel: 'high' },
+	},
+];
+
+const setupServer = () => new ToolAwareSequentialThinkingServer({
+	enablePersistence: false,
+	availableTools: TOOLS,
+});
+
+describe('match_tools', () => {
+	it('ranks tools for a free-text intent with reasons and metadata', async () => {
+		const server = setupServer();
+		const result = (await server.matchTools({ intent: 'which tools can read from a database' }))
+			.structuredContent as any;
+
+		const [top, second] = result.matches;
+		assert.equal(top.tool_name, 'query_database');
+		assert.deepStrictEqual(top.reasons, ['Matches intent capabilities: read', 'Text similarity 96%: read, database']);
+		assert.deepStrictEqual(top.capabilities, {
+			category: 'data',
+			categories: undefined,
+			tags: ['read', 'query'],
+			complexity: 'medium',
+			cost_level: 'low',
+			input_types: undefined,
+			output_types: undefined,
+		});
+		assert.equal(second.tool_name, 'write_record');
+		assert.ok(result.matches.every((match: any) => match.tool_name !== 'sequentialthinking_tools'));
+		assert.ok(result.available_categories.includes('data'));
+
+		server.shutdown();
+	});
+
+	it('combines capability filters, cost limits and similar tools', async () => {
+		const server = setupServer();
+		const result = (await server.matchTools({
+			tags: ['write'],
+			max_cost_level: 'medium',
+			similar_to: 'query_database',
+			limit: 1,
+		})).structuredContent as any;
+
+		assert.deepStrictEqual(result.matches.map((match: any) => match.tool_name), ['write_record']);
+		assert.equal(result.total_matches, 2);
+		assert.deepStrictEqual(result.similar_tools, ['write_record']);
+
+		server.shutdown();
+	});
+
+	it('includes reported reliability of matched tools', async () => {
+		const server = setupServer();
+		await server.processThought({
+			available_mcp_tools: ['query_database'],
+			thought: 'Look up the order',
+			thought_number: 1,
+			total_thoughts: 1,
+			next_thought_needed: true,
+			current_step: {
+				step_description: 'Query orders',
+				expected_outcome: 'Order rows',
+				recommended_tools: [{ tool_name: 'query_database', confidence: 0.9, rationale: 'SQL', priority: 1 }],
+			},
+		});
+		await server.reportToolResult({ thought_number: 1, tool_name: 'query_database', success: true });
+
+		const result = (await server.matchTools({ categories: ['data'] })).structuredContent as any;
+		assert.equal(result.matches[0].tool_stats.calls, 1);
+
+		server.shutdown();
+	});
+
+	it('rejects requests without any criteria', async () => {
+		const server = setupServer();
+		const result = await server.matchTools({ limit: 5 });
+
+		assert.equal(result.isError, true);
+		assert.equal((result.structuredContent as any).errorCategory, 'ValidationError');
+
+		server.shutdown();
+	});
+});
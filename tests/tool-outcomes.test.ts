@@ -0,0 +1,274 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { DEFAULT_SCORING_CONFIG } from '../src/config-constants.js';
+import { ToolCapabilityMatcher } from '../src/tool-capabilities.js';
+import { categorizeToolError, percentile, ToolOutcomeTracker } from '../src/tool-outcomes.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ThoughtData } from '../src/types.js';
+
+const thought = (
+	thoughtNumber: number,
+	tools: string[],
+	extra: Partial<ThoughtData> = {},
+): ThoughtData => ({
+	available_mcp_tools: [],
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 3,
+	next_thought_needed: true,
+	current_step: {
+		step_description: `step ${thoughtNumber}`,
+		expected_outcome: 'done',
+		recommended_tools: tools.map((toolName, index) => ({
+			tool_name: toolName,
+			confidence: 0.9,
+			rationale: 'needed',
+			priority: index + 1,
+		})),
+	},
+	...extra,
+});
+
+describe('ToolOutcomeTracker', () => {
+	it('aggregates successes, failures and durations per tool', () => {
+		const tracker = new ToolOutcomeTracker();
+		tracker.record('search', { success: true, durationMs: 100, outputSummary: '3 hits' });
+		tracker.record('search', { success: false, error: 'timeout' });
+		const stats = tracker.record('search', { success: true, durationMs: 300 });
+
+		assert.equal(stats.calls, 3);
+		assert.equal(stats.failures, 1);
+		assert.equal(stats.success_rate, 2 / 3);
+		assert.equal(stats.average_duration_ms, 200);
+		assert.equal(stats.last_error, 'timeout');
+		assert.equal(stats.last_output_summary, '3 hits');
+
+		tracker.record('read', { success: true });
+		assert.deepStrictEqual(tracker.getAllStats().map(entry => entry.tool_name), ['search', 'read']);
+		assert.equal(tracker.getStats('missing'), undefined);
+	});
+
+	it('reports latency percentiles and error categories', () => {
+		const tracker = new ToolOutcomeTracker();
+		for (const durationMs of [10, 20, 30, 40, 50, 60, 70, 80, 90, 1000]) {
+			tracker.record('fetch', { success: true, durationMs });
+		}
+		tracker.record('fetch', { success: false, error: 'Request timed out after 30s' });
+		const stats = tracker.record('fetch', { success: false, error: 'HTTP 429 Too Many Requests' });
+
+		assert.equal(stats.p50_latency_ms, 50);
+		assert.equal(stats.p95_latency_ms, 1000);
+		assert.deepStrictEqual(stats.error_categories, { timeout: 1, rate_limit: 1 });
+		assert.equal(stats.last_error, 'HTTP 429 Too Many Requests');
+		assert.ok(stats.last_failure_at);
+	});
+
+	it('warns about tools failing most of their recent calls', () => {
+		const tracker = new ToolOutcomeTracker();
+		tracker.record('flaky_search', { success: true });
+		for (let i = 0; i < 4; i++) {
+			tracker.record('flaky_search', { success: false, error: 'ETIMEDOUT' });
+		}
+		tracker.record('steady_read', { success: true });
+
+		assert.deepStrictEqual(tracker.getWarnings(['flaky_search', 'steady_read', 'unknown']), [{
+			tool_name: 'flaky_search',
+			message: 'flaky_search failed 4 of the last 5 times, mostly timeout errors',
+			recent_calls: 5,
+			recent_failures: 4,
+			top_error_category: 'timeout',
+		}]);
+	});
+
+	it('categorizes common error messages', () => {
+		assert.equal(categorizeToolError('ENOENT: no such file'), 'not_found');
+		assert.equal(categorizeToolError('403 Forbidden'), 'permission');
+		assert.equal(categorizeToolError('connect ECONNREFUSED'), 'network');
+		assert.equal(categorizeToolError('something odd'), 'unknown');
+		assert.equal(percentile([], 50), undefined);
+	});
+
+	it('ranks unreliable tools below equally matching reliable ones', () => {
+		const tools = new Map([
+			['flaky_search', { name: 'flaky_search', description: 'search the web', inputSchema: {} }],
+			['web_search', { name: 'web_search', description: 'search the web', inputSchema: {} }],
+		]);
+		const tracker = new ToolOutcomeTracker();
+		for (let i = 0; i < 5; i++) {
+			tracker.record('flaky_search', { success: i === 0 });
+			tracker.record('web_search', { success: true });
+		}
+
+		const matches = new ToolCapabilityMatcher(tools, tracker).matchTools({ keywords: ['search'] });
+		assert.deepStrictEqual(matches.map(match => match.toolName), ['web_search', 'flaky_search']);
+		assert.match(matches[1].reasons.at(-1)!, /Reliability 29% over 5 reported calls/);
+	});
+});
+
+describe('report_tool_result', () => {
+	const setupServer = (enableDAG = true) => new ToolAwareSequentialThinkingServer({
+		enablePersistence: false,
+		enableDAG,
+		enableToolChains: true,
+	});
+
+	it('completes a step once every recommended tool succeeded', async () => {
+		const server = setupServer();
+		await server.processThought(thought(1, ['search', 'read']));
+		await server.processThought(thought(2, ['summarize']));
+
+		const first = (await server.reportToolResult({
+			thought_number: 1,
+			tool_name: 'search',
+			success: true,
+			duration_ms: 250,
+		})).structuredContent as any;
+		assert.equal(first.step_status, 'executing');
+		assert.deepStrictEqual(first.pending_tools, ['read']);
+		assert.equal(first.recommended, true);
+		assert.equal(first.tool_stats.average_duration_ms, 250);
+
+		const second = (await server.reportToolResult({
+			thought_number: 1,
+			tool_name: 'read',
+			success: true,
+			output_summary: 'file contents',
+		})).structuredContent as any;
+		assert.equal(second.step_status, 'completed');
+		assert.deepStrictEqual(second.pending_tools, []);
+
+		// The start was backdated by the reported duration
+		const plan = (await server.getCriticalPath({ weighting: 'duration' })).structuredContent as any;
+		assert.ok(plan.nodes.find((node: any) => node.thought_number === 1).weight >= 250);
+
+		server.shutdown();
+	});
+
+	it('fails the step and its dependents on a failed tool call', async () => {
+		const server = setupServer();
+		await server.processThought(thought(1, ['search']));
+		await server.processThought(thought(2, ['summarize']));
+
+		const result = (await server.reportToolResult({
+			thought_number: 1,
+			tool_name: 'search',
+			success: false,
+			error: 'rate limited',
+		})).structuredContent as any;
+		assert.equal(result.step_status, 'failed');
+		assert.deepStrictEqual(result.propagated_failures, [2]);
+
+		// Late results are still counted but leave the step alone
+		const late = (await server.reportToolResult({ thought_number: 1, tool_name: 'search', success: true }))
+			.structuredContent as any;
+		assert.equal(late.step_status, 'failed');
+		assert.equal(late.tool_stats.calls, 2);
+
+		server.shutdown();
+	});
+
+	it('learns chains from executed tools with reported success', async () => {
+		const server = setupServer(false);
+		await server.processThought(thought(1, ['search']));
+		await server.reportToolResult({ thought_number: 1, tool_name: 'web_search', success: true });
+		await server.processThought(thought(2, ['read']));
+		const result = (await server.reportToolResult({ thought_number: 2, tool_name: 'fetch', success: false }))
+			.structuredContent as any;
+		assert.deepStrictEqual(result.tool_chain, { sequence: ['web_search', 'fetch'], executed: true, failures: 1 });
+		assert.equal(result.step_status, undefined);
+
+		// A confident final thought does not make a chain with failed calls a success
+		await server.processThought(thought(3, ['write'], { next_thought_needed: false, confidence: 0.95 }));
+		const [chain] = (server as any).toolChainLibrary.getTopChains();
+		assert.deepStrictEqual(chain.sequence, ['web_search', 'fetch']);
+		assert.equal(chain.successCount, 0);
+
+		server.shutdown();
+	});
+
+	it('learns recommended chains at a lower weight when no results are reported', async () => {
+		const server = setupServer(false);
+		await server.processThought(thought(1, ['search']));
+		await server.processThought(thought(2, ['read'], { next_thought_needed: false, confidence: 0.95 }));
+		const library = (server as any).toolChainLibrary;
+		const [recommended] = library.getTopChains();
+		assert.deepStrictEqual(recommended.sequence, ['search', 'read']);
+		assert.equal(recommended.recommendedUses, 1);
+		assert.equal(library.suggestNextTool(['search'])[0].observations, DEFAULT_SCORING_CONFIG.toolChains.recommendedWeight);
+
+		// An executed use of the same chain counts fully
+		await server.processThought(thought(1, ['search'], { session_id: 'executed' }));
+		await server.reportToolResult({ session_id: 'executed', thought_number: 1, tool_name: 'search', success: true });
+		await server.reportToolResult({ session_id: 'executed', thought_number: 1, tool_name: 'read', success: true });
+		await server.processThought(thought(2, [], { session_id: 'executed', next_thought_needed: false }));
+		assert.equal(recommended.totalUses, 2);
+		assert.equal(recommended.recommendedUses, 1);
+		assert.equal(
+			library.suggestNextTool(['search'])[0].observations,
+			1 + DEFAULT_SCORING_CONFIG.toolChains.recommendedWeight,
+		);
+
+		// Reported results replace the recommendations, and an explicit zero confidence is kept
+		await server.processThought(thought(1, ['search'], { session_id: 'reversed' }));
+		await server.reportToolResult({ session_id: 'reversed', thought_number: 1, tool_name: 'read', success: true });
+		await server.reportToolResult({ session_id: 'reversed', thought_number: 1, tool_name: 'search', success: true });
+		await server.processThought(thought(2, ['fetch'], { session_id: 'reversed', next_thought_needed: false, confidence: 0 }));
+		const executed = library.getChains().find((chain: any) => chain.sequence.join() === 'read,search');
+		assert.equal(executed.successCount, 1);
+		assert.equal(executed.recommendedUses, undefined);
+		assert.equal(executed.averageConfidence, 0);
+
+		server.shutdown();
+	});
+
+	it('persists statistics and warns when recommending a failing tool', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-outcomes-'));
+		const dbPath = path.join(dir, 'test.db');
+		const options = { dbPath, sessionId: 'outcomes', enablePersistence: true, enableDAG: false };
+
+		const server = new ToolAwareSequentialThinkingServer(options);
+		await server.initialize();
+		await server.processThought(thought(1, ['flaky_search']));
+		for (const [index, success] of [true, false, false, false, false].entries()) {
+			await server.reportToolResult({
+				thought_number: 1,
+				tool_name: 'flaky_search',
+				success,
+				duration_ms: 100 * (index + 1),
+				error: success ? undefined : 'rate limit exceeded',
+			});
+		}
+		server.shutdown();
+
+		const restarted = new ToolAwareSequentialThinkingServer(options);
+		await restarted.initialize();
+		const stats = (restarted as any).toolOutcomes.getStats('flaky_search');
+		assert.equal(stats.calls, 5);
+		assert.equal(stats.p50_latency_ms, 300);
+		assert.deepStrictEqual(stats.error_categories, { rate_limit: 4 });
+		assert.equal(stats.last_error, 'rate limit exceeded');
+
+		const result = await restarted.processThought(thought(2, ['flaky_search']));
+		assert.deepStrictEqual((result.structuredContent as any).tool_warnings.map((warning: any) => warning.message), [
+			'flaky_search failed 4 of the last 5 times, mostly rate limit errors',
+		]);
+
+		restarted.shutdown();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('rejects results for unknown thoughts', async () => {
+		const server = setupServer();
+		const result = await server.reportToolResult({ thought_number: 4, tool_name: 'search', success: true });
+		const payload = result.structuredContent as any;
+
+		assert.equal(result.isError, true);
+		assert.equal(payload.errorType, 'ThoughtNotFoundError');
+		assert.equal(payload.errorCategory, 'ValidationError');
+
+		server.shutdown();
+	});
+});
@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolSafetyPolicy } from '../src/tool-safety.js';
+import { enrichToolsWithCapabilities } from '../src/tool-capabilities.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ConfigurationManager } from '../src/config-manager.js';
+import { ThoughtData, Tool, ToolRecommendation } from '../src/types.js';
+
+const TOOLS: Tool[] = [
+	{ name: 'delete_branch', description: 'Delete a git branch', inputSchema: {} },
+	{ name: 'list_branches', description: 'List the branches of a repository', inputSchema: {} },
+	{ name: 'send_email', description: 'Send an email notification', inputSchema: {} },
+	{ name: 'write_note', description: 'Write a note to the local scratchpad', inputSchema: {} },
+	{
+		name: 'reset_cache',
+		description: 'Reset the cache',
+		inputSchema: {},
+		annotations: { destructiveHint: true },
+	},
+];
+
+const recommend = (toolName: string, priority = 1, extra: Partial<ToolRecommendation> = {}): ToolRecommendation => ({
+	tool_name: toolName,
+	confidence: 0.9,
+	rationale: 'needed',
+	priority,
+	...extra,
+});
+
+const thought = (thoughtNumber: number, tools: ToolRecommendation[], extra: Partial<ThoughtData> = {}): ThoughtData => ({
+	available_mcp_tools: TOOLS.map(tool => tool.name),
+	thought: `thought ${thoughtNumber}`,
+	thought_number: thoughtNumber,
+	total_thoughts: 3,
+	next_thought_needed: true,
+	current_step: {
+		step_description: `step ${thoughtNumber}`,
+		expected_outcome: 'done',
+		recommended_tools: tools,
+	},
+	...extra,
+});
+
+describe('ToolSafetyPolicy', () => {
+	const tools = new Map(TOOLS.map(tool => [tool.name, { ...tool }]));
+	enrichToolsWithCapabilities(tools);
+	const policy = new ToolSafetyPolicy(tools);
+
+	it('classifies destructive and external side-effect tools', () => {
+		assert.deepStrictEqual(policy.assess('delete_branch'), { risk: 'destructive', reasons: ['Tagged delete'] });
+		assert.equal(policy.assess('reset_cache')?.risk, 'destructive');
+		assert.deepStrictEqual(policy.assess('send_email'), {
+			risk: 'external_side_effect',
+			reasons: ['Sends communication'],
+		});
+		assert.equal(policy.assess('write_note'), undefined);
+		assert.equal(policy.assess('list_branches'), undefined);
+		// Unregistered tools are judged by their name
+		assert.equal(policy.assess('drop_table')?.risk, 'destructive');
+	});
+
+	it('reports a destructive first step as a violation', () => {
+		const result = policy.evaluate(thought(1, [recommend('delete_branch')]));
+
+		assert.equal(result?.valid, false);
+		assert.deepStrictEqual(result?.violations.map(violation => violation.tool_name), ['delete_branch']);
+		assert.match(result!.violations[0].message, /set confirmed: true/);
+		assert.equal(policy.evaluate(thought(1, [recommend('list_branches')])), undefined);
+	});
+
+	it('accepts a confirmation or an earlier read or verify step', () => {
+		const confirmed = policy.evaluate(thought(1, [recommend('delete_branch', 1, { confirmed: true })]));
+		assert.equal(confirmed?.valid, true);
+		assert.equal(confirmed?.flags[0].safeguard, 'confirmed');
+
+		const sameStep = policy.evaluate(thought(1, [recommend('delete_branch', 2), recommend('list_branches', 1)]));
+		assert.deepStrictEqual(
+			sameStep?.flags.map(flag => [flag.safeguard, flag.verified_by]),
+			[['prior_verification', 'list_branches']],
+		);
+
+		const earlierThought = policy.evaluate(thought(2, [recommend('send_email')]), [
+			thought(1, [recommend('write_note')], {
+				current_step: {
+					step_description: 'Check the draft with the user',
+					expected_outcome: 'Approved draft',
+					recommended_tools: [recommend('write_note')],
+				},
+			}),
+		]);
+		assert.equal(earlierThought?.valid, true);
+		assert.equal(earlierThought?.flags[0].verified_by, 'Check the draft with the user');
+
+		// A read that comes after the destructive call does not count
+		const readAfter = policy.evaluate(thought(1, [recommend('delete_branch', 1), recommend('list_branches', 2)]));
+		assert.equal(readAfter?.valid, false);
+	});
+
+	it('only counts a verify step right before the risky one on the same branch', () => {
+		const history = [
+			thought(1, [recommend('list_branches')]),
+			thought(2, [recommend('write_note')]),
+			thought(3, [recommend('list_branches')], { branch_id: 'alt', branch_from_thought: 2 }),
+		];
+
+		// Listed two thoughts earlier and on another branch
+		const mainLine = policy.evaluate(thought(3, [recommend('delete_branch')]), history);
+		assert.equal(mainLine?.valid, false);
+
+		const onBranch = policy.evaluate(
+			thought(4, [recommend('delete_branch')], { branch_id: 'alt', branch_from_thought: 2 }),
+			history,
+		);
+		assert.equal(onBranch?.flags[0].verified_by, 'list_branches');
+
+		// The first thought of a branch follows the thought it branched from
+		const branchStart = policy.evaluate(
+			thought(2, [recommend('delete_branch')], { branch_id: 'other', branch_from_thought: 1 }),
+			history,
+		);
+		assert.equal(branchStart?.valid, true);
+
+		const listStep = history[0].current_step!;
+		const noteStep = history[1].current_step!;
+		const earlierPrevious = policy.evaluate(thought(1, [recommend('delete_branch')], { previous_steps: [listStep, noteStep] }));
+		assert.equal(earlierPrevious?.valid, false);
+		const lastPrevious = policy.evaluate(thought(1, [recommend('delete_branch')], { previous_steps: [noteStep, listStep] }));
+		assert.equal(lastPrevious?.valid, true);
+	});
+
+	it('does not count backups or dry runs as verification', () => {
+		const result = policy.evaluate(thought(2, [recommend('reset_cache')]), [
+			thought(1, [], {
+				current_step: {
+					step_description: 'Backup the cache and dry run the reset',
+					expected_outcome: 'Backup',
+					recommended_tools: [],
+				},
+			}),
+		]);
+		assert.equal(result?.valid, false);
+	});
+});
+
+describe('Tool safety in processThought', () => {
+	it('returns violations and rejects them in strict mode', async () => {
+		const lenient = new ToolAwareSequentialThinkingServer({ enablePersistence: false, availableTools: TOOLS });
+		const reported = (await lenient.processThought(thought(1, [recommend('delete_branch')]))).structuredContent as any;
+		assert.equal(reported.tool_safety.valid, false);
+		assert.equal(reported.tool_safety.violations[0].risk, 'destructive');
+		lenient.shutdown();
+
+		const strict = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: TOOLS,
+			strictToolSafety: true,
+		});
+		const rejected = await strict.processThought(thought(1, [recommend('delete_branch')]));
+		assert.equal(rejected.isError, true);
+		const payload = rejected.structuredContent as any;
+		assert.equal(payload.status, 'rejected');
+		assert.equal(payload.errorType, 'ToolSafetyError');
+		assert.equal(payload.errorCategory, 'ValidationError');
+
+		// The rejected thought was not recorded, so listing first makes the delete safe
+		await strict.processThought(thought(1, [recommend('list_branches')]));
+		const accepted = (await strict.processThought(thought(2, [recommend('delete_branch')]))).structuredContent as any;
+		assert.equal(accepted.tool_safety.valid, true);
+		assert.equal(accepted.tool_safety.flags[0].verified_by, 'list_branches');
+		strict.shutdown();
+	});
+
+	it('reads strict mode from STRICT_TOOL_SAFETY', () => {
+		assert.equal(new ConfigurationManager({ STRICT_TOOL_SAFETY: 'true' }).getRuntimeConfig().strictToolSafety, true);
+		assert.equal(new ConfigurationManager({}).getRuntimeConfig().strictToolSafety, false);
+	});
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolNameValidator, editDistance, nameSimilarity } from '../src/tool-validation.js';
+import { ToolCapabilityMatcher } from '../src/tool-capabilities.js';
+import { ToolAwareSequentialThinkingServer } from '../src/server.js';
+import { ThoughtData, Tool } from '../src/types.js';
+
+const tool = (name: string, description: string): Tool => ({
+	name,
+	description,
+	inputSchema: {},
+});
+
+const thoughtWith = (
+	available: string[],
+	recommendations: Array<{ tool_name: string; alternatives?: string[] }>,
+): ThoughtData => ({
+	thought: 'pick tools',
+	thought_number: 1,
+	total_thoughts: 2,
+	next_thought_needed: true,
+	available_mcp_tools: available,
+	current_step: {
+		step_description: 'search',
+		expected_outcome: 'results',
+		recommended_tools: recommendations.map(recommendation => ({
+			confidence: 0.8,
+			rationale: 'needed',
+			priority: 1,
+			...recommendation,
+		})),
+	},
+});
+
+describe('nameSimilarity', () => {
+	it('scores typos and reordered tokens above unrelated names', () => {
+		assert.equal(editDistance('search_web', 'serch_web'), 1);
+		assert.ok(nameSimilarity('search_web', 'serch_web') > 0.8);
+		assert.ok(nameSimilarity('web_search', 'search-web') >= 0.9);
+		assert.ok(nameSimilarity('search_web', 'delete_file') < 0.5);
+	});
+});
+
+describe('ToolNameValidator', () => {
+	const registry = new Map<string, Tool>([
+		['search_web', tool('search_web', 'Search the web for pages')],
+		['read_file', tool('read_file', 'Read a file from disk')],
+		['sequentialthinking_tools', tool('sequentialthinking_tools', 'Think step by step')],
+	]);
+	const validator = new ToolNameValidator(registry, { ignoredTools: ['sequentialthinking_tools'] });
+
+	it('accepts tools offered in available_mcp_tools', () => {
+		const result = validator.validate(thoughtWith(['search_web'], [{ tool_name: 'search_web' }]));
+		assert.deepStrictEqual(result, { valid: true, checked: 1, issues: [] });
+	});
+
+	it('flags unknown tools with the closest valid names', () => {
+		const result = validator.validate(thoughtWith(
+			['search_web', 'read_file'],
+			[{ tool_name: 'serch_web', alternatives: ['read_file', 'magic_tool'] }],
+		));
+
+		assert.equal(result?.valid, false);
+		assert.equal(result?.checked, 3);
+		const [typo, madeUp] = result!.issues;
+		assert.equal(typo.type, 'unknown_tool');
+		assert.equal(typo.field, 'tool_name');
+		assert.equal(typo.suggestions[0], 'search_web');
+		assert.equal(madeUp.tool_name, 'magic_tool');
+		assert.equal(madeUp.field, 'alternatives');
+	});
+
+	it('reports registered tools the client did not offer without invalidating the thought', () => {
+		const result = validator.validate(thoughtWith(['search_web'], [{ tool_name: 'read_file' }]));
+
+		assert.equal(result?.valid, true);
+		assert.equal(result?.issues[0].type, 'unavailable_tool');
+	});
+
+	it('asks the injected matcher for capability alternatives on every validation', () => {
+		let similar = ['search_web'];
+		const matcher = { findSimilarTools: () => similar } as unknown as ToolCapabilityMatcher;
+		const shared = new ToolNameValidator(registry, {}, () => matcher);
+		const thought = thoughtWith(['search_web', 'sequentialthinking_tools'], [{ tool_name: 'read_file' }]);
+
+		assert.deepStrictEqual(shared.validate(thought)?.issues[0].suggestions, ['search_web']);
+		similar = ['sequentialthinking_tools'];
+		assert.deepStrictEqual(shared.validate(thought)?.issues[0].suggestions, ['sequentialthinking_tools']);
+	});
+
+	it('skips validation when there is nothing to compare against', () => {
+		const empty = new ToolNameValidator(new Map(), {});
+		assert.equal(empty.validate(thoughtWith([], [{ tool_name: 'anything' }])), undefined);
+		assert.equal(validator.validate(thoughtWith(['search_web'], [])), undefined);
+	});
+});
+
+describe('Tool validation in processThought', () => {
+	const input = {
+		...thoughtWith(['search_web'], [{ tool_name: 'serch_web' }]),
+		session_id: 'validation',
+	};
+
+	it('adds tool_validation to the payload and keeps unknown tools out of chains', async () => {
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			availableTools: [tool('search_web', 'Search the web for pages')],
+		});
+
+		const result = await server.processThought(input);
+		const payload = result.structuredContent as any;
+
+		assert.equal(result.isError, undefined);
+		assert.equal(payload.tool_validation.valid, false);
+		assert.deepStrictEqual(payload.tool_validation.issues[0].suggestions, ['search_web']);
+		assert.deepStrictEqual((server as any).toolChainLibrary.getCurrentChain('validation'), []);
+
+		server.shutdown();
+	});
+
+	it('rejects the thought in strict mode without recording it', async () => {
+		const server = new ToolAwareSequentialThinkingServer({
+			enablePersistence: false,
+			strictToolValidation: true,
+			availableTools: [tool('search_web', 'Search the web for pages')],
+		});
+
+		const result = await server.processThought(input);
+		const payload = result.structuredContent as any;
+
+		assert.equal(result.isError, true);
+		assert.equal(payload.status, 'rejected');
+		assert.equal(payload.errorCategory, 'ValidationError');
+		assert.equal(payload.tool_validation.issues[0].tool_name, 'serch_web');
+		assert.equal((server as any).sessions.get('validation').processor.getHistory().length, 0);
+
+		server.shutdown();
+	});
+});